@@ -7,13 +7,21 @@ import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
 import Tablets from "@/pages/tablets";
 import Students from "@/pages/students";
+import StudentProfile from "@/pages/student-profile";
 import Borrowing from "@/pages/borrowing";
 import Returns from "@/pages/returns";
 import Reports from "@/pages/reports";
+import Terms from "@/pages/terms";
+import Reservations from "@/pages/reservations";
+import Repairs from "@/pages/repairs";
+import Inventory from "@/pages/inventory";
+import Transfers from "@/pages/transfers";
+import Audit from "@/pages/audit";
 import DashboardLayout from "@/components/layout/dashboard-layout";
 import AdminLogin from "@/pages/admin-login";
 import AdminDashboard from "@/pages/admin-dashboard";
 import AdminChangePassword from "@/pages/admin-change-password";
+import AdminUsers from "@/pages/admin-users";
 import { useEffect } from "react";
 import { useLocation } from "wouter";
 
@@ -37,15 +45,23 @@ function Router() {
         <Route path="/admin/login" component={AdminLogin} />
         <Route path="/admin" component={AdminDashboard} />
         <Route path="/admin/change-password" component={AdminChangePassword} />
+        <Route path="/admin/users" component={AdminUsers} />
         <Route>
           <DashboardLayout>
             <Switch>
               <Route path="/" component={Dashboard} />
               <Route path="/tablets" component={Tablets} />
               <Route path="/students" component={Students} />
+              <Route path="/students/:id" component={StudentProfile} />
               <Route path="/borrowing" component={Borrowing} />
               <Route path="/returns" component={Returns} />
+              <Route path="/terms" component={Terms} />
+              <Route path="/reservations" component={Reservations} />
+              <Route path="/repairs" component={Repairs} />
+              <Route path="/inventory" component={Inventory} />
+              <Route path="/transfers" component={Transfers} />
               <Route path="/reports" component={Reports} />
+              <Route path="/audit" component={Audit} />
               <Route component={NotFound} />
             </Switch>
           </DashboardLayout>
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { AcademicTermWithStats } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Trash2 } from "lucide-react";
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+const emptyForm = { name: "", startDate: "", endDate: "" };
+
+export const formatTermDate = (value: string) => format(parseISO(value), "MMM d, yyyy");
+
+/**
+ * Semesters and school years borrowings are issued for. A new borrowing is due at the
+ * end of the term it falls in; terms cannot overlap.
+ */
+export function AcademicTerms() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: terms, isLoading } = useQuery<AcademicTermWithStats[]>({
+    queryKey: ['/api/terms'],
+  });
+
+  const canEdit = can("terms:manage");
+
+  const setField = (field: keyof typeof emptyForm, value: string) =>
+    setForm(current => ({ ...current, [field]: value }));
+
+  const handleEdit = (term: AcademicTermWithStats) => {
+    setEditingId(term.id);
+    setForm({ name: term.name, startDate: term.startDate, endDate: term.endDate });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      if (editingId !== null) {
+        await apiRequest("PUT", `/api/terms/${editingId}`, form);
+      } else {
+        await apiRequest("POST", "/api/terms", form);
+      }
+
+      toast({
+        title: "Term saved",
+        description: `${form.name} has been saved.`,
+      });
+      handleCancel();
+      queryClient.invalidateQueries({ queryKey: ['/api/terms'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save the academic term."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (term: AcademicTermWithStats) => {
+    try {
+      await apiRequest("DELETE", `/api/terms/${term.id}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/terms'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to delete the academic term."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner className="py-10" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {terms && terms.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Term</TableHead>
+              <TableHead>Starts</TableHead>
+              <TableHead>Ends</TableHead>
+              <TableHead className="text-right">Active</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              {canEdit && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {terms.map(term => (
+              <TableRow key={term.id}>
+                <TableCell className="font-medium">{term.name}</TableCell>
+                <TableCell>{formatTermDate(term.startDate)}</TableCell>
+                <TableCell>{formatTermDate(term.endDate)}</TableCell>
+                <TableCell className="text-right">{term.activeBorrowings}</TableCell>
+                <TableCell className="text-right">{term.totalBorrowings}</TableCell>
+                {canEdit && (
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(term)}>Edit</Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={term.totalBorrowings > 0}
+                      onClick={() => handleDelete(term)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-center py-6 text-gray-500">
+          No academic terms set up yet.
+        </p>
+      )}
+
+      {canEdit && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 items-end">
+          <div>
+            <Label htmlFor="term-name">Name</Label>
+            <Input id="term-name" placeholder="e.g. 2026-2027 1st Semester" value={form.name} onChange={(e) => setField("name", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="term-start">Start Date</Label>
+            <Input id="term-start" type="date" value={form.startDate} onChange={(e) => setField("startDate", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="term-end">End Date</Label>
+            <Input id="term-end" type="date" value={form.endDate} onChange={(e) => setField("endDate", e.target.value)} />
+          </div>
+          <p className="col-span-2 sm:col-span-3 text-xs text-slate-500">
+            Name terms the way students' academic year and term is recorded so enrollment can be matched.
+          </p>
+          <div className="col-span-2 sm:col-span-3 flex justify-end space-x-2">
+            {editingId !== null && (
+              <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+            )}
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || form.name.trim() === "" || form.startDate === "" || form.endDate === ""}
+            >
+              {isSaving ? "Saving..." : editingId !== null ? "Update Term" : "Add Term"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
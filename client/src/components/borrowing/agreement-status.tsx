@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AgreementStatus, BorrowRecordWithDetails } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { FileCheck, FilePlus, Printer, ShieldCheck, Upload } from "lucide-react";
+import { format } from "date-fns";
+
+export const agreementStatusLabels: Record<AgreementStatus, string> = {
+  missing: "Missing",
+  generated: "Awaiting signature",
+  signed: "Awaiting verification",
+  verified: "Verified",
+};
+
+// Get the agreement status badge color
+const getAgreementColor = (status: AgreementStatus) => {
+  switch (status) {
+    case "verified":
+      return "bg-green-100 text-green-800";
+    case "signed":
+      return "bg-blue-100 text-blue-800";
+    case "generated":
+      return "bg-yellow-100 text-yellow-800";
+    default:
+      return "bg-red-100 text-red-800";
+  }
+};
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+export function AgreementStatusBadge({ status }: { status: AgreementStatus }) {
+  return (
+    <Badge className={getAgreementColor(status)} variant="outline">
+      {agreementStatusLabels[status]}
+    </Badge>
+  );
+}
+
+interface AgreementPanelProps {
+  borrowRecordId: number;
+}
+
+/**
+ * Print the agreement, attach the signed scan and verify it
+ */
+export function AgreementPanel({ borrowRecordId }: AgreementPanelProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [file, setFile] = useState<File | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const { data: record, isLoading } = useQuery<BorrowRecordWithDetails>({
+    queryKey: [`/api/borrow-records/${borrowRecordId}`],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/borrow-records/${borrowRecordId}`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/borrow-records'] });
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+    setIsUploading(true);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch(`/api/borrow-records/${borrowRecordId}/signed-agreement`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+
+      toast({
+        title: "Signed agreement uploaded",
+        description: "A supervisor must verify it before the borrowing is complete.",
+      });
+      setFile(null);
+      refresh();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to upload the signed agreement"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Only needed when the agreement could not be archived as the borrowing was created
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+
+    try {
+      await apiRequest("POST", `/api/borrow-records/${borrowRecordId}/agreement`);
+      refresh();
+      window.open(`/api/borrow-records/${borrowRecordId}/agreement`, "_blank");
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to generate the agreement"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+
+    try {
+      await apiRequest("POST", `/api/borrow-records/${borrowRecordId}/agreement/verify`);
+      toast({
+        title: "Agreement verified",
+        description: "The borrowing is now complete.",
+      });
+      refresh();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to verify the signed agreement"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (isLoading || !record) {
+    return <LoadingSpinner className="py-6" />;
+  }
+
+  const status = record.agreementStatus;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <FileCheck className="h-5 w-5 mr-2 text-slate-500" />
+          <span className="text-sm font-medium text-slate-900">Usufruct Agreement</span>
+        </div>
+        <AgreementStatusBadge status={status} />
+      </div>
+
+      {record.agreementSignedAt && (
+        <p className="text-sm text-slate-500">
+          Signed copy uploaded {format(new Date(record.agreementSignedAt), "MMM d, yyyy 'at' h:mm a")}
+          {record.agreementVerifiedAt && ` · verified ${format(new Date(record.agreementVerifiedAt), "MMM d, yyyy 'at' h:mm a")}`}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {record.usufructAgreementPath ? (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => window.open(`/api/borrow-records/${borrowRecordId}/agreement`, "_blank")}
+          >
+            <Printer className="mr-2 h-4 w-4" />
+            Print Agreement
+          </Button>
+        ) : can("borrowing:write") && (
+          <Button type="button" variant="outline" size="sm" onClick={handleGenerate} disabled={isGenerating}>
+            {isGenerating ? <LoadingSpinner size="sm" className="mr-2" /> : <FilePlus className="mr-2 h-4 w-4" />}
+            Generate Agreement
+          </Button>
+        )}
+        {record.signedAgreementPath && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => window.open(`/api/borrow-records/${borrowRecordId}/signed-agreement`, "_blank")}
+          >
+            View Signed Copy
+          </Button>
+        )}
+        {status === "signed" && can("agreements:verify") && (
+          <Button type="button" size="sm" onClick={handleVerify} disabled={isVerifying}>
+            {isVerifying ? <LoadingSpinner size="sm" className="mr-2" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+            Mark Verified
+          </Button>
+        )}
+      </div>
+
+      {status !== "verified" && can("borrowing:write") && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="file"
+            accept="application/pdf,image/*"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+          <Button type="button" size="sm" onClick={handleUpload} disabled={!file || isUploading}>
+            {isUploading ? <LoadingSpinner size="sm" className="mr-2" /> : <Upload className="mr-2 h-4 w-4" />}
+            Upload Signed Copy
+          </Button>
+        </div>
+      )}
+
+      {status === "signed" && !can("agreements:verify") && (
+        <p className="text-sm text-slate-500">A supervisor must verify the signed copy.</p>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
-import { useState, useRef } from "react";
+import { useEffect, useState } from "react";
 import { BorrowingSteps } from "./borrowing-steps";
 import { 
+  AcademicTerm,
   Student, 
   Tablet, 
   insertBorrowRecordSchema 
 } from "@shared/schema";
+import { termForDate } from "@shared/terms";
 import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
@@ -14,7 +16,6 @@ import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { Card } from "@/components/ui/card";
 import { generatePDF } from "@/lib/pdf";
-import UsufructAgreementPDF from './UsufructAgreementPDF';
 
 // Define the steps for the borrowing process
 export type BorrowingStep = "student" | "tablet" | "details" | "confirmation";
@@ -36,6 +37,7 @@ const borrowingFormSchema = z.object({
     required_error: "Please select the tablet condition",
   }),
   dateBorrowed: z.string().min(1, "Borrowing date is required"),
+  termId: z.number().nullable().optional(),
   expectedReturnDate: z.string().optional(),
   hasCharger: z.boolean().default(false),
   hasCable: z.boolean().default(false),
@@ -46,22 +48,24 @@ const borrowingFormSchema = z.object({
 export type BorrowingFormData = z.infer<typeof borrowingFormSchema>;
 
 interface BorrowingFormProps {
+  initialStudent?: Student; // Skips the student step, e.g. when started from a student's profile
   onComplete?: () => void;
 }
 
-export function BorrowingForm({ onComplete }: BorrowingFormProps) {
+export function BorrowingForm({ initialStudent, onComplete }: BorrowingFormProps) {
   const { toast } = useToast();
-  const [currentStep, setCurrentStep] = useState<BorrowingStep>("student");
-  const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
+  const [currentStep, setCurrentStep] = useState<BorrowingStep>(initialStudent ? "tablet" : "student");
+  const [selectedStudent, setSelectedStudent] = useState<Student | null>(initialStudent ?? null);
   const [selectedTablet, setSelectedTablet] = useState<Tablet | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [borrowSuccess, setBorrowSuccess] = useState(false);
-  const agreementRef = useRef<{ exportPDF: () => void }>(null);
+  const [borrowRecordId, setBorrowRecordId] = useState<number | null>(null);
   
   // Initialize form with validation
   const form = useForm<BorrowingFormData>({
     resolver: zodResolver(borrowingFormSchema),
     defaultValues: {
+      studentId: initialStudent?.id,
       dateBorrowed: new Date().toISOString().split('T')[0],
       hasCharger: false,
       hasCable: false,
@@ -69,6 +73,20 @@ export function BorrowingForm({ onComplete }: BorrowingFormProps) {
       condition: "Good",
     },
   });
+
+  const { data: terms } = useQuery<AcademicTerm[]>({
+    queryKey: ['/api/terms'],
+  });
+
+  // Start with the current term, due back at its end
+  useEffect(() => {
+    if (!terms || form.getValues().termId !== undefined) return;
+    const term = termForDate(terms, form.getValues().dateBorrowed);
+    form.setValue("termId", term?.id ?? null);
+    if (term && !form.getValues().expectedReturnDate) {
+      form.setValue("expectedReturnDate", term.endDate);
+    }
+  }, [terms, form]);
   
   // Handle student selection
   const handleStudentSelect = (student: Student) => {
@@ -106,6 +124,7 @@ export function BorrowingForm({ onComplete }: BorrowingFormProps) {
         studentId: data.studentId,
         dateBorrowed: new Date(data.dateBorrowed),
         expectedReturnDate: data.expectedReturnDate ? new Date(data.expectedReturnDate) : undefined,
+        termId: data.termId ?? null,
         accessories,
         condition: data.condition,
         notes: data.notes,
@@ -113,6 +132,7 @@ export function BorrowingForm({ onComplete }: BorrowingFormProps) {
       
       // Submit to the API
       const response = await apiRequest("POST", "/api/borrow-records", borrowRecord);
+      const createdRecord = await response.json();
       
       // Show success message
       toast({
@@ -120,7 +140,8 @@ export function BorrowingForm({ onComplete }: BorrowingFormProps) {
         description: "The tablet has been assigned to the student successfully.",
       });
       
-      // Update the UI
+      // Update the UI; the form stays open until the signed agreement is verified
+      setBorrowRecordId(createdRecord.id);
       setBorrowSuccess(true);
       
       // Invalidate queries
@@ -130,14 +151,8 @@ export function BorrowingForm({ onComplete }: BorrowingFormProps) {
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/recent-activity'] });
       
-      // Call completion callback
-      if (onComplete) {
-        onComplete();
-      }
-      
-      setTimeout(() => {
-        agreementRef.current?.exportPDF();
-      }, 1000);
+      // Open the agreement archived by the server for printing and signing
+      window.open(`/api/borrow-records/${createdRecord.id}/agreement`, "_blank");
     } catch (error) {
       console.error("Error submitting borrowing record:", error);
       // Get more details from the error
@@ -254,36 +269,9 @@ export function BorrowingForm({ onComplete }: BorrowingFormProps) {
         onTabletSelect={handleTabletSelect}
         isSubmitting={isSubmitting}
         borrowSuccess={borrowSuccess}
+        borrowRecordId={borrowRecordId}
+        onComplete={onComplete}
       />
-      {borrowSuccess && selectedStudent && selectedTablet && (
-        <>
-          <UsufructAgreementPDF
-            ref={agreementRef}
-            borrowDetails={{
-              dateBorrowedFormatted: new Date(form.getValues().dateBorrowed || Date.now()).toLocaleDateString(),
-            }}
-            student={{
-              fullName: selectedStudent.fullName || '',
-              age: typeof selectedStudent.age === 'number' ? selectedStudent.age : 0,
-              residenceAddress: selectedStudent.residenceAddress || '',
-              isMinor: typeof selectedStudent.age === 'number' ? selectedStudent.age < 18 : false,
-              guardianFullName: selectedStudent.guardianFullName || undefined,
-              guardianAddress: selectedStudent.guardianAddress || undefined,
-              programName: selectedStudent.programName || '',
-              collegeName: selectedStudent.collegeName || '',
-            }}
-            tablet={{
-              brand: selectedTablet.brand || '',
-              color: selectedTablet.color || '',
-              model: selectedTablet.model || '',
-              serialNumber: selectedTablet.serialNumber || '',
-            }}
-          />
-          <button onClick={() => agreementRef.current?.exportPDF()} className="btn btn-secondary mt-2">
-            Test Export PDF
-          </button>
-        </>
-      )}
     </Card>
   );
 }
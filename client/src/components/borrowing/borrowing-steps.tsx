@@ -1,5 +1,5 @@
 import { BorrowingStep, BorrowingFormData } from "./borrowing-form";
-import { Student, Tablet } from "@shared/schema";
+import { AcademicTerm, BorrowRecordWithDetails, Student, Tablet, TabletScanResult } from "@shared/schema";
 import { useForm, UseFormReturn } from "react-hook-form";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
@@ -38,6 +38,9 @@ import { Badge } from "@/components/ui/badge";
 import { useState } from "react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { format } from "date-fns";
+import { AgreementPanel } from "./agreement-status";
+import { ScanInput } from "@/components/tablets/scan-input";
+import { useToast } from "@/hooks/use-toast";
 
 interface BorrowingStepsProps {
   currentStep: BorrowingStep;
@@ -51,6 +54,8 @@ interface BorrowingStepsProps {
   onTabletSelect: (tablet: Tablet) => void;
   isSubmitting: boolean;
   borrowSuccess: boolean;
+  borrowRecordId: number | null;
+  onComplete?: () => void;
 }
 
 export function BorrowingSteps({
@@ -64,8 +69,11 @@ export function BorrowingSteps({
   onStudentSelect,
   onTabletSelect,
   isSubmitting,
-  borrowSuccess
+  borrowSuccess,
+  borrowRecordId,
+  onComplete
 }: BorrowingStepsProps) {
+  const { toast } = useToast();
   const [studentSearch, setStudentSearch] = useState("");
   const [tabletSearch, setTabletSearch] = useState("");
   
@@ -77,6 +85,25 @@ export function BorrowingSteps({
   const { data: tablets, isLoading: isLoadingTablets } = useQuery({
     queryKey: ['/api/tablets/available'],
   });
+
+  const { data: terms } = useQuery<AcademicTerm[]>({
+    queryKey: ['/api/terms'],
+  });
+
+  // Choosing a term moves the expected return to the end of that term
+  const handleTermChange = (value: string) => {
+    const term = terms?.find(t => t.id.toString() === value);
+    if (!term) return;
+    form.setValue("termId", term.id);
+    form.setValue("expectedReturnDate", term.endDate, { shouldValidate: true });
+  };
+
+  // The borrowing is only complete once a supervisor has verified the signed agreement
+  const { data: borrowRecord } = useQuery<BorrowRecordWithDetails>({
+    queryKey: [`/api/borrow-records/${borrowRecordId}`],
+    enabled: borrowRecordId !== null,
+  });
+  const isComplete = borrowRecord?.agreementStatus === "verified";
   
   // Filter students based on search
   const filteredStudents = students?.filter((student: Student) => {
@@ -95,6 +122,25 @@ export function BorrowingSteps({
     );
   });
   
+  // Select a scanned tablet, as long as it can be lent out
+  const handleTabletScan = (tablet: TabletScanResult) => {
+    if (!tablet.isAvailable) {
+      toast({
+        title: "Tablet not available",
+        description: tablet.currentBorrower
+          ? `${tablet.serialNumber} is currently borrowed by ${tablet.currentBorrower.studentName}.`
+          : tablet.status !== "Serviceable"
+            ? `${tablet.serialNumber} is marked ${tablet.status}.`
+            : `${tablet.serialNumber} is held for a reservation.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setTabletSearch(tablet.serialNumber);
+    onTabletSelect(tablet);
+  };
+  
   // Filter tablets based on search
   const filteredTablets = tablets?.filter((tablet: Tablet) => {
     if (!tabletSearch) return true;
@@ -128,7 +174,7 @@ export function BorrowingSteps({
               const isPast = 
                 (currentStep === "tablet" && step.id === "student") ||
                 (currentStep === "details" && (step.id === "student" || step.id === "tablet")) ||
-                (currentStep === "confirmation" && step.id !== "confirmation");
+                (currentStep === "confirmation" && (step.id !== "confirmation" || isComplete));
               
               return (
                 <li key={step.id} className="relative md:flex-1 md:flex">
@@ -309,6 +355,8 @@ export function BorrowingSteps({
                   )}
                 </div>
                 
+                <ScanInput className="mb-3" onScan={handleTabletScan} />
+                
                 <div className="mb-4">
                   <div className="relative rounded-md shadow-sm">
                     <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -411,6 +459,33 @@ export function BorrowingSteps({
                 <div className="bg-white overflow-hidden border border-slate-200 rounded-lg mb-6">
                   <div className="px-4 py-5 sm:p-6">
                     <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
+                      {terms && terms.length > 0 && (
+                        <FormField
+                          control={form.control}
+                          name="termId"
+                          render={({ field }) => (
+                            <FormItem className="sm:col-span-6">
+                              <FormLabel>Academic Term</FormLabel>
+                              <Select value={field.value ? field.value.toString() : undefined} onValueChange={handleTermChange}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select the term" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {terms.map(term => (
+                                    <SelectItem key={term.id} value={term.id.toString()}>
+                                      {term.name} (ends {format(new Date(`${term.endDate}T00:00:00`), "MMM d, yyyy")})
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+
                       <FormField
                         control={form.control}
                         name="dateBorrowed"
@@ -435,7 +510,7 @@ export function BorrowingSteps({
                               <Input type="date" {...field} value={field.value || ""} />
                             </FormControl>
                             <FormDescription>
-                              Optional: When the tablet is expected to be returned
+                              Defaults to the end of the academic term
                             </FormDescription>
                             <FormMessage />
                           </FormItem>
@@ -574,7 +649,7 @@ export function BorrowingSteps({
                   <h3 className="text-lg font-medium text-slate-900">Confirm Borrowing</h3>
                 </div>
                 
-                {borrowSuccess ? (
+                {borrowSuccess && isComplete ? (
                   <Alert className="bg-green-50 border-green-200 mb-6">
                     <div className="flex">
                       <div className="flex-shrink-0">
@@ -585,8 +660,24 @@ export function BorrowingSteps({
                           Borrowing completed successfully
                         </AlertTitle>
                         <AlertDescription className="mt-2 text-sm text-green-700">
-                          The tablet has been assigned to the student and the borrowing record has been created.
-                          A PDF agreement has been downloaded for printing.
+                          The tablet has been assigned to the student and the signed agreement has been verified.
+                        </AlertDescription>
+                      </div>
+                    </div>
+                  </Alert>
+                ) : borrowSuccess ? (
+                  <Alert className="bg-amber-50 border-amber-300 mb-6">
+                    <div className="flex">
+                      <div className="flex-shrink-0">
+                        <FileCheck className="h-5 w-5 text-amber-700" />
+                      </div>
+                      <div className="ml-3">
+                        <AlertTitle className="text-lg font-medium text-amber-800">
+                          Waiting for the signed agreement
+                        </AlertTitle>
+                        <AlertDescription className="mt-2 text-sm text-amber-700">
+                          The tablet has been assigned to the student. Print the agreement, upload the signed copy
+                          and have a supervisor verify it to complete the borrowing.
                         </AlertDescription>
                       </div>
                     </div>
@@ -609,6 +700,12 @@ export function BorrowingSteps({
                   </Alert>
                 )}
                 
+                {borrowSuccess && borrowRecordId !== null && (
+                  <div className="bg-white overflow-hidden shadow rounded-lg mb-6 px-4 py-5 sm:p-6">
+                    <AgreementPanel borrowRecordId={borrowRecordId} />
+                  </div>
+                )}
+                
                 <div className="bg-white overflow-hidden shadow rounded-lg mb-6">
                   <div className="px-4 py-5 sm:px-6 border-b border-slate-200">
                     <h3 className="text-lg leading-6 font-medium text-slate-900">Borrowing Summary</h3>
@@ -646,6 +743,14 @@ export function BorrowingSteps({
                           {form.getValues().dateBorrowed && format(new Date(form.getValues().dateBorrowed), "MMMM d, yyyy")}
                         </dd>
                       </div>
+                      {form.getValues().termId && (
+                        <div className="sm:col-span-2">
+                          <dt className="text-sm font-medium text-slate-500">Academic Term</dt>
+                          <dd className="mt-1 text-sm text-slate-900">
+                            {terms?.find(term => term.id === form.getValues().termId)?.name}
+                          </dd>
+                        </div>
+                      )}
                       <div className="sm:col-span-1">
                         <dt className="text-sm font-medium text-slate-500">Expected Return Date</dt>
                         <dd className="mt-1 text-sm text-slate-900">
@@ -703,6 +808,29 @@ export function BorrowingSteps({
                 </Button>
               )}
               
+              {borrowSuccess && onComplete && (
+                <>
+                  <Button
+                    type="button"
+                    onClick={onComplete}
+                    disabled={!isComplete}
+                    className="w-full sm:ml-3 sm:w-auto"
+                  >
+                    Finish
+                  </Button>
+                  {!isComplete && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={onComplete}
+                      className="mt-3 w-full sm:mt-0 sm:w-auto"
+                    >
+                      Finish Later
+                    </Button>
+                  )}
+                </>
+              )}
+              
               {currentStep !== "student" && !borrowSuccess && (
                 <Button
                   type="button"
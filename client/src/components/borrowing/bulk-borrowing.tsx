@@ -0,0 +1,493 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  AcademicTerm,
+  BulkBorrowCsvRow,
+  BulkBorrowIssue,
+  BulkBorrowResult,
+  Student,
+  StudentWithBorrowInfo,
+  Tablet,
+  TabletScanResult,
+  tabletConditionEnum,
+} from "@shared/schema";
+import { termForDate } from "@shared/terms";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScanInput } from "@/components/tablets/scan-input";
+import { Download, Printer, Shuffle, Upload, X } from "lucide-react";
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+// The per-pair problems the server reports when it refuses a batch
+const getIssues = (err: unknown): BulkBorrowIssue[] => {
+  if (!(err instanceof Error)) return [];
+  try {
+    return JSON.parse(err.message.replace(/^\d+:\s*/, "")).issues ?? [];
+  } catch {
+    return [];
+  }
+};
+
+type DistributionRow = {
+  student: Student;
+  tablet: Tablet | null;
+  issue?: string;
+};
+
+const studentName = (student: Student) => student.fullName || `${student.firstName} ${student.lastName}`;
+
+interface BulkBorrowingProps {
+  onComplete: () => void;
+}
+
+/**
+ * Distribution-day mode: build a list of students from a filter or an uploaded CSV, pair each with
+ * a tablet from the available pool (automatically or by scanning), and lend the whole batch at once.
+ */
+export function BulkBorrowing({ onComplete }: BulkBorrowingProps) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<DistributionRow[]>([]);
+  const [search, setSearch] = useState("");
+  const [program, setProgram] = useState("all");
+  const [yearLevel, setYearLevel] = useState("all");
+  const [file, setFile] = useState<File | null>(null);
+  const [csvErrors, setCsvErrors] = useState<string[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [dateBorrowed, setDateBorrowed] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [termId, setTermId] = useState("");
+  const [expectedReturnDate, setExpectedReturnDate] = useState("");
+  const [condition, setCondition] = useState("recorded");
+  const [accessories, setAccessories] = useState({ charger: true, cable: true, box: false });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [createdIds, setCreatedIds] = useState<number[]>([]);
+
+  const { data: students } = useQuery<StudentWithBorrowInfo[]>({
+    queryKey: ['/api/students'],
+  });
+
+  const { data: availableTablets } = useQuery<Tablet[]>({
+    queryKey: ['/api/tablets/available'],
+  });
+
+  const { data: terms } = useQuery<AcademicTerm[]>({
+    queryKey: ['/api/terms'],
+  });
+
+  // Default to the current term and its end date once terms load
+  useEffect(() => {
+    if (!terms || termId !== "") return;
+    const current = termForDate(terms, dateBorrowed);
+    if (current) {
+      setTermId(current.id.toString());
+      setExpectedReturnDate(current.endDate);
+    }
+  }, [terms]);
+
+  const listedIds = new Set(rows.map(row => row.student.id));
+  const pairedTabletIds = new Set(rows.map(row => row.tablet?.id).filter(Boolean));
+  const pool = (availableTablets || [])
+    .filter(tablet => !pairedTabletIds.has(tablet.id))
+    .sort((a, b) => a.serialNumber.localeCompare(b.serialNumber));
+
+  const programs = Array.from(new Set((students || []).map(student => student.programName))).sort();
+  const query = search.trim().toLowerCase();
+  // Only students without a tablet on loan can take part in a distribution
+  const eligible = (students || []).filter(student =>
+    student.activeBorrowings === 0 &&
+    !listedIds.has(student.id) &&
+    (program === "all" || student.programName === program) &&
+    (yearLevel === "all" || student.yearLevel.toString() === yearLevel) &&
+    (!query || `${student.studentId} ${studentName(student)}`.toLowerCase().includes(query))
+  );
+
+  const addStudents = (list: Student[]) => {
+    setRows(current => [...current, ...list.map(student => ({ student, tablet: null }))]);
+  };
+
+  const updateRow = (index: number, changes: Partial<DistributionRow>) => {
+    setRows(current => current.map((row, i) => i === index ? { ...row, ...changes, issue: undefined } : row));
+  };
+
+  const removeRow = (index: number) => {
+    setRows(current => current.filter((_, i) => i !== index));
+  };
+
+  const handleAutoPair = () => {
+    const remaining = [...pool];
+    setRows(current => current.map(row => row.tablet ? row : { ...row, tablet: remaining.shift() ?? null, issue: undefined }));
+  };
+
+  // A scanned tablet goes to the first student still waiting for one
+  const handleScan = (tablet: TabletScanResult) => {
+    if (!tablet.isAvailable) {
+      toast({
+        title: "Tablet not available",
+        description: `${tablet.serialNumber} cannot be lent right now.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (pairedTabletIds.has(tablet.id)) {
+      toast({
+        title: "Already paired",
+        description: `${tablet.serialNumber} is already in this batch.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const index = rows.findIndex(row => !row.tablet);
+    if (index === -1) {
+      toast({
+        title: "Everyone has a tablet",
+        description: "Add more students before scanning more tablets.",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateRow(index, { tablet });
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+    setIsUploading(true);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/borrow-records/bulk/csv", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+
+      const csvRows: BulkBorrowCsvRow[] = await response.json();
+      const matched = csvRows.filter(row => !row.error && row.student && !listedIds.has(row.student.id));
+      setRows(current => [...current, ...matched.map(row => ({ student: row.student!, tablet: row.tablet }))]);
+      setCsvErrors(csvRows.filter(row => row.error).map(row => `Row ${row.row}: ${row.error}`));
+      setFile(null);
+      toast({
+        title: "Distribution list loaded",
+        description: `${matched.length} student(s) added to the batch.`,
+      });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to read the distribution list"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleTermChange = (value: string) => {
+    setTermId(value);
+    const term = terms?.find(t => t.id.toString() === value);
+    if (term) setExpectedReturnDate(term.endDate);
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const response = await apiRequest("POST", "/api/borrow-records/bulk", {
+        pairs: rows.map(row => ({ studentId: row.student.id, tabletId: row.tablet!.id })),
+        dateBorrowed,
+        expectedReturnDate: expectedReturnDate || null,
+        termId: termId ? Number(termId) : null,
+        condition: condition === "recorded" ? undefined : condition,
+        accessories,
+      });
+      const result: BulkBorrowResult = await response.json();
+
+      setCreatedIds(result.created.map(record => record.id));
+      queryClient.invalidateQueries({ queryKey: ['/api/borrow-records'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tablets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/students'] });
+      toast({
+        title: "Tablets distributed",
+        description: `${result.created.length} borrowing(s) recorded.`,
+      });
+    } catch (err) {
+      const issues = getIssues(err);
+      if (issues.length > 0) {
+        setRows(current => current.map((row, index) => ({
+          ...row,
+          issue: issues.find(issue => issue.index === index)?.message,
+        })));
+      }
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to lend the batch"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (createdIds.length > 0) {
+    return (
+      <Card>
+        <CardContent className="py-10 text-center space-y-4">
+          <h3 className="text-lg font-medium text-slate-900">{createdIds.length} tablets distributed</h3>
+          <p className="text-sm text-slate-500">
+            Print the usufruct agreements for every student in the batch as one document.
+          </p>
+          <div className="flex justify-center space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => window.open(`/api/borrow-records/agreements?ids=${createdIds.join(",")}`, "_blank")}
+            >
+              <Printer className="mr-2 h-4 w-4" />
+              Print Agreements
+            </Button>
+            <Button onClick={onComplete}>Done</Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const unpaired = rows.filter(row => !row.tablet).length;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">1. Students</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="list">
+            <TabsList>
+              <TabsTrigger value="list">Student List</TabsTrigger>
+              <TabsTrigger value="csv">CSV Upload</TabsTrigger>
+            </TabsList>
+            <TabsContent value="list" className="space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <Input placeholder="Search by name or Student No..." value={search} onChange={e => setSearch(e.target.value)} />
+                <Select value={program} onValueChange={setProgram}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All programs</SelectItem>
+                    {programs.map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={yearLevel} onValueChange={setYearLevel}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All year levels</SelectItem>
+                    {[1, 2, 3, 4, 5].map(level => (
+                      <SelectItem key={level} value={level.toString()}>Year {level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-slate-500">{eligible.length} student(s) without a tablet match</span>
+                <Button variant="outline" size="sm" onClick={() => addStudents(eligible)} disabled={eligible.length === 0}>
+                  Add All to Batch
+                </Button>
+              </div>
+            </TabsContent>
+            <TabsContent value="csv" className="space-y-3">
+              <p className="text-sm text-slate-500">
+                One row per student with a <code>studentId</code> column and an optional <code>serialNumber</code> to
+                pair a specific tablet. Students without a serial number are paired from the pool.
+              </p>
+              <div className="flex items-center space-x-2">
+                <Input type="file" accept=".csv" onChange={e => setFile(e.target.files?.[0] ?? null)} />
+                <Button onClick={handleUpload} disabled={!file || isUploading}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  {isUploading ? "Reading..." : "Load"}
+                </Button>
+                <Button variant="outline" onClick={() => window.open("/api/templates/bulk-borrowing", "_blank")}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Template
+                </Button>
+              </div>
+              {csvErrors.length > 0 && (
+                <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 max-h-32 overflow-y-auto">
+                  {csvErrors.map(error => <div key={error}>{error}</div>)}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg">2. Pair Tablets</CardTitle>
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-slate-500">{pool.length} available</span>
+            <Button variant="outline" size="sm" onClick={handleAutoPair} disabled={unpaired === 0 || pool.length === 0}>
+              <Shuffle className="mr-2 h-4 w-4" />
+              Auto-pair
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <ScanInput onScan={handleScan} placeholder="Scan a tablet to give it to the next student without one..." />
+          {rows.length > 0 ? (
+            <div className="max-h-[50vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Student</TableHead>
+                    <TableHead>Program</TableHead>
+                    <TableHead>Tablet</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow key={row.student.id} className={row.issue ? "bg-red-50" : undefined}>
+                      <TableCell>
+                        <div className="font-medium">{studentName(row.student)}</div>
+                        <div className="text-xs text-slate-500">{row.student.studentId}</div>
+                        {row.issue && <div className="text-xs text-red-600">{row.issue}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm">{row.student.programName} {row.student.yearLevel}</TableCell>
+                      <TableCell>
+                        {row.tablet ? (
+                          <div className="flex items-center">
+                            <span className="font-medium mr-2">{row.tablet.serialNumber}</span>
+                            <span className="text-sm text-slate-500">{row.tablet.brand} {row.tablet.model}</span>
+                            <Button variant="ghost" size="sm" onClick={() => updateRow(index, { tablet: null })}>
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <span className="text-sm text-slate-400">Not paired</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => removeRow(index)}>Remove</Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-center py-6 text-gray-500">
+              Add students from the list or a CSV to start the batch.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">3. Borrowing Details</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="bulk-date-borrowed" className="mb-1 block">Borrowing Date</Label>
+            <Input id="bulk-date-borrowed" type="date" value={dateBorrowed} onChange={e => setDateBorrowed(e.target.value)} />
+          </div>
+          {terms && terms.length > 0 && (
+            <div>
+              <Label className="mb-1 block">Academic Term</Label>
+              <Select value={termId} onValueChange={handleTermChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select the term" />
+                </SelectTrigger>
+                <SelectContent>
+                  {terms.map(term => (
+                    <SelectItem key={term.id} value={term.id.toString()}>{term.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="bulk-expected-return" className="mb-1 block">Expected Return Date</Label>
+            <Input id="bulk-expected-return" type="date" value={expectedReturnDate} onChange={e => setExpectedReturnDate(e.target.value)} />
+          </div>
+          <div>
+            <Label className="mb-1 block">Condition</Label>
+            <Select value={condition} onValueChange={setCondition}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="recorded">Each tablet's recorded condition</SelectItem>
+                {tabletConditionEnum.enumValues.map(value => (
+                  <SelectItem key={value} value={value}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="sm:col-span-2 flex items-center space-x-6">
+            {(["charger", "cable", "box"] as const).map(accessory => (
+              <label key={accessory} className="flex items-center text-sm capitalize cursor-pointer">
+                <Checkbox
+                  checked={accessories[accessory]}
+                  onCheckedChange={(checked) => setAccessories({ ...accessories, [accessory]: checked === true })}
+                  className="mr-2"
+                />
+                {accessory}
+              </label>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-end space-x-3">
+        {unpaired > 0 && (
+          <span className="text-sm text-slate-500">{unpaired} student(s) still need a tablet</span>
+        )}
+        <Button variant="outline" onClick={onComplete}>Cancel</Button>
+        <Button onClick={handleSubmit} disabled={isSubmitting || rows.length === 0 || unpaired > 0 || !dateBorrowed}>
+          {isSubmitting ? "Lending..." : `Lend ${rows.length} Tablet(s)`}
+        </Button>
+      </div>
+    </div>
+  );
+}
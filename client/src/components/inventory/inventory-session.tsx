@@ -0,0 +1,391 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  InventoryDiscrepancyType,
+  InventorySessionWithDetails,
+  TabletCondition,
+  TabletScanResult,
+  TabletWithBorrowInfo,
+  tabletConditionEnum,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { exportToCSV } from "@/lib/csv";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScanInput } from "@/components/tablets/scan-input";
+import { ArrowLeft, CheckCircle2, Download } from "lucide-react";
+import { format } from "date-fns";
+
+export const discrepancyLabels: Record<InventoryDiscrepancyType, string> = {
+  missing: "Missing from shelf",
+  found_borrowed: "Found but recorded as borrowed",
+  found_lost: "Found but recorded as Lost",
+  condition_mismatch: "Condition differs",
+};
+
+const discrepancyColors: Record<InventoryDiscrepancyType, string> = {
+  missing: "bg-red-100 text-red-800",
+  found_borrowed: "bg-orange-100 text-orange-800",
+  found_lost: "bg-purple-100 text-purple-800",
+  condition_mismatch: "bg-amber-100 text-amber-800",
+};
+
+// Select value for a count that leaves the condition unassessed
+const AS_RECORDED = "as-recorded";
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+interface InventorySessionViewProps {
+  sessionId: number;
+  onBack: () => void;
+}
+
+/**
+ * Count tablets for one stock-take and reconcile them against the records
+ */
+export function InventorySessionView({ sessionId, onBack }: InventorySessionViewProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [search, setSearch] = useState("");
+  const [scanCondition, setScanCondition] = useState(AS_RECORDED);
+  const [isCompleting, setIsCompleting] = useState(false);
+
+  const { data: session, isLoading } = useQuery<InventorySessionWithDetails>({
+    queryKey: [`/api/inventory-sessions/${sessionId}`],
+  });
+
+  const { data: tablets } = useQuery<TabletWithBorrowInfo[]>({
+    queryKey: ['/api/tablets'],
+  });
+
+  if (isLoading || !session) {
+    return <LoadingSpinner className="py-10" size="lg" />;
+  }
+
+  const isOpen = session.status === "Open" && can("inventory:write");
+  const countMap = new Map(session.counts.map(count => [count.tabletId, count]));
+  const { reconciliation } = session;
+  const discrepancyTotal = (type: InventoryDiscrepancyType) =>
+    reconciliation.discrepancies.filter(item => item.type === type).length;
+
+  const refreshSession = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/inventory-sessions/${sessionId}`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/inventory-sessions'] });
+  };
+
+  const saveCount = async (tabletId: number, conditionFound: TabletCondition | null) => {
+    try {
+      await apiRequest("POST", `/api/inventory-sessions/${sessionId}/counts`, { tabletId, conditionFound });
+      refreshSession();
+      return true;
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to record the count"),
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const removeCount = async (tabletId: number) => {
+    try {
+      await apiRequest("DELETE", `/api/inventory-sessions/${sessionId}/counts/${tabletId}`);
+      refreshSession();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to remove the count"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleScan = async (tablet: TabletScanResult) => {
+    const saved = await saveCount(tablet.id, scanCondition === AS_RECORDED ? null : scanCondition as TabletCondition);
+    if (!saved) return;
+
+    toast({
+      title: countMap.has(tablet.id) ? "Already counted" : "Tablet counted",
+      description: `${tablet.brand} ${tablet.model} · SN: ${tablet.serialNumber}`,
+    });
+  };
+
+  const handleComplete = async () => {
+    setIsCompleting(true);
+
+    try {
+      await apiRequest("POST", `/api/inventory-sessions/${sessionId}/complete`);
+      toast({
+        title: "Stock-take completed",
+        description: "The reconciliation has been saved.",
+      });
+      refreshSession();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to complete the stock-take"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsCompleting(false);
+    }
+  };
+
+  const handleExport = () => {
+    const data = reconciliation.discrepancies.map(item => ({
+      "Discrepancy": discrepancyLabels[item.type],
+      "Serial Number": item.serialNumber,
+      "Brand": item.brand,
+      "Model": item.model,
+      "Recorded Status": item.recordedStatus,
+      "Recorded Condition": item.recordedCondition,
+      "Condition Found": item.conditionFound ?? "",
+      "Borrowed By": item.borrowerName ?? "",
+    }));
+
+    const slug = session.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    exportToCSV(data, `stock-take-${slug || session.id}-${format(new Date(), "yyyy-MM-dd")}`);
+  };
+
+  // The checklist covers every tablet while counting; afterwards only what was counted
+  const checklistTablets: TabletWithBorrowInfo[] =
+    session.status === "Open" ? tablets ?? [] : session.counts.map(count => count.tablet);
+  const checklist = checklistTablets
+    .filter(tablet => {
+      if (!search) return true;
+      const searchLower = search.toLowerCase();
+      return (
+        tablet.serialNumber.toLowerCase().includes(searchLower) ||
+        (tablet.imei ?? "").toLowerCase().includes(searchLower) ||
+        `${tablet.brand} ${tablet.model}`.toLowerCase().includes(searchLower)
+      );
+    });
+
+  const summary = [
+    { label: "Expected on hand", value: reconciliation.expectedOnHand },
+    { label: "Counted", value: reconciliation.found },
+    { label: "Missing", value: discrepancyTotal("missing") },
+    { label: "Found borrowed", value: discrepancyTotal("found_borrowed") },
+    { label: "Found Lost", value: discrepancyTotal("found_lost") },
+    { label: "Condition differs", value: discrepancyTotal("condition_mismatch") },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" onClick={onBack}>
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Sessions
+          </Button>
+          <div>
+            <h2 className="text-lg font-medium text-slate-900">{session.name}</h2>
+            <p className="text-sm text-slate-500">
+              Started {format(new Date(session.createdAt), "MMM d, yyyy")}
+              {session.completedAt && ` · Completed ${format(new Date(session.completedAt), "MMM d, yyyy 'at' h:mm a")}`}
+            </p>
+          </div>
+          <Badge
+            className={session.status === "Open" ? "bg-blue-100 text-blue-800" : "bg-green-100 text-green-800"}
+            variant="outline"
+          >
+            {session.status}
+          </Badge>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={reconciliation.discrepancies.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+          {isOpen && (
+            <Button size="sm" onClick={handleComplete} disabled={isCompleting}>
+              {isCompleting ? <LoadingSpinner size="sm" className="mr-2" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
+              Complete Stock-Take
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+        {summary.map(item => (
+          <Card key={item.label}>
+            <CardContent className="p-4">
+              <p className="text-sm font-medium text-gray-500">{item.label}</p>
+              <p className="mt-1 text-2xl font-semibold text-gray-900">{item.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {isOpen && (
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+          <div className="sm:col-span-3">
+            <Label className="mb-1 block">Scan</Label>
+            <ScanInput onScan={handleScan} />
+          </div>
+          <div>
+            <Label className="mb-1 block">Condition found</Label>
+            <Select value={scanCondition} onValueChange={setScanCondition}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AS_RECORDED}>Not assessed</SelectItem>
+                {tabletConditionEnum.enumValues.map(condition => (
+                  <SelectItem key={condition} value={condition}>{condition}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      <Tabs defaultValue={session.status === "Open" ? "checklist" : "reconciliation"}>
+        <TabsList>
+          <TabsTrigger value="checklist">Checklist</TabsTrigger>
+          <TabsTrigger value="reconciliation">
+            Reconciliation ({reconciliation.discrepancies.length})
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="checklist" className="space-y-4">
+          <Input
+            placeholder="Filter by serial number, IMEI or model..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">Found</TableHead>
+                  <TableHead>Tablet</TableHead>
+                  <TableHead>Recorded</TableHead>
+                  <TableHead>Condition Found</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {checklist.map(tablet => {
+                  const count = countMap.get(tablet.id);
+                  return (
+                    <TableRow key={tablet.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={!!count}
+                          disabled={!isOpen}
+                          onCheckedChange={(checked) => checked ? saveCount(tablet.id, null) : removeCount(tablet.id)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{tablet.brand} {tablet.model}</div>
+                        <div className="text-sm text-gray-500">SN: {tablet.serialNumber}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>{tablet.status} · {tablet.condition}</div>
+                        {tablet.currentBorrower && <div className="text-xs text-gray-500">With {tablet.currentBorrower.studentName}</div>}
+                      </TableCell>
+                      <TableCell>
+                        {count && (
+                          <Select
+                            value={count.conditionFound ?? AS_RECORDED}
+                            onValueChange={(value) => saveCount(tablet.id, value === AS_RECORDED ? null : value as TabletCondition)}
+                            disabled={!isOpen}
+                          >
+                            <SelectTrigger className="w-44">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={AS_RECORDED}>Not assessed</SelectItem>
+                              {tabletConditionEnum.enumValues.map(condition => (
+                                <SelectItem key={condition} value={condition}>{condition}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="reconciliation">
+          {reconciliation.discrepancies.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Discrepancy</TableHead>
+                  <TableHead>Tablet</TableHead>
+                  <TableHead>Recorded</TableHead>
+                  <TableHead>Found</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reconciliation.discrepancies.map(item => (
+                  <TableRow key={`${item.type}-${item.tabletId}`}>
+                    <TableCell>
+                      <Badge className={discrepancyColors[item.type]} variant="outline">
+                        {discrepancyLabels[item.type]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{item.brand} {item.model}</div>
+                      <div className="text-sm text-gray-500">SN: {item.serialNumber}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{item.recordedStatus} · {item.recordedCondition}</div>
+                      {item.borrowerName && <div className="text-xs text-gray-500">With {item.borrowerName}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {item.type === "missing" ? "Not found" : item.conditionFound ?? "Condition not assessed"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center py-6 text-gray-500">
+              {reconciliation.found === 0 ? "No tablets have been counted yet." : "The shelf count matches the records."}
+            </p>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
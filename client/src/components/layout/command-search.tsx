@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { GlobalSearchResults, Tablet } from "@shared/schema";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { TabletDetail } from "@/components/tablets/tablet-detail";
+import { useAuth } from "@/hooks/use-auth";
+import { navItems } from "./sidebar";
+import { HandHelping, Tablet as TabletIcon, User } from "lucide-react";
+
+interface CommandSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Command palette for finding a student, tablet or borrowing from any page. Matches come
+ * from the server; students and borrowings open the student's profile, tablets open their
+ * details over the current page.
+ */
+export function CommandSearch({ open, onOpenChange }: CommandSearchProps) {
+  const [, navigate] = useLocation();
+  const { can } = useAuth();
+  const [term, setTerm] = useState("");
+  const [debouncedTerm, setDebouncedTerm] = useState("");
+  const [tablet, setTablet] = useState<Tablet | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedTerm(term.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [term]);
+
+  const { data: results, isFetching } = useQuery<GlobalSearchResults>({
+    queryKey: ["/api/search", debouncedTerm],
+    queryFn: async () => {
+      const response = await fetch(`/api/search?q=${encodeURIComponent(debouncedTerm)}`);
+      if (!response.ok) throw new Error("Failed to search");
+      return response.json();
+    },
+    enabled: open && can("students:read") && debouncedTerm.length >= 2,
+    placeholderData: keepPreviousData,
+  });
+
+  const pages = navItems.filter(item =>
+    can(item.permission) && term.trim() !== "" && item.label.toLowerCase().includes(term.trim().toLowerCase())
+  );
+  const hasSearched = debouncedTerm.length >= 2 && results !== undefined;
+
+  const close = () => {
+    onOpenChange(false);
+    setTerm("");
+  };
+
+  const goTo = (href: string) => {
+    close();
+    navigate(href);
+  };
+
+  const showTablet = (selected: Tablet) => {
+    close();
+    setTablet(selected);
+  };
+
+  return (
+    <>
+      <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+        <CommandInput
+          placeholder="Search students, guardians, tablets or borrowings..."
+          value={term}
+          onValueChange={setTerm}
+        />
+        <CommandList>
+          <CommandEmpty>
+            {debouncedTerm.length < 2 ? "Type at least two characters." : isFetching ? "Searching..." : "No matches found."}
+          </CommandEmpty>
+
+          {pages.length > 0 && (
+            <CommandGroup heading="Pages">
+              {pages.map(item => (
+                <CommandItem key={item.href} value={`page-${item.href}`} onSelect={() => goTo(item.href)}>
+                  <item.icon className="mr-2" />
+                  {item.label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {hasSearched && results.students.length > 0 && (
+            <CommandGroup heading="Students">
+              {results.students.map(match => (
+                <CommandItem key={match.id} value={`student-${match.id}`} onSelect={() => goTo(`/students/${match.id}`)}>
+                  <User className="mr-2" />
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate">{match.fullName}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {match.studentId} · {match.programCode} {match.yearLevel}
+                      {match.guardianFullName && ` · Guardian: ${match.guardianFullName}`}
+                    </div>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {hasSearched && results.tablets.length > 0 && (
+            <CommandGroup heading="Tablets">
+              {results.tablets.map(match => (
+                <CommandItem key={match.id} value={`tablet-${match.id}`} onSelect={() => showTablet(match)}>
+                  <TabletIcon className="mr-2" />
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate">{match.serialNumber}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {match.brand} {match.model}{match.imei && ` · IMEI ${match.imei}`} · {match.status}
+                    </div>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {hasSearched && results.borrowRecords.length > 0 && (
+            <CommandGroup heading="Borrowings">
+              {results.borrowRecords.map(record => (
+                <CommandItem key={record.id} value={`borrowing-${record.id}`} onSelect={() => goTo(`/students/${record.studentId}`)}>
+                  <HandHelping className="mr-2" />
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate">
+                      {record.student.fullName} · {record.tablet.serialNumber}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      Borrowed {format(new Date(record.dateBorrowed), "MMM d, yyyy")}
+                      {record.isReturned && record.returnDate
+                        ? ` · Returned ${format(new Date(record.returnDate), "MMM d, yyyy")}`
+                        : " · Still out"}
+                    </div>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+
+      <Dialog open={tablet !== null} onOpenChange={(isOpen) => !isOpen && setTablet(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Tablet Details</DialogTitle>
+          </DialogHeader>
+          {tablet && <TabletDetail tablet={tablet} />}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,7 +1,9 @@
 import React from "react";
 import { Sidebar } from "./sidebar";
+import { CommandSearch } from "./command-search";
 import { useLocation } from "wouter";
 import { useMobile } from "@/hooks/use-mobile";
+import { Search } from "lucide-react";
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -9,6 +11,7 @@ interface DashboardLayoutProps {
 
 export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = React.useState(false);
+  const [searchOpen, setSearchOpen] = React.useState(false);
   const { isMobile } = useMobile();
   const [location] = useLocation();
 
@@ -19,9 +22,21 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
     }
   }, [location, isMobile]);
 
+  // Ctrl+K (Cmd+K on a Mac) opens the search from any page
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setSearchOpen(open => !open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   return (
     <div className="flex h-screen overflow-hidden bg-slate-50">
-      <Sidebar isOpen={sidebarOpen} setIsOpen={setSidebarOpen} />
+      <Sidebar isOpen={sidebarOpen} setIsOpen={setSidebarOpen} onSearch={() => setSearchOpen(true)} />
       
       <div className="flex flex-col w-0 flex-1 overflow-hidden">
         <div className="md:hidden pl-1 pt-1 sm:pl-3 sm:pt-3 flex items-center">
@@ -35,12 +50,21 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
             </svg>
           </button>
           <h1 className="text-xl font-semibold text-slate-900 ml-2">Tablet Management</h1>
+          <button
+            onClick={() => setSearchOpen(true)}
+            className="ml-auto mr-2 h-12 w-12 inline-flex items-center justify-center rounded-md text-slate-700 hover:text-slate-900"
+          >
+            <span className="sr-only">Search</span>
+            <Search className="h-5 w-5" />
+          </button>
         </div>
 
         <main className="flex-1 relative z-0 overflow-y-auto focus:outline-none">
           {children}
         </main>
       </div>
+
+      <CommandSearch open={searchOpen} onOpenChange={setSearchOpen} />
     </div>
   );
 }
@@ -6,12 +6,22 @@ import {
   RotateCcw, 
   BarChart3, 
   Gauge, 
-  LayoutDashboard 
+  LayoutDashboard,
+  ScrollText,
+  CalendarClock,
+  Wrench,
+  ClipboardCheck,
+  ArrowLeftRight,
+  CalendarRange,
+  Search
 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import type { Permission } from "@shared/permissions";
 
 interface SidebarProps {
   isOpen: boolean;
   setIsOpen: (isOpen: boolean) => void;
+  onSearch: () => void;
 }
 
 interface NavItemProps {
@@ -42,7 +52,37 @@ const NavItem = ({ href, icon: Icon, children, onClick }: NavItemProps) => {
   );
 };
 
-export function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
+// Main navigation, each entry shown only to staff whose role grants its permission
+export const navItems: { href: string; icon: React.ElementType; label: string; permission: Permission }[] = [
+  { href: "/", icon: LayoutDashboard, label: "Dashboard", permission: "dashboard:read" },
+  { href: "/tablets", icon: Tablet, label: "Tablets", permission: "tablets:read" },
+  { href: "/students", icon: Users, label: "Students", permission: "students:read" },
+  { href: "/borrowing", icon: HandHelping, label: "Borrowing", permission: "borrowing:write" },
+  { href: "/returns", icon: RotateCcw, label: "Returns", permission: "returns:write" },
+  { href: "/terms", icon: CalendarRange, label: "Terms", permission: "borrowing:read" },
+  { href: "/reservations", icon: CalendarClock, label: "Reservations", permission: "reservations:read" },
+  { href: "/repairs", icon: Wrench, label: "Repairs", permission: "repairs:read" },
+  { href: "/inventory", icon: ClipboardCheck, label: "Inventory", permission: "inventory:read" },
+  { href: "/transfers", icon: ArrowLeftRight, label: "Transfers", permission: "transfers:read" },
+  { href: "/reports", icon: BarChart3, label: "Reports", permission: "reports:read" },
+  { href: "/audit", icon: ScrollText, label: "Audit Log", permission: "audit:read" },
+];
+
+const SearchButton = ({ onClick }: { onClick: () => void }) => (
+  <button
+    onClick={onClick}
+    className="group flex w-full items-center px-2 py-2 mb-2 text-sm font-medium rounded-md cursor-pointer bg-slate-700 text-slate-300 hover:text-white"
+  >
+    <Search className="mr-3 h-5 w-5 flex-shrink-0 text-slate-400" />
+    Search
+    <kbd className="ml-auto text-xs text-slate-400">Ctrl K</kbd>
+  </button>
+);
+
+export function Sidebar({ isOpen, setIsOpen, onSearch }: SidebarProps) {
+  const { can } = useAuth();
+  const visibleItems = navItems.filter(item => can(item.permission));
+
   return (
     <>
       {/* Mobile sidebar backdrop */}
@@ -77,24 +117,12 @@ export function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
             <h1 className="text-white font-semibold text-lg">Tablet Management</h1>
           </div>
           <nav className="mt-5 px-2 space-y-1">
-            <NavItem href="/" icon={LayoutDashboard} onClick={() => setIsOpen(false)}>
-              Dashboard
-            </NavItem>
-            <NavItem href="/tablets" icon={Tablet} onClick={() => setIsOpen(false)}>
-              Tablets
-            </NavItem>
-            <NavItem href="/students" icon={Users} onClick={() => setIsOpen(false)}>
-              Students
-            </NavItem>
-            <NavItem href="/borrowing" icon={HandHelping} onClick={() => setIsOpen(false)}>
-              Borrowing
-            </NavItem>
-            <NavItem href="/returns" icon={RotateCcw} onClick={() => setIsOpen(false)}>
-              Returns
-            </NavItem>
-            <NavItem href="/reports" icon={BarChart3} onClick={() => setIsOpen(false)}>
-              Reports
-            </NavItem>
+            <SearchButton onClick={() => { setIsOpen(false); onSearch(); }} />
+            {visibleItems.map(item => (
+              <NavItem key={item.href} href={item.href} icon={item.icon} onClick={() => setIsOpen(false)}>
+                {item.label}
+              </NavItem>
+            ))}
             <hr className="my-3 border-slate-700" />
             <NavItem href="/admin" icon={Gauge} onClick={() => setIsOpen(false)}>
               Admin Dashboard
@@ -112,24 +140,12 @@ export function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
             </div>
             <div className="flex-1 flex flex-col overflow-y-auto">
               <nav className="flex-1 px-2 py-4 space-y-1">
-                <NavItem href="/" icon={LayoutDashboard}>
-                  Dashboard
-                </NavItem>
-                <NavItem href="/tablets" icon={Tablet}>
-                  Tablets
-                </NavItem>
-                <NavItem href="/students" icon={Users}>
-                  Students
-                </NavItem>
-                <NavItem href="/borrowing" icon={HandHelping}>
-                  Borrowing
-                </NavItem>
-                <NavItem href="/returns" icon={RotateCcw}>
-                  Returns
-                </NavItem>
-                <NavItem href="/reports" icon={BarChart3}>
-                  Reports
-                </NavItem>
+                <SearchButton onClick={onSearch} />
+                {visibleItems.map(item => (
+                  <NavItem key={item.href} href={item.href} icon={item.icon}>
+                    {item.label}
+                  </NavItem>
+                ))}
                 <hr className="my-3 border-slate-700" />
                 <NavItem href="/admin" icon={Gauge}>
                   Admin Dashboard
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { StudentClearance, StudentWithBorrowInfo } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { exportToCSV } from "@/lib/csv";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Printer } from "lucide-react";
+import { format } from "date-fns";
+import { ClearanceBadge } from "@/components/ledger/student-ledger";
+import { printClearanceCertificates } from "@/components/ledger/clearance-panel";
+
+const ALL = "all";
+
+/**
+ * Check clearance for a whole program or year level and certify everyone who is cleared
+ */
+export function BulkClearance() {
+  const { toast } = useToast();
+  const [programName, setProgramName] = useState(ALL);
+  const [yearLevel, setYearLevel] = useState(ALL);
+  const [results, setResults] = useState<StudentClearance[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const { data: students } = useQuery<StudentWithBorrowInfo[]>({
+    queryKey: ['/api/students'],
+  });
+
+  const programs = Array.from(new Set((students ?? []).map(student => student.programName))).sort();
+  const yearLevels = Array.from(new Set((students ?? []).map(student => student.yearLevel))).sort((a, b) => a - b);
+
+  const cleared = results?.filter(result => result.certificate) ?? [];
+  const notCleared = results?.filter(result => !result.certificate) ?? [];
+
+  const handleRun = async () => {
+    setIsRunning(true);
+
+    try {
+      const response = await apiRequest("POST", "/api/clearance/bulk", {
+        programName: programName === ALL ? undefined : programName,
+        yearLevel: yearLevel === ALL ? undefined : Number(yearLevel),
+      });
+      const clearances: StudentClearance[] = await response.json();
+      setResults(clearances);
+      queryClient.invalidateQueries({ queryKey: ['/api/accountabilities'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to run the clearance check.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!results) return;
+
+    const data = results.map(result => ({
+      "Student ID": result.student.studentId,
+      "Student Name": result.student.fullName,
+      "Program": result.student.programName,
+      "Year Level": result.student.yearLevel,
+      "Clearance Status": result.clearanceStatus,
+      "Verification Code": result.certificate?.verificationCode ?? "",
+      "Issues": result.issues.map(issue => issue.description).join("; "),
+    }));
+
+    exportToCSV(data, `clearance-run-${format(new Date(), "yyyy-MM-dd")}`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+        <div>
+          <Label>Program</Label>
+          <Select value={programName} onValueChange={setProgramName}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Programs</SelectItem>
+              {programs.map(program => (
+                <SelectItem key={program} value={program}>{program}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Year Level</Label>
+          <Select value={yearLevel} onValueChange={setYearLevel}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Year Levels</SelectItem>
+              {yearLevels.map(level => (
+                <SelectItem key={level} value={String(level)}>Year {level}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={handleRun} disabled={isRunning || (programName === ALL && yearLevel === ALL)}>
+          {isRunning && <LoadingSpinner size="sm" className="mr-2" />}
+          Run Clearance
+        </Button>
+      </div>
+
+      {results && (
+        <>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              {cleared.length} of {results.length} student(s) cleared and certified
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={results.length === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </Button>
+              <Button size="sm" onClick={() => printClearanceCertificates(cleared)} disabled={cleared.length === 0}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print Certificates
+              </Button>
+            </div>
+          </div>
+
+          {notCleared.length > 0 && (
+            <div className="max-h-80 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Student</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Outstanding</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {notCleared.map(result => (
+                    <TableRow key={result.student.id}>
+                      <TableCell>
+                        <div className="font-medium">{result.student.fullName}</div>
+                        <div className="text-sm text-gray-500">ID: {result.student.studentId}</div>
+                      </TableCell>
+                      <TableCell>
+                        <ClearanceBadge status={result.clearanceStatus} />
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {result.issues.map(issue => issue.description).join("; ")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { StudentClearance } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { generatePDF } from "@/lib/pdf";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { AlertCircle, FileBadge } from "lucide-react";
+import { format } from "date-fns";
+import { ClearanceBadge } from "@/components/ledger/student-ledger";
+
+// Printed on certificates; the verification code is appended
+export const clearanceVerifyUrl = () => `${window.location.origin}/api/clearance/verify/`;
+
+// Print certificates for every cleared student in a clearance result
+export const printClearanceCertificates = (clearances: StudentClearance[]) =>
+  generatePDF({
+    type: "clearance-certificate",
+    data: {
+      certificates: clearances
+        .filter(clearance => clearance.certificate)
+        .map(clearance => ({ student: clearance.student, certificate: clearance.certificate! })),
+      verifyUrl: clearanceVerifyUrl(),
+    },
+  });
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+interface ClearancePanelProps {
+  studentId: number;
+}
+
+/**
+ * Whether the student is cleared of tablet obligations, and the certificate if one was issued
+ */
+export function ClearancePanel({ studentId }: ClearancePanelProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [isIssuing, setIsIssuing] = useState(false);
+
+  const { data: clearance, isLoading } = useQuery<StudentClearance>({
+    queryKey: [`/api/students/${studentId}/clearance`],
+  });
+
+  const handleIssue = async () => {
+    setIsIssuing(true);
+
+    try {
+      const response = await apiRequest("POST", `/api/students/${studentId}/clearance/certificate`);
+      const issued: StudentClearance = await response.json();
+      await printClearanceCertificates([issued]);
+
+      toast({
+        title: "Clearance certificate issued",
+        description: `Verification code ${issued.certificate?.verificationCode}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${studentId}/clearance`] });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to issue the clearance certificate"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  if (isLoading || !clearance) {
+    return <LoadingSpinner className="py-6" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium text-gray-900">Clearance</span>
+          <ClearanceBadge status={clearance.clearanceStatus} />
+        </div>
+        <div className="flex gap-2">
+          {clearance.certificate && (
+            <Button variant="outline" size="sm" onClick={() => printClearanceCertificates([clearance])}>
+              Reprint Certificate
+            </Button>
+          )}
+          {clearance.clearanceStatus === "Cleared" && can("clearance:issue") && (
+            <Button size="sm" onClick={handleIssue} disabled={isIssuing}>
+              {isIssuing ? <LoadingSpinner size="sm" className="mr-2" /> : <FileBadge className="mr-2 h-4 w-4" />}
+              Issue Certificate
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {clearance.certificate && (
+        <p className="text-sm text-gray-500">
+          Certificate {clearance.certificate.verificationCode} issued {format(new Date(clearance.certificate.issuedAt), "MMM d, yyyy")}
+        </p>
+      )}
+
+      {clearance.issues.length > 0 && (
+        <ul className="space-y-1">
+          {clearance.issues.map((issue, index) => (
+            <li key={index} className="flex items-start text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              {issue.description}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
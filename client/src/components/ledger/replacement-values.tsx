@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ReplacementValue } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatPeso } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Trash2 } from "lucide-react";
+
+const emptyForm = { brand: "", model: "", tabletValue: "", chargerValue: "", cableValue: "", boxValue: "" };
+
+/**
+ * Amounts billed to students for lost tablets and missing accessories, per model
+ */
+export function ReplacementValues() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: values, isLoading } = useQuery<ReplacementValue[]>({
+    queryKey: ['/api/replacement-values'],
+  });
+
+  const canEdit = can("replacement-values:write");
+
+  const setField = (field: keyof typeof emptyForm, value: string) =>
+    setForm(current => ({ ...current, [field]: value }));
+
+  const handleEdit = (value: ReplacementValue) => {
+    setForm({
+      brand: value.brand,
+      model: value.model,
+      tabletValue: value.tabletValue,
+      chargerValue: value.chargerValue,
+      cableValue: value.cableValue,
+      boxValue: value.boxValue,
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      await apiRequest("POST", "/api/replacement-values", {
+        brand: form.brand,
+        model: form.model,
+        tabletValue: Number(form.tabletValue || 0),
+        chargerValue: Number(form.chargerValue || 0),
+        cableValue: Number(form.cableValue || 0),
+        boxValue: Number(form.boxValue || 0),
+      });
+
+      toast({
+        title: "Replacement values saved",
+        description: `Future charges for the ${form.brand} ${form.model} will use these amounts.`,
+      });
+      setForm(emptyForm);
+      queryClient.invalidateQueries({ queryKey: ['/api/replacement-values'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save the replacement values.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (value: ReplacementValue) => {
+    try {
+      await apiRequest("DELETE", `/api/replacement-values/${value.id}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/replacement-values'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete the replacement values.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner className="py-10" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {values && values.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Model</TableHead>
+              <TableHead className="text-right">Tablet</TableHead>
+              <TableHead className="text-right">Charger</TableHead>
+              <TableHead className="text-right">Cable</TableHead>
+              <TableHead className="text-right">Box</TableHead>
+              {canEdit && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {values.map(value => (
+              <TableRow key={value.id}>
+                <TableCell>{value.brand} {value.model}</TableCell>
+                <TableCell className="text-right">{formatPeso(value.tabletValue)}</TableCell>
+                <TableCell className="text-right">{formatPeso(value.chargerValue)}</TableCell>
+                <TableCell className="text-right">{formatPeso(value.cableValue)}</TableCell>
+                <TableCell className="text-right">{formatPeso(value.boxValue)}</TableCell>
+                {canEdit && (
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(value)}>Edit</Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(value)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-center py-6 text-gray-500">
+          No replacement values set. Lost tablets will not be charged automatically.
+        </p>
+      )}
+
+      {canEdit && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 items-end">
+          <div>
+            <Label htmlFor="replacement-brand">Brand</Label>
+            <Input id="replacement-brand" value={form.brand} onChange={(e) => setField("brand", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="replacement-model">Model</Label>
+            <Input id="replacement-model" value={form.model} onChange={(e) => setField("model", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="replacement-tablet">Tablet</Label>
+            <Input id="replacement-tablet" type="number" min="0" step="0.01" value={form.tabletValue} onChange={(e) => setField("tabletValue", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="replacement-charger">Charger</Label>
+            <Input id="replacement-charger" type="number" min="0" step="0.01" value={form.chargerValue} onChange={(e) => setField("chargerValue", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="replacement-cable">Cable</Label>
+            <Input id="replacement-cable" type="number" min="0" step="0.01" value={form.cableValue} onChange={(e) => setField("cableValue", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="replacement-box">Box</Label>
+            <Input id="replacement-box" type="number" min="0" step="0.01" value={form.boxValue} onChange={(e) => setField("boxValue", e.target.value)} />
+          </div>
+          <div className="col-span-2 sm:col-span-3 flex justify-end">
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || form.brand.trim() === "" || form.model.trim() === "" || form.tabletValue === ""}
+            >
+              {isSaving ? "Saving..." : "Save Values"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
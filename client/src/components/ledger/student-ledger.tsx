@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ClearanceStatus, LedgerEntryType, StudentLedger as StudentLedgerData } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatPeso } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Receipt } from "lucide-react";
+import { format } from "date-fns";
+
+export const ledgerEntryLabels: Record<LedgerEntryType, string> = {
+  charge: "Charge",
+  payment: "Payment",
+  waiver: "Waiver",
+};
+
+const entryColors: Record<LedgerEntryType, string> = {
+  charge: "bg-red-100 text-red-800",
+  payment: "bg-green-100 text-green-800",
+  waiver: "bg-blue-100 text-blue-800",
+};
+
+export function ClearanceBadge({ status }: { status: ClearanceStatus }) {
+  return (
+    <Badge
+      className={status === "Cleared" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}
+      variant="outline"
+    >
+      {status}
+    </Badge>
+  );
+}
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+interface StudentLedgerProps {
+  studentId: number;
+}
+
+/**
+ * Balance and ledger entries for one student
+ */
+export function StudentLedger({ studentId }: StudentLedgerProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [entryType, setEntryType] = useState<LedgerEntryType>("payment");
+  const [amount, setAmount] = useState("");
+  const [description, setDescription] = useState("");
+  const [referenceNo, setReferenceNo] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: ledger, isLoading } = useQuery<StudentLedgerData>({
+    queryKey: [`/api/students/${studentId}/ledger`],
+  });
+
+  const entryTypes: LedgerEntryType[] = can("ledger:waive") ? ["charge", "payment", "waiver"] : ["charge", "payment"];
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+
+    try {
+      await apiRequest("POST", `/api/students/${studentId}/ledger`, {
+        entryType,
+        amount: Number(amount),
+        description,
+        referenceNo: referenceNo || undefined,
+      });
+
+      toast({
+        title: `${ledgerEntryLabels[entryType]} recorded`,
+        description: `${formatPeso(amount)} posted to the student's ledger.`,
+      });
+      setAmount("");
+      setDescription("");
+      setReferenceNo("");
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${studentId}/ledger`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${studentId}/clearance`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/accountabilities'] });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to record the ledger entry"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading || !ledger) {
+    return <LoadingSpinner className="py-10" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <div>
+          <p className="text-sm font-medium text-gray-500">Charges</p>
+          <p className="mt-1 text-sm text-gray-900">{formatPeso(ledger.totalCharges)}</p>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-500">Payments</p>
+          <p className="mt-1 text-sm text-gray-900">{formatPeso(ledger.totalPayments)}</p>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-500">Waived</p>
+          <p className="mt-1 text-sm text-gray-900">{formatPeso(ledger.totalWaivers)}</p>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-500">Balance</p>
+          <p className={`mt-1 text-sm font-semibold ${ledger.balance > 0 ? "text-red-600" : "text-gray-900"}`}>
+            {formatPeso(ledger.balance)}
+          </p>
+        </div>
+      </div>
+
+      {ledger.entries.length > 0 ? (
+        <ul className="space-y-3">
+          {ledger.entries.map(entry => (
+            <li key={entry.id} className="bg-white shadow rounded-lg p-4 flex items-start">
+              <Receipt className="h-5 w-5 text-gray-400 flex-shrink-0" />
+              <div className="ml-3 w-0 flex-1">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-gray-900">{entry.description}</p>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">
+                      {entry.entryType === "charge" ? "" : "−"}{formatPeso(entry.amount)}
+                    </span>
+                    <Badge className={entryColors[entry.entryType]} variant="outline">
+                      {ledgerEntryLabels[entry.entryType]}
+                    </Badge>
+                  </div>
+                </div>
+                <p className="mt-1 text-sm text-gray-500">
+                  {format(new Date(entry.entryDate), "MMM d, yyyy")}
+                  {entry.referenceNo && ` · OR No. ${entry.referenceNo}`}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-center py-6 text-gray-500">No charges have been made against this student.</p>
+      )}
+
+      {can("ledger:write") && (
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+          <div>
+            <Label htmlFor="ledger-entry-type">Entry</Label>
+            <Select value={entryType} onValueChange={(value) => setEntryType(value as LedgerEntryType)}>
+              <SelectTrigger id="ledger-entry-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {entryTypes.map(type => (
+                  <SelectItem key={type} value={type}>{ledgerEntryLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="ledger-amount">Amount</Label>
+            <Input
+              id="ledger-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <Label htmlFor="ledger-description">Description</Label>
+            <Input
+              id="ledger-description"
+              placeholder={entryType === "payment" ? "Payment at the cashier" : "Reason for this entry"}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          {entryType === "payment" && (
+            <div>
+              <Label htmlFor="ledger-reference">OR No.</Label>
+              <Input
+                id="ledger-reference"
+                value={referenceNo}
+                onChange={(e) => setReferenceNo(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="sm:col-start-4 flex justify-end">
+            <Button
+              onClick={handleSubmit}
+              disabled={isSubmitting || !(Number(amount) > 0) || description.trim() === ""}
+            >
+              {isSubmitting ? "Saving..." : `Record ${ledgerEntryLabels[entryType]}`}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
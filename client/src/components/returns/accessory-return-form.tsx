@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { AccessoryLiabilityWithDetails, Accessory } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { PackageCheck } from "lucide-react";
+
+export const accessoryLabels: Record<Accessory, string> = {
+  charger: "Charger",
+  cable: "Cable",
+  box: "Box",
+};
+
+interface AccessoryReturnFormProps {
+  liabilities: AccessoryLiabilityWithDetails[]; // Outstanding items for a single borrowing
+  onSuccess?: () => void;
+}
+
+/**
+ * Hand back accessories that were missing when the tablet was returned
+ */
+export function AccessoryReturnForm({ liabilities, onSuccess }: AccessoryReturnFormProps) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<Accessory[]>(liabilities.map(liability => liability.accessory));
+  const [returnDate, setReturnDate] = useState(new Date().toISOString().split('T')[0]);
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const borrowRecordId = liabilities[0]?.borrowRecordId;
+  const studentId = liabilities[0]?.studentId;
+
+  const toggle = (accessory: Accessory, checked: boolean) => {
+    setSelected(current =>
+      checked ? [...current, accessory] : current.filter(item => item !== accessory)
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!borrowRecordId || selected.length === 0) return;
+    setIsSubmitting(true);
+
+    try {
+      await apiRequest("POST", `/api/borrow-records/${borrowRecordId}/accessories/return`, {
+        accessories: selected,
+        returnDate,
+        notes: notes || undefined,
+      });
+
+      toast({
+        title: "Accessories returned",
+        description: `${selected.map(accessory => accessoryLabels[accessory]).join(", ")} cleared from the student's record.`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ['/api/accessory-liabilities'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${studentId}/accessory-liabilities`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/accountabilities'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${studentId}/ledger`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${studentId}/clearance`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tablets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/recent-activity'] });
+
+      if (onSuccess) {
+        onSuccess();
+      }
+    } catch (error) {
+      console.error("Error returning accessories:", error);
+      toast({
+        title: "Error",
+        description: "There was an error recording the returned accessories. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label>Accessories Returned</Label>
+        <div className="mt-2 flex flex-wrap gap-6">
+          {liabilities.map(liability => (
+            <div key={liability.id} className="flex items-center space-x-2">
+              <Checkbox
+                id={`accessory-${liability.id}`}
+                checked={selected.includes(liability.accessory)}
+                onCheckedChange={(checked) => toggle(liability.accessory, checked === true)}
+              />
+              <Label htmlFor={`accessory-${liability.id}`} className="font-normal">
+                {accessoryLabels[liability.accessory]}
+              </Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="accessory-return-date">Return Date</Label>
+        <Input
+          id="accessory-return-date"
+          type="date"
+          value={returnDate}
+          onChange={(e) => setReturnDate(e.target.value)}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="accessory-return-notes">Notes</Label>
+        <Textarea
+          id="accessory-return-notes"
+          placeholder="Condition of the returned accessories..."
+          rows={2}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSubmit} disabled={isSubmitting || selected.length === 0}>
+          <PackageCheck className="mr-2 h-4 w-4" />
+          {isSubmitting ? "Processing..." : "Record Return"}
+        </Button>
+      </div>
+    </div>
+  );
+}
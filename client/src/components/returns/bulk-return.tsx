@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import {
+  Accessories,
+  BorrowRecordWithDetails,
+  BulkReturnItemResult,
+  TabletCondition,
+  TabletScanResult,
+  tabletConditionEnum,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ScanInput } from "@/components/tablets/scan-input";
+import { accessoryLabels } from "@/components/returns/accessory-return-form";
+import { Flag, X } from "lucide-react";
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+const parseAccessories = (value: unknown): Accessories => {
+  const parsed = typeof value === "string" ? JSON.parse(value) : value ?? {};
+  return { charger: !!parsed.charger, cable: !!parsed.cable, box: !!parsed.box };
+};
+
+// A scanned tablet waiting to be returned; only flagged entries differ from how the tablet went out
+type CollectedReturn = {
+  borrowRecord: BorrowRecordWithDetails;
+  flagged: boolean;
+  returnCondition: TabletCondition;
+  returnedAccessories: Accessories;
+  returnNotes: string;
+  error: string | null;
+};
+
+/**
+ * Rapid collection: scan tablets one after another and return them together. Each tablet is
+ * assumed to come back as it was lent; flag only the ones with a different condition or missing
+ * accessories.
+ */
+export function BulkReturn() {
+  const { toast } = useToast();
+  const [collected, setCollected] = useState<CollectedReturn[]>([]);
+  const [returnDate, setReturnDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const update = (id: number, changes: Partial<CollectedReturn>) => {
+    setCollected(current => current.map(item => item.borrowRecord.id === id ? { ...item, ...changes } : item));
+  };
+
+  const remove = (id: number) => {
+    setCollected(current => current.filter(item => item.borrowRecord.id !== id));
+  };
+
+  const handleScan = (tablet: TabletScanResult) => {
+    const borrowRecord = tablet.activeBorrowRecord;
+    if (!borrowRecord) {
+      toast({
+        title: "Not borrowed",
+        description: `${tablet.brand} ${tablet.model} (${tablet.serialNumber}) has no active borrowing to return.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (collected.some(item => item.borrowRecord.id === borrowRecord.id)) {
+      toast({
+        title: "Already scanned",
+        description: `${tablet.serialNumber} is already in this collection.`,
+      });
+      return;
+    }
+
+    setCollected(current => [{
+      borrowRecord,
+      flagged: false,
+      returnCondition: borrowRecord.condition,
+      returnedAccessories: parseAccessories(borrowRecord.accessories),
+      returnNotes: "",
+      error: null,
+    }, ...current]);
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const response = await apiRequest("POST", "/api/borrow-records/bulk/return", {
+        returnDate,
+        items: collected.map(item => ({
+          borrowRecordId: item.borrowRecord.id,
+          returnCondition: item.returnCondition,
+          returnNotes: item.returnNotes || undefined,
+          returnedAccessories: item.returnedAccessories,
+        })),
+      });
+      const results: BulkReturnItemResult[] = await response.json();
+      const failed = results.filter(result => !result.success);
+
+      // Keep only the failed returns so they can be fixed and sent again
+      setCollected(current => current
+        .filter(item => failed.some(result => result.borrowRecordId === item.borrowRecord.id))
+        .map(item => ({ ...item, error: failed.find(result => result.borrowRecordId === item.borrowRecord.id)!.message }))
+      );
+
+      toast({
+        title: failed.length > 0 ? "Some returns failed" : "Returns processed",
+        description: `${results.length - failed.length} tablet(s) returned${failed.length > 0 ? `, ${failed.length} failed` : ""}.`,
+        variant: failed.length > 0 ? "destructive" : undefined,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ['/api/tablets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/students'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/borrow-records'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/accessory-liabilities'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/repair-tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/accountabilities'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/recent-activity'] });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to process the returns"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const flaggedCount = collected.filter(item => item.flagged).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <ScanInput className="flex-1 min-w-[260px]" onScan={handleScan} placeholder="Scan each tablet as it is handed in..." />
+        <div>
+          <Label htmlFor="bulk-return-date" className="mb-1 block">Return Date</Label>
+          <Input id="bulk-return-date" type="date" value={returnDate} onChange={e => setReturnDate(e.target.value)} />
+        </div>
+      </div>
+
+      {collected.length > 0 ? (
+        <ul className="divide-y divide-slate-200 rounded-md border border-slate-200 max-h-[55vh] overflow-y-auto">
+          {collected.map(item => {
+            const { borrowRecord } = item;
+            const borrowed = parseAccessories(borrowRecord.accessories);
+            const borrowedKeys = (Object.keys(borrowed) as (keyof Accessories)[]).filter(key => borrowed[key]);
+            return (
+              <li key={borrowRecord.id} className={`px-3 py-2 ${item.error ? "bg-red-50" : item.flagged ? "bg-amber-50" : ""}`}>
+                <div className="flex items-center">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium">
+                      {borrowRecord.tablet.serialNumber}
+                      <span className="ml-2 font-normal text-slate-500">{borrowRecord.tablet.brand} {borrowRecord.tablet.model}</span>
+                    </div>
+                    <div className="text-sm text-slate-500">
+                      {borrowRecord.student.fullName} ({borrowRecord.student.studentId})
+                    </div>
+                    {item.error && <div className="text-xs text-red-600">{item.error}</div>}
+                  </div>
+                  {!item.flagged && (
+                    <Badge variant="outline" className="mr-2">{item.returnCondition}</Badge>
+                  )}
+                  <Button
+                    variant={item.flagged ? "secondary" : "ghost"}
+                    size="sm"
+                    title="Flag an exception"
+                    onClick={() => update(borrowRecord.id, item.flagged
+                      ? { flagged: false, returnCondition: borrowRecord.condition, returnedAccessories: borrowed, returnNotes: "" }
+                      : { flagged: true })}
+                  >
+                    <Flag className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => remove(borrowRecord.id)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                {item.flagged && (
+                  <div className="mt-2 grid grid-cols-1 sm:grid-cols-3 gap-3 items-center">
+                    <Select
+                      value={item.returnCondition}
+                      onValueChange={(value) => update(borrowRecord.id, { returnCondition: value as TabletCondition })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {tabletConditionEnum.enumValues.map(condition => (
+                          <SelectItem key={condition} value={condition}>{condition}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center space-x-4">
+                      {borrowedKeys.length > 0 ? borrowedKeys.map(key => (
+                        <label key={key} className="flex items-center text-sm cursor-pointer">
+                          <Checkbox
+                            checked={item.returnedAccessories[key]}
+                            onCheckedChange={(checked) => update(borrowRecord.id, {
+                              returnedAccessories: { ...item.returnedAccessories, [key]: checked === true },
+                            })}
+                            className="mr-2"
+                          />
+                          {accessoryLabels[key]}
+                        </label>
+                      )) : (
+                        <span className="text-sm text-slate-500">No accessories lent</span>
+                      )}
+                    </div>
+                    <Input
+                      placeholder="Notes"
+                      value={item.returnNotes}
+                      onChange={e => update(borrowRecord.id, { returnNotes: e.target.value })}
+                    />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <div className="text-center py-10 bg-white border border-slate-200 rounded-md">
+          <p className="text-slate-500">Scan the first tablet to start the collection.</p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end space-x-3">
+        <span className="text-sm text-slate-500">
+          {collected.length} scanned{flaggedCount > 0 && `, ${flaggedCount} flagged`}
+        </span>
+        <Button variant="outline" onClick={() => setCollected([])} disabled={collected.length === 0 || isSubmitting}>
+          Clear
+        </Button>
+        <Button onClick={handleSubmit} disabled={collected.length === 0 || !returnDate || isSubmitting}>
+          {isSubmitting ? "Processing..." : `Return ${collected.length} Tablet(s)`}
+        </Button>
+      </div>
+    </div>
+  );
+}
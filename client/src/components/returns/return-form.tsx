@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { updateBorrowRecordForReturnSchema, BorrowRecordWithDetails } from "@shared/schema";
+import { updateBorrowRecordForReturnSchema, accessoriesSchema, BorrowRecordWithDetails } from "@shared/schema";
 import { 
   Card, 
   CardContent, 
@@ -29,6 +29,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { 
   AlertCircle, 
   ArrowLeftRight, 
@@ -47,8 +48,15 @@ import { Separator } from "@/components/ui/separator";
 const returnFormSchema = updateBorrowRecordForReturnSchema.extend({
   isReturned: z.literal(true).default(true),
   returnDate: z.string().min(1, "Return date is required"),
+  returnedAccessories: accessoriesSchema,
 });
 
+const accessoryOptions = [
+  { key: "charger", label: "Charger" },
+  { key: "cable", label: "Cable" },
+  { key: "box", label: "Box" },
+] as const;
+
 type ReturnFormData = z.infer<typeof returnFormSchema>;
 
 interface ReturnFormProps {
@@ -61,6 +69,16 @@ export function ReturnForm({ borrowRecord, onSuccess }: ReturnFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [returnSuccess, setReturnSuccess] = useState(false);
 
+  // Parse accessories if they exist
+  const accessories = borrowRecord.accessories 
+    ? typeof borrowRecord.accessories === 'string' 
+      ? JSON.parse(borrowRecord.accessories as string) 
+      : borrowRecord.accessories
+    : { charger: false, cable: false, box: false };
+
+  // Only the accessories that went out with the tablet can be checked off
+  const borrowedAccessories = accessoryOptions.filter(option => accessories[option.key]);
+
   const form = useForm<ReturnFormData>({
     resolver: zodResolver(returnFormSchema),
     defaultValues: {
@@ -68,9 +86,17 @@ export function ReturnForm({ borrowRecord, onSuccess }: ReturnFormProps) {
       returnDate: new Date().toISOString().split('T')[0],
       returnCondition: borrowRecord.condition,
       returnNotes: "",
+      returnedAccessories: {
+        charger: !!accessories.charger,
+        cable: !!accessories.cable,
+        box: !!accessories.box,
+      },
     },
   });
 
+  const returnedAccessories = form.watch("returnedAccessories");
+  const missingAccessories = borrowedAccessories.filter(option => !returnedAccessories[option.key]);
+
   const onSubmit = async (data: ReturnFormData) => {
     setIsSubmitting(true);
     try {
@@ -80,6 +106,7 @@ export function ReturnForm({ borrowRecord, onSuccess }: ReturnFormProps) {
         returnDate: data.returnDate,
         returnCondition: data.returnCondition,
         returnNotes: data.returnNotes,
+        returnedAccessories: data.returnedAccessories,
       };
       
       // Submit to API
@@ -102,6 +129,12 @@ export function ReturnForm({ borrowRecord, onSuccess }: ReturnFormProps) {
       queryClient.invalidateQueries({ queryKey: ['/api/tablets'] });
       queryClient.invalidateQueries({ queryKey: ['/api/students'] });
       queryClient.invalidateQueries({ queryKey: ['/api/borrow-records'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/accessory-liabilities'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/repair-tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/accountabilities'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${borrowRecord.studentId}/ledger`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${borrowRecord.studentId}/clearance`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${borrowRecord.studentId}/accessory-liabilities`] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/recent-activity'] });
       
@@ -121,13 +154,6 @@ export function ReturnForm({ borrowRecord, onSuccess }: ReturnFormProps) {
     }
   };
 
-  // Parse accessories if they exist
-  const accessories = borrowRecord.accessories 
-    ? typeof borrowRecord.accessories === 'string' 
-      ? JSON.parse(borrowRecord.accessories as string) 
-      : borrowRecord.accessories
-    : { charger: false, cable: false, box: false };
-
   return (
     <Card>
       <CardHeader>
@@ -253,6 +279,42 @@ export function ReturnForm({ borrowRecord, onSuccess }: ReturnFormProps) {
                   )}
                 />
                 
+                {borrowedAccessories.length > 0 && (
+                  <div>
+                    <FormLabel>Accessories Returned</FormLabel>
+                    <div className="mt-2 flex flex-wrap gap-6">
+                      {borrowedAccessories.map(option => (
+                        <FormField
+                          key={option.key}
+                          control={form.control}
+                          name={`returnedAccessories.${option.key}`}
+                          render={({ field }) => (
+                            <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                              <FormControl>
+                                <Checkbox
+                                  checked={field.value}
+                                  onCheckedChange={(checked) => field.onChange(checked === true)}
+                                />
+                              </FormControl>
+                              <FormLabel className="font-normal">{option.label}</FormLabel>
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
+                    {missingAccessories.length > 0 && (
+                      <Alert className="mt-3 bg-amber-50 border-amber-300">
+                        <AlertCircle className="h-4 w-4 text-amber-700" />
+                        <AlertTitle className="text-amber-800">Missing accessories</AlertTitle>
+                        <AlertDescription className="text-amber-700">
+                          {missingAccessories.map(option => option.label).join(", ")} will be recorded as owed by the
+                          student until returned.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                  </div>
+                )}
+                
                 <FormField
                   control={form.control}
                   name="returnNotes"
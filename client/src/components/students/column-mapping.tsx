@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { StudentImportMapping } from "@shared/schema";
+import {
+  coerceStudentRow,
+  studentImportFieldKeys,
+  studentImportFields,
+  type StudentColumnMapping,
+  type StudentImportColumns,
+} from "@shared/student-import";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Save, Trash2 } from "lucide-react";
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+// Sample rows previewed next to each field
+const previewRows = 3;
+
+const formatPreviewValue = (value: unknown) => {
+  if (value === null || value === undefined) return "—";
+  if (value instanceof Date) return format(value, "MMM d, yyyy");
+  return String(value);
+};
+
+interface ColumnMappingProps {
+  columns: StudentImportColumns;
+  mapping: StudentColumnMapping;
+  onMappingChange: (mapping: StudentColumnMapping) => void;
+}
+
+/**
+ * Pick the CSV column each student field is read from, previewing how the first rows convert.
+ * Mappings can be saved under a name and applied to the next file with the same layout.
+ */
+export function ColumnMapping({ columns, mapping, onMappingChange }: ColumnMappingProps) {
+  const { toast } = useToast();
+  const [profileId, setProfileId] = useState("");
+  const [profileName, setProfileName] = useState("");
+  const [missingHeaders, setMissingHeaders] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: profiles } = useQuery<StudentImportMapping[]>({
+    queryKey: ['/api/student-import-mappings'],
+  });
+
+  const selectedProfile = profiles?.find(profile => String(profile.id) === profileId);
+  const previews = columns.sampleRows.slice(0, previewRows).map(row => ({ row, ...coerceStudentRow(row, mapping) }));
+
+  const setField = (field: keyof StudentColumnMapping, header: string) => {
+    const next = { ...mapping };
+    if (header === "none") {
+      delete next[field];
+    } else {
+      next[field] = header;
+    }
+    onMappingChange(next);
+  };
+
+  // Only columns this file has are applied; the rest are listed so staff can remap them
+  const applyProfile = (id: string) => {
+    const profile = profiles?.find(p => String(p.id) === id);
+    if (!profile) return;
+    setProfileId(id);
+    setProfileName(profile.name);
+    const next: StudentColumnMapping = {};
+    const missing: string[] = [];
+    Object.entries(profile.mapping).forEach(([field, header]) => {
+      if (columns.headers.includes(header)) {
+        next[field as keyof StudentColumnMapping] = header;
+      } else {
+        missing.push(header);
+      }
+    });
+    setMissingHeaders(missing);
+    onMappingChange(next);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const body = { name: profileName, mapping };
+      const response = selectedProfile && selectedProfile.name === profileName.trim()
+        ? await apiRequest("PUT", `/api/student-import-mappings/${selectedProfile.id}`, body)
+        : await apiRequest("POST", "/api/student-import-mappings", body);
+      const saved: StudentImportMapping = await response.json();
+      setProfileId(String(saved.id));
+      toast({ title: "Mapping saved", description: `${saved.name} can be applied to the next import.` });
+      queryClient.invalidateQueries({ queryKey: ['/api/student-import-mappings'] });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to save the mapping"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedProfile) return;
+    try {
+      await apiRequest("DELETE", `/api/student-import-mappings/${selectedProfile.id}`);
+      setProfileId("");
+      setProfileName("");
+      toast({ title: "Mapping deleted" });
+      queryClient.invalidateQueries({ queryKey: ['/api/student-import-mappings'] });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to delete the mapping"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label>Saved mapping</Label>
+          <Select value={profileId} onValueChange={applyProfile}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder={profiles?.length ? "Apply a saved mapping" : "No saved mappings"} />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles?.map(profile => (
+                <SelectItem key={profile.id} value={String(profile.id)}>{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="mapping-name">Save as</Label>
+          <Input
+            id="mapping-name"
+            className="w-[220px]"
+            placeholder="e.g. Registrar enrollment export"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+          />
+        </div>
+        <Button variant="outline" onClick={handleSave} disabled={!profileName.trim() || isSaving} className="flex items-center">
+          <Save className="mr-2 h-4 w-4" />
+          {selectedProfile && selectedProfile.name === profileName.trim() ? "Update Mapping" : "Save Mapping"}
+        </Button>
+        {selectedProfile && (
+          <Button variant="ghost" size="icon" onClick={handleDelete} title="Delete saved mapping">
+            <Trash2 className="h-4 w-4 text-red-500" />
+          </Button>
+        )}
+      </div>
+
+      {missingHeaders.length > 0 && (
+        <p className="text-sm text-amber-700">
+          Not in this file, so left unmapped: {missingHeaders.join(", ")}
+        </p>
+      )}
+
+      <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Student Field</TableHead>
+              <TableHead>CSV Column</TableHead>
+              <TableHead>Preview of the first {previews.length} rows</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {studentImportFieldKeys.map(field => {
+              const { label, type, required, fallback } = studentImportFields[field];
+              const header = mapping[field];
+              return (
+                <TableRow key={field}>
+                  <TableCell className="whitespace-nowrap">
+                    <div className="font-medium">
+                      {label}
+                      {required && <span className="text-red-500"> *</span>}
+                    </div>
+                    <div className="text-xs text-slate-500">{type}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Select value={header ?? "none"} onValueChange={(value) => setField(field, value)}>
+                      <SelectTrigger className={`w-[200px] ${required && !header && !fallback ? "border-red-300" : ""}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">
+                          {fallback ? `Not mapped (default: ${fallback.label})` : "Not imported"}
+                        </SelectItem>
+                        {columns.headers.map(h => (
+                          <SelectItem key={h} value={h}>{h}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {header ? (
+                      <ul className="space-y-0.5">
+                        {previews.map(({ row, student, issues }, index) => {
+                          const raw = (row[header] ?? "").trim();
+                          const value = formatPreviewValue(student[field]);
+                          const issue = issues.find(i => i.field === field);
+                          return (
+                            <li key={index} className={issue ? "text-red-600" : "text-slate-700"}>
+                              {issue
+                                ? issue.message
+                                : raw === "" || raw === value ? value : <>{raw} <span className="text-slate-400">→</span> {value}</>}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    ) : (
+                      <span className={required && !fallback ? "text-red-600" : "text-slate-400"}>
+                        {fallback ? `Default: ${fallback.label}` : required ? "Required" : "—"}
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
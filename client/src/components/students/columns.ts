@@ -1,6 +1,6 @@
 
 import { ColumnDef } from "@tanstack/react-table";
-import { Student } from "@/lib/types";
+import { Student } from "@shared/schema";
 
 export const columns: ColumnDef<Student>[] = [
   {
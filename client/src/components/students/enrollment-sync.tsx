@@ -0,0 +1,269 @@
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { EnrollmentSyncReport, StudentFieldChange } from "@shared/schema";
+import type { StudentColumnMapping, StudentImportColumns } from "@shared/student-import";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertCircle, ArrowLeft, Columns3, RefreshCw } from "lucide-react";
+import { ColumnMapping } from "./column-mapping";
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+// e.g. guardianMobileNo -> Guardian mobile no
+const fieldLabel = (field: string) => {
+  const words = field.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) return format(new Date(value), "MMM d, yyyy");
+  return String(value);
+};
+
+const describeChange = (change: StudentFieldChange) =>
+  change.field === "isEnrolled"
+    ? "Enrolled again"
+    : `${fieldLabel(change.field)}: ${formatValue(change.from)} → ${formatValue(change.to)}`;
+
+/**
+ * Sync students with the registrar's enrollment file for a term. Its columns are mapped to
+ * student fields as for an import, then the file is checked without saving anything; the report
+ * of additions, changes and departures is applied only once confirmed.
+ */
+export function EnrollmentSync({ onSuccess }: { onSuccess?: () => void }) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [columns, setColumns] = useState<StudentImportColumns | null>(null);
+  const [mapping, setMapping] = useState<StudentColumnMapping>({});
+  const [report, setReport] = useState<EnrollmentSyncReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const upload = async <T,>(url: string): Promise<T> => {
+    const formData = new FormData();
+    formData.append("file", file!);
+    if (columns) formData.append("mapping", JSON.stringify(mapping));
+
+    const response = await fetch(url, {
+      method: "POST",
+      body: formData,
+      credentials: "include",
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status}: ${await response.text()}`);
+    }
+    return response.json();
+  };
+
+  const handleReadColumns = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await upload<StudentImportColumns>("/api/students/import/columns");
+      setColumns(result);
+      setMapping(result.suggestedMapping);
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to read the enrollment file"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setReport(await upload<EnrollmentSyncReport>("/api/students/sync"));
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to read the enrollment file"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const applied = await upload<EnrollmentSyncReport>("/api/students/sync?confirm=true");
+      toast({
+        title: "Enrollment synced",
+        description: `${applied.additions.length} added, ${applied.changes.length} updated, ${applied.departures.length} marked not enrolled.`,
+      });
+      setReport(null);
+      setFile(null);
+      setColumns(null);
+      setMapping({});
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      queryClient.invalidateQueries({ queryKey: ['/api/students'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      if (onSuccess) onSuccess();
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to apply the enrollment sync"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const hasChanges = report !== null &&
+    report.additions.length + report.changes.length + report.departures.length > 0;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-500">
+        Upload the registrar's enrollment CSV for the term and match its columns to student fields. New student numbers are added, changed
+        details are updated, and enrolled students missing from the file are marked not enrolled.
+        Blank cells never clear what is on record.
+      </p>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center gap-3">
+        <Input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] ?? null);
+            setColumns(null);
+            setReport(null);
+          }}
+        />
+        {!columns && (
+          <Button onClick={handleReadColumns} disabled={!file || isLoading} className="flex items-center">
+            <Columns3 className="mr-2 h-4 w-4" />
+            {isLoading ? "Reading..." : "Map Columns"}
+          </Button>
+        )}
+      </div>
+
+      {columns && !report && (
+        <div className="space-y-4">
+          <ColumnMapping columns={columns} mapping={mapping} onMappingChange={setMapping} />
+          <div className="flex justify-end">
+            <Button onClick={handlePreview} disabled={isLoading} className="flex items-center">
+              <RefreshCw className="mr-2 h-4 w-4" />
+              {isLoading ? "Checking..." : "Preview Changes"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-center">
+            {[
+              { label: "New", value: report.additions.length, className: "text-green-700" },
+              { label: "Changed", value: report.changes.length, className: "text-blue-700" },
+              { label: "Not enrolled", value: report.departures.length, className: "text-amber-700" },
+              { label: "Unchanged", value: report.unchanged, className: "text-slate-700" },
+              { label: "Invalid rows", value: report.invalid.length, className: "text-red-700" },
+            ].map(stat => (
+              <div key={stat.label} className="rounded-md border border-slate-200 p-3">
+                <div className={`text-2xl font-semibold ${stat.className}`}>{stat.value}</div>
+                <div className="text-xs text-slate-500">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+
+          <Tabs defaultValue="changes">
+            <TabsList>
+              <TabsTrigger value="additions">New ({report.additions.length})</TabsTrigger>
+              <TabsTrigger value="changes">Changed ({report.changes.length})</TabsTrigger>
+              <TabsTrigger value="departures">Not Enrolled ({report.departures.length})</TabsTrigger>
+              {report.invalid.length > 0 && (
+                <TabsTrigger value="invalid">Invalid ({report.invalid.length})</TabsTrigger>
+              )}
+            </TabsList>
+
+            <TabsContent value="additions">
+              <ul className="max-h-[40vh] overflow-y-auto divide-y divide-slate-100 rounded-md border border-slate-200 text-sm">
+                {report.additions.map(student => (
+                  <li key={student.studentId} className="px-3 py-2">
+                    <span className="font-medium">{student.fullName}</span>
+                    <span className="ml-2 text-slate-500">{student.studentId} · {student.programCode || student.programName} {student.yearLevel}</span>
+                  </li>
+                ))}
+                {report.additions.length === 0 && <li className="px-3 py-6 text-center text-slate-500">No new students.</li>}
+              </ul>
+            </TabsContent>
+
+            <TabsContent value="changes">
+              <ul className="max-h-[40vh] overflow-y-auto divide-y divide-slate-100 rounded-md border border-slate-200 text-sm">
+                {report.changes.map(({ student, changes }) => (
+                  <li key={student.id} className="px-3 py-2">
+                    <div>
+                      <span className="font-medium">{student.fullName}</span>
+                      <span className="ml-2 text-slate-500">{student.studentId}</span>
+                    </div>
+                    <ul className="mt-1 text-xs text-slate-600 space-y-0.5">
+                      {changes.map(change => <li key={change.field}>{describeChange(change)}</li>)}
+                    </ul>
+                  </li>
+                ))}
+                {report.changes.length === 0 && <li className="px-3 py-6 text-center text-slate-500">No changed students.</li>}
+              </ul>
+            </TabsContent>
+
+            <TabsContent value="departures">
+              <ul className="max-h-[40vh] overflow-y-auto divide-y divide-slate-100 rounded-md border border-slate-200 text-sm">
+                {report.departures.map(student => (
+                  <li key={student.id} className="px-3 py-2">
+                    <span className="font-medium">{student.fullName}</span>
+                    <span className="ml-2 text-slate-500">{student.studentId} · {student.programCode || student.programName} {student.yearLevel}</span>
+                  </li>
+                ))}
+                {report.departures.length === 0 && <li className="px-3 py-6 text-center text-slate-500">Every enrolled student is in the file.</li>}
+              </ul>
+            </TabsContent>
+
+            <TabsContent value="invalid">
+              <ul className="max-h-[40vh] overflow-y-auto divide-y divide-slate-100 rounded-md border border-slate-200 text-sm">
+                {report.invalid.map(row => (
+                  <li key={row.row} className="px-3 py-2 text-red-700">
+                    Row {row.row}{row.studentId && ` (${row.studentId})`}: {row.message}
+                  </li>
+                ))}
+              </ul>
+            </TabsContent>
+          </Tabs>
+
+          <div className="flex items-center justify-end space-x-2">
+            {report.invalid.length > 0 && (
+              <span className="text-sm text-slate-500">Invalid rows are skipped.</span>
+            )}
+            <Button variant="outline" onClick={() => setReport(null)} disabled={isLoading} className="flex items-center">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Mapping
+            </Button>
+            <Button onClick={handleApply} disabled={!hasChanges || isLoading}>
+              {isLoading ? "Applying..." : "Apply Sync"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
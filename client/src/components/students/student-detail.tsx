@@ -0,0 +1,330 @@
+import { useQuery } from "@tanstack/react-query";
+import { AccessoryLiabilityWithDetails, BorrowRecordWithDetails, Notification, Student } from "@shared/schema";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { User, Mail, TabletIcon, Package } from "lucide-react";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { format } from "date-fns";
+import { accessoryLabels } from "@/components/returns/accessory-return-form";
+import { StudentLedger } from "@/components/ledger/student-ledger";
+import { ClearancePanel } from "@/components/ledger/clearance-panel";
+
+interface StudentDetailProps {
+  student: Student;
+}
+
+export const templateLabels: Record<Notification["template"], string> = {
+  borrow_confirmation: "Borrow confirmation",
+  due_reminder: "Due reminder",
+  overdue_notice: "Overdue notice",
+  return_receipt: "Return receipt",
+  lost_report_acknowledgement: "Lost report acknowledgement",
+  recall_notice: "Recall notice",
+};
+
+// Get the notification status badge color
+export const getNotificationColor = (status: Notification["status"]) => {
+  switch (status) {
+    case "sent":
+      return "bg-green-100 text-green-800";
+    case "failed":
+      return "bg-red-100 text-red-800";
+    default:
+      return "bg-yellow-100 text-yellow-800";
+  }
+};
+
+// Personal and guardian details; detailed adds the enrollment, personal and address fields
+export function StudentInfo({ student, detailed = false }: StudentDetailProps & { detailed?: boolean }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center">
+            <User className="h-5 w-5 mr-2" />
+            Student Information
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-2 gap-4">
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Student No.</dt>
+              <dd className="mt-1 text-sm text-gray-900 font-mono">{student.studentId}</dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Name</dt>
+              <dd className="mt-1 text-sm text-gray-900">{student.fullName}</dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Program</dt>
+              <dd className="mt-1 text-sm text-gray-900">{student.programName}</dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Year Level</dt>
+              <dd className="mt-1 text-sm text-gray-900">{student.yearLevel}</dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Email</dt>
+              <dd className="mt-1 text-sm text-gray-900 break-all">{student.email || "N/A"}</dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Mobile</dt>
+              <dd className="mt-1 text-sm text-gray-900">{student.mobileNo || "N/A"}</dd>
+            </div>
+            {detailed && (
+              <>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Campus</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{student.campus || "N/A"}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Status</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{student.studentStatus}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Academic Year / Term</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{student.academicYearTerm || "N/A"}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Gender</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{student.gender}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Date of Birth</dt>
+                  <dd className="mt-1 text-sm text-gray-900">
+                    {student.dateOfBirth ? format(new Date(student.dateOfBirth), "MMM d, yyyy") : "N/A"}
+                  </dd>
+                </div>
+                <div className="col-span-2">
+                  <dt className="text-sm font-medium text-gray-500">Address</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{student.residenceAddress || "N/A"}</dd>
+                </div>
+              </>
+            )}
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle>Guardian</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-1 gap-4">
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Name</dt>
+              <dd className="mt-1 text-sm text-gray-900">{student.guardianFullName || "N/A"}</dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Email</dt>
+              <dd className="mt-1 text-sm text-gray-900 break-all">{student.guardianEmail || "N/A"}</dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-gray-500">Mobile</dt>
+              <dd className="mt-1 text-sm text-gray-900">{student.guardianMobileNo || "N/A"}</dd>
+            </div>
+            {detailed && (
+              <>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Telephone</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{student.guardianTelNo || "N/A"}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Occupation</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{student.guardianOccupation || "N/A"}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Address</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{student.guardianAddress || "N/A"}</dd>
+                </div>
+              </>
+            )}
+          </dl>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export function StudentDetail({ student }: StudentDetailProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const { data: borrowRecords, isLoading: isLoadingBorrowings } = useQuery<BorrowRecordWithDetails[]>({
+    queryKey: [`/api/students/${student.id}/borrow-records`],
+  });
+
+  const { data: liabilities, isLoading: isLoadingLiabilities } = useQuery<AccessoryLiabilityWithDetails[]>({
+    queryKey: [`/api/students/${student.id}/accessory-liabilities`],
+  });
+
+  const { data: notifications, isLoading: isLoadingNotifications } = useQuery<Notification[]>({
+    queryKey: [`/api/students/${student.id}/notifications`],
+  });
+
+  const handleRetry = async (notification: Notification) => {
+    try {
+      await apiRequest("POST", `/api/notifications/${notification.id}/retry`);
+      toast({
+        title: "Notification queued",
+        description: `The email to ${notification.recipient} will be sent again shortly.`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${student.id}/notifications`] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to retry the notification.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Basic details */}
+      <StudentInfo student={student} />
+
+      <Separator />
+
+      {/* Borrowings */}
+      <div>
+        <h3 className="text-lg font-medium mb-4">Borrowings</h3>
+
+        {isLoadingBorrowings ? (
+          <LoadingSpinner className="py-10" />
+        ) : borrowRecords && borrowRecords.length > 0 ? (
+          <ul className="space-y-3">
+            {borrowRecords.map(record => (
+              <li key={record.id} className="bg-white shadow rounded-lg p-4 flex items-start">
+                <TabletIcon className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                <div className="ml-3 w-0 flex-1">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-900">
+                      {record.tablet.brand} {record.tablet.model} · SN: {record.tablet.serialNumber}
+                    </p>
+                    <Badge
+                      className={record.isReturned ? "bg-green-100 text-green-800" : "bg-orange-100 text-orange-800"}
+                      variant="outline"
+                    >
+                      {record.isReturned ? "Returned" : "Borrowed"}
+                    </Badge>
+                  </div>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Borrowed {format(new Date(record.dateBorrowed), "MMM d, yyyy")}
+                    {record.returnDate && ` · Returned ${format(new Date(record.returnDate), "MMM d, yyyy")}`}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-center py-6 text-gray-500">This student has not borrowed any tablets.</p>
+        )}
+      </div>
+
+      <Separator />
+
+      {/* Missing accessories */}
+      <div>
+        <h3 className="text-lg font-medium mb-4">Missing Accessories</h3>
+
+        {isLoadingLiabilities ? (
+          <LoadingSpinner className="py-10" />
+        ) : liabilities && liabilities.length > 0 ? (
+          <ul className="space-y-3">
+            {liabilities.map(liability => (
+              <li key={liability.id} className="bg-white shadow rounded-lg p-4 flex items-start">
+                <Package className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                <div className="ml-3 w-0 flex-1">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-900">
+                      {accessoryLabels[liability.accessory]} for {liability.tablet.brand} {liability.tablet.model} · SN: {liability.tablet.serialNumber}
+                    </p>
+                    <Badge
+                      className={liability.status === "returned" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}
+                      variant="outline"
+                    >
+                      {liability.status}
+                    </Badge>
+                  </div>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Missing since {format(new Date(liability.createdAt), "MMM d, yyyy")}
+                    {liability.returnedAt && ` · Returned ${format(new Date(liability.returnedAt), "MMM d, yyyy")}`}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-center py-6 text-gray-500">This student has no missing accessories.</p>
+        )}
+      </div>
+
+      {can("ledger:read") && (
+        <>
+          <Separator />
+
+          {/* Charges, payments and clearance */}
+          <div>
+            <h3 className="text-lg font-medium mb-4">Accountabilities</h3>
+            <div className="space-y-6">
+              <ClearancePanel studentId={student.id} />
+              <StudentLedger studentId={student.id} />
+            </div>
+          </div>
+        </>
+      )}
+
+      <Separator />
+
+      {/* Notification log */}
+      <div>
+        <h3 className="text-lg font-medium mb-4">Notifications</h3>
+
+        {isLoadingNotifications ? (
+          <LoadingSpinner className="py-10" />
+        ) : notifications && notifications.length > 0 ? (
+          <ul className="space-y-3">
+            {notifications.map(notification => (
+              <li key={notification.id} className="bg-white shadow rounded-lg p-4 flex items-start">
+                <Mail className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                <div className="ml-3 w-0 flex-1">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-900">
+                      {templateLabels[notification.template]}
+                    </p>
+                    <Badge className={getNotificationColor(notification.status)} variant="outline">
+                      {notification.status}
+                    </Badge>
+                  </div>
+                  <p className="mt-1 text-sm text-gray-500">
+                    To {notification.recipient} · queued {format(new Date(notification.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                    {notification.sentAt && ` · sent ${format(new Date(notification.sentAt), "MMM d, yyyy 'at' h:mm a")}`}
+                  </p>
+                  <p className="mt-1 text-sm text-gray-700">{notification.subject}</p>
+                  {notification.lastError && notification.status !== "sent" && (
+                    <p className="mt-1 text-xs text-red-600">
+                      Attempt {notification.attempts}: {notification.lastError}
+                    </p>
+                  )}
+                  {notification.status === "failed" && can("students:write") && (
+                    <Button variant="outline" size="sm" className="mt-2" onClick={() => handleRetry(notification)}>
+                      Retry
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-center py-6 text-gray-500">No notifications have been sent to this student.</p>
+        )}
+      </div>
+    </div>
+  );
+}
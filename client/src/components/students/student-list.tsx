@@ -1,27 +1,134 @@
-
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { Student } from "@/lib/types";
+import { Link } from "wouter";
+import { ColumnDef } from "@tanstack/react-table";
+import { Student } from "@shared/schema";
+import { studentSortKeys } from "@shared/pagination";
 import { DataTable } from "@/components/ui/data-table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePagedList } from "@/hooks/use-paged-list";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { History, User } from "lucide-react";
 import { columns } from "./columns";
+import { StudentDetail } from "./student-detail";
 
 export function StudentList() {
-  const { data: students, isLoading } = useQuery<Student[]>({
-    queryKey: ["students"],
-    queryFn: async () => {
-      const response = await fetch("/api/students");
-      if (!response.ok) throw new Error("Failed to fetch students");
-      return response.json();
-    },
+  const [currentStudent, setCurrentStudent] = useState<Student | null>(null);
+  const [showDetailDialog, setShowDetailDialog] = useState(false);
+
+  const [program, setProgram] = useState("");
+  const [yearLevel, setYearLevel] = useState("all");
+  const [borrowing, setBorrowing] = useState("all");
+  const [enrolled, setEnrolled] = useState("all");
+
+  const { items: students, server, isLoading } = usePagedList<Student>("/api/students", {
+    program: program.trim(),
+    yearLevel: yearLevel === "all" ? undefined : yearLevel,
+    borrowing: borrowing === "all" ? undefined : borrowing,
+    enrolled: enrolled === "all" ? undefined : enrolled,
+  }, {
+    sort: { key: "fullName", order: "asc" },
+    sortKeys: studentSortKeys,
   });
 
+  const handleViewDetails = (student: Student) => {
+    setCurrentStudent(student);
+    setShowDetailDialog(true);
+  };
+
+  const columnsWithActions: ColumnDef<Student>[] = [
+    ...columns,
+    {
+      id: "actions",
+      cell: ({ row }) => (
+        <div className="flex justify-end whitespace-nowrap">
+          <Button variant="ghost" size="sm" onClick={() => handleViewDetails(row.original)}>
+            <User className="mr-2 h-4 w-4" />
+            View Details
+          </Button>
+          <Button variant="ghost" size="sm" asChild>
+            <Link href={`/students/${row.original.id}`}>
+              <History className="mr-2 h-4 w-4" />
+              Profile
+            </Link>
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
   return (
     <div className="space-y-4">
-      <DataTable 
-        columns={columns} 
-        data={students || []} 
-        isLoading={isLoading}
-      />
+      <div className="flex flex-wrap gap-3">
+        <Input
+          className="w-40"
+          placeholder="Course code"
+          value={program}
+          onChange={(e) => setProgram(e.target.value)}
+        />
+        <Select value={yearLevel} onValueChange={setYearLevel}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All year levels</SelectItem>
+            {[1, 2, 3, 4, 5].map(level => (
+              <SelectItem key={level} value={level.toString()}>Year {level}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={borrowing} onValueChange={setBorrowing}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All students</SelectItem>
+            <SelectItem value="with">Borrowing a tablet</SelectItem>
+            <SelectItem value="without">Not borrowing</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={enrolled} onValueChange={setEnrolled}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any enrollment</SelectItem>
+            <SelectItem value="yes">Enrolled</SelectItem>
+            <SelectItem value="no">Not enrolled</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="py-10 flex justify-center">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <DataTable
+          columns={columnsWithActions}
+          data={students}
+          searchPlaceholder="Search by name, ID or email..."
+          server={server}
+        />
+      )}
+
+      {/* Details Dialog */}
+      <Dialog open={showDetailDialog} onOpenChange={setShowDetailDialog}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Student Details</DialogTitle>
+          </DialogHeader>
+          {currentStudent && <StudentDetail student={currentStudent} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DeviceModelWithStats } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatPeso } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { GitMerge, Trash2 } from "lucide-react";
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+const emptyForm = { brand: "", model: "", storage: "", releaseYear: "", replacementCost: "", warrantyMonths: "" };
+
+export const describeWarranty = (months: number | null) => {
+  if (months === null) return "—";
+  if (months > 0 && months % 12 === 0) return `${months / 12} yr`;
+  return `${months} mo`;
+};
+
+/**
+ * The normalized catalog of tablet models. Tablets reference an entry, so fixing a
+ * spelling here or merging a duplicate updates every unit of that model.
+ */
+export function DeviceModels() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [mergeSource, setMergeSource] = useState<DeviceModelWithStats | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: deviceModels, isLoading } = useQuery<DeviceModelWithStats[]>({
+    queryKey: ['/api/device-models'],
+  });
+
+  const canEdit = can("tablets:write");
+
+  const setField = (field: keyof typeof emptyForm, value: string) =>
+    setForm(current => ({ ...current, [field]: value }));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/device-models'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/tablets'] });
+  };
+
+  const handleEdit = (deviceModel: DeviceModelWithStats) => {
+    setEditingId(deviceModel.id);
+    setForm({
+      brand: deviceModel.brand,
+      model: deviceModel.model,
+      storage: deviceModel.storage ?? "",
+      releaseYear: deviceModel.releaseYear?.toString() ?? "",
+      replacementCost: deviceModel.replacementCost ?? "",
+      warrantyMonths: deviceModel.warrantyMonths?.toString() ?? "",
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const body = {
+        brand: form.brand,
+        model: form.model,
+        storage: form.storage || null,
+        releaseYear: form.releaseYear ? Number(form.releaseYear) : null,
+        replacementCost: form.replacementCost ? Number(form.replacementCost) : null,
+        warrantyMonths: form.warrantyMonths ? Number(form.warrantyMonths) : null,
+      };
+
+      if (editingId !== null) {
+        await apiRequest("PUT", `/api/device-models/${editingId}`, body);
+      } else {
+        await apiRequest("POST", "/api/device-models", body);
+      }
+
+      toast({
+        title: "Device model saved",
+        description: `${form.brand} ${form.model} is up to date in the catalog.`,
+      });
+      handleCancel();
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save the device model."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeSource || !mergeTargetId) return;
+
+    try {
+      await apiRequest("POST", `/api/device-models/${mergeSource.id}/merge`, { targetId: Number(mergeTargetId) });
+      toast({
+        title: "Models merged",
+        description: `${mergeSource.totalUnits} tablet(s) moved off ${mergeSource.brand} ${mergeSource.model}.`,
+      });
+      setMergeSource(null);
+      setMergeTargetId("");
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to merge the device models."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (deviceModel: DeviceModelWithStats) => {
+    try {
+      await apiRequest("DELETE", `/api/device-models/${deviceModel.id}`);
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to delete the device model."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner className="py-10" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {deviceModels && deviceModels.length > 0 ? (
+        <div className="max-h-[40vh] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead>Storage</TableHead>
+                <TableHead>Released</TableHead>
+                <TableHead className="text-right">Replacement Cost</TableHead>
+                <TableHead>Warranty</TableHead>
+                <TableHead className="text-right">Units</TableHead>
+                {canEdit && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deviceModels.map(deviceModel => (
+                <TableRow key={deviceModel.id}>
+                  <TableCell>{deviceModel.brand} {deviceModel.model}</TableCell>
+                  <TableCell>{deviceModel.storage || "—"}</TableCell>
+                  <TableCell>{deviceModel.releaseYear ?? "—"}</TableCell>
+                  <TableCell className="text-right">
+                    {deviceModel.replacementCost !== null ? formatPeso(deviceModel.replacementCost) : "—"}
+                  </TableCell>
+                  <TableCell>{describeWarranty(deviceModel.warrantyMonths)}</TableCell>
+                  <TableCell className="text-right">{deviceModel.totalUnits}</TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(deviceModel)}>Edit</Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Merge into another model"
+                        disabled={deviceModels.length < 2}
+                        onClick={() => {
+                          setMergeSource(deviceModel);
+                          setMergeTargetId("");
+                        }}
+                      >
+                        <GitMerge className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={deviceModel.totalUnits > 0}
+                        onClick={() => handleDelete(deviceModel)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-center py-6 text-gray-500">
+          No device models yet. Models are added automatically as tablets are registered.
+        </p>
+      )}
+
+      {canEdit && mergeSource && (
+        <div className="flex flex-wrap items-end gap-3 rounded-md border border-slate-200 p-3">
+          <div className="flex-1 min-w-[200px]">
+            <Label>Merge {mergeSource.brand} {mergeSource.model} into</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select the model to keep" />
+              </SelectTrigger>
+              <SelectContent>
+                {deviceModels?.filter(deviceModel => deviceModel.id !== mergeSource.id).map(deviceModel => (
+                  <SelectItem key={deviceModel.id} value={deviceModel.id.toString()}>
+                    {deviceModel.brand} {deviceModel.model}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={() => setMergeSource(null)}>Cancel</Button>
+          <Button onClick={handleMerge} disabled={!mergeTargetId}>Merge</Button>
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 items-end">
+          <div>
+            <Label htmlFor="device-model-brand">Brand</Label>
+            <Input id="device-model-brand" value={form.brand} onChange={(e) => setField("brand", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="device-model-model">Model</Label>
+            <Input id="device-model-model" value={form.model} onChange={(e) => setField("model", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="device-model-storage">Storage</Label>
+            <Input id="device-model-storage" placeholder="e.g. 128 GB" value={form.storage} onChange={(e) => setField("storage", e.target.value)} />
+            <p className="text-xs text-slate-500 mt-1">For reference only; this entry covers every storage size of the model</p>
+          </div>
+          <div>
+            <Label htmlFor="device-model-year">Release Year</Label>
+            <Input id="device-model-year" type="number" min="2000" max="2100" value={form.releaseYear} onChange={(e) => setField("releaseYear", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="device-model-cost">Replacement Cost</Label>
+            <Input id="device-model-cost" type="number" min="0" step="0.01" value={form.replacementCost} onChange={(e) => setField("replacementCost", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="device-model-warranty">Warranty (months)</Label>
+            <Input id="device-model-warranty" type="number" min="0" value={form.warrantyMonths} onChange={(e) => setField("warrantyMonths", e.target.value)} />
+          </div>
+          <div className="col-span-2 sm:col-span-3 flex justify-end space-x-2">
+            {editingId !== null && (
+              <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+            )}
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || form.brand.trim() === "" || form.model.trim() === ""}
+            >
+              {isSaving ? "Saving..." : editingId !== null ? "Update Model" : "Add Model"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
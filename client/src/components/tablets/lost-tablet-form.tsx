@@ -108,7 +108,8 @@ export function LostTabletForm({ tablet, onSuccess }: LostTabletFormProps) {
       });
       
       if (!response.ok) {
-        throw new Error("Failed to submit report");
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Failed to submit report");
       }
       
       toast({
@@ -120,13 +121,16 @@ export function LostTabletForm({ tablet, onSuccess }: LostTabletFormProps) {
       queryClient.invalidateQueries({ queryKey: ['/api/tablets'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
       queryClient.invalidateQueries({ queryKey: [`/api/tablets/${tablet.id}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/accountabilities'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${studentId || tablet.currentBorrower?.studentId}/ledger`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${studentId || tablet.currentBorrower?.studentId}/clearance`] });
       
       if (onSuccess) onSuccess();
     } catch (error) {
       console.error("Error submitting lost tablet report:", error);
       toast({
         title: "Error",
-        description: "There was an error submitting your report. Please try again.",
+        description: error instanceof Error ? error.message : "There was an error submitting your report. Please try again.",
         variant: "destructive",
       });
     } finally {
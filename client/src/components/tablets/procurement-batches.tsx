@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ProcurementBatchWithStats } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatPeso } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Trash2 } from "lucide-react";
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+const emptyForm = { poNumber: "", supplier: "", purchaseDate: "", unitCost: "", warrantyExpiry: "", notes: "" };
+
+export const formatBatchDate = (value: string | null) =>
+  value ? format(parseISO(value), "MMM d, yyyy") : "—";
+
+/**
+ * Purchase orders tablets were bought under. Tablets join a batch from the tablet form
+ * or through the PO columns of the CSV import.
+ */
+export function ProcurementBatches() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: batches, isLoading } = useQuery<ProcurementBatchWithStats[]>({
+    queryKey: ['/api/procurement-batches'],
+  });
+
+  const canEdit = can("tablets:write");
+
+  const setField = (field: keyof typeof emptyForm, value: string) =>
+    setForm(current => ({ ...current, [field]: value }));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/procurement-batches'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/reports/warranty-expiring'] });
+  };
+
+  const handleEdit = (batch: ProcurementBatchWithStats) => {
+    setEditingId(batch.id);
+    setForm({
+      poNumber: batch.poNumber,
+      supplier: batch.supplier,
+      purchaseDate: batch.purchaseDate,
+      unitCost: batch.unitCost ?? "",
+      warrantyExpiry: batch.warrantyExpiry ?? "",
+      notes: batch.notes ?? "",
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const body = {
+        poNumber: form.poNumber,
+        supplier: form.supplier,
+        purchaseDate: form.purchaseDate,
+        unitCost: form.unitCost ? Number(form.unitCost) : null,
+        warrantyExpiry: form.warrantyExpiry || null,
+        notes: form.notes || null,
+      };
+
+      if (editingId !== null) {
+        await apiRequest("PUT", `/api/procurement-batches/${editingId}`, body);
+      } else {
+        await apiRequest("POST", "/api/procurement-batches", body);
+      }
+
+      toast({
+        title: "Batch saved",
+        description: `Purchase order ${form.poNumber} has been saved.`,
+      });
+      handleCancel();
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save the procurement batch."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (batch: ProcurementBatchWithStats) => {
+    try {
+      await apiRequest("DELETE", `/api/procurement-batches/${batch.id}`);
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to delete the procurement batch."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner className="py-10" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {batches && batches.length > 0 ? (
+        <div className="max-h-[40vh] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>PO Number</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Purchased</TableHead>
+                <TableHead className="text-right">Unit Cost</TableHead>
+                <TableHead>Warranty Until</TableHead>
+                <TableHead className="text-right">Tablets</TableHead>
+                {canEdit && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.map(batch => (
+                <TableRow key={batch.id}>
+                  <TableCell className="font-medium">{batch.poNumber}</TableCell>
+                  <TableCell>{batch.supplier}</TableCell>
+                  <TableCell>{formatBatchDate(batch.purchaseDate)}</TableCell>
+                  <TableCell className="text-right">
+                    {batch.unitCost !== null ? formatPeso(batch.unitCost) : "—"}
+                  </TableCell>
+                  <TableCell>
+                    {batch.warrantyExpiry ? formatBatchDate(batch.warrantyExpiry) : (
+                      <span className="text-slate-500">Model warranty</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{batch.tabletCount}</TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(batch)}>Edit</Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={batch.tabletCount > 0}
+                        onClick={() => handleDelete(batch)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-center py-6 text-gray-500">
+          No procurement batches recorded yet.
+        </p>
+      )}
+
+      {canEdit && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 items-end">
+          <div>
+            <Label htmlFor="batch-po">PO Number</Label>
+            <Input id="batch-po" value={form.poNumber} onChange={(e) => setField("poNumber", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="batch-supplier">Supplier</Label>
+            <Input id="batch-supplier" value={form.supplier} onChange={(e) => setField("supplier", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="batch-purchase-date">Purchase Date</Label>
+            <Input id="batch-purchase-date" type="date" value={form.purchaseDate} onChange={(e) => setField("purchaseDate", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="batch-unit-cost">Unit Cost</Label>
+            <Input id="batch-unit-cost" type="number" min="0" step="0.01" value={form.unitCost} onChange={(e) => setField("unitCost", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="batch-warranty">Warranty Expiry</Label>
+            <Input id="batch-warranty" type="date" value={form.warrantyExpiry} onChange={(e) => setField("warrantyExpiry", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="batch-notes">Notes</Label>
+            <Input id="batch-notes" value={form.notes} onChange={(e) => setField("notes", e.target.value)} />
+          </div>
+          <p className="col-span-2 sm:col-span-3 text-xs text-slate-500">
+            Leave the warranty expiry empty to use each model's warranty period from the purchase date.
+          </p>
+          <div className="col-span-2 sm:col-span-3 flex justify-end space-x-2">
+            {editingId !== null && (
+              <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+            )}
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || form.poNumber.trim() === "" || form.supplier.trim() === "" || form.purchaseDate === ""}
+            >
+              {isSaving ? "Saving..." : editingId !== null ? "Update Batch" : "Add Batch"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { TabletScanResult } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ScanBarcode } from "lucide-react";
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+interface ScanInputProps {
+  onScan: (tablet: TabletScanResult) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Look up a tablet from its asset label. Handheld scanners type the code and press Enter,
+ * so a serial number or IMEI typed by hand works the same way.
+ */
+export function ScanInput({ onScan, placeholder = "Scan a tablet label or type its serial number / IMEI...", className }: ScanInputProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [isLookingUp, setIsLookingUp] = useState(false);
+
+  const handleLookup = async () => {
+    const value = code.trim();
+    if (!value || isLookingUp) return;
+
+    setIsLookingUp(true);
+
+    try {
+      const response = await apiRequest("GET", `/api/tablets/scan/${encodeURIComponent(value)}`);
+      const tablet: TabletScanResult = await response.json();
+      setCode("");
+      onScan(tablet);
+    } catch (err) {
+      toast({
+        title: "Tablet not found",
+        description: getErrorMessage(err, `No tablet matches "${value}"`),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  return (
+    <div className={`relative rounded-md shadow-sm ${className ?? ""}`}>
+      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+        {isLookingUp ? <LoadingSpinner size="sm" /> : <ScanBarcode className="h-5 w-5 text-gray-400" />}
+      </div>
+      <Input
+        type="text"
+        placeholder={placeholder}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            handleLookup();
+          }
+        }}
+        className="pl-10"
+        autoComplete="off"
+      />
+    </div>
+  );
+}
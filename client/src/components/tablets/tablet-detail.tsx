@@ -1,11 +1,14 @@
 import { useQuery } from "@tanstack/react-query";
-import { TabletWithBorrowInfo } from "@shared/schema";
+import { TabletWithBorrowInfo, Campus, DeviceModel, ProcurementBatch } from "@shared/schema";
+import { warrantyExpiryFor } from "@shared/warranty";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { TabletIcon, Clock } from "lucide-react";
+import { TabletIcon, Clock, Receipt } from "lucide-react";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
-import { format } from "date-fns";
+import { format, isBefore, parseISO } from "date-fns";
+import { formatPeso } from "@/lib/utils";
+import { formatBatchDate } from "./procurement-batches";
 
 interface TabletDetailProps {
   tablet: TabletWithBorrowInfo;
@@ -16,6 +19,23 @@ export function TabletDetail({ tablet }: TabletDetailProps) {
     queryKey: [`/api/tablets/${tablet.id}/history`],
   });
 
+  const { data: batches } = useQuery<ProcurementBatch[]>({
+    queryKey: ['/api/procurement-batches'],
+  });
+
+  const { data: deviceModels } = useQuery<DeviceModel[]>({
+    queryKey: ['/api/device-models'],
+  });
+
+  const { data: campuses } = useQuery<Campus[]>({
+    queryKey: ['/api/campuses'],
+  });
+
+  const campus = campuses?.find(c => c.id === tablet.campusId);
+  const batch = batches?.find(b => b.id === tablet.batchId);
+  const deviceModel = deviceModels?.find(m => m.id === tablet.modelId);
+  const warrantyExpiry = warrantyExpiryFor(batch, deviceModel);
+
   // Format the accessories into a readable string
   const formatAccessories = () => {
     const accessories = [];
@@ -47,12 +67,27 @@ export function TabletDetail({ tablet }: TabletDetailProps) {
       case "borrowed":
         return "bg-orange-100 text-orange-800";
       case "returned":
+      case "accessories_returned":
         return "bg-green-100 text-green-800";
       case "lost":
         return "bg-red-100 text-red-800";
+      case "reserved":
+      case "due_soon":
+        return "bg-yellow-100 text-yellow-800";
+      case "overdue":
+        return "bg-orange-100 text-orange-800";
+      case "seriously_overdue":
+        return "bg-red-100 text-red-800";
       case "status_change":
       case "condition_change":
         return "bg-purple-100 text-purple-800";
+      case "repair_opened":
+      case "repair_status_change":
+        return "bg-amber-100 text-amber-800";
+      case "repair_closed":
+        return "bg-teal-100 text-teal-800";
+      case "transferred":
+        return "bg-sky-100 text-sky-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -99,6 +134,10 @@ export function TabletDetail({ tablet }: TabletDetailProps) {
                 <dt className="text-sm font-medium text-gray-500">Accessories</dt>
                 <dd className="mt-1 text-sm text-gray-900">{formatAccessories()}</dd>
               </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Campus</dt>
+                <dd className="mt-1 text-sm text-gray-900">{campus?.name ?? "Unassigned"}</dd>
+              </div>
             </dl>
           </CardContent>
         </Card>
@@ -144,6 +183,48 @@ export function TabletDetail({ tablet }: TabletDetailProps) {
         </Card>
       </div>
 
+      {batch && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center">
+              <Receipt className="h-5 w-5 mr-2" />
+              Procurement
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div>
+                <dt className="text-sm font-medium text-gray-500">PO Number</dt>
+                <dd className="mt-1 text-sm text-gray-900">{batch.poNumber}</dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Supplier</dt>
+                <dd className="mt-1 text-sm text-gray-900">{batch.supplier}</dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Purchase Date</dt>
+                <dd className="mt-1 text-sm text-gray-900">{formatBatchDate(batch.purchaseDate)}</dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Unit Cost</dt>
+                <dd className="mt-1 text-sm text-gray-900">{batch.unitCost !== null ? formatPeso(batch.unitCost) : "N/A"}</dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Warranty</dt>
+                <dd className="mt-1 text-sm text-gray-900">
+                  {warrantyExpiry ? (
+                    <span className={isBefore(parseISO(warrantyExpiry), new Date()) ? "text-red-600" : ""}>
+                      {isBefore(parseISO(warrantyExpiry), new Date()) ? "Expired " : "Until "}
+                      {formatBatchDate(warrantyExpiry)}
+                    </span>
+                  ) : "N/A"}
+                </dd>
+              </div>
+            </dl>
+          </CardContent>
+        </Card>
+      )}
+
       <Separator />
 
       {/* Tablet history */}
@@ -165,10 +246,19 @@ export function TabletDetail({ tablet }: TabletDetailProps) {
                       <p className="text-sm font-medium text-gray-900">
                         {event.eventType === "borrowed" && "Tablet borrowed"}
                         {event.eventType === "returned" && "Tablet returned"}
+                        {event.eventType === "accessories_returned" && "Missing accessories returned"}
                         {event.eventType === "lost" && "Tablet reported lost"}
+                        {event.eventType === "reserved" && "Tablet held for reservation"}
+                        {event.eventType === "due_soon" && "Return due soon"}
+                        {event.eventType === "overdue" && "Return overdue"}
+                        {event.eventType === "seriously_overdue" && "Return seriously overdue"}
                         {event.eventType === "created" && "Tablet added to inventory"}
                         {event.eventType === "status_change" && "Status changed"}
                         {event.eventType === "condition_change" && "Condition changed"}
+                        {event.eventType === "repair_opened" && "Sent for repair"}
+                        {event.eventType === "repair_status_change" && "Repair status changed"}
+                        {event.eventType === "repair_closed" && "Repair completed"}
+                        {event.eventType === "transferred" && "Campus transfer"}
                       </p>
                       <Badge className={getEventColor(event.eventType)} variant="outline">
                         {event.eventType.replace("_", " ")}
@@ -192,6 +282,11 @@ export function TabletDetail({ tablet }: TabletDetailProps) {
                         Notes: {event.notes}
                       </p>
                     )}
+                    {event.actorUsername && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        Recorded by {event.actorUsername}
+                      </p>
+                    )}
                   </div>
                 </div>
               </li>
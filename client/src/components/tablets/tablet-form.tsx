@@ -1,8 +1,9 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertTabletSchema } from "@shared/schema";
+import { insertTabletSchema, Campus, DeviceModel, ProcurementBatch } from "@shared/schema";
 import { Card } from "@/components/ui/card";
 import {
   Form,
@@ -26,6 +27,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
 import { Tablet, QrCode } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 
@@ -50,11 +52,15 @@ export function TabletForm({
   tabletId
 }: TabletFormProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const form = useForm<z.infer<typeof tabletFormSchema>>({
     resolver: zodResolver(tabletFormSchema),
     defaultValues: defaultValues || {
+      modelId: null,
+      batchId: null,
+      campusId: null,
       brand: "",
       model: "",
       color: "",
@@ -69,6 +75,35 @@ export function TabletForm({
     },
   });
 
+  const { data: deviceModels } = useQuery<DeviceModel[]>({
+    queryKey: ['/api/device-models'],
+  });
+
+  const { data: batches } = useQuery<ProcurementBatch[]>({
+    queryKey: ['/api/procurement-batches'],
+  });
+
+  const { data: campuses } = useQuery<Campus[]>({
+    queryKey: ['/api/campuses'],
+  });
+
+  // Once a tablet is kept at a campus it only moves there through a transfer
+  const campusLocked = isEdit && !!defaultValues?.campusId;
+
+  // Picking a catalog entry fills in its names; "new" lets staff type a model the catalog does not have yet
+  const modelId = form.watch("modelId");
+  const handleCatalogChange = (value: string) => {
+    if (value === "new") {
+      form.setValue("modelId", null);
+      return;
+    }
+    const deviceModel = deviceModels?.find(m => m.id.toString() === value);
+    if (!deviceModel) return;
+    form.setValue("modelId", deviceModel.id);
+    form.setValue("brand", deviceModel.brand, { shouldValidate: true });
+    form.setValue("model", deviceModel.model, { shouldValidate: true });
+  };
+
   const onSubmit = async (data: z.infer<typeof tabletFormSchema>) => {
     setIsSubmitting(true);
     try {
@@ -86,6 +121,8 @@ export function TabletForm({
         });
       }
       queryClient.invalidateQueries({ queryKey: ['/api/tablets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/device-models'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/procurement-batches'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
       if (onSuccess) onSuccess();
       if (!isEdit) form.reset();
@@ -115,6 +152,36 @@ export function TabletForm({
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
           {/* Basic tablet information */}
           <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="modelId"
+              render={({ field }) => (
+                <FormItem className="sm:col-span-2">
+                  <FormLabel>Catalog Model</FormLabel>
+                  <Select value={field.value ? field.value.toString() : "new"} onValueChange={handleCatalogChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a model" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="new">New model (type brand and model below)</SelectItem>
+                      {deviceModels?.map(deviceModel => (
+                        <SelectItem key={deviceModel.id} value={deviceModel.id.toString()}>
+                          {deviceModel.brand} {deviceModel.model}
+                          {deviceModel.storage ? ` · ${deviceModel.storage}` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    A typed model that matches a catalog entry, ignoring case and punctuation, is linked to it.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="brand"
@@ -122,7 +189,7 @@ export function TabletForm({
                 <FormItem>
                   <FormLabel>Brand</FormLabel>
                   <FormControl>
-                    <Input placeholder="Apple, Samsung, etc." {...field} />
+                    <Input placeholder="Apple, Samsung, etc." readOnly={!!modelId} {...field} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
@@ -136,13 +203,75 @@ export function TabletForm({
                 <FormItem>
                   <FormLabel>Model</FormLabel>
                   <FormControl>
-                    <Input placeholder="iPad Pro, Galaxy Tab S7, etc." {...field} />
+                    <Input placeholder="iPad Pro, Galaxy Tab S7, etc." readOnly={!!modelId} {...field} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="batchId"
+              render={({ field }) => (
+                <FormItem className="sm:col-span-2">
+                  <FormLabel>Procurement Batch</FormLabel>
+                  <Select
+                    value={field.value ? field.value.toString() : "none"}
+                    onValueChange={(value) => field.onChange(value === "none" ? null : Number(value))}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a purchase order" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Not recorded</SelectItem>
+                      {batches?.map(batch => (
+                        <SelectItem key={batch.id} value={batch.id.toString()}>
+                          {batch.poNumber} · {batch.supplier}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="campusId"
+              render={({ field }) => (
+                <FormItem className="sm:col-span-2">
+                  <FormLabel>Campus</FormLabel>
+                  <Select
+                    value={field.value ? field.value.toString() : "none"}
+                    onValueChange={(value) => field.onChange(value === "none" ? null : Number(value))}
+                    disabled={campusLocked}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a campus" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">{!isEdit && user?.campusId ? "My campus" : "Unassigned"}</SelectItem>
+                      {campuses?.filter(campus => campus.isActive || campus.id === field.value).map(campus => (
+                        <SelectItem key={campus.id} value={campus.id.toString()}>
+                          {campus.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {campusLocked && (
+                    <FormDescription>Use a transfer to move this tablet to another campus.</FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="color"
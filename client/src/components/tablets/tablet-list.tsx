@@ -1,9 +1,11 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { TabletWithBorrowInfo } from "@shared/schema";
-import { DataTable } from "@/components/ui/data-table";
+import { Campus, TabletWithBorrowInfo, tabletConditionEnum, tabletStatusEnum } from "@shared/schema";
+import { tabletSortKeys } from "@shared/pagination";
+import { DataTable, TablePagination } from "@/components/ui/data-table";
 import { ColumnDef } from "@tanstack/react-table";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import {
   DropdownMenu,
@@ -13,15 +15,25 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Edit, MoreHorizontal, Tablet, History, AlertTriangle } from "lucide-react";
+import { Edit, MoreHorizontal, Tablet, History, AlertTriangle, QrCode, Search } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { TabletDetail } from "./tablet-detail";
 import { LostTabletForm } from "./lost-tablet-form";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { TabletForm } from "./tablet-form";
+import { ScanInput } from "./scan-input";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePagedList } from "@/hooks/use-paged-list";
 
 export function TabletList() {
   const { toast } = useToast();
@@ -30,9 +42,23 @@ export function TabletList() {
   const [showDetailDialog, setShowDetailDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [showLostDialog, setShowLostDialog] = useState(false);
-  
-  const { data: tablets, isLoading, error } = useQuery({
-    queryKey: ['/api/tablets'],
+  const [campusFilter, setCampusFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [conditionFilter, setConditionFilter] = useState("all");
+  const { user } = useAuth();
+
+  const { items: tablets, server, isLoading, error } = usePagedList<TabletWithBorrowInfo>("/api/tablets", {
+    campusId: campusFilter === "all" ? undefined : campusFilter,
+    status: statusFilter === "all" ? undefined : statusFilter,
+    condition: conditionFilter === "all" ? undefined : conditionFilter,
+  }, {
+    sort: { key: "createdAt", order: "desc" },
+    sortKeys: tabletSortKeys,
+    pageSize: 24,
+  });
+
+  const { data: campuses } = useQuery<Campus[]>({
+    queryKey: ['/api/campuses'],
   });
 
   if (isLoading) {
@@ -51,6 +77,18 @@ export function TabletList() {
     );
   }
 
+  // Staff tied to a campus only ever receive that campus's tablets, so the filter is for everyone else
+  const showCampusFilter = !user?.campusId && (campuses?.length ?? 0) > 1;
+  const pageCount = Math.max(1, Math.ceil(server.total / server.pageSize));
+
+  const campusName = (tablet: TabletWithBorrowInfo) =>
+    campuses?.find(campus => campus.id === tablet.campusId)?.name;
+
+  const describeStorage = (tablet: TabletWithBorrowInfo) => {
+    const name = campusName(tablet);
+    return name ? `In storage at ${name}` : "In storage";
+  };
+
   // Format the accessories into a readable string
   const formatAccessories = (tablet: TabletWithBorrowInfo) => {
     const accessories = [];
@@ -99,6 +137,10 @@ export function TabletList() {
     setShowLostDialog(true);
   };
 
+  const handlePrintLabel = (tablet: TabletWithBorrowInfo) => {
+    window.open(`/api/tablets/labels?ids=${tablet.id}`, "_blank");
+  };
+
   // Define columns for the data table
   const columns: ColumnDef<TabletWithBorrowInfo>[] = [
     {
@@ -157,7 +199,7 @@ export function TabletList() {
             </div>
           );
         }
-        return <div className="text-sm text-gray-500">In storage</div>;
+        return <div className="text-sm text-gray-500">{describeStorage(tablet)}</div>;
       },
     },
     {
@@ -190,6 +232,10 @@ export function TabletList() {
               <Edit className="mr-2 h-4 w-4" />
               Edit
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handlePrintLabel(row.original)}>
+              <QrCode className="mr-2 h-4 w-4" />
+              Print Label
+            </DropdownMenuItem>
             <DropdownMenuItem onClick={() => handleReportLost(row.original)}>
               <AlertTriangle className="mr-2 h-4 w-4" />
               Report Lost
@@ -202,12 +248,61 @@ export function TabletList() {
 
   return (
     <div>
+      <ScanInput className="mb-4" onScan={handleViewDetails} />
+
       {/* View toggle */}
       <Tabs value={view} onValueChange={(v) => setView(v as "grid" | "list")} className="w-full">
-        <TabsList className="grid w-[200px] grid-cols-2 mb-4">
-          <TabsTrigger value="grid">Grid View</TabsTrigger>
-          <TabsTrigger value="list">List View</TabsTrigger>
-        </TabsList>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <TabsList className="grid w-[200px] grid-cols-2">
+            <TabsTrigger value="grid">Grid View</TabsTrigger>
+            <TabsTrigger value="list">List View</TabsTrigger>
+          </TabsList>
+          <div className="relative flex-1 min-w-[200px] max-w-sm">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by serial number, IMEI, brand or model..."
+              value={server.search}
+              onChange={(e) => server.onSearchChange(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {tabletStatusEnum.enumValues.map(status => (
+                <SelectItem key={status} value={status}>{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={conditionFilter} onValueChange={setConditionFilter}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Condition" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All conditions</SelectItem>
+              {tabletConditionEnum.enumValues.map(condition => (
+                <SelectItem key={condition} value={condition}>{condition}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {showCampusFilter && (
+            <Select value={campusFilter} onValueChange={setCampusFilter}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Campus" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All campuses</SelectItem>
+                {campuses?.map(campus => (
+                  <SelectItem key={campus.id} value={campus.id.toString()}>{campus.name}</SelectItem>
+                ))}
+                <SelectItem value="none">Unassigned</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+        </div>
 
         {/* Grid View */}
         <TabsContent value="grid" className="mt-0">
@@ -254,7 +349,7 @@ export function TabletList() {
                           (borrowed on {format(new Date(tablet.currentBorrower.dateBorrowed), "MMM d, yyyy")})
                         </>
                       ) : (
-                        "In storage"
+                        describeStorage(tablet)
                       )}
                     </dd>
                   </div>
@@ -281,6 +376,19 @@ export function TabletList() {
             </div>
           ))}
         </div>
+        {tablets.length === 0 && (
+          <p className="text-center py-10 text-gray-500">No tablets match these filters.</p>
+        )}
+        <TablePagination
+          pageIndex={server.page - 1}
+          pageSize={server.pageSize}
+          totalRows={server.total}
+          pageCount={pageCount}
+          onPrevious={() => server.onPageChange(server.page - 1)}
+          onNext={() => server.onPageChange(server.page + 1)}
+          canPrevious={server.page > 1}
+          canNext={server.page < pageCount}
+        />
       </TabsContent>
 
         {/* List View */}
@@ -288,8 +396,8 @@ export function TabletList() {
           <DataTable
             columns={columns}
             data={tablets}
-            searchPlaceholder="Search tablets by serial number, model, or status..."
-            searchColumn="serialNumber"
+            showSearch={false}
+            server={server}
           />
         </TabsContent>
       </Tabs>
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CampusWithStats } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+const emptyForm = { code: "", name: "", address: "", isActive: true };
+
+/**
+ * Campus offices holding tablet stock. A campus is never deleted; deactivating it
+ * stops new transfers to it while keeping its history.
+ */
+export function Campuses() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: campuses, isLoading } = useQuery<CampusWithStats[]>({
+    queryKey: ['/api/campuses'],
+  });
+
+  const canEdit = can("campuses:manage");
+
+  const handleEdit = (campus: CampusWithStats) => {
+    setEditingId(campus.id);
+    setForm({
+      code: campus.code,
+      name: campus.name,
+      address: campus.address ?? "",
+      isActive: campus.isActive,
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const body = {
+        code: form.code,
+        name: form.name,
+        address: form.address || null,
+        isActive: form.isActive,
+      };
+
+      if (editingId !== null) {
+        await apiRequest("PUT", `/api/campuses/${editingId}`, body);
+      } else {
+        await apiRequest("POST", "/api/campuses", body);
+      }
+
+      toast({
+        title: "Campus saved",
+        description: `${form.name} has been saved.`,
+      });
+      handleCancel();
+      queryClient.invalidateQueries({ queryKey: ['/api/campuses'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save the campus."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner className="py-10" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {campuses && campuses.length > 0 ? (
+        <div className="max-h-[40vh] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Campus</TableHead>
+                <TableHead className="text-right">Tablets</TableHead>
+                <TableHead className="text-right">Available</TableHead>
+                <TableHead className="text-right">Incoming</TableHead>
+                <TableHead className="text-right">Staff</TableHead>
+                {canEdit && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campuses.map(campus => (
+                <TableRow key={campus.id} className={campus.isActive ? undefined : "text-slate-400"}>
+                  <TableCell className="font-medium">{campus.code}</TableCell>
+                  <TableCell>
+                    <div>{campus.name}{!campus.isActive && " (inactive)"}</div>
+                    {campus.address && <div className="text-xs text-slate-500">{campus.address}</div>}
+                  </TableCell>
+                  <TableCell className="text-right">{campus.tabletCount}</TableCell>
+                  <TableCell className="text-right">{campus.availableCount}</TableCell>
+                  <TableCell className="text-right">{campus.incomingCount}</TableCell>
+                  <TableCell className="text-right">{campus.staffCount}</TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(campus)}>Edit</Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-center py-6 text-gray-500">
+          No campuses set up yet.
+        </p>
+      )}
+
+      {canEdit && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 items-end">
+          <div>
+            <Label htmlFor="campus-code">Code</Label>
+            <Input id="campus-code" placeholder="e.g. MAIN" value={form.code} onChange={(e) => setForm({ ...form, code: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="campus-name">Name</Label>
+            <Input id="campus-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="campus-address">Address</Label>
+            <Input id="campus-address" value={form.address} onChange={(e) => setForm({ ...form, address: e.target.value })} />
+          </div>
+          <div className="col-span-2 sm:col-span-3 flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="campus-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+              <Label htmlFor="campus-active">Active</Label>
+            </div>
+            <div className="flex space-x-2">
+              {editingId !== null && (
+                <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+              )}
+              <Button
+                onClick={handleSave}
+                disabled={isSaving || form.code.trim() === "" || form.name.trim() === ""}
+              >
+                {isSaving ? "Saving..." : editingId !== null ? "Update Campus" : "Add Campus"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
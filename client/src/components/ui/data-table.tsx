@@ -22,8 +22,9 @@ import {
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ChevronLeft, ChevronRight, Search } from "lucide-react";
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, Search } from "lucide-react";
 import { rankItem } from "@tanstack/match-sorter-utils";
+import type { SortOrder } from "@shared/pagination";
 
 // Define a fuzzy filter function for the search
 const fuzzyFilter: FilterFn<any> = (row, columnId, value, addMeta) => {
@@ -32,6 +33,22 @@ const fuzzyFilter: FilterFn<any> = (row, columnId, value, addMeta) => {
   return itemRank.passed;
 };
 
+export type ListSort = { key: string; order: SortOrder };
+
+// Server-driven mode: data is one page the server has already searched, sorted and sliced
+export interface ServerTableState {
+  total: number;
+  page: number; // 1-based
+  pageSize: number;
+  onPageChange: (page: number) => void;
+  sort: ListSort;
+  sortKeys: readonly string[]; // Column ids the server can sort by
+  onSortChange: (sort: ListSort) => void;
+  search: string;
+  onSearchChange: (search: string) => void;
+  isFetching?: boolean;
+}
+
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
   data: TData[];
@@ -39,6 +56,7 @@ interface DataTableProps<TData, TValue> {
   searchColumn?: string;
   showSearch?: boolean;
   pageSize?: number;
+  server?: ServerTableState;
 }
 
 export function DataTable<TData, TValue>({
@@ -48,6 +66,7 @@ export function DataTable<TData, TValue>({
   searchColumn,
   showSearch = true,
   pageSize = 10,
+  server,
 }: DataTableProps<TData, TValue>) {
   const [sorting, setSorting] = React.useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>([]);
@@ -57,13 +76,16 @@ export function DataTable<TData, TValue>({
     data,
     columns,
     getCoreRowModel: getCoreRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
+    getPaginationRowModel: server ? undefined : getPaginationRowModel(),
     onSortingChange: setSorting,
-    getSortedRowModel: getSortedRowModel(),
+    getSortedRowModel: server ? undefined : getSortedRowModel(),
     onColumnFiltersChange: setColumnFilters,
-    getFilteredRowModel: getFilteredRowModel(),
+    getFilteredRowModel: server ? undefined : getFilteredRowModel(),
     onGlobalFilterChange: setGlobalFilter,
     globalFilterFn: fuzzyFilter,
+    manualPagination: !!server,
+    manualSorting: !!server,
+    manualFiltering: !!server,
     state: {
       sorting,
       columnFilters,
@@ -76,6 +98,27 @@ export function DataTable<TData, TValue>({
     },
   });
 
+  const pageIndex = server ? server.page - 1 : table.getState().pagination.pageIndex;
+  const currentPageSize = server ? server.pageSize : table.getState().pagination.pageSize;
+  const totalRows = server ? server.total : table.getFilteredRowModel().rows.length;
+  const pageCount = server ? Math.max(1, Math.ceil(server.total / server.pageSize)) : table.getPageCount();
+
+  const renderSortableHeader = (columnId: string, content: React.ReactNode) => {
+    if (!server || !server.sortKeys.includes(columnId)) return content;
+    const active = server.sort.key === columnId;
+    const Icon = !active ? ArrowUpDown : server.sort.order === "asc" ? ArrowUp : ArrowDown;
+    return (
+      <button
+        type="button"
+        className="inline-flex items-center hover:text-foreground"
+        onClick={() => server.onSortChange({ key: columnId, order: active && server.sort.order === "asc" ? "desc" : "asc" })}
+      >
+        {content}
+        <Icon className={`ml-1 h-3 w-3 ${active ? "" : "opacity-50"}`} />
+      </button>
+    );
+  };
+
   return (
     <div className="rounded-md border">
       {showSearch && (
@@ -84,9 +127,11 @@ export function DataTable<TData, TValue>({
             <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
             <Input
               placeholder={searchPlaceholder}
-              value={searchColumn ? table.getColumn(searchColumn)?.getFilterValue() as string : globalFilter}
+              value={server ? server.search : searchColumn ? table.getColumn(searchColumn)?.getFilterValue() as string : globalFilter}
               onChange={(event) => {
-                if (searchColumn) {
+                if (server) {
+                  server.onSearchChange(event.target.value);
+                } else if (searchColumn) {
                   table.getColumn(searchColumn)?.setFilterValue(event.target.value);
                 } else {
                   setGlobalFilter(event.target.value);
@@ -97,7 +142,7 @@ export function DataTable<TData, TValue>({
           </div>
         </div>
       )}
-      <div className="rounded-md border">
+      <div className={`rounded-md border ${server?.isFetching ? "opacity-60" : ""}`}>
         <Table>
           <TableHeader>
             {table.getHeaderGroups().map((headerGroup) => (
@@ -107,9 +152,12 @@ export function DataTable<TData, TValue>({
                     <TableHead key={header.id}>
                       {header.isPlaceholder
                         ? null
-                        : flexRender(
-                            header.column.columnDef.header,
-                            header.getContext()
+                        : renderSortableHeader(
+                            header.column.id,
+                            flexRender(
+                              header.column.columnDef.header,
+                              header.getContext()
+                            )
                           )}
                     </TableHead>
                   );
@@ -144,43 +192,78 @@ export function DataTable<TData, TValue>({
           </TableBody>
         </Table>
       </div>
-      <div className="flex items-center justify-between p-4">
-        <div className="text-sm text-muted-foreground">
-          Showing{" "}
-          <strong>
-            {table.getState().pagination.pageIndex * table.getState().pagination.pageSize + 1}
-          </strong>{" "}
-          to{" "}
-          <strong>
-            {Math.min(
-              (table.getState().pagination.pageIndex + 1) * table.getState().pagination.pageSize,
-              table.getFilteredRowModel().rows.length
-            )}
-          </strong>{" "}
-          of <strong>{table.getFilteredRowModel().rows.length}</strong> entries
-        </div>
-        <div className="flex items-center space-x-2">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => table.previousPage()}
-            disabled={!table.getCanPreviousPage()}
-          >
-            <ChevronLeft className="h-4 w-4" />
-          </Button>
-          <div className="text-sm font-medium">
-            Page {table.getState().pagination.pageIndex + 1} of{" "}
-            {table.getPageCount()}
-          </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => table.nextPage()}
-            disabled={!table.getCanNextPage()}
-          >
-            <ChevronRight className="h-4 w-4" />
-          </Button>
+      <TablePagination
+        pageIndex={pageIndex}
+        pageSize={currentPageSize}
+        totalRows={totalRows}
+        pageCount={pageCount}
+        onPrevious={() => server ? server.onPageChange(server.page - 1) : table.previousPage()}
+        onNext={() => server ? server.onPageChange(server.page + 1) : table.nextPage()}
+        canPrevious={server ? server.page > 1 : table.getCanPreviousPage()}
+        canNext={server ? server.page < pageCount : table.getCanNextPage()}
+      />
+    </div>
+  );
+}
+
+interface TablePaginationProps {
+  pageIndex: number;
+  pageSize: number;
+  totalRows: number;
+  pageCount: number;
+  onPrevious: () => void;
+  onNext: () => void;
+  canPrevious: boolean;
+  canNext: boolean;
+}
+
+export function TablePagination({
+  pageIndex,
+  pageSize,
+  totalRows,
+  pageCount,
+  onPrevious,
+  onNext,
+  canPrevious,
+  canNext,
+}: TablePaginationProps) {
+  return (
+    <div className="flex items-center justify-between p-4">
+      <div className="text-sm text-muted-foreground">
+        Showing{" "}
+        <strong>
+          {totalRows === 0 ? 0 : pageIndex * pageSize + 1}
+        </strong>{" "}
+        to{" "}
+        <strong>
+          {Math.min(
+            (pageIndex + 1) * pageSize,
+            totalRows
+          )}
+        </strong>{" "}
+        of <strong>{totalRows}</strong> entries
+      </div>
+      <div className="flex items-center space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onPrevious}
+          disabled={!canPrevious}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <div className="text-sm font-medium">
+          Page {pageIndex + 1} of{" "}
+          {pageCount}
         </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onNext}
+          disabled={!canNext}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
       </div>
     </div>
   );
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import type { StaffUser } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+
+type CurrentUserResponse = {
+  authenticated: boolean;
+  user: StaffUser;
+  permissions: Permission[];
+};
+
+/**
+ * The signed-in staff user and the permissions granted by their role
+ */
+export function useAuth() {
+  const { data, isLoading } = useQuery<CurrentUserResponse | null>({
+    queryKey: ["/api/admin/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const can = (permission: Permission) =>
+    data?.permissions.includes(permission) ?? false;
+
+  return {
+    user: data?.user ?? null,
+    isLoading,
+    can,
+  };
+}
@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import type { Page } from "@shared/pagination";
+import type { ListSort, ServerTableState } from "@/components/ui/data-table";
+
+type ListFilters = Record<string, string | number | undefined>;
+
+interface PagedListOptions {
+  sort: ListSort; // Initial sort
+  sortKeys: readonly string[];
+  pageSize?: number;
+}
+
+/**
+ * Fetches one page of a paged list endpoint along with the page, sort and search state that
+ * selects it. Changing the filters, sort or search goes back to the first page.
+ */
+export function usePagedList<T>(endpoint: string, filters: ListFilters, options: PagedListOptions) {
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState(options.sort);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const pageSize = options.pageSize ?? 25;
+
+  // Wait for a pause in typing before asking the server to search
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const params = new URLSearchParams({
+    page: String(page),
+    pageSize: String(pageSize),
+    sort: sort.key,
+    order: sort.order,
+  });
+  if (debouncedSearch) params.set("search", debouncedSearch);
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  });
+
+  const filterKey = JSON.stringify(filters);
+  useEffect(() => {
+    setPage(1);
+  }, [filterKey, debouncedSearch]);
+
+  const query = useQuery<Page<T>>({
+    queryKey: [endpoint, params.toString()],
+    queryFn: async () => {
+      const response = await fetch(`${endpoint}?${params}`);
+      if (!response.ok) throw new Error(`Failed to fetch ${endpoint}`);
+      return response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const server: ServerTableState = {
+    total: query.data?.total ?? 0,
+    page,
+    pageSize,
+    onPageChange: setPage,
+    sort,
+    sortKeys: options.sortKeys,
+    onSortChange: (next) => {
+      setSort(next);
+      setPage(1);
+    },
+    search,
+    onSearchChange: setSearch,
+    isFetching: query.isFetching,
+  };
+
+  return { ...query, items: query.data?.items ?? [], server };
+}
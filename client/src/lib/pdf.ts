@@ -1,6 +1,7 @@
 import jsPDF from 'jspdf';
-import { Student, Tablet } from '@shared/schema';
+import { ClearanceCertificate, Student, Tablet } from '@shared/schema';
 import { format } from 'date-fns';
+import { depreciationMethodLabels, DepreciationReport, DepreciationSummary } from '@shared/depreciation';
 
 // Types for PDF generation
 type BorrowingAgreement = {
@@ -19,11 +20,25 @@ type BorrowingAgreement = {
   };
 };
 
-type PDFGenerationOptions = {
-  type: 'borrowing-agreement';
-  data: BorrowingAgreement;
+type ClearanceCertificates = {
+  certificates: {
+    student: Student;
+    certificate: ClearanceCertificate;
+  }[];
+  verifyUrl: string; // The verification code is appended to this URL
 };
 
+type DepreciationSchedule = {
+  report: DepreciationReport;
+  groups: { title: string; summaries: DepreciationSummary[] }[];
+  totals: DepreciationSummary;
+};
+
+type PDFGenerationOptions =
+  | { type: 'borrowing-agreement'; data: BorrowingAgreement }
+  | { type: 'clearance-certificate'; data: ClearanceCertificates }
+  | { type: 'depreciation-report'; data: DepreciationSchedule };
+
 /**
  * Generate and download a PDF document
  */
@@ -32,8 +47,12 @@ export const generatePDF = async (options: PDFGenerationOptions): Promise<void>
     switch (options.type) {
       case 'borrowing-agreement':
         return generateBorrowingAgreement(options.data);
+      case 'clearance-certificate':
+        return generateClearanceCertificates(options.data);
+      case 'depreciation-report':
+        return generateDepreciationReport(options.data);
       default:
-        throw new Error(`Unsupported PDF type: ${options.type}`);
+        throw new Error(`Unsupported PDF type: ${(options as PDFGenerationOptions).type}`);
     }
   } catch (error) {
     console.error('Error generating PDF:', error);
@@ -173,3 +192,183 @@ const generateBorrowingAgreement = (data: BorrowingAgreement): Promise<void> =>
     }
   });
 };
+
+/**
+ * Generate clearance certificates, one page per student
+ */
+const generateClearanceCertificates = (data: ClearanceCertificates): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const { certificates, verifyUrl } = data;
+      
+      // Create a new PDF document
+      const doc = new jsPDF();
+      const pageWidth = doc.internal.pageSize.getWidth();
+      const pageHeight = doc.internal.pageSize.getHeight();
+      
+      // Helper for text centering
+      const centerText = (text: string, y: number, size: number = 12) => {
+        doc.setFontSize(size);
+        const textWidth = doc.getStringUnitWidth(text) * size / doc.internal.scaleFactor;
+        const x = (pageWidth - textWidth) / 2;
+        doc.text(text, x, y);
+      };
+      
+      certificates.forEach(({ student, certificate }, index) => {
+        if (index > 0) doc.addPage();
+        let yPos = 30;
+        
+        // Title
+        doc.setFont("helvetica", "bold");
+        centerText("CERTIFICATE OF CLEARANCE", yPos, 18);
+        yPos += 8;
+        doc.setFont("helvetica", "normal");
+        centerText("Tablet Lending Program", yPos, 12);
+        yPos += 25;
+        
+        // Certification
+        doc.setFontSize(12);
+        const body = `This is to certify that ${student.fullName} (Student No. ${student.studentId}), ` +
+          `${student.programName}, Year ${student.yearLevel}, has returned every tablet and accessory borrowed ` +
+          `under the Tablet Lending Program and has no unpaid charges for lost or damaged devices as of ` +
+          `${format(new Date(certificate.issuedAt), "MMMM d, yyyy")}.`;
+        const bodyLines = doc.splitTextToSize(body, pageWidth - 40);
+        doc.text(bodyLines, 20, yPos);
+        yPos += bodyLines.length * 7 + 8;
+        
+        const purpose = `This certification is issued upon the request of the student for clearance purposes` +
+          (certificate.academicYearTerm ? ` for ${certificate.academicYearTerm}.` : ".");
+        const purposeLines = doc.splitTextToSize(purpose, pageWidth - 40);
+        doc.text(purposeLines, 20, yPos);
+        yPos += purposeLines.length * 7 + 30;
+        
+        // Signature line
+        doc.line(pageWidth - 90, yPos, pageWidth - 20, yPos);
+        doc.setFontSize(10);
+        doc.text("Property Custodian", pageWidth - 90, yPos + 5);
+        
+        // Verification details
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(11);
+        doc.text(`Verification Code: ${certificate.verificationCode}`, 20, pageHeight - 30);
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(9);
+        doc.text(`Verify at ${verifyUrl}${certificate.verificationCode}`, 20, pageHeight - 24);
+      });
+      
+      // File name
+      const fileName = certificates.length === 1
+        ? `Clearance_Certificate_${certificates[0].student.studentId}_${format(new Date(), "yyyy-MM-dd")}.pdf`
+        : `Clearance_Certificates_${format(new Date(), "yyyy-MM-dd")}.pdf`;
+      
+      // Save the PDF
+      doc.save(fileName);
+      
+      resolve();
+    } catch (error) {
+      console.error("Error generating clearance certificates:", error);
+      reject(error);
+    }
+  });
+};
+
+/**
+ * Generate the depreciation schedule: one summary table per grouping, then the fleet totals
+ */
+const generateDepreciationReport = (data: DepreciationSchedule): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const { report, groups, totals } = data;
+      
+      // Landscape so all value columns fit on one line
+      const doc = new jsPDF({ orientation: 'landscape' });
+      const pageWidth = doc.internal.pageSize.getWidth();
+      const pageHeight = doc.internal.pageSize.getHeight();
+      let yPos = 20;
+      
+      // jsPDF's built-in fonts have no peso sign, so amounts are plain numbers
+      const amount = (value: number) =>
+        value.toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+      
+      const headers = ['', 'Units', 'Cost', 'Opening', 'Additions', 'Depreciation', 'Write-offs', 'Closing'];
+      const columnX = [20, 95, 125, 155, 185, 215, 246, pageWidth - 20];
+      
+      const drawRow = (cells: string[], bold: boolean = false) => {
+        if (yPos > pageHeight - 20) {
+          doc.addPage();
+          yPos = 20;
+        }
+        doc.setFont("helvetica", bold ? "bold" : "normal");
+        cells.forEach((cell, index) => {
+          if (index === 0) {
+            doc.text(doc.splitTextToSize(cell, columnX[1] - columnX[0] - 15)[0], columnX[0], yPos);
+          } else {
+            doc.text(cell, columnX[index], yPos, { align: 'right' });
+          }
+        });
+        yPos += 6;
+      };
+      
+      const summaryCells = (summary: DepreciationSummary) => [
+        summary.label,
+        summary.units.toString(),
+        amount(summary.cost),
+        amount(summary.openingValue),
+        amount(summary.additions),
+        amount(summary.depreciation),
+        amount(summary.writeOff),
+        amount(summary.closingValue),
+      ];
+      
+      // Title
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(16);
+      doc.text(`Tablet Fleet Depreciation Schedule - FY ${report.fiscalYear}`, 20, yPos);
+      yPos += 7;
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(10);
+      doc.text(
+        `${depreciationMethodLabels[report.settings.method]}, ${report.settings.usefulLifeYears}-year useful life, ` +
+        `${Math.round(report.settings.salvageRate * 100)}% salvage value. Amounts in PHP. ` +
+        `Generated ${format(new Date(), "MMMM d, yyyy")}.`,
+        20,
+        yPos
+      );
+      yPos += 5;
+      if (report.unvaluedTablets > 0) {
+        doc.text(`${report.unvaluedTablets} tablet(s) without a unit cost or catalog replacement cost are excluded.`, 20, yPos);
+        yPos += 5;
+      }
+      yPos += 5;
+      
+      groups.forEach(group => {
+        if (yPos > pageHeight - 40) {
+          doc.addPage();
+          yPos = 20;
+        }
+        doc.setFontSize(12);
+        doc.setFont("helvetica", "bold");
+        doc.text(group.title, 20, yPos);
+        yPos += 7;
+        
+        doc.setFontSize(9);
+        drawRow(headers, true);
+        doc.line(20, yPos - 4, pageWidth - 20, yPos - 4);
+        group.summaries.forEach(summary => drawRow(summaryCells(summary)));
+        yPos += 6;
+      });
+      
+      // Fleet totals
+      doc.setFontSize(9);
+      doc.line(20, yPos - 4, pageWidth - 20, yPos - 4);
+      drawRow(summaryCells(totals), true);
+      
+      doc.save(`Depreciation_Schedule_FY${report.fiscalYear}_${format(new Date(), "yyyy-MM-dd")}.pdf`);
+      
+      resolve();
+    } catch (error) {
+      console.error("Error generating depreciation report:", error);
+      reject(error);
+    }
+  });
+};
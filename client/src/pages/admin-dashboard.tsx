@@ -3,11 +3,14 @@ import { useState, useEffect } from "react";
 import { LogOut } from "lucide-react";
 import { Toaster } from "@/components/ui/toaster";
 import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient } from "@/lib/queryClient";
 
 export default function AdminDashboard() {
   const [, setLocation] = useLocation();
   const [error, setError] = useState("");
   const [showConfirm, setShowConfirm] = useState(false);
+  const { user, can } = useAuth();
 
   useEffect(() => {
     fetch("/api/admin/me")
@@ -22,6 +25,7 @@ export default function AdminDashboard() {
     setShowConfirm(false);
     const res = await fetch("/api/admin/logout", { method: "POST" });
     if (res.ok) {
+      queryClient.clear();
       toast({ title: "Logged out", description: "You have been logged out successfully.", variant: "default" });
       setTimeout(() => setLocation("/admin/login", { replace: true }), 1000);
     } else {
@@ -33,8 +37,21 @@ export default function AdminDashboard() {
     <div className="min-h-screen flex items-center justify-center bg-slate-100">
       <Toaster />
       <div className="bg-white p-8 rounded shadow-md w-full max-w-xs text-center">
-        <h2 className="text-xl font-bold mb-6">Admin Actions</h2>
+        <h2 className="text-xl font-bold mb-2">Admin Actions</h2>
+        {user && (
+          <p className="mb-6 text-sm text-slate-500">
+            Signed in as {user.fullName || user.username} ({user.role})
+          </p>
+        )}
         <div className="flex flex-col gap-4">
+          {can("users:manage") && (
+            <button
+              className="w-full bg-slate-700 text-white px-4 py-2 rounded font-semibold hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-opacity-50"
+              onClick={() => setLocation("/admin/users")}
+            >
+              Manage Staff Users
+            </button>
+          )}
           <button
             className="w-full bg-green-600 text-white px-4 py-2 rounded font-semibold hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50"
             onClick={() => setLocation("/admin/change-password")}
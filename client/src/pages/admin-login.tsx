@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
+import { queryClient } from "@/lib/queryClient";
 
 export default function AdminLogin() {
   const [username, setUsername] = useState("");
@@ -16,6 +17,8 @@ export default function AdminLogin() {
       body: JSON.stringify({ username, password })
     });
     if (res.ok) {
+      // Drop anything cached for a previous session
+      queryClient.clear();
       setLocation("/", { replace: true });
     } else {
       const data = await res.json();
@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft } from "lucide-react";
+import { Campus, StaffUser, StaffRole, staffRoleEnum } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
+
+const roles = staffRoleEnum.enumValues;
+
+export default function AdminUsers() {
+  const [, setLocation] = useLocation();
+  const { user: currentUser, can, isLoading: isLoadingAuth } = useAuth();
+  const [username, setUsername] = useState("");
+  const [fullName, setFullName] = useState("");
+  const [role, setRole] = useState<StaffRole>("Clerk");
+  const [campusId, setCampusId] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [resetUser, setResetUser] = useState<StaffUser | null>(null);
+  const [resetPassword, setResetPassword] = useState("");
+
+  const { data: users, isLoading } = useQuery<StaffUser[]>({
+    queryKey: ["/api/admin/users"],
+    enabled: can("users:manage"),
+  });
+
+  const { data: campuses } = useQuery<Campus[]>({
+    queryKey: ["/api/campuses"],
+    enabled: can("users:manage"),
+  });
+
+  // Pull the server's message out of an apiRequest error ("403: {...}")
+  const getErrorMessage = (err: unknown, fallback: string) => {
+    if (err instanceof Error) {
+      const body = err.message.replace(/^\d+:\s*/, "");
+      try {
+        return JSON.parse(body).message || fallback;
+      } catch {
+        return body || fallback;
+      }
+    }
+    return fallback;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    try {
+      await apiRequest("POST", "/api/admin/users", {
+        username,
+        fullName: fullName || null,
+        role,
+        campusId: campusId ? Number(campusId) : null,
+        password,
+      });
+      toast({ title: "User created", description: `${username} can now sign in as ${role}.` });
+      setUsername("");
+      setFullName("");
+      setRole("Clerk");
+      setCampusId("");
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to create user"));
+    }
+  };
+
+  const handleUpdate = async (user: StaffUser, data: Partial<Pick<StaffUser, "role" | "campusId" | "isActive">>) => {
+    try {
+      await apiRequest("PUT", `/api/admin/users/${user.id}`, data);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    } catch (err) {
+      toast({ title: "Update failed", description: getErrorMessage(err, "Failed to update user"), variant: "destructive" });
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!resetUser) return;
+    try {
+      await apiRequest("POST", `/api/admin/users/${resetUser.id}/reset-password`, { newPassword: resetPassword });
+      toast({ title: "Password reset", description: `A new password has been set for ${resetUser.username}.` });
+      setResetUser(null);
+      setResetPassword("");
+    } catch (err) {
+      toast({ title: "Reset failed", description: getErrorMessage(err, "Failed to reset password"), variant: "destructive" });
+    }
+  };
+
+  if (!isLoadingAuth && !can("users:manage")) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-100">
+        <div className="bg-white p-8 rounded shadow-md w-full max-w-sm text-center">
+          <p className="mb-4 text-red-600">You do not have permission to manage staff users.</p>
+          <button className="text-blue-600 hover:underline" onClick={() => setLocation("/admin")}>
+            Back to admin actions
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-100 py-10 px-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold">Staff Users</h2>
+          <button
+            className="flex items-center text-sm font-medium text-slate-600 hover:text-slate-900"
+            onClick={() => setLocation("/admin")}
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" /> Back
+          </button>
+        </div>
+
+        {/* Create user */}
+        <form onSubmit={handleCreate} className="bg-white p-6 rounded shadow-md">
+          <h3 className="text-lg font-semibold mb-4">Add Staff User</h3>
+          {error && <div className="mb-4 text-red-600">{error}</div>}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block mb-1 font-medium">Username</label>
+              <input type="text" className="w-full border rounded px-3 py-2" value={username} onChange={e => setUsername(e.target.value)} required />
+            </div>
+            <div>
+              <label className="block mb-1 font-medium">Full Name</label>
+              <input type="text" className="w-full border rounded px-3 py-2" value={fullName} onChange={e => setFullName(e.target.value)} />
+            </div>
+            <div>
+              <label className="block mb-1 font-medium">Role</label>
+              <select className="w-full border rounded px-3 py-2" value={role} onChange={e => setRole(e.target.value as StaffRole)}>
+                {roles.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block mb-1 font-medium">Campus</label>
+              <select className="w-full border rounded px-3 py-2" value={campusId} onChange={e => setCampusId(e.target.value)}>
+                <option value="">All campuses</option>
+                {campuses?.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block mb-1 font-medium">Initial Password</label>
+              <input type="password" className="w-full border rounded px-3 py-2" value={password} onChange={e => setPassword(e.target.value)} minLength={8} required />
+            </div>
+          </div>
+          <div className="mt-4 flex justify-end">
+            <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded font-semibold hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50">
+              Create User
+            </button>
+          </div>
+        </form>
+
+        {/* User list */}
+        <div className="bg-white rounded shadow-md overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-slate-50 text-left text-slate-500">
+              <tr>
+                <th className="px-4 py-3 font-medium">Username</th>
+                <th className="px-4 py-3 font-medium">Name</th>
+                <th className="px-4 py-3 font-medium">Role</th>
+                <th className="px-4 py-3 font-medium">Campus</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+                <th className="px-4 py-3 font-medium">Last Login</th>
+                <th className="px-4 py-3 font-medium text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {isLoading ? (
+                <tr><td colSpan={7} className="px-4 py-6 text-center text-slate-500">Loading users...</td></tr>
+              ) : users && users.length > 0 ? (
+                users.map(user => {
+                  const isSelf = user.id === currentUser?.id;
+                  return (
+                    <tr key={user.id}>
+                      <td className="px-4 py-3 font-medium">{user.username}</td>
+                      <td className="px-4 py-3">{user.fullName || "—"}</td>
+                      <td className="px-4 py-3">
+                        <select
+                          className="border rounded px-2 py-1"
+                          value={user.role}
+                          disabled={isSelf}
+                          onChange={e => handleUpdate(user, { role: e.target.value as StaffRole })}
+                        >
+                          {roles.map(r => <option key={r} value={r}>{r}</option>)}
+                        </select>
+                      </td>
+                      <td className="px-4 py-3">
+                        <select
+                          className="border rounded px-2 py-1"
+                          value={user.campusId ?? ""}
+                          onChange={e => handleUpdate(user, { campusId: e.target.value ? Number(e.target.value) : null })}
+                        >
+                          <option value="">All campuses</option>
+                          {campuses?.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={user.isActive ? "text-green-600" : "text-red-600"}>
+                          {user.isActive ? "Active" : "Disabled"}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-slate-500">
+                        {user.lastLoginAt ? format(new Date(user.lastLoginAt), "MMM d, yyyy h:mm a") : "Never"}
+                      </td>
+                      <td className="px-4 py-3 text-right space-x-3 whitespace-nowrap">
+                        <button className="text-blue-600 hover:underline" onClick={() => setResetUser(user)}>
+                          Reset Password
+                        </button>
+                        {!isSelf && (
+                          <button
+                            className={user.isActive ? "text-red-600 hover:underline" : "text-green-600 hover:underline"}
+                            onClick={() => handleUpdate(user, { isActive: !user.isActive })}
+                          >
+                            {user.isActive ? "Disable" : "Enable"}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              ) : (
+                <tr><td colSpan={7} className="px-4 py-6 text-center text-slate-500">No staff users found.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Reset Password Modal */}
+      {resetUser && (
+        <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-40 z-50">
+          <div className="bg-white rounded shadow-lg p-6 w-full max-w-xs">
+            <h3 className="text-lg font-semibold mb-4 text-center">Reset Password for {resetUser.username}</h3>
+            <input
+              type="password"
+              className="w-full border rounded px-3 py-2 mb-6"
+              placeholder="New password (min. 8 characters)"
+              value={resetPassword}
+              onChange={e => setResetPassword(e.target.value)}
+              autoFocus
+            />
+            <div className="flex justify-center gap-4">
+              <button
+                className="bg-blue-600 text-white px-4 py-2 rounded font-semibold hover:bg-blue-700 disabled:opacity-50"
+                disabled={resetPassword.length < 8}
+                onClick={handleResetPassword}
+              >
+                Reset
+              </button>
+              <button
+                className="bg-slate-200 text-slate-800 px-4 py-2 rounded font-semibold hover:bg-slate-300"
+                onClick={() => {
+                  setResetUser(null);
+                  setResetPassword("");
+                }}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
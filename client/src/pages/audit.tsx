@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ColumnDef } from "@tanstack/react-table";
+import { format } from "date-fns";
+import { AuditLogEntry, AuditChanges } from "@shared/schema";
+import { DataTable } from "@/components/ui/data-table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { ScrollText } from "lucide-react";
+
+const entityLabels: Record<string, string> = {
+  student: "Student",
+  tablet: "Tablet",
+  borrow_record: "Borrow Record",
+  lost_report: "Lost Report",
+  reservation: "Reservation",
+  accessory_liability: "Accessory Liability",
+  repair_ticket: "Repair Ticket",
+  ledger_entry: "Ledger Entry",
+  replacement_value: "Replacement Value",
+  clearance_certificate: "Clearance Certificate",
+  inventory_session: "Stock-Take",
+  device_model: "Device Model",
+  procurement_batch: "Procurement Batch",
+  campus: "Campus",
+  tablet_transfer: "Tablet Transfer",
+  academic_term: "Academic Term",
+  student_import_mapping: "Import Mapping",
+  inventory_count: "Stock-Take Count",
+  staff_user: "Staff User",
+  notification: "Notification",
+};
+
+// Render a changed value compactly for the audit table
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export default function Audit() {
+  const [actorId, setActorId] = useState("all");
+  const [entityType, setEntityType] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  const filters = { actorId, entityType, fromDate, toDate };
+
+  // Fetch staff users that appear in the audit trail
+  const { data: actors } = useQuery<{ actorId: number | null; actorUsername: string | null }[]>({
+    queryKey: ["/api/audit/actors"],
+  });
+
+  // Fetch audit entries matching the filters
+  const { data: entries, isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: ["/api/audit", filters],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (actorId !== "all") params.set("actorId", actorId);
+      if (entityType !== "all") params.set("entityType", entityType);
+      if (fromDate) params.set("from", fromDate);
+      if (toDate) params.set("to", toDate);
+      const response = await fetch(`/api/audit?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch audit log");
+      return response.json();
+    },
+  });
+
+  const columns: ColumnDef<AuditLogEntry>[] = [
+    {
+      accessorKey: "createdAt",
+      header: "When",
+      cell: ({ row }) => format(new Date(row.original.createdAt), "MMM d, yyyy h:mm:ss a"),
+    },
+    {
+      accessorKey: "actorUsername",
+      header: "User",
+      cell: ({ row }) => row.original.actorUsername || <span className="text-slate-400">System</span>,
+    },
+    {
+      accessorKey: "action",
+      header: "Action",
+      cell: ({ row }) => {
+        const action = row.original.action;
+        const className =
+          action === "create" ? "bg-green-100 text-green-800" :
+          action === "delete" ? "bg-red-100 text-red-800" :
+          "bg-blue-100 text-blue-800";
+        return <Badge className={className} variant="outline">{action}</Badge>;
+      },
+    },
+    {
+      accessorKey: "entityType",
+      header: "Entity",
+      cell: ({ row }) => `${entityLabels[row.original.entityType] || row.original.entityType} #${row.original.entityId}`,
+    },
+    {
+      accessorKey: "changes",
+      header: "Changes",
+      cell: ({ row }) => {
+        const changes = (row.original.changes || {}) as AuditChanges;
+        const fields = Object.keys(changes);
+        if (fields.length === 0) return <span className="text-slate-400">No field changes</span>;
+        return (
+          <ul className="text-xs space-y-1 max-w-md">
+            {fields.map(field => (
+              <li key={field} className="break-words">
+                <span className="font-medium">{field}</span>:{" "}
+                {row.original.action !== "create" && (
+                  <>
+                    <span className="text-red-700 line-through">{formatValue(changes[field].from)}</span>{" → "}
+                  </>
+                )}
+                <span className="text-green-700">{formatValue(changes[field].to)}</span>
+              </li>
+            ))}
+          </ul>
+        );
+      },
+    },
+    {
+      accessorKey: "ipAddress",
+      header: "IP Address",
+      cell: ({ row }) => <span className="font-mono text-xs">{row.original.ipAddress || "—"}</span>,
+    },
+  ];
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <h1 className="text-2xl font-semibold text-slate-900">Audit Log</h1>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <div className="py-4">
+          {/* Filters */}
+          <div className="flex flex-wrap items-end gap-3 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-slate-500 mb-1">User</label>
+              <Select value={actorId} onValueChange={setActorId}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="All users" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All users</SelectItem>
+                  {actors?.filter(a => a.actorId !== null).map(actor => (
+                    <SelectItem key={actor.actorId} value={String(actor.actorId)}>
+                      {actor.actorUsername}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-500 mb-1">Entity</label>
+              <Select value={entityType} onValueChange={setEntityType}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="All entities" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {Object.entries(entityLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-500 mb-1">From</label>
+              <Input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-500 mb-1">To</label>
+              <Input type="date" value={toDate} onChange={e => setToDate(e.target.value)} />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setActorId("all");
+                setEntityType("all");
+                setFromDate("");
+                setToDate("");
+              }}
+            >
+              Clear filters
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader className="pb-0">
+              <CardTitle className="text-lg flex items-center">
+                <ScrollText className="mr-2 h-5 w-5" />
+                Changes
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="py-10 flex justify-center">
+                  <LoadingSpinner size="lg" />
+                </div>
+              ) : (
+                <DataTable
+                  columns={columns}
+                  data={entries || []}
+                  searchPlaceholder="Search audit entries..."
+                  pageSize={25}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
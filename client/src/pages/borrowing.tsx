@@ -1,33 +1,49 @@
 import { BorrowingForm } from "@/components/borrowing/borrowing-form";
+import { BulkBorrowing } from "@/components/borrowing/bulk-borrowing";
 import { useState } from "react";
+import { useLocation, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
-import { HandHelping } from "lucide-react";
+import { HandHelping, Users } from "lucide-react";
+import { BorrowRecordWithDetails, Student } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
+import { borrowRecordSortKeys } from "@shared/pagination";
+import { usePagedList } from "@/hooks/use-paged-list";
 import { DataTable } from "@/components/ui/data-table";
 import { ColumnDef } from "@tanstack/react-table";
 import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
-import UsufructAgreementPDF from "@/components/borrowing/UsufructAgreementPDF";
-import { Dialog } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AgreementPanel, AgreementStatusBadge } from "@/components/borrowing/agreement-status";
 
 export default function Borrowing() {
-  const [showBorrowingForm, setShowBorrowingForm] = useState(false);
-  const [showAgreement, setShowAgreement] = useState(false);
-  const [selectedBorrow, setSelectedBorrow] = useState<any>(null);
+  const [, navigate] = useLocation();
+  // A borrowing started from a student's profile arrives with the student already picked
+  const preselectedStudentId = new URLSearchParams(useSearch()).get("studentId");
+  const [showBorrowingForm, setShowBorrowingForm] = useState(preselectedStudentId !== null);
+  const [showBulkBorrowing, setShowBulkBorrowing] = useState(false);
+  const [agreementRecordId, setAgreementRecordId] = useState<number | null>(null);
+
+  const { data: preselectedStudent, isLoading: isLoadingStudent } = useQuery<Student>({
+    queryKey: [`/api/students/${preselectedStudentId}`],
+    enabled: preselectedStudentId !== null,
+  });
+
+  const closeBorrowingForm = () => {
+    setShowBorrowingForm(false);
+    if (preselectedStudentId !== null) navigate("/borrowing", { replace: true });
+  };
   
   // Fetch active borrowing records
-  const { data: borrowRecords, isLoading, error } = useQuery({
-    queryKey: ['/api/borrow-records'],
-    queryFn: async ({ queryKey }) => {
-      const response = await fetch(`${queryKey[0]}?includeReturned=false`);
-      if (!response.ok) throw new Error('Failed to fetch borrowing records');
-      return response.json();
-    },
+  const { items: borrowRecords, server, isLoading } = usePagedList<BorrowRecordWithDetails>("/api/borrow-records", {
+    status: "active",
+  }, {
+    sort: { key: "dateBorrowed", order: "desc" },
+    sortKeys: borrowRecordSortKeys,
   });
   
   // Define columns for the data table
-  const columns: ColumnDef<any>[] = [
+  const columns: ColumnDef<BorrowRecordWithDetails>[] = [
     {
       accessorKey: "tablet",
       header: "Tablet",
@@ -76,12 +92,21 @@ export default function Borrowing() {
     {
       accessorKey: "status",
       header: "Status",
-      cell: ({ row }) => (
+      cell: ({ row }) => row.original.recallRequestedAt ? (
+        <Badge className="bg-red-100 text-red-800" title="Not enrolled in the next term">
+          Recalled
+        </Badge>
+      ) : (
         <Badge className="bg-orange-100 text-orange-800">
           Borrowed
         </Badge>
       ),
     },
+    {
+      accessorKey: "agreementStatus",
+      header: "Agreement",
+      cell: ({ row }) => <AgreementStatusBadge status={row.original.agreementStatus} />,
+    },
     {
       id: "actions",
       header: "Actions",
@@ -89,12 +114,9 @@ export default function Borrowing() {
         <Button
           variant="outline"
           size="sm"
-          onClick={() => {
-            setSelectedBorrow(row.original);
-            setShowAgreement(true);
-          }}
+          onClick={() => setAgreementRecordId(row.original.id)}
         >
-          Print Usufruct Agreement
+          Usufruct Agreement
         </Button>
       ),
     },
@@ -107,13 +129,23 @@ export default function Borrowing() {
           <div className="flex-1 min-w-0">
             <h1 className="text-2xl font-semibold text-slate-900">Tablet Borrowing</h1>
           </div>
-          <div className="mt-4 flex md:mt-0 md:ml-4">
+          <div className="mt-4 flex space-x-2 md:mt-0 md:ml-4">
+            {!showBorrowingForm && !showBulkBorrowing && (
+              <Button variant="outline" onClick={() => setShowBulkBorrowing(true)} className="flex items-center">
+                <Users className="mr-2 h-4 w-4" />
+                Bulk Distribution
+              </Button>
+            )}
             <Button
-              onClick={() => setShowBorrowingForm(!showBorrowingForm)} 
+              onClick={() => {
+                if (showBorrowingForm) closeBorrowingForm();
+                else setShowBorrowingForm(!showBulkBorrowing);
+                setShowBulkBorrowing(false);
+              }} 
               className="flex items-center"
             >
               <HandHelping className="mr-2 h-4 w-4" />
-              {showBorrowingForm ? "View Borrowings" : "New Borrowing"}
+              {showBorrowingForm || showBulkBorrowing ? "View Borrowings" : "New Borrowing"}
             </Button>
           </div>
         </div>
@@ -122,9 +154,16 @@ export default function Borrowing() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
         <div className="py-4">
           {showBorrowingForm ? (
-            <BorrowingForm 
-              onComplete={() => setShowBorrowingForm(false)} 
-            />
+            preselectedStudentId !== null && isLoadingStudent ? (
+              <LoadingSpinner className="py-10" size="lg" />
+            ) : (
+              <BorrowingForm
+                initialStudent={preselectedStudent}
+                onComplete={closeBorrowingForm}
+              />
+            )
+          ) : showBulkBorrowing ? (
+            <BulkBorrowing onComplete={() => setShowBulkBorrowing(false)} />
           ) : (
             <div>
               <h2 className="text-xl font-medium text-slate-900 mb-4">Active Borrowings</h2>
@@ -133,11 +172,12 @@ export default function Borrowing() {
                 <div className="py-10 flex justify-center">
                   <LoadingSpinner size="lg" />
                 </div>
-              ) : borrowRecords && borrowRecords.length > 0 ? (
+              ) : server.total > 0 || server.search !== "" ? (
                 <DataTable
                   columns={columns}
                   data={borrowRecords}
                   searchPlaceholder="Search borrowings by student or tablet..."
+                  server={server}
                 />
               ) : (
                 <div className="bg-white shadow overflow-hidden rounded-lg">
@@ -167,25 +207,16 @@ export default function Borrowing() {
           )}
         </div>
       </div>
-      {showAgreement && selectedBorrow && (
-        <Dialog open={showAgreement} onOpenChange={setShowAgreement}>
-          <div className="p-4 bg-white rounded shadow max-w-3xl mx-auto">
-            <UsufructAgreementPDF
-              borrowDetails={{
-                dateBorrowedFormatted: new Date(selectedBorrow.dateBorrowed).toLocaleDateString(),
-              }}
-              student={selectedBorrow.student}
-              tablet={selectedBorrow.tablet}
-            />
-            <Button
-              className="btn btn-secondary mt-2"
-              onClick={() => setShowAgreement(false)}
-            >
-              Close
-            </Button>
-          </div>
-        </Dialog>
-      )}
+
+      {/* Agreement Dialog */}
+      <Dialog open={agreementRecordId !== null} onOpenChange={(open) => !open && setAgreementRecordId(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Usufruct Agreement</DialogTitle>
+          </DialogHeader>
+          {agreementRecordId !== null && <AgreementPanel borrowRecordId={agreementRecordId} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { Card, CardContent } from "@/components/ui/card";
@@ -9,17 +10,36 @@ import {
   ChevronRight,
   Clock,
   Plus,
-  FileCheck 
+  FileCheck,
+  CalendarClock,
+  AlarmClock
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Link } from "wouter";
 import { format, parseISO } from "date-fns";
 import { Separator } from "@/components/ui/separator";
+import { DashboardStats, OverdueBorrowRecord, OverdueLevel } from "@shared/schema";
+import { overdueLevelLabels, overdueLevels, OverdueThresholds } from "@shared/overdue";
+
+const overdueLevelColors: Record<OverdueLevel, string> = {
+  due_soon: "bg-yellow-100 text-yellow-800",
+  overdue: "bg-orange-100 text-orange-800",
+  seriously_overdue: "bg-red-100 text-red-800",
+};
+
+// Describe how far a borrowing is from its expected return date
+const describeDaysPastDue = (days: number) => {
+  if (days < 0) return `Due in ${-days} day${days === -1 ? "" : "s"}`;
+  if (days === 0) return "Due today";
+  return `${days} day${days === 1 ? "" : "s"} overdue`;
+};
 
 export default function Dashboard() {
+  const [overdueFilter, setOverdueFilter] = useState<OverdueLevel | "all">("all");
+  
   // Fetch dashboard stats
-  const { data: stats, isLoading: isLoadingStats } = useQuery({
+  const { data: stats, isLoading: isLoadingStats } = useQuery<DashboardStats>({
     queryKey: ['/api/dashboard/stats'],
   });
   
@@ -28,6 +48,26 @@ export default function Dashboard() {
     queryKey: ['/api/dashboard/recent-activity'],
   });
   
+  // Fetch borrowings that are due soon or overdue (keyed under borrow records so returns refresh it)
+  const { data: overdue, isLoading: isLoadingOverdue } = useQuery<{ thresholds: OverdueThresholds; records: OverdueBorrowRecord[] }>({
+    queryKey: ['/api/borrow-records', 'overdue'],
+    queryFn: async () => {
+      const response = await fetch('/api/borrow-records/overdue');
+      if (!response.ok) throw new Error('Failed to fetch overdue borrowings');
+      return response.json();
+    },
+  });
+  
+  const overdueCounts: Record<OverdueLevel, number> = {
+    due_soon: stats?.dueSoonBorrowings ?? 0,
+    overdue: stats?.overdueBorrowings ?? 0,
+    seriously_overdue: stats?.seriouslyOverdueBorrowings ?? 0,
+  };
+  
+  const overdueRecords = (overdue?.records || []).filter(
+    record => overdueFilter === "all" || record.overdueLevel === overdueFilter
+  );
+  
   // Get event badge color
   const getEventColor = (eventType: string) => {
     switch (eventType) {
@@ -36,12 +76,27 @@ export default function Dashboard() {
       case "borrowed":
         return "bg-orange-100 text-orange-800";
       case "returned":
+      case "accessories_returned":
         return "bg-green-100 text-green-800";
       case "lost":
         return "bg-red-100 text-red-800";
+      case "reserved":
+      case "due_soon":
+        return "bg-yellow-100 text-yellow-800";
+      case "overdue":
+        return "bg-orange-100 text-orange-800";
+      case "seriously_overdue":
+        return "bg-red-100 text-red-800";
       case "status_change":
       case "condition_change":
         return "bg-purple-100 text-purple-800";
+      case "repair_opened":
+      case "repair_status_change":
+        return "bg-amber-100 text-amber-800";
+      case "repair_closed":
+        return "bg-teal-100 text-teal-800";
+      case "transferred":
+        return "bg-sky-100 text-sky-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -54,14 +109,30 @@ export default function Dashboard() {
         return `${event.tablet.brand} ${event.tablet.model} borrowed by ${event.student?.name || 'Unknown'}`;
       case "returned":
         return `${event.tablet.brand} ${event.tablet.model} returned by ${event.student?.name || 'Unknown'}`;
+      case "accessories_returned":
+        return `Missing accessories for ${event.tablet.brand} ${event.tablet.model} returned by ${event.student?.name || 'Unknown'}`;
       case "lost":
         return `${event.tablet.brand} ${event.tablet.model} reported as lost`;
+      case "reserved":
+        return `${event.tablet.brand} ${event.tablet.model} held for ${event.student?.name || 'Unknown'}`;
+      case "due_soon":
+        return `${event.tablet.brand} ${event.tablet.model} due soon from ${event.student?.name || 'Unknown'}`;
+      case "overdue":
+        return `${event.tablet.brand} ${event.tablet.model} overdue from ${event.student?.name || 'Unknown'}`;
+      case "seriously_overdue":
+        return `${event.tablet.brand} ${event.tablet.model} seriously overdue from ${event.student?.name || 'Unknown'}`;
       case "created":
         return `New tablet added to inventory: ${event.tablet.brand} ${event.tablet.model}`;
       case "status_change":
         return `${event.tablet.brand} ${event.tablet.model} status changed`;
       case "condition_change":
         return `${event.tablet.brand} ${event.tablet.model} condition updated`;
+      case "repair_opened":
+        return `${event.tablet.brand} ${event.tablet.model} sent for repair`;
+      case "repair_status_change":
+        return `${event.tablet.brand} ${event.tablet.model} repair status changed`;
+      case "repair_closed":
+        return `${event.tablet.brand} ${event.tablet.model} repaired and back in service`;
       default:
         return `Event: ${event.eventType}`;
     }
@@ -76,7 +147,7 @@ export default function Dashboard() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
         <div className="py-4">
           {/* Stats Cards */}
-          {isLoadingStats ? (
+          {isLoadingStats || !stats ? (
             <div className="h-48 flex items-center justify-center">
               <LoadingSpinner />
             </div>
@@ -188,6 +259,85 @@ export default function Dashboard() {
             </div>
           )}
           
+          {/* Overdue Borrowings */}
+          <div className="mt-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-medium text-slate-900">Overdue Borrowings</h2>
+              {overdue?.thresholds && (
+                <p className="text-sm text-slate-500">
+                  Due soon within {overdue.thresholds.dueSoonDays} days · overdue after {overdue.thresholds.graceDays} grace days · serious after {overdue.thresholds.seriousDays} days
+                </p>
+              )}
+            </div>
+            
+            <div className="flex flex-wrap gap-2 mb-4">
+              <Button
+                variant={overdueFilter === "all" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setOverdueFilter("all")}
+              >
+                All ({overdueLevels.reduce((total, level) => total + overdueCounts[level], 0)})
+              </Button>
+              {overdueLevels.map(level => (
+                <Button
+                  key={level}
+                  variant={overdueFilter === level ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setOverdueFilter(level)}
+                >
+                  {overdueLevelLabels[level]} ({overdueCounts[level]})
+                </Button>
+              ))}
+            </div>
+            
+            <Card>
+              {isLoadingOverdue ? (
+                <div className="h-32 flex items-center justify-center">
+                  <LoadingSpinner />
+                </div>
+              ) : overdueRecords.length > 0 ? (
+                <ul className="divide-y divide-slate-200 max-h-96 overflow-y-auto">
+                  {overdueRecords.map(record => (
+                    <li key={record.id}>
+                      <div className="px-4 py-4 sm:px-6">
+                        <div className="flex items-center justify-between">
+                          <p className="text-sm font-medium text-primary-600 truncate">
+                            {record.student.fullName} ({record.student.studentId})
+                          </p>
+                          <div className="ml-2 flex-shrink-0 flex">
+                            <Badge className={overdueLevelColors[record.overdueLevel]}>
+                              {overdueLevelLabels[record.overdueLevel]}
+                            </Badge>
+                          </div>
+                        </div>
+                        <div className="mt-2 sm:flex sm:justify-between">
+                          <div className="sm:flex">
+                            <p className="flex items-center text-sm text-slate-500">
+                              <Tablet className="flex-shrink-0 mr-1.5 h-5 w-5 text-slate-400" />
+                              {record.tablet.brand} {record.tablet.model} · SN: {record.tablet.serialNumber}
+                            </p>
+                            <p className="mt-2 flex items-center text-sm text-slate-500 sm:mt-0 sm:ml-6">
+                              <CalendarClock className="flex-shrink-0 mr-1.5 h-5 w-5 text-slate-400" />
+                              Expected back {format(parseISO(record.expectedReturnDate!), "MMM d, yyyy")}
+                            </p>
+                          </div>
+                          <div className="mt-2 flex items-center text-sm text-slate-500 sm:mt-0">
+                            <AlarmClock className="flex-shrink-0 mr-1.5 h-5 w-5 text-slate-400" />
+                            <p>{describeDaysPastDue(record.daysPastDue)}</p>
+                          </div>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="text-center py-12">
+                  <p className="text-slate-500">No borrowings are due soon or overdue.</p>
+                </div>
+              )}
+            </Card>
+          </div>
+          
           {/* Recent Activity */}
           <div className="mt-6">
             <div className="flex justify-between items-center mb-4">
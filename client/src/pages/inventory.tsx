@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ColumnDef } from "@tanstack/react-table";
+import { format } from "date-fns";
+import { Campus, InventorySession, InventorySessionSummary } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { DataTable } from "@/components/ui/data-table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { InventorySessionView } from "@/components/inventory/inventory-session";
+import { ClipboardCheck, Plus } from "lucide-react";
+
+export default function Inventory() {
+  const { toast } = useToast();
+  const { can, user } = useAuth();
+  const [selectedSessionId, setSelectedSessionId] = useState<number | null>(null);
+  const [showNewSession, setShowNewSession] = useState(false);
+  const [name, setName] = useState("");
+  const [notes, setNotes] = useState("");
+  const [campusId, setCampusId] = useState("all");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: sessions, isLoading } = useQuery<InventorySessionSummary[]>({
+    queryKey: ["/api/inventory-sessions"],
+  });
+
+  const { data: campuses } = useQuery<Campus[]>({
+    queryKey: ['/api/campuses'],
+  });
+
+  // Staff tied to a campus always count that campus
+  const showCampusChoice = !user?.campusId && (campuses?.length ?? 0) > 0;
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await apiRequest("POST", "/api/inventory-sessions", {
+        name,
+        notes: notes || null,
+        campusId: campusId === "all" ? null : parseInt(campusId),
+      });
+      const session: InventorySession = await response.json();
+      toast({
+        title: "Stock-take started",
+        description: "Scan or tick each tablet found on the shelf.",
+      });
+      setShowNewSession(false);
+      setName("");
+      setNotes("");
+      setCampusId("all");
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory-sessions"] });
+      setSelectedSessionId(session.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to start the stock-take.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const columns: ColumnDef<InventorySessionSummary>[] = [
+    {
+      accessorKey: "name",
+      header: "Session",
+      cell: ({ row }) => (
+        <div>
+          <div className="font-medium">{row.original.name}</div>
+          {row.original.notes && <div className="text-sm text-gray-500">{row.original.notes}</div>}
+        </div>
+      ),
+    },
+    {
+      accessorKey: "status",
+      header: "Status",
+      cell: ({ row }) => (
+        <Badge
+          className={row.original.status === "Open" ? "bg-blue-100 text-blue-800" : "bg-green-100 text-green-800"}
+          variant="outline"
+        >
+          {row.original.status}
+        </Badge>
+      ),
+    },
+    {
+      accessorKey: "countedTablets",
+      header: "Counted",
+    },
+    {
+      accessorKey: "createdAt",
+      header: "Started",
+      cell: ({ row }) => format(new Date(row.original.createdAt), "MMM d, yyyy"),
+    },
+    {
+      accessorKey: "completedAt",
+      header: "Completed",
+      cell: ({ row }) => row.original.completedAt
+        ? format(new Date(row.original.completedAt), "MMM d, yyyy")
+        : <span className="text-slate-400">—</span>,
+    },
+    {
+      id: "actions",
+      cell: ({ row }) => (
+        <div className="flex justify-end">
+          <Button size="sm" variant="outline" onClick={() => setSelectedSessionId(row.original.id)}>
+            {row.original.status === "Open" && can("inventory:write") ? "Continue" : "View"}
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 flex justify-between items-center">
+        <h1 className="text-2xl font-semibold text-slate-900">Inventory</h1>
+        {can("inventory:write") && selectedSessionId === null && (
+          <Button onClick={() => setShowNewSession(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Start Stock-Take
+          </Button>
+        )}
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <div className="py-4">
+          {selectedSessionId !== null ? (
+            <InventorySessionView sessionId={selectedSessionId} onBack={() => setSelectedSessionId(null)} />
+          ) : (
+            <Card>
+              <CardHeader className="pb-0">
+                <CardTitle className="text-lg flex items-center">
+                  <ClipboardCheck className="mr-2 h-5 w-5" />
+                  Stock-Take Sessions
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="py-10 flex justify-center">
+                    <LoadingSpinner size="lg" />
+                  </div>
+                ) : (
+                  <DataTable
+                    columns={columns}
+                    data={sessions || []}
+                    searchPlaceholder="Search stock-takes..."
+                  />
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      {/* New session dialog */}
+      <Dialog open={showNewSession} onOpenChange={setShowNewSession}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Start Stock-Take</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label className="mb-1 block">Name</Label>
+              <Input
+                placeholder="e.g. 1st Semester 2026-2027 count"
+                value={name}
+                onChange={e => setName(e.target.value)}
+              />
+            </div>
+            {showCampusChoice && (
+              <div>
+                <Label className="mb-1 block">Campus</Label>
+                <Select value={campusId} onValueChange={setCampusId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Every campus</SelectItem>
+                    {campuses?.map(campus => (
+                      <SelectItem key={campus.id} value={campus.id.toString()}>{campus.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label className="mb-1 block">Notes</Label>
+              <Textarea rows={3} value={notes} onChange={e => setNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowNewSession(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={name.trim() === "" || isSubmitting}>
+              Start
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,588 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ColumnDef } from "@tanstack/react-table";
+import { format } from "date-fns";
+import {
+  RepairPart,
+  RepairTicketStatus,
+  RepairTicketWithDetails,
+  TabletCondition,
+  TabletWithBorrowInfo,
+  tabletConditionEnum,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatPeso } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { DataTable } from "@/components/ui/data-table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { Plus, Trash2, Wrench } from "lucide-react";
+
+type RepairTicketsResponse = {
+  threshold: TabletCondition;
+  tickets: RepairTicketWithDetails[];
+};
+
+const statusColors: Record<RepairTicketStatus, string> = {
+  Open: "bg-red-100 text-red-800",
+  "In Progress": "bg-yellow-100 text-yellow-800",
+  Closed: "bg-green-100 text-green-800",
+};
+
+// Editable part row; numbers stay as text until saved
+type PartRow = { name: string; quantity: string; unitCost: string };
+
+const toPartRows = (parts: unknown): PartRow[] =>
+  Array.isArray(parts)
+    ? (parts as RepairPart[]).map(part => ({
+        name: part.name,
+        quantity: String(part.quantity),
+        unitCost: String(part.unitCost),
+      }))
+    : [];
+
+const toParts = (rows: PartRow[]): RepairPart[] =>
+  rows
+    .filter(row => row.name.trim())
+    .map(row => ({
+      name: row.name.trim(),
+      quantity: parseInt(row.quantity) || 1,
+      unitCost: parseFloat(row.unitCost) || 0,
+    }));
+
+const formatCost = (cost: string | number | null) =>
+  cost === null || cost === "" ? "—" : formatPeso(cost);
+
+// Pull the server's message out of an apiRequest error ("500: {...}")
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+export default function Repairs() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [showClosed, setShowClosed] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // New ticket form
+  const [showNewTicket, setShowNewTicket] = useState(false);
+  const [newTabletId, setNewTabletId] = useState("");
+  const [newCondition, setNewCondition] = useState<TabletCondition>("Defective");
+  const [newDescription, setNewDescription] = useState("");
+
+  // Ticket being worked on
+  const [selectedTicket, setSelectedTicket] = useState<RepairTicketWithDetails | null>(null);
+  const [status, setStatus] = useState<"Open" | "In Progress">("Open");
+  const [technicianNotes, setTechnicianNotes] = useState("");
+  const [partRows, setPartRows] = useState<PartRow[]>([]);
+  const [cost, setCost] = useState("");
+  const [resolvedCondition, setResolvedCondition] = useState<TabletCondition>("Good");
+
+  const { data, isLoading } = useQuery<RepairTicketsResponse>({
+    queryKey: ["/api/repair-tickets", { showClosed }],
+    queryFn: async () => {
+      const response = await fetch(`/api/repair-tickets?includeClosed=${showClosed}`);
+      if (!response.ok) throw new Error("Failed to fetch repair tickets");
+      return response.json();
+    },
+  });
+
+  const { data: tablets } = useQuery<TabletWithBorrowInfo[]>({
+    queryKey: ["/api/tablets"],
+    enabled: showNewTicket,
+  });
+
+  // Tablets on the shelf that are not already in for repair
+  const repairableTablets = (tablets || []).filter(
+    tablet => tablet.status === "Serviceable" && !tablet.currentBorrower
+  );
+
+  // Parts total, used as the cost when none is entered
+  const partsTotal = toParts(partRows).reduce((sum, part) => sum + part.quantity * part.unitCost, 0);
+
+  const refreshQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/repair-tickets"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tablets"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tablets/available"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/recent-activity"] });
+  };
+
+  const openTicket = (ticket: RepairTicketWithDetails) => {
+    setSelectedTicket(ticket);
+    setStatus(ticket.status === "In Progress" ? "In Progress" : "Open");
+    setTechnicianNotes(ticket.technicianNotes || "");
+    setPartRows(toPartRows(ticket.parts));
+    setCost(ticket.cost ?? "");
+    setResolvedCondition("Good");
+  };
+
+  const ticketChanges = () => ({
+    technicianNotes: technicianNotes || null,
+    parts: toParts(partRows),
+    cost: cost === "" ? (partRows.length > 0 ? partsTotal : null) : parseFloat(cost) || 0,
+  });
+
+  const handleCreate = async () => {
+    if (!newTabletId) return;
+    setIsSubmitting(true);
+    try {
+      await apiRequest("POST", "/api/repair-tickets", {
+        tabletId: parseInt(newTabletId),
+        reportedCondition: newCondition,
+        description: newDescription || undefined,
+      });
+      toast({
+        title: "Repair ticket opened",
+        description: "The tablet has been marked Unserviceable until the repair is closed.",
+      });
+      setShowNewTicket(false);
+      setNewTabletId("");
+      setNewDescription("");
+      refreshQueries();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to open repair ticket"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selectedTicket) return;
+    setIsSubmitting(true);
+    try {
+      await apiRequest("PUT", `/api/repair-tickets/${selectedTicket.id}`, { status, ...ticketChanges() });
+      toast({
+        title: "Repair ticket updated",
+        description: `Ticket #${selectedTicket.id} has been saved.`,
+      });
+      setSelectedTicket(null);
+      refreshQueries();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to update repair ticket"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!selectedTicket) return;
+    setIsSubmitting(true);
+    try {
+      await apiRequest("POST", `/api/repair-tickets/${selectedTicket.id}/close`, {
+        resolvedCondition,
+        ...ticketChanges(),
+      });
+      toast({
+        title: "Repair ticket closed",
+        description: resolvedCondition === "Defective"
+          ? `${selectedTicket.tablet.brand} ${selectedTicket.tablet.model} could not be repaired and stays Unserviceable.`
+          : `${selectedTicket.tablet.brand} ${selectedTicket.tablet.model} is Serviceable again.`,
+      });
+      setSelectedTicket(null);
+      refreshQueries();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to close repair ticket"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const updatePartRow = (index: number, changes: Partial<PartRow>) => {
+    setPartRows(rows => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const columns: ColumnDef<RepairTicketWithDetails>[] = [
+    {
+      accessorKey: "id",
+      header: "Ticket",
+      cell: ({ row }) => <span className="font-semibold">#{row.original.id}</span>,
+    },
+    {
+      accessorKey: "tablet",
+      header: "Tablet",
+      cell: ({ row }) => {
+        const tablet = row.original.tablet;
+        return (
+          <div>
+            <div className="font-medium">{`${tablet.brand} ${tablet.model}`}</div>
+            <div className="text-sm text-gray-500">SN: {tablet.serialNumber}</div>
+          </div>
+        );
+      },
+    },
+    {
+      accessorKey: "reportedCondition",
+      header: "Reported",
+      cell: ({ row }) => (
+        <div>
+          <div>{row.original.reportedCondition}</div>
+          {row.original.borrowRecordId && (
+            <div className="text-xs text-gray-500">From a return</div>
+          )}
+        </div>
+      ),
+    },
+    {
+      accessorKey: "status",
+      header: "Status",
+      cell: ({ row }) => (
+        <Badge className={statusColors[row.original.status]} variant="outline">
+          {row.original.status}
+        </Badge>
+      ),
+    },
+    {
+      accessorKey: "cost",
+      header: "Cost",
+      cell: ({ row }) => formatCost(row.original.cost),
+    },
+    {
+      accessorKey: "createdAt",
+      header: "Opened",
+      cell: ({ row }) => format(new Date(row.original.createdAt), "MMM d, yyyy"),
+    },
+    {
+      accessorKey: "closedAt",
+      header: "Closed",
+      cell: ({ row }) => row.original.closedAt
+        ? format(new Date(row.original.closedAt), "MMM d, yyyy")
+        : <span className="text-slate-400">—</span>,
+    },
+    {
+      id: "actions",
+      cell: ({ row }) => (
+        <div className="flex justify-end">
+          <Button size="sm" variant="outline" onClick={() => openTicket(row.original)}>
+            {row.original.status === "Closed" || !can("repairs:write") ? "View" : "Manage"}
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  const isReadOnly = !selectedTicket || selectedTicket.status === "Closed" || !can("repairs:write");
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 flex justify-between items-center">
+        <h1 className="text-2xl font-semibold text-slate-900">Repairs</h1>
+        {can("repairs:write") && (
+          <Button onClick={() => setShowNewTicket(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Repair Ticket
+          </Button>
+        )}
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <div className="py-4">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-2">
+              <Switch id="show-closed" checked={showClosed} onCheckedChange={setShowClosed} />
+              <Label htmlFor="show-closed">Show closed tickets</Label>
+            </div>
+            {data && (
+              <p className="text-sm text-slate-500">
+                Returns in {data.threshold} condition or worse open a ticket automatically
+              </p>
+            )}
+          </div>
+
+          <Card>
+            <CardHeader className="pb-0">
+              <CardTitle className="text-lg flex items-center">
+                <Wrench className="mr-2 h-5 w-5" />
+                Repair Tickets
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="py-10 flex justify-center">
+                  <LoadingSpinner size="lg" />
+                </div>
+              ) : (
+                <DataTable
+                  columns={columns}
+                  data={data?.tickets || []}
+                  searchPlaceholder="Search repair tickets..."
+                />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* New ticket dialog */}
+      <Dialog open={showNewTicket} onOpenChange={setShowNewTicket}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New Repair Ticket</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label className="mb-1 block">Tablet</Label>
+              <Select value={newTabletId} onValueChange={setNewTabletId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a tablet" />
+                </SelectTrigger>
+                <SelectContent>
+                  {repairableTablets.map(tablet => (
+                    <SelectItem key={tablet.id} value={String(tablet.id)}>
+                      {tablet.brand} {tablet.model} · SN: {tablet.serialNumber}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-1 block">Condition</Label>
+              <Select value={newCondition} onValueChange={value => setNewCondition(value as TabletCondition)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {tabletConditionEnum.enumValues.map(condition => (
+                    <SelectItem key={condition} value={condition}>{condition}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-1 block">Problem</Label>
+              <Textarea
+                rows={3}
+                placeholder="Describe the damage or fault..."
+                value={newDescription}
+                onChange={e => setNewDescription(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowNewTicket(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={!newTabletId || isSubmitting}>
+              Open Ticket
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Ticket dialog */}
+      <Dialog open={selectedTicket !== null} onOpenChange={open => !open && setSelectedTicket(null)}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              Repair Ticket #{selectedTicket?.id}
+              {selectedTicket && ` · ${selectedTicket.tablet.brand} ${selectedTicket.tablet.model}`}
+            </DialogTitle>
+          </DialogHeader>
+          {selectedTicket && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="font-medium text-slate-500">Reported Condition</p>
+                  <p>{selectedTicket.reportedCondition}</p>
+                </div>
+                <div>
+                  <p className="font-medium text-slate-500">Opened</p>
+                  <p>{format(new Date(selectedTicket.createdAt), "MMM d, yyyy 'at' h:mm a")}</p>
+                </div>
+                {selectedTicket.description && (
+                  <div className="col-span-2">
+                    <p className="font-medium text-slate-500">Problem</p>
+                    <p>{selectedTicket.description}</p>
+                  </div>
+                )}
+                {selectedTicket.resolvedCondition && (
+                  <div>
+                    <p className="font-medium text-slate-500">Repaired To</p>
+                    <p>{selectedTicket.resolvedCondition}</p>
+                  </div>
+                )}
+              </div>
+
+              {selectedTicket.status !== "Closed" && (
+                <div>
+                  <Label className="mb-1 block">Status</Label>
+                  <Select
+                    value={status}
+                    onValueChange={value => setStatus(value as "Open" | "In Progress")}
+                    disabled={isReadOnly}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="Open">Open</SelectItem>
+                      <SelectItem value="In Progress">In Progress</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div>
+                <Label className="mb-1 block">Technician Notes</Label>
+                <Textarea
+                  rows={3}
+                  value={technicianNotes}
+                  onChange={e => setTechnicianNotes(e.target.value)}
+                  disabled={isReadOnly}
+                />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <Label>Parts</Label>
+                  {!isReadOnly && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPartRows(rows => [...rows, { name: "", quantity: "1", unitCost: "0" }])}
+                    >
+                      <Plus className="mr-1 h-4 w-4" />
+                      Add Part
+                    </Button>
+                  )}
+                </div>
+                {partRows.length > 0 ? (
+                  <div className="space-y-2">
+                    {partRows.map((row, index) => (
+                      <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                        <Input
+                          className="col-span-6"
+                          placeholder="Part"
+                          value={row.name}
+                          onChange={e => updatePartRow(index, { name: e.target.value })}
+                          disabled={isReadOnly}
+                        />
+                        <Input
+                          className="col-span-2"
+                          type="number"
+                          min={1}
+                          value={row.quantity}
+                          onChange={e => updatePartRow(index, { quantity: e.target.value })}
+                          disabled={isReadOnly}
+                        />
+                        <Input
+                          className="col-span-3"
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={row.unitCost}
+                          onChange={e => updatePartRow(index, { unitCost: e.target.value })}
+                          disabled={isReadOnly}
+                        />
+                        {!isReadOnly && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setPartRows(rows => rows.filter((_, i) => i !== index))}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    <p className="text-xs text-slate-500">Parts total: {formatCost(partsTotal)}</p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-slate-500">No parts recorded.</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label className="mb-1 block">Total Cost</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder={partRows.length > 0 ? partsTotal.toFixed(2) : "0.00"}
+                    value={cost}
+                    onChange={e => setCost(e.target.value)}
+                    disabled={isReadOnly}
+                  />
+                  <p className="text-xs text-slate-500 mt-1">Leave blank to use the parts total</p>
+                </div>
+                {!isReadOnly && (
+                  <div>
+                    <Label className="mb-1 block">Condition After Repair</Label>
+                    <Select
+                      value={resolvedCondition}
+                      onValueChange={value => setResolvedCondition(value as TabletCondition)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {tabletConditionEnum.enumValues.map(condition => (
+                          <SelectItem key={condition} value={condition}>{condition}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-slate-500 mt-1">
+                      Used when the ticket is closed; a Defective tablet stays Unserviceable
+                    </p>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+          {!isReadOnly && (
+            <DialogFooter>
+              <Button variant="outline" onClick={handleSave} disabled={isSubmitting}>
+                Save
+              </Button>
+              <Button onClick={handleClose} disabled={isSubmitting}>
+                Close Ticket
+              </Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
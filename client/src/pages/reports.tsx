@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Tablet, BorrowRecord, LostReport } from "@shared/schema";
+import { Tablet, BorrowRecord, LostReport, StudentAccountability, DeviceModelWithStats, WarrantyExpiringTablet } from "@shared/schema";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { 
@@ -16,7 +16,11 @@ import {
   FileText, 
   Clock, 
   Tablet as TabletIcon,
-  Users
+  Users,
+  Wallet,
+  Layers,
+  ShieldAlert,
+  TrendingDown
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -31,11 +35,55 @@ import { format, subDays, subMonths } from "date-fns";
 import { DataTable } from "@/components/ui/data-table";
 import { ColumnDef } from "@tanstack/react-table";
 import { exportToCSV } from "@/lib/csv";
+import { formatPeso } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ClearanceBadge } from "@/components/ledger/student-ledger";
+import { ReplacementValues } from "@/components/ledger/replacement-values";
+import { BulkClearance } from "@/components/ledger/bulk-clearance";
+import { DeviceModels, describeWarranty } from "@/components/tablets/device-models";
+import { ProcurementBatches, formatBatchDate } from "@/components/tablets/procurement-batches";
+import { generatePDF } from "@/lib/pdf";
+import { useToast } from "@/hooks/use-toast";
+import {
+  defaultDepreciationSettings,
+  depreciationMethodLabels,
+  depreciationMethods,
+  summarizeDepreciation,
+  DepreciationLine,
+  DepreciationMethod,
+  DepreciationReport,
+  DepreciationSummary
+} from "@shared/depreciation";
+
+type DepreciationGrouping = "model" | "status" | "campus";
+
+const depreciationGroupings: Record<DepreciationGrouping, { title: string; label: (line: DepreciationLine) => string }> = {
+  model: { title: "By Model", label: (line) => `${line.brand} ${line.model}` },
+  status: { title: "By Status", label: (line) => line.status },
+  campus: { title: "By Campus", label: (line) => line.campus },
+};
 
 export default function Reports() {
   const [tabletStatus, setTabletStatus] = useState<string>("all");
   const [timePeriod, setTimePeriod] = useState<string>("30days");
   const [activeTab, setActiveTab] = useState<string>("tablets");
+  const [showReplacementValues, setShowReplacementValues] = useState(false);
+  const [showBulkClearance, setShowBulkClearance] = useState(false);
+  const [showDeviceModels, setShowDeviceModels] = useState(false);
+  const [showProcurementBatches, setShowProcurementBatches] = useState(false);
+  const [warrantyDays, setWarrantyDays] = useState<string>("90");
+  const [fiscalYear, setFiscalYear] = useState<string>(new Date().getFullYear().toString());
+  const [depreciationMethod, setDepreciationMethod] = useState<DepreciationMethod>(defaultDepreciationSettings.method);
+  const [usefulLife, setUsefulLife] = useState<string>(defaultDepreciationSettings.usefulLifeYears.toString());
+  const [depreciationGrouping, setDepreciationGrouping] = useState<DepreciationGrouping>("model");
+  const { can } = useAuth();
+  const { toast } = useToast();
   
   // Get date range based on selected time period
   const getDateRange = () => {
@@ -80,6 +128,39 @@ export default function Reports() {
     queryKey: ['/api/lost-reports'],
   });
   
+  // Fetch the model catalog with per-model unit counts
+  const { data: deviceModels, isLoading: isLoadingDeviceModels } = useQuery<DeviceModelWithStats[]>({
+    queryKey: ['/api/device-models'],
+  });
+  
+  // Fetch tablets whose warranty ends within the selected window
+  const { data: expiringWarranties } = useQuery<WarrantyExpiringTablet[]>({
+    queryKey: ['/api/reports/warranty-expiring', warrantyDays],
+    queryFn: async () => {
+      const response = await fetch(`/api/reports/warranty-expiring?days=${warrantyDays}`);
+      if (!response.ok) throw new Error("Failed to fetch expiring warranties");
+      return response.json();
+    },
+  });
+  
+  // Fetch the fleet's book value for the selected fiscal year and method
+  const { data: depreciation } = useQuery<DepreciationReport>({
+    queryKey: ['/api/reports/depreciation', fiscalYear, depreciationMethod, usefulLife],
+    queryFn: async () => {
+      const params = new URLSearchParams({ fiscalYear, method: depreciationMethod, usefulLifeYears: usefulLife });
+      const response = await fetch(`/api/reports/depreciation?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch depreciation report");
+      return response.json();
+    },
+    enabled: activeTab === "depreciation",
+  });
+  
+  // Fetch students with unpaid balances or unreturned items
+  const { data: accountabilities, isLoading: isLoadingAccountabilities } = useQuery<StudentAccountability[]>({
+    queryKey: ['/api/accountabilities'],
+    enabled: can("ledger:read"),
+  });
+  
   // Filter tablets based on status
   const filteredTablets = tablets?.filter((tablet: Tablet) => {
     if (tabletStatus === "all") return true;
@@ -342,6 +423,232 @@ export default function Reports() {
     },
   ];
   
+  // Replacement value of the units still on hand, i.e. everything but lost tablets
+  const fleetValue = (deviceModel: DeviceModelWithStats) =>
+    Number(deviceModel.replacementCost ?? 0) * (deviceModel.totalUnits - deviceModel.lostUnits);
+  
+  // Define columns for Models table
+  const modelColumns: ColumnDef<DeviceModelWithStats>[] = [
+    {
+      id: "model",
+      accessorFn: (row) => `${row.brand} ${row.model}`,
+      header: "Model",
+      cell: ({ row }) => (
+        <div>
+          <div className="font-medium">{row.original.brand} {row.original.model}</div>
+          <div className="text-sm text-gray-500">
+            {[row.original.storage, row.original.releaseYear].filter(Boolean).join(" · ") || "No specs recorded"}
+          </div>
+        </div>
+      ),
+    },
+    {
+      accessorKey: "totalUnits",
+      header: "Units",
+    },
+    {
+      accessorKey: "serviceableUnits",
+      header: "Serviceable",
+    },
+    {
+      accessorKey: "unserviceableUnits",
+      header: "Unserviceable",
+    },
+    {
+      accessorKey: "lostUnits",
+      header: "Lost",
+    },
+    {
+      accessorKey: "borrowedUnits",
+      header: "Borrowed",
+      cell: ({ row }) => {
+        const { borrowedUnits, serviceableUnits } = row.original;
+        return serviceableUnits > 0
+          ? `${borrowedUnits} (${Math.round((borrowedUnits / serviceableUnits) * 100)}%)`
+          : borrowedUnits;
+      },
+    },
+    {
+      accessorKey: "replacementCost",
+      header: "Unit Cost",
+      cell: ({ row }) => row.original.replacementCost !== null ? formatPeso(row.original.replacementCost) : "—",
+    },
+    {
+      id: "fleetValue",
+      header: "Value On Hand",
+      cell: ({ row }) => row.original.replacementCost !== null ? formatPeso(fleetValue(row.original)) : "—",
+    },
+    {
+      accessorKey: "warrantyMonths",
+      header: "Warranty",
+      cell: ({ row }) => describeWarranty(row.original.warrantyMonths),
+    },
+  ];
+  
+  // Define columns for Warranty table
+  const warrantyColumns: ColumnDef<WarrantyExpiringTablet>[] = [
+    {
+      id: "serialNumber",
+      accessorFn: (row) => `${row.tablet.serialNumber} ${row.tablet.brand} ${row.tablet.model}`,
+      header: "Tablet",
+      cell: ({ row }) => (
+        <div>
+          <div className="font-medium">{row.original.tablet.brand} {row.original.tablet.model}</div>
+          <div className="text-sm text-gray-500">SN: {row.original.tablet.serialNumber}</div>
+        </div>
+      ),
+    },
+    {
+      id: "batch",
+      header: "Purchase Order",
+      cell: ({ row }) => (
+        <div>
+          <div>{row.original.batch.poNumber}</div>
+          <div className="text-sm text-gray-500">{row.original.batch.supplier}</div>
+        </div>
+      ),
+    },
+    {
+      id: "purchaseDate",
+      header: "Purchased",
+      cell: ({ row }) => formatBatchDate(row.original.batch.purchaseDate),
+    },
+    {
+      accessorKey: "warrantyExpiry",
+      header: "Warranty Ends",
+      cell: ({ row }) => formatBatchDate(row.original.warrantyExpiry),
+    },
+    {
+      accessorKey: "daysRemaining",
+      header: "Days Left",
+      cell: ({ row }) => {
+        const { daysRemaining } = row.original;
+        return (
+          <Badge
+            className={daysRemaining <= 30 ? "bg-red-100 text-red-800" : "bg-amber-100 text-amber-800"}
+            variant="outline"
+          >
+            {daysRemaining === 0 ? "Today" : `${daysRemaining} day(s)`}
+          </Badge>
+        );
+      },
+    },
+    {
+      id: "status",
+      header: "Status",
+      cell: ({ row }) => `${row.original.tablet.status} · ${row.original.tablet.condition}`,
+    },
+  ];
+  
+  // Depreciation totals for the whole fleet and for the selected grouping
+  const depreciationLines = depreciation?.lines || [];
+  const [depreciationTotals] = summarizeDepreciation(depreciationLines, () => "All tablets");
+  const depreciationSummaries = summarizeDepreciation(depreciationLines, depreciationGroupings[depreciationGrouping].label);
+  
+  // Define columns for Depreciation summary table
+  const depreciationColumns: ColumnDef<DepreciationSummary>[] = [
+    {
+      accessorKey: "label",
+      header: depreciationGroupings[depreciationGrouping].title.replace("By ", ""),
+      cell: ({ row }) => <span className="font-medium">{row.original.label}</span>,
+    },
+    {
+      accessorKey: "units",
+      header: "Units",
+    },
+    {
+      accessorKey: "cost",
+      header: "Cost",
+      cell: ({ row }) => formatPeso(row.original.cost),
+    },
+    {
+      accessorKey: "openingValue",
+      header: "Opening",
+      cell: ({ row }) => formatPeso(row.original.openingValue),
+    },
+    {
+      accessorKey: "additions",
+      header: "Additions",
+      cell: ({ row }) => formatPeso(row.original.additions),
+    },
+    {
+      accessorKey: "depreciation",
+      header: "Depreciation",
+      cell: ({ row }) => formatPeso(row.original.depreciation),
+    },
+    {
+      accessorKey: "writeOff",
+      header: "Write-offs",
+      cell: ({ row }) => (
+        <span className={row.original.writeOff > 0 ? "text-red-600" : ""}>
+          {formatPeso(row.original.writeOff)}
+        </span>
+      ),
+    },
+    {
+      accessorKey: "closingValue",
+      header: "Book Value",
+      cell: ({ row }) => <span className="font-medium">{formatPeso(row.original.closingValue)}</span>,
+    },
+  ];
+  
+  // Define columns for Student Accountabilities table
+  const accountabilityColumns: ColumnDef<StudentAccountability>[] = [
+    {
+      id: "studentName",
+      accessorFn: (row) => `${row.student.fullName} ${row.student.studentId}`,
+      header: "Student",
+      cell: ({ row }) => (
+        <div>
+          <div className="font-medium">{row.original.student.fullName}</div>
+          <div className="text-sm text-gray-500">ID: {row.original.student.studentId}</div>
+        </div>
+      ),
+    },
+    {
+      id: "program",
+      header: "Program",
+      cell: ({ row }) => `${row.original.student.programName} ${row.original.student.yearLevel}`,
+    },
+    {
+      accessorKey: "totalCharges",
+      header: "Charges",
+      cell: ({ row }) => formatPeso(row.original.totalCharges),
+    },
+    {
+      id: "settled",
+      header: "Paid / Waived",
+      cell: ({ row }) => formatPeso(row.original.totalPayments + row.original.totalWaivers),
+    },
+    {
+      accessorKey: "balance",
+      header: "Balance",
+      cell: ({ row }) => (
+        <span className={row.original.balance > 0 ? "font-medium text-red-600" : ""}>
+          {formatPeso(row.original.balance)}
+        </span>
+      ),
+    },
+    {
+      id: "items",
+      header: "Items Out",
+      cell: ({ row }) => {
+        const { activeBorrowings, outstandingAccessories, unresolvedLostReports } = row.original;
+        const items = [
+          activeBorrowings > 0 && `${activeBorrowings} tablet(s)`,
+          outstandingAccessories > 0 && `${outstandingAccessories} accessory(ies)`,
+          unresolvedLostReports > 0 && `${unresolvedLostReports} lost tablet(s) unsettled`,
+        ].filter(Boolean);
+        return items.length > 0 ? items.join(", ") : "None";
+      },
+    },
+    {
+      accessorKey: "clearanceStatus",
+      header: "Clearance",
+      cell: ({ row }) => <ClearanceBadge status={row.original.clearanceStatus} />,
+    },
+  ];
+  
   // Handle export to CSV
   const handleExportTablets = () => {
     if (!filteredTablets) return;
@@ -430,8 +737,115 @@ export default function Reports() {
     exportToCSV(data, `lost-tablets-${format(new Date(), "yyyy-MM-dd")}`);
   };
   
+  const handleExportModels = () => {
+    if (!deviceModels) return;
+    
+    const data = deviceModels.map(deviceModel => ({
+      "Brand": deviceModel.brand,
+      "Model": deviceModel.model,
+      "Storage": deviceModel.storage || "",
+      "Release Year": deviceModel.releaseYear ?? "",
+      "Units": deviceModel.totalUnits,
+      "Serviceable": deviceModel.serviceableUnits,
+      "Unserviceable": deviceModel.unserviceableUnits,
+      "Lost": deviceModel.lostUnits,
+      "Borrowed": deviceModel.borrowedUnits,
+      "Unit Replacement Cost": deviceModel.replacementCost ?? "",
+      "Value On Hand": deviceModel.replacementCost !== null ? fleetValue(deviceModel).toFixed(2) : "",
+      "Warranty (Months)": deviceModel.warrantyMonths ?? ""
+    }));
+    
+    exportToCSV(data, `tablet-models-${format(new Date(), "yyyy-MM-dd")}`);
+  };
+  
+  const handleExportWarranties = () => {
+    if (!expiringWarranties) return;
+    
+    const data = expiringWarranties.map(({ tablet, batch, warrantyExpiry, daysRemaining }) => ({
+      "Serial Number": tablet.serialNumber,
+      "Brand": tablet.brand,
+      "Model": tablet.model,
+      "Status": tablet.status,
+      "Condition": tablet.condition,
+      "PO Number": batch.poNumber,
+      "Supplier": batch.supplier,
+      "Purchase Date": batch.purchaseDate,
+      "Unit Cost": batch.unitCost ?? "",
+      "Warranty Expiry": warrantyExpiry,
+      "Days Remaining": daysRemaining
+    }));
+    
+    exportToCSV(data, `warranty-expiring-${warrantyDays}-days-${format(new Date(), "yyyy-MM-dd")}`);
+  };
+  
+  const handleExportDepreciation = () => {
+    if (!depreciation) return;
+    
+    const data = depreciation.lines.map(line => ({
+      "Serial Number": line.serialNumber,
+      "Brand": line.brand,
+      "Model": line.model,
+      "Status": line.status,
+      "Campus": line.campus,
+      "Acquired": line.acquiredOn,
+      "Cost": line.cost.toFixed(2),
+      "Opening Book Value": line.openingValue.toFixed(2),
+      "Additions": line.additions.toFixed(2),
+      "Depreciation": line.depreciation.toFixed(2),
+      "Write-off": line.writeOff.toFixed(2),
+      "Closing Book Value": line.closingValue.toFixed(2)
+    }));
+    
+    exportToCSV(data, `depreciation-fy${depreciation.fiscalYear}-${depreciation.settings.method}-${format(new Date(), "yyyy-MM-dd")}`);
+  };
+  
+  const handleExportDepreciationPDF = async () => {
+    if (!depreciation || !depreciationTotals) return;
+    
+    try {
+      await generatePDF({
+        type: 'depreciation-report',
+        data: {
+          report: depreciation,
+          groups: Object.values(depreciationGroupings).map(grouping => ({
+            title: grouping.title,
+            summaries: summarizeDepreciation(depreciation.lines, grouping.label),
+          })),
+          totals: { ...depreciationTotals, label: "Total" },
+        },
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to generate the depreciation PDF.",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const handleExportAccountabilities = () => {
+    if (!accountabilities) return;
+    
+    const data = accountabilities.map(accountability => ({
+      "Student ID": accountability.student.studentId,
+      "Student Name": accountability.student.fullName,
+      "Program": accountability.student.programName,
+      "Year Level": accountability.student.yearLevel,
+      "Charges": accountability.totalCharges.toFixed(2),
+      "Payments": accountability.totalPayments.toFixed(2),
+      "Waivers": accountability.totalWaivers.toFixed(2),
+      "Balance": accountability.balance.toFixed(2),
+      "Tablets Not Returned": accountability.activeBorrowings,
+      "Missing Accessories": accountability.outstandingAccessories,
+      "Unsettled Lost Tablets": accountability.unresolvedLostReports,
+      "Clearance Status": accountability.clearanceStatus
+    }));
+    
+    exportToCSV(data, `student-accountabilities-${format(new Date(), "yyyy-MM-dd")}`);
+  };
+  
   // Show loading state when data is being fetched
-  if (isLoadingTablets || isLoadingBorrowRecords || isLoadingLostReports) {
+  if (isLoadingTablets || isLoadingBorrowRecords || isLoadingLostReports || isLoadingDeviceModels || isLoadingAccountabilities) {
     return (
       <div className="py-6">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
@@ -603,8 +1017,14 @@ export default function Reports() {
             <div className="flex justify-between items-center mb-4">
               <TabsList>
                 <TabsTrigger value="tablets">Tablet Inventory</TabsTrigger>
+                <TabsTrigger value="models">Models</TabsTrigger>
+                <TabsTrigger value="warranty">Warranty</TabsTrigger>
+                <TabsTrigger value="depreciation">Depreciation</TabsTrigger>
                 <TabsTrigger value="borrowings">Borrowing Records</TabsTrigger>
                 <TabsTrigger value="lost">Lost Tablets</TabsTrigger>
+                {can("ledger:read") && (
+                  <TabsTrigger value="accountabilities">Student Accountabilities</TabsTrigger>
+                )}
               </TabsList>
               
               <div>
@@ -633,6 +1053,114 @@ export default function Reports() {
                   </div>
                 )}
                 
+                {activeTab === "models" && (
+                  <div className="flex items-center space-x-3">
+                    <Button 
+                      variant="outline" 
+                      onClick={() => setShowDeviceModels(true)}
+                    >
+                      Model Catalog
+                    </Button>
+                    
+                    <Button 
+                      variant="outline" 
+                      onClick={handleExportModels}
+                      className="flex items-center"
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      Export CSV
+                    </Button>
+                  </div>
+                )}
+                
+                {activeTab === "warranty" && (
+                  <div className="flex items-center space-x-3">
+                    <Select value={warrantyDays} onValueChange={setWarrantyDays}>
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue placeholder="Expiring within" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="30">Next 30 days</SelectItem>
+                        <SelectItem value="60">Next 60 days</SelectItem>
+                        <SelectItem value="90">Next 90 days</SelectItem>
+                        <SelectItem value="180">Next 6 months</SelectItem>
+                        <SelectItem value="365">Next 12 months</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    
+                    <Button 
+                      variant="outline" 
+                      onClick={() => setShowProcurementBatches(true)}
+                    >
+                      Procurement Batches
+                    </Button>
+                    
+                    <Button 
+                      variant="outline" 
+                      onClick={handleExportWarranties}
+                      className="flex items-center"
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      Export CSV
+                    </Button>
+                  </div>
+                )}
+                
+                {activeTab === "depreciation" && (
+                  <div className="flex items-center space-x-3">
+                    <Select value={fiscalYear} onValueChange={setFiscalYear}>
+                      <SelectTrigger className="w-[110px]">
+                        <SelectValue placeholder="Fiscal year" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: 6 }, (_, index) => (new Date().getFullYear() - index).toString()).map(year => (
+                          <SelectItem key={year} value={year}>FY {year}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    
+                    <Select value={depreciationMethod} onValueChange={(value) => setDepreciationMethod(value as DepreciationMethod)}>
+                      <SelectTrigger className="w-[170px]">
+                        <SelectValue placeholder="Method" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {depreciationMethods.map(method => (
+                          <SelectItem key={method} value={method}>{depreciationMethodLabels[method]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    
+                    <Select value={usefulLife} onValueChange={setUsefulLife}>
+                      <SelectTrigger className="w-[130px]">
+                        <SelectValue placeholder="Useful life" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {["2", "3", "4", "5"].map(years => (
+                          <SelectItem key={years} value={years}>{years}-year life</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    
+                    <Button 
+                      variant="outline" 
+                      onClick={handleExportDepreciation}
+                      className="flex items-center"
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      CSV
+                    </Button>
+                    
+                    <Button 
+                      variant="outline" 
+                      onClick={handleExportDepreciationPDF}
+                      className="flex items-center"
+                    >
+                      <FileText className="mr-2 h-4 w-4" />
+                      PDF
+                    </Button>
+                  </div>
+                )}
+                
                 {activeTab === "borrowings" && (
                   <Button 
                     variant="outline" 
@@ -654,6 +1182,35 @@ export default function Reports() {
                     Export CSV
                   </Button>
                 )}
+                
+                {activeTab === "accountabilities" && (
+                  <div className="flex items-center space-x-3">
+                    {can("clearance:issue") && (
+                      <Button 
+                        variant="outline" 
+                        onClick={() => setShowBulkClearance(true)}
+                      >
+                        Bulk Clearance
+                      </Button>
+                    )}
+                    
+                    <Button 
+                      variant="outline" 
+                      onClick={() => setShowReplacementValues(true)}
+                    >
+                      Replacement Values
+                    </Button>
+                    
+                    <Button 
+                      variant="outline" 
+                      onClick={handleExportAccountabilities}
+                      className="flex items-center"
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      Export CSV
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
             
@@ -676,6 +1233,106 @@ export default function Reports() {
               </Card>
             </TabsContent>
             
+            <TabsContent value="models" className="mt-0">
+              <Card>
+                <CardHeader className="pb-0">
+                  <CardTitle className="text-lg flex items-center">
+                    <Layers className="mr-2 h-5 w-5" />
+                    Tablet Models
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <DataTable
+                    columns={modelColumns}
+                    data={deviceModels || []}
+                    searchPlaceholder="Search models..."
+                    searchColumn="model"
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+            
+            <TabsContent value="warranty" className="mt-0">
+              <Card>
+                <CardHeader className="pb-0">
+                  <CardTitle className="text-lg flex items-center">
+                    <ShieldAlert className="mr-2 h-5 w-5" />
+                    Warranties Expiring
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {expiringWarranties && expiringWarranties.length > 0 ? (
+                    <DataTable
+                      columns={warrantyColumns}
+                      data={expiringWarranties}
+                      searchPlaceholder="Search by serial number or model..."
+                      searchColumn="serialNumber"
+                    />
+                  ) : (
+                    <div className="text-center py-10">
+                      <ShieldAlert className="h-10 w-10 text-slate-400 mx-auto mb-4" />
+                      <h3 className="text-lg font-medium">No warranties expiring</h3>
+                      <p className="text-gray-500 mt-2">
+                        No tablet's warranty ends in the selected window. Tablets without a procurement batch are not tracked.
+                      </p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+            
+            <TabsContent value="depreciation" className="mt-0">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4 mb-4">
+                {[
+                  { label: "Opening Book Value", value: depreciationTotals?.openingValue ?? 0, className: "text-slate-900" },
+                  { label: "Depreciation", value: depreciationTotals?.depreciation ?? 0, className: "text-amber-600" },
+                  { label: "Write-offs", value: depreciationTotals?.writeOff ?? 0, className: "text-red-600" },
+                  { label: `Book Value, End of FY ${fiscalYear}`, value: depreciationTotals?.closingValue ?? 0, className: "text-green-600" },
+                ].map(card => (
+                  <Card key={card.label} className="bg-white overflow-hidden">
+                    <CardContent className="p-5">
+                      <div className="text-sm font-medium text-slate-500">{card.label}</div>
+                      <div className={`mt-1 text-2xl font-semibold ${card.className}`}>{formatPeso(card.value)}</div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+              
+              <Card>
+                <CardHeader className="pb-0 flex flex-row items-center justify-between">
+                  <CardTitle className="text-lg flex items-center">
+                    <TrendingDown className="mr-2 h-5 w-5" />
+                    Depreciation {depreciationGroupings[depreciationGrouping].title}
+                  </CardTitle>
+                  <Select value={depreciationGrouping} onValueChange={(value) => setDepreciationGrouping(value as DepreciationGrouping)}>
+                    <SelectTrigger className="w-[160px]">
+                      <SelectValue placeholder="Group by" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="model">Group by model</SelectItem>
+                      <SelectItem value="status">Group by status</SelectItem>
+                      <SelectItem value="campus">Group by campus</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </CardHeader>
+                <CardContent>
+                  <DataTable
+                    columns={depreciationColumns}
+                    data={depreciationSummaries}
+                    searchPlaceholder="Search groups..."
+                    searchColumn="label"
+                  />
+                  <p className="text-xs text-slate-500 mt-2">
+                    Cost is the batch unit cost, or the catalog replacement cost when a tablet has no batch.
+                    Lost tablets are written off in full and Unserviceable tablets down to salvage value in the year their status changed.
+                    {depreciation && depreciation.unvaluedTablets > 0 && (
+                      ` ${depreciation.unvaluedTablets} tablet(s) with no known cost are excluded.`
+                    )}
+                  </p>
+                </CardContent>
+              </Card>
+            </TabsContent>
+            
             <TabsContent value="borrowings" className="mt-0">
               <Card>
                 <CardHeader className="pb-0">
@@ -722,7 +1379,62 @@ export default function Reports() {
                 </CardContent>
               </Card>
             </TabsContent>
+            
+            <TabsContent value="accountabilities" className="mt-0">
+              <Card>
+                <CardHeader className="pb-0">
+                  <CardTitle className="text-lg flex items-center">
+                    <Wallet className="mr-2 h-5 w-5" />
+                    Student Accountabilities
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <DataTable
+                    columns={accountabilityColumns}
+                    data={accountabilities || []}
+                    searchPlaceholder="Search by student name or ID..."
+                    searchColumn="studentName"
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
           </Tabs>
+          
+          <Dialog open={showReplacementValues} onOpenChange={setShowReplacementValues}>
+            <DialogContent className="max-w-3xl">
+              <DialogHeader>
+                <DialogTitle>Replacement Values</DialogTitle>
+              </DialogHeader>
+              <ReplacementValues />
+            </DialogContent>
+          </Dialog>
+          
+          <Dialog open={showDeviceModels} onOpenChange={setShowDeviceModels}>
+            <DialogContent className="max-w-4xl">
+              <DialogHeader>
+                <DialogTitle>Model Catalog</DialogTitle>
+              </DialogHeader>
+              <DeviceModels />
+            </DialogContent>
+          </Dialog>
+          
+          <Dialog open={showProcurementBatches} onOpenChange={setShowProcurementBatches}>
+            <DialogContent className="max-w-4xl">
+              <DialogHeader>
+                <DialogTitle>Procurement Batches</DialogTitle>
+              </DialogHeader>
+              <ProcurementBatches />
+            </DialogContent>
+          </Dialog>
+          
+          <Dialog open={showBulkClearance} onOpenChange={setShowBulkClearance}>
+            <DialogContent className="max-w-3xl">
+              <DialogHeader>
+                <DialogTitle>Bulk Clearance</DialogTitle>
+              </DialogHeader>
+              <BulkClearance />
+            </DialogContent>
+          </Dialog>
         </div>
       </div>
     </div>
@@ -0,0 +1,436 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ColumnDef } from "@tanstack/react-table";
+import { format } from "date-fns";
+import { ReservationWithDetails, ReservationStatus, Student, Tablet } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { DataTable } from "@/components/ui/data-table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { CalendarClock, Plus } from "lucide-react";
+
+const statusColors: Record<ReservationStatus, string> = {
+  Waiting: "bg-yellow-100 text-yellow-800",
+  Assigned: "bg-blue-100 text-blue-800",
+  Fulfilled: "bg-green-100 text-green-800",
+  Cancelled: "bg-slate-100 text-slate-800",
+  Expired: "bg-red-100 text-red-800",
+};
+
+// Pull the server's message out of an apiRequest error ("500: {...}")
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+export default function Reservations() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [showClosed, setShowClosed] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [studentSearch, setStudentSearch] = useState("");
+  const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
+  const [requestedModel, setRequestedModel] = useState("any");
+  const [priority, setPriority] = useState("0");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  // Fetch the reservation queue
+  const { data: reservations, isLoading } = useQuery<ReservationWithDetails[]>({
+    queryKey: ["/api/reservations", { showClosed }],
+    queryFn: async () => {
+      const response = await fetch(`/api/reservations?includeClosed=${showClosed}`);
+      if (!response.ok) throw new Error("Failed to fetch reservations");
+      return response.json();
+    },
+  });
+
+  // Students and tablet models for the new reservation form
+  const { data: students } = useQuery<Student[]>({
+    queryKey: ["/api/students"],
+    enabled: showForm,
+  });
+
+  const { data: tablets } = useQuery<Tablet[]>({
+    queryKey: ["/api/tablets"],
+    enabled: showForm,
+  });
+
+  const models = Array.from(
+    new Set((tablets || []).map(tablet => JSON.stringify([tablet.brand, tablet.model])))
+  ).map(value => JSON.parse(value) as [string, string]);
+
+  const matchingStudents = studentSearch
+    ? (students || []).filter(student => {
+        const searchLower = studentSearch.toLowerCase();
+        return (
+          student.fullName.toLowerCase().includes(searchLower) ||
+          student.studentId.toLowerCase().includes(searchLower)
+        );
+      }).slice(0, 8)
+    : [];
+
+  const refreshQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tablets"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tablets/available"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/borrow-records"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/recent-activity"] });
+  };
+
+  const resetForm = () => {
+    setStudentSearch("");
+    setSelectedStudent(null);
+    setRequestedModel("any");
+    setPriority("0");
+    setExpiresAt("");
+    setNotes("");
+  };
+
+  const handleCreate = async () => {
+    if (!selectedStudent) return;
+    setIsSubmitting(true);
+    try {
+      const [requestedBrand, model] = requestedModel === "any"
+        ? [null, null]
+        : JSON.parse(requestedModel) as [string, string];
+      await apiRequest("POST", "/api/reservations", {
+        studentId: selectedStudent.id,
+        requestedBrand,
+        requestedModel: model,
+        priority: parseInt(priority) || 0,
+        expiresAt: expiresAt || null,
+        notes: notes || null,
+      });
+      toast({
+        title: "Reservation added",
+        description: `${selectedStudent.fullName} has been added to the waitlist.`,
+      });
+      resetForm();
+      setShowForm(false);
+      refreshQueries();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to create reservation"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConvert = async (reservation: ReservationWithDetails) => {
+    setBusyId(reservation.id);
+    try {
+      await apiRequest("POST", `/api/reservations/${reservation.id}/convert`, {});
+      toast({
+        title: "Borrowing recorded",
+        description: `A tablet has been assigned to ${reservation.student.fullName}.`,
+      });
+      refreshQueries();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to convert reservation"),
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancel = async (reservation: ReservationWithDetails) => {
+    setBusyId(reservation.id);
+    try {
+      await apiRequest("POST", `/api/reservations/${reservation.id}/cancel`);
+      toast({
+        title: "Reservation cancelled",
+        description: `${reservation.student.fullName} has been removed from the waitlist.`,
+      });
+      refreshQueries();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to cancel reservation"),
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const columns: ColumnDef<ReservationWithDetails>[] = [
+    {
+      accessorKey: "queuePosition",
+      header: "Queue",
+      cell: ({ row }) => row.original.queuePosition
+        ? <span className="font-semibold">#{row.original.queuePosition}</span>
+        : <span className="text-slate-400">—</span>,
+    },
+    {
+      accessorKey: "student",
+      header: "Student",
+      cell: ({ row }) => {
+        const student = row.original.student;
+        return (
+          <div>
+            <div className="font-medium">{student.fullName}</div>
+            <div className="text-sm text-gray-500">ID: {student.studentId}</div>
+          </div>
+        );
+      },
+    },
+    {
+      accessorKey: "requestedModel",
+      header: "Requested Model",
+      cell: ({ row }) => {
+        const { requestedBrand, requestedModel } = row.original;
+        if (!requestedBrand && !requestedModel) return "Any model";
+        return `${requestedBrand || ""} ${requestedModel || ""}`.trim();
+      },
+    },
+    {
+      accessorKey: "priority",
+      header: "Priority",
+    },
+    {
+      accessorKey: "status",
+      header: "Status",
+      cell: ({ row }) => (
+        <Badge className={statusColors[row.original.status]} variant="outline">
+          {row.original.status}
+        </Badge>
+      ),
+    },
+    {
+      accessorKey: "tablet",
+      header: "Held Tablet",
+      cell: ({ row }) => {
+        const tablet = row.original.tablet;
+        if (!tablet) return <span className="text-slate-400">—</span>;
+        return (
+          <div>
+            <div className="font-medium">{`${tablet.brand} ${tablet.model}`}</div>
+            <div className="text-sm text-gray-500">SN: {tablet.serialNumber}</div>
+          </div>
+        );
+      },
+    },
+    {
+      accessorKey: "createdAt",
+      header: "Reserved On",
+      cell: ({ row }) => format(new Date(row.original.createdAt), "MMM d, yyyy"),
+    },
+    {
+      accessorKey: "expiresAt",
+      header: "Expires",
+      cell: ({ row }) => row.original.expiresAt
+        ? format(new Date(row.original.expiresAt), "MMM d, yyyy")
+        : "Never",
+    },
+    {
+      id: "actions",
+      cell: ({ row }) => {
+        const reservation = row.original;
+        const isOpen = reservation.status === "Waiting" || reservation.status === "Assigned";
+        if (!isOpen || !can("reservations:write")) return null;
+        return (
+          <div className="flex justify-end gap-2">
+            {can("borrowing:write") && (
+              <Button
+                size="sm"
+                disabled={busyId === reservation.id}
+                onClick={() => handleConvert(reservation)}
+              >
+                Convert to Borrowing
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={busyId === reservation.id}
+              onClick={() => handleCancel(reservation)}
+            >
+              Cancel
+            </Button>
+          </div>
+        );
+      },
+    },
+  ];
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 flex justify-between items-center">
+        <h1 className="text-2xl font-semibold text-slate-900">Reservations</h1>
+        {can("reservations:write") && (
+          <Button onClick={() => setShowForm(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Reservation
+          </Button>
+        )}
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <div className="py-4">
+          <div className="flex items-center gap-2 mb-6">
+            <Switch id="show-closed" checked={showClosed} onCheckedChange={setShowClosed} />
+            <Label htmlFor="show-closed">Show fulfilled, cancelled and expired reservations</Label>
+          </div>
+
+          <Card>
+            <CardHeader className="pb-0">
+              <CardTitle className="text-lg flex items-center">
+                <CalendarClock className="mr-2 h-5 w-5" />
+                Waitlist
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="py-10 flex justify-center">
+                  <LoadingSpinner size="lg" />
+                </div>
+              ) : (
+                <DataTable
+                  columns={columns}
+                  data={reservations || []}
+                  searchPlaceholder="Search reservations..."
+                />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* New reservation dialog */}
+      <Dialog
+        open={showForm}
+        onOpenChange={open => {
+          setShowForm(open);
+          if (!open) resetForm();
+        }}
+      >
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New Reservation</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label className="mb-1 block">Student</Label>
+              {selectedStudent ? (
+                <div className="flex items-center justify-between border rounded-md px-3 py-2">
+                  <div>
+                    <div className="font-medium">{selectedStudent.fullName}</div>
+                    <div className="text-sm text-gray-500">ID: {selectedStudent.studentId}</div>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedStudent(null)}>
+                    Change
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <Input
+                    placeholder="Search by name or student ID..."
+                    value={studentSearch}
+                    onChange={e => setStudentSearch(e.target.value)}
+                  />
+                  {matchingStudents.length > 0 && (
+                    <ul className="mt-2 border rounded-md divide-y max-h-48 overflow-y-auto">
+                      {matchingStudents.map(student => (
+                        <li
+                          key={student.id}
+                          className="px-3 py-2 cursor-pointer hover:bg-slate-50"
+                          onClick={() => setSelectedStudent(student)}
+                        >
+                          <div className="font-medium">{student.fullName}</div>
+                          <div className="text-sm text-gray-500">ID: {student.studentId}</div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              )}
+            </div>
+            <div>
+              <Label className="mb-1 block">Requested Model</Label>
+              <Select value={requestedModel} onValueChange={setRequestedModel}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Any model" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any model</SelectItem>
+                  {models.map(([brand, model]) => (
+                    <SelectItem key={`${brand} ${model}`} value={JSON.stringify([brand, model])}>
+                      {brand} {model}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="mb-1 block">Priority</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={priority}
+                  onChange={e => setPriority(e.target.value)}
+                />
+                <p className="text-xs text-slate-500 mt-1">Higher numbers are served first</p>
+              </div>
+              <div>
+                <Label className="mb-1 block">Expires On</Label>
+                <Input type="date" value={expiresAt} onChange={e => setExpiresAt(e.target.value)} />
+              </div>
+            </div>
+            <div>
+              <Label className="mb-1 block">Notes</Label>
+              <Textarea value={notes} onChange={e => setNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button disabled={!selectedStudent || isSubmitting} onClick={handleCreate}>
+              {isSubmitting ? "Saving..." : "Add to Waitlist"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
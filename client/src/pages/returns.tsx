@@ -1,5 +1,8 @@
 import { useState } from "react";
 import { ReturnForm } from "@/components/returns/return-form";
+import { BulkReturn } from "@/components/returns/bulk-return";
+import { AccessoryReturnForm, accessoryLabels } from "@/components/returns/accessory-return-form";
+import { AccessoryLiabilityWithDetails, TabletScanResult } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
 import { DataTable } from "@/components/ui/data-table";
 import { ColumnDef } from "@tanstack/react-table";
@@ -13,15 +16,20 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { format } from "date-fns";
-import { ArrowLeftRight, Search } from "lucide-react";
+import { ArrowLeftRight, PackageCheck, Search } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { ScanInput } from "@/components/tablets/scan-input";
+import { useToast } from "@/hooks/use-toast";
 
 export default function Returns() {
+  const { toast } = useToast();
   const [search, setSearch] = useState("");
   const [selectedBorrow, setSelectedBorrow] = useState<any>(null);
   const [isReturnDialogOpen, setIsReturnDialogOpen] = useState(false);
+  const [selectedLiabilities, setSelectedLiabilities] = useState<AccessoryLiabilityWithDetails[] | null>(null);
   
   // Fetch active borrowing records for returns
   const { data: borrowRecords, isLoading, error } = useQuery({
@@ -33,6 +41,19 @@ export default function Returns() {
     },
   });
   
+  // Fetch accessories still owed from earlier returns
+  const { data: liabilities, isLoading: isLoadingLiabilities } = useQuery<AccessoryLiabilityWithDetails[]>({
+    queryKey: ['/api/accessory-liabilities'],
+  });
+  
+  // One entry per borrowing, since its missing accessories are returned together
+  const outstandingByBorrowing = Array.from(
+    (liabilities || []).reduce((groups, liability) => {
+      groups.set(liability.borrowRecordId, [...(groups.get(liability.borrowRecordId) || []), liability]);
+      return groups;
+    }, new Map<number, AccessoryLiabilityWithDetails[]>()).values()
+  );
+  
   // Filter records based on search
   const filteredRecords = borrowRecords?.filter((record: any) => {
     if (!search) return true;
@@ -53,6 +74,20 @@ export default function Returns() {
     setIsReturnDialogOpen(true);
   };
   
+  // Open the return form for a scanned tablet's active borrowing
+  const handleScan = (tablet: TabletScanResult) => {
+    if (!tablet.activeBorrowRecord) {
+      toast({
+        title: "Not borrowed",
+        description: `${tablet.brand} ${tablet.model} (${tablet.serialNumber}) has no active borrowing to return.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    handleReturn(tablet.activeBorrowRecord);
+  };
+  
   return (
     <div className="py-6">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
@@ -65,83 +100,149 @@ export default function Returns() {
             <CardHeader className="pb-3">
               <CardTitle>Return a Tablet</CardTitle>
               <CardDescription>
-                Select a borrowed tablet to process its return
+                Select a borrowed tablet to process its return, or use rapid collection to scan many at once
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="relative rounded-md shadow-sm mb-6">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <Search className="h-5 w-5 text-gray-400" />
-                </div>
-                <Input
-                  type="text"
-                  placeholder="Search by student name, ID, tablet model, or serial number..."
-                  value={search}
-                  onChange={(e) => setSearch(e.target.value)}
-                  className="pl-10"
-                />
-              </div>
+              <Tabs defaultValue="single">
+                <TabsList className="mb-4">
+                  <TabsTrigger value="single">One at a Time</TabsTrigger>
+                  <TabsTrigger value="rapid">Rapid Collection</TabsTrigger>
+                </TabsList>
+                <TabsContent value="rapid">
+                  <BulkReturn />
+                </TabsContent>
+                <TabsContent value="single">
+                  <ScanInput className="mb-3" onScan={handleScan} />
               
-              {isLoading ? (
-                <div className="py-10 flex justify-center">
-                  <LoadingSpinner size="lg" />
-                </div>
-              ) : filteredRecords && filteredRecords.length > 0 ? (
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {filteredRecords.map((record: any) => (
-                    <Card key={record.id} className="overflow-hidden">
-                      <CardContent className="p-0">
-                        <div className="px-4 py-3 bg-orange-50">
-                          <div className="flex justify-between items-center">
-                            <div>
-                              <h3 className="font-medium">
-                                {record.tablet?.brand} {record.tablet?.model}
-                              </h3>
-                              <p className="text-sm text-gray-500">Serial: {record.tablet?.serialNumber}</p>
+                  <div className="relative rounded-md shadow-sm mb-6">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <Search className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <Input
+                      type="text"
+                      placeholder="Search by student name, ID, tablet model, or serial number..."
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      className="pl-10"
+                    />
+                  </div>
+              
+                  {isLoading ? (
+                    <div className="py-10 flex justify-center">
+                      <LoadingSpinner size="lg" />
+                    </div>
+                  ) : filteredRecords && filteredRecords.length > 0 ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                      {filteredRecords.map((record: any) => (
+                        <Card key={record.id} className="overflow-hidden">
+                          <CardContent className="p-0">
+                            <div className="px-4 py-3 bg-orange-50">
+                              <div className="flex justify-between items-center">
+                                <div>
+                                  <h3 className="font-medium">
+                                    {record.tablet?.brand} {record.tablet?.model}
+                                  </h3>
+                                  <p className="text-sm text-gray-500">Serial: {record.tablet?.serialNumber}</p>
+                                </div>
+                                {record.recallRequestedAt ? (
+                                  <Badge variant="outline" className="bg-red-100 text-red-800">
+                                    Recalled
+                                  </Badge>
+                                ) : (
+                                  <Badge variant="outline" className="bg-orange-100 text-orange-800">
+                                    Borrowed
+                                  </Badge>
+                                )}
+                              </div>
                             </div>
-                            <Badge variant="outline" className="bg-orange-100 text-orange-800">
-                              Borrowed
-                            </Badge>
-                          </div>
-                        </div>
                         
-                        <div className="p-4">
-                          <div className="mb-3">
-                            <p className="text-sm font-medium text-gray-500">Student Information</p>
-                            <p className="font-medium">
-                              {record.student?.firstName} {record.student?.lastName}
-                            </p>
-                            <p className="text-sm text-gray-500">ID: {record.student?.studentId}</p>
-                          </div>
+                            <div className="p-4">
+                              <div className="mb-3">
+                                <p className="text-sm font-medium text-gray-500">Student Information</p>
+                                <p className="font-medium">
+                                  {record.student?.firstName} {record.student?.lastName}
+                                </p>
+                                <p className="text-sm text-gray-500">ID: {record.student?.studentId}</p>
+                              </div>
                           
-                          <div className="grid grid-cols-2 gap-2 text-sm mb-4">
-                            <div>
-                              <p className="font-medium text-gray-500">Borrowed On</p>
-                              <p>{format(new Date(record.dateBorrowed), "MMM d, yyyy")}</p>
-                            </div>
-                            <div>
-                              <p className="font-medium text-gray-500">Condition</p>
-                              <p>{record.condition}</p>
-                            </div>
-                          </div>
+                              <div className="grid grid-cols-2 gap-2 text-sm mb-4">
+                                <div>
+                                  <p className="font-medium text-gray-500">Borrowed On</p>
+                                  <p>{format(new Date(record.dateBorrowed), "MMM d, yyyy")}</p>
+                                </div>
+                                <div>
+                                  <p className="font-medium text-gray-500">Condition</p>
+                                  <p>{record.condition}</p>
+                                </div>
+                              </div>
                           
-                          <Button 
-                            onClick={() => handleReturn(record)} 
-                            className="w-full"
-                          >
-                            <ArrowLeftRight className="mr-2 h-4 w-4" />
-                            Process Return
-                          </Button>
+                              <Button 
+                                onClick={() => handleReturn(record)} 
+                                className="w-full"
+                              >
+                                <ArrowLeftRight className="mr-2 h-4 w-4" />
+                                Process Return
+                              </Button>
+                            </div>
+                          </CardContent>
+                        </Card>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center py-10 bg-white border border-slate-200 rounded-md">
+                      <p className="text-slate-500">
+                        {search ? "No matching borrowings found." : "No active borrowings to return."}
+                      </p>
+                    </div>
+                  )}
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+          
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle>Outstanding Accessories</CardTitle>
+              <CardDescription>
+                Accessories that were missing when the tablet was returned
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingLiabilities ? (
+                <div className="py-10 flex justify-center">
+                  <LoadingSpinner size="lg" />
+                </div>
+              ) : outstandingByBorrowing.length > 0 ? (
+                <ul className="divide-y divide-slate-200">
+                  {outstandingByBorrowing.map(group => (
+                    <li key={group[0].borrowRecordId} className="py-3 flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">
+                          {group[0].student.fullName} ({group[0].student.studentId})
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {group[0].tablet.brand} {group[0].tablet.model} · SN: {group[0].tablet.serialNumber} · owed since{" "}
+                          {format(new Date(group[0].createdAt), "MMM d, yyyy")}
+                        </p>
+                        <div className="mt-1 flex gap-2">
+                          {group.map(liability => (
+                            <Badge key={liability.id} variant="outline" className="bg-red-100 text-red-800">
+                              {accessoryLabels[liability.accessory]}
+                            </Badge>
+                          ))}
                         </div>
-                      </CardContent>
-                    </Card>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => setSelectedLiabilities(group)}>
+                        <PackageCheck className="mr-2 h-4 w-4" />
+                        Return Accessories
+                      </Button>
+                    </li>
                   ))}
-                </div>
+                </ul>
               ) : (
                 <div className="text-center py-10 bg-white border border-slate-200 rounded-md">
-                  <p className="text-slate-500">
-                    {search ? "No matching borrowings found." : "No active borrowings to return."}
-                  </p>
+                  <p className="text-slate-500">No accessories are outstanding.</p>
                 </div>
               )}
             </CardContent>
@@ -166,6 +267,21 @@ export default function Returns() {
           )}
         </DialogContent>
       </Dialog>
+      
+      {/* Accessory Return Dialog */}
+      <Dialog open={selectedLiabilities !== null} onOpenChange={(open) => !open && setSelectedLiabilities(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Return Missing Accessories</DialogTitle>
+          </DialogHeader>
+          {selectedLiabilities && (
+            <AccessoryReturnForm
+              liabilities={selectedLiabilities}
+              onSuccess={() => setSelectedLiabilities(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,338 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { format } from "date-fns";
+import {
+  AccessoryLiabilityWithDetails,
+  BorrowRecordWithDetails,
+  LostReport,
+  Notification,
+  Student,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { StudentInfo, getNotificationColor, templateLabels } from "@/components/students/student-detail";
+import { ReturnForm } from "@/components/returns/return-form";
+import { accessoryLabels } from "@/components/returns/accessory-return-form";
+import { AgreementStatusBadge } from "@/components/borrowing/agreement-status";
+import { StudentLedger } from "@/components/ledger/student-ledger";
+import { ClearancePanel } from "@/components/ledger/clearance-panel";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CalendarClock,
+  HandHelping,
+  History,
+  Mail,
+  Package,
+  RotateCcw,
+  TabletIcon,
+} from "lucide-react";
+
+// One entry on a student's timeline
+type TimelineEvent = {
+  key: string;
+  date: Date;
+  icon: React.ElementType;
+  iconClassName: string;
+  title: string;
+  description?: string;
+  badge?: React.ReactNode;
+  notification?: Notification; // Set for emails, which can be retried when they failed
+};
+
+const formatDate = (value: Date | string) => format(new Date(value), "MMM d, yyyy");
+
+// Every borrowing, return, recall, lost report, missing accessory and email as one list, newest first
+function buildTimeline(
+  borrowRecords: BorrowRecordWithDetails[],
+  lostReports: LostReport[],
+  liabilities: AccessoryLiabilityWithDetails[],
+  notifications: Notification[],
+): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  const describeTablet = (tablet: BorrowRecordWithDetails["tablet"]) =>
+    `${tablet.brand} ${tablet.model} · SN: ${tablet.serialNumber}`;
+
+  borrowRecords.forEach(record => {
+    events.push({
+      key: `borrowed-${record.id}`,
+      date: new Date(record.dateBorrowed),
+      icon: TabletIcon,
+      iconClassName: "text-orange-500",
+      title: `Borrowed ${describeTablet(record.tablet)}`,
+      description: `Lent in ${record.condition} condition${record.expectedReturnDate ? ` · due ${formatDate(record.expectedReturnDate)}` : ""}`,
+      badge: <AgreementStatusBadge status={record.agreementStatus} />,
+    });
+    if (record.recallRequestedAt) {
+      events.push({
+        key: `recalled-${record.id}`,
+        date: new Date(record.recallRequestedAt),
+        icon: CalendarClock,
+        iconClassName: "text-red-500",
+        title: `Recall requested for ${record.tablet.serialNumber}`,
+        description: "Not enrolled in the next term",
+      });
+    }
+    if (record.isReturned && record.returnDate) {
+      events.push({
+        key: `returned-${record.id}`,
+        date: new Date(record.returnDate),
+        icon: RotateCcw,
+        iconClassName: "text-green-600",
+        title: `Returned ${describeTablet(record.tablet)}`,
+        description: [record.returnCondition && `Returned in ${record.returnCondition} condition`, record.returnNotes]
+          .filter(Boolean)
+          .join(" · "),
+      });
+    }
+  });
+
+  lostReports.forEach(report => {
+    const record = borrowRecords.find(r => r.tabletId === report.tabletId);
+    events.push({
+      key: `lost-${report.id}`,
+      date: new Date(report.dateReported),
+      icon: AlertTriangle,
+      iconClassName: "text-red-500",
+      title: record ? `Reported lost: ${describeTablet(record.tablet)}` : "Reported a tablet lost",
+      description: report.details ?? undefined,
+    });
+  });
+
+  liabilities.forEach(liability => {
+    events.push({
+      key: `missing-${liability.id}`,
+      date: new Date(liability.createdAt),
+      icon: Package,
+      iconClassName: "text-red-500",
+      title: `${accessoryLabels[liability.accessory]} missing from ${liability.tablet.serialNumber}`,
+    });
+    if (liability.returnedAt) {
+      events.push({
+        key: `accessory-returned-${liability.id}`,
+        date: new Date(liability.returnedAt),
+        icon: Package,
+        iconClassName: "text-green-600",
+        title: `${accessoryLabels[liability.accessory]} for ${liability.tablet.serialNumber} handed in`,
+      });
+    }
+  });
+
+  notifications.forEach(notification => {
+    events.push({
+      key: `notification-${notification.id}`,
+      date: new Date(notification.createdAt),
+      icon: Mail,
+      iconClassName: "text-slate-400",
+      title: templateLabels[notification.template],
+      description: `To ${notification.recipient} · ${notification.subject}`,
+      badge: (
+        <Badge className={getNotificationColor(notification.status)} variant="outline">
+          {notification.status}
+        </Badge>
+      ),
+      notification,
+    });
+  });
+
+  return events.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+export default function StudentProfile() {
+  const { id } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [returningRecord, setReturningRecord] = useState<BorrowRecordWithDetails | null>(null);
+
+  const { data: student, isLoading } = useQuery<Student>({
+    queryKey: [`/api/students/${id}`],
+  });
+
+  const { data: borrowRecords } = useQuery<BorrowRecordWithDetails[]>({
+    queryKey: [`/api/students/${id}/borrow-records`],
+    enabled: can("borrowing:read"),
+  });
+
+  const { data: lostReports } = useQuery<LostReport[]>({
+    queryKey: [`/api/students/${id}/lost-reports`],
+    enabled: can("lost-reports:read"),
+  });
+
+  const { data: liabilities } = useQuery<AccessoryLiabilityWithDetails[]>({
+    queryKey: [`/api/students/${id}/accessory-liabilities`],
+  });
+
+  const { data: notifications } = useQuery<Notification[]>({
+    queryKey: [`/api/students/${id}/notifications`],
+  });
+
+  const handleRetry = async (notification: Notification) => {
+    try {
+      await apiRequest("POST", `/api/notifications/${notification.id}/retry`);
+      toast({
+        title: "Notification queued",
+        description: `The email to ${notification.recipient} will be sent again shortly.`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${id}/notifications`] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to retry the notification.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner className="py-20" size="lg" />;
+  }
+
+  if (!student) {
+    return (
+      <div className="text-center py-20">
+        <h3 className="text-lg font-medium">Student not found</h3>
+        <Link href="/students" className="text-sm text-primary underline">Back to students</Link>
+      </div>
+    );
+  }
+
+  const activeRecord = borrowRecords?.find(record => !record.isReturned);
+  const timeline = buildTimeline(borrowRecords || [], lostReports || [], liabilities || [], notifications || []);
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <Link href="/students" className="inline-flex items-center text-sm text-slate-500 hover:text-slate-900 mb-2">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Students
+        </Link>
+        <div className="md:flex md:items-center md:justify-between">
+          <div className="flex-1 min-w-0">
+            <h1 className="text-2xl font-semibold text-slate-900">
+              {student.fullName}
+              {!student.isEnrolled && (
+                <Badge className="ml-3 align-middle bg-amber-100 text-amber-800" variant="outline">Not enrolled</Badge>
+              )}
+            </h1>
+            <p className="text-sm text-slate-500">
+              {student.studentId} · {student.programCode || student.programName} · Year {student.yearLevel}
+            </p>
+          </div>
+          <div className="mt-4 flex space-x-2 md:mt-0 md:ml-4">
+            {activeRecord ? (
+              can("returns:write") && (
+                <Button onClick={() => setReturningRecord(activeRecord)} className="flex items-center">
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Return Tablet
+                </Button>
+              )
+            ) : (
+              can("borrowing:write") && (
+                <Button onClick={() => navigate(`/borrowing?studentId=${student.id}`)} className="flex items-center">
+                  <HandHelping className="mr-2 h-4 w-4" />
+                  New Borrowing
+                </Button>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <div className="py-4 space-y-6">
+          {activeRecord && (
+            <div className="rounded-md border border-orange-200 bg-orange-50 px-4 py-3 text-sm text-orange-900">
+              Has {activeRecord.tablet.brand} {activeRecord.tablet.model} (SN: {activeRecord.tablet.serialNumber}) since{" "}
+              {formatDate(activeRecord.dateBorrowed)}
+              {activeRecord.expectedReturnDate && `, due ${formatDate(activeRecord.expectedReturnDate)}`}.
+            </div>
+          )}
+
+          <StudentInfo student={student} detailed />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center">
+                <History className="mr-2 h-5 w-5" />
+                Timeline
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {timeline.length > 0 ? (
+                <ol className="relative border-l border-slate-200 ml-3 space-y-6">
+                  {timeline.map(event => (
+                    <li key={event.key} className="ml-6">
+                      <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-white ring-4 ring-white">
+                        <event.icon className={`h-5 w-5 ${event.iconClassName}`} />
+                      </span>
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium text-gray-900">{event.title}</p>
+                        {event.badge}
+                      </div>
+                      <time className="text-xs text-gray-500">{format(event.date, "MMM d, yyyy 'at' h:mm a")}</time>
+                      {event.description && <p className="mt-1 text-sm text-gray-600">{event.description}</p>}
+                      {event.notification?.status === "failed" && (
+                        <>
+                          {event.notification.lastError && (
+                            <p className="mt-1 text-xs text-red-600">
+                              Attempt {event.notification.attempts}: {event.notification.lastError}
+                            </p>
+                          )}
+                          {can("students:write") && (
+                            <Button variant="outline" size="sm" className="mt-2" onClick={() => handleRetry(event.notification!)}>
+                              Retry
+                            </Button>
+                          )}
+                        </>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-center py-6 text-gray-500">Nothing has happened for this student yet.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {can("ledger:read") && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Accountabilities</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <ClearancePanel studentId={student.id} />
+                <StudentLedger studentId={student.id} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      {/* Return Dialog */}
+      <Dialog open={returningRecord !== null} onOpenChange={(open) => !open && setReturningRecord(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Return Tablet</DialogTitle>
+          </DialogHeader>
+          {returningRecord && (
+            <ReturnForm
+              borrowRecord={returningRecord}
+              onSuccess={() => {
+                setReturningRecord(null);
+                queryClient.invalidateQueries({ queryKey: [`/api/students/${id}/borrow-records`] });
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
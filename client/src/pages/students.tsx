@@ -2,15 +2,17 @@ import { useState } from "react";
 import { StudentList } from "@/components/students/student-list";
 import { StudentForm } from "@/components/students/student-form";
 import { ImportStudents } from "@/components/students/import-students";
+import { EnrollmentSync } from "@/components/students/enrollment-sync";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Plus, Upload } from "lucide-react";
+import { Plus, RefreshCw, Upload } from "lucide-react";
 
 export default function Students() {
   const [activeTab, setActiveTab] = useState("list");
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isSyncDialogOpen, setIsSyncDialogOpen] = useState(false);
   
   return (
     <div className="py-6">
@@ -20,6 +22,14 @@ export default function Students() {
             <h1 className="text-2xl font-semibold text-slate-900">Students</h1>
           </div>
           <div className="mt-4 flex md:mt-0 md:ml-4 space-x-3">
+            <Button
+              variant="outline"
+              onClick={() => setIsSyncDialogOpen(true)}
+              className="flex items-center"
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Sync Enrollment
+            </Button>
             <Button 
               variant="outline" 
               onClick={() => setIsImportDialogOpen(true)}
@@ -68,6 +78,18 @@ export default function Students() {
           />
         </DialogContent>
       </Dialog>
+
+      {/* Enrollment Sync Dialog */}
+      <Dialog open={isSyncDialogOpen} onOpenChange={setIsSyncDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Sync Enrollment</DialogTitle>
+          </DialogHeader>
+          <EnrollmentSync
+            onSuccess={() => setIsSyncDialogOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -4,7 +4,13 @@ import { TabletForm } from "@/components/tablets/tablet-form";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Download, Plus, Upload } from "lucide-react";
+import { Download, Plus, Printer, Upload } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
@@ -45,7 +51,8 @@ export default function Tablets() {
       });
       
       if (!response.ok) {
-        throw new Error("Failed to import tablets");
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Failed to import tablets");
       }
       
       const result = await response.json();
@@ -56,6 +63,8 @@ export default function Tablets() {
       });
       
       queryClient.invalidateQueries({ queryKey: ['/api/tablets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/device-models'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/procurement-batches'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
       
       setIsImportDialogOpen(false);
@@ -64,7 +73,7 @@ export default function Tablets() {
       console.error("Error importing tablets:", error);
       toast({
         title: "Import failed",
-        description: "There was an error importing the tablets",
+        description: error instanceof Error ? error.message : "There was an error importing the tablets",
         variant: "destructive",
       });
     } finally {
@@ -109,6 +118,22 @@ export default function Tablets() {
             <h1 className="text-2xl font-semibold text-slate-900">Tablets</h1>
           </div>
           <div className="mt-4 flex md:mt-0 md:ml-4 space-x-3">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="flex items-center">
+                  <Printer className="mr-2 h-4 w-4" />
+                  Print Labels
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => window.open("/api/tablets/labels?format=qr", "_blank")}>
+                  QR code labels
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => window.open("/api/tablets/labels?format=code128", "_blank")}>
+                  Barcode (Code 128) labels
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button 
               variant="outline" 
               onClick={() => setIsImportDialogOpen(true)}
@@ -161,6 +186,9 @@ export default function Tablets() {
                   <p className="mt-1 text-sm text-slate-500">
                     Upload a CSV file with tablet information
                   </p>
+                  <p className="mt-1 text-xs text-slate-500">
+                    Optional poNumber, supplier, purchaseDate, unitCost and warrantyExpiry columns link each tablet to its purchase order
+                  </p>
                 </div>
                 
                 <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-slate-300 border-dashed rounded-md">
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AcademicTermWithStats, TermRolloverCandidate, TermRolloverPreview, TermRolloverResult } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { AcademicTerms, formatTermDate } from "@/components/borrowing/academic-terms";
+import { CalendarRange, Repeat } from "lucide-react";
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+export default function Terms() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [fromTermId, setFromTermId] = useState("");
+  const [toTermId, setToTermId] = useState("");
+  const [extendIds, setExtendIds] = useState<number[]>([]);
+  const [recallIds, setRecallIds] = useState<number[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const { data: terms } = useQuery<AcademicTermWithStats[]>({
+    queryKey: ["/api/terms"],
+  });
+
+  const { data: preview, isLoading: isLoadingPreview } = useQuery<TermRolloverPreview>({
+    queryKey: ["/api/terms", fromTermId, "rollover", toTermId],
+    queryFn: async () => {
+      const response = await fetch(`/api/terms/${fromTermId}/rollover?toTermId=${toTermId}`);
+      if (!response.ok) throw new Error("Failed to preview the rollover");
+      const result: TermRolloverPreview = await response.json();
+      // Start from the suggested action for every borrowing
+      setExtendIds(result.candidates.filter(c => c.action === "extend").map(c => c.borrowRecord.id));
+      setRecallIds(result.candidates.filter(c => c.action === "recall").map(c => c.borrowRecord.id));
+      return result;
+    },
+    enabled: fromTermId !== "" && toTermId !== "",
+  });
+
+  const sortedTerms = [...(terms || [])].sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const handleFromTermChange = (value: string) => {
+    setFromTermId(value);
+    // Suggest the term that follows
+    const index = sortedTerms.findIndex(term => term.id.toString() === value);
+    setToTermId(sortedTerms[index + 1]?.id.toString() ?? "");
+  };
+
+  const toggle = (setter: typeof setExtendIds, id: number, checked: boolean) =>
+    setter(current => checked ? [...current, id] : current.filter(selected => selected !== id));
+
+  // A borrowing is either extended or recalled, never both
+  const setAction = (id: number, action: "extend" | "recall", checked: boolean) => {
+    toggle(action === "extend" ? setExtendIds : setRecallIds, id, checked);
+    if (checked) toggle(action === "extend" ? setRecallIds : setExtendIds, id, false);
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const response = await apiRequest("POST", `/api/terms/${fromTermId}/rollover`, {
+        toTermId: Number(toTermId),
+        extendIds,
+        recallIds,
+      });
+      const result: TermRolloverResult = await response.json();
+      toast({
+        title: "Rollover applied",
+        description: `${result.extended.length} borrowing(s) extended, ${result.recalled.length} recalled.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/terms"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/borrow-records"] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to apply the rollover."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const renderCandidate = (candidate: TermRolloverCandidate) => {
+    const { borrowRecord } = candidate;
+    return (
+      <div key={borrowRecord.id} className="flex items-center px-3 py-2 text-sm">
+        <div className="flex-1 min-w-0">
+          <div className="font-medium">
+            {borrowRecord.student.fullName}
+            <span className="ml-2 font-normal text-slate-500">{borrowRecord.tablet.serialNumber}</span>
+          </div>
+          <div className="text-xs text-slate-500">{candidate.reason}</div>
+        </div>
+        <label className="flex items-center ml-4 cursor-pointer">
+          <Checkbox
+            checked={extendIds.includes(borrowRecord.id)}
+            onCheckedChange={(checked) => setAction(borrowRecord.id, "extend", checked === true)}
+            className="mr-2"
+          />
+          Extend
+        </label>
+        <label className="flex items-center ml-4 cursor-pointer">
+          <Checkbox
+            checked={recallIds.includes(borrowRecord.id)}
+            onCheckedChange={(checked) => setAction(borrowRecord.id, "recall", checked === true)}
+            className="mr-2"
+          />
+          Recall
+        </label>
+      </div>
+    );
+  };
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <h1 className="text-2xl font-semibold text-slate-900">Academic Terms</h1>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <div className="py-4 space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center">
+                <CalendarRange className="mr-2 h-5 w-5" />
+                Terms
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AcademicTerms />
+            </CardContent>
+          </Card>
+
+          {can("terms:manage") && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center">
+                  <Repeat className="mr-2 h-5 w-5" />
+                  Term Rollover
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-slate-500">
+                  At the end of a term, extend borrowings of students enrolled in the next term to its
+                  end date, and recall the rest. Recalled students are emailed a return notice.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div>
+                    <Label className="mb-1 block">Closing Term</Label>
+                    <Select value={fromTermId} onValueChange={handleFromTermChange}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a term" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sortedTerms.map(term => (
+                          <SelectItem key={term.id} value={term.id.toString()}>
+                            {term.name} ({term.activeBorrowings} active)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="mb-1 block">Next Term</Label>
+                    <Select value={toTermId} onValueChange={setToTermId} disabled={!fromTermId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a term" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sortedTerms.filter(term => term.id.toString() !== fromTermId).map(term => (
+                          <SelectItem key={term.id} value={term.id.toString()}>
+                            {term.name} (ends {formatTermDate(term.endDate)})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {isLoadingPreview ? (
+                  <LoadingSpinner className="py-6" />
+                ) : preview && (
+                  preview.candidates.length > 0 ? (
+                    <>
+                      <div className="max-h-[45vh] overflow-y-auto rounded-md border border-slate-200 divide-y divide-slate-100">
+                        {preview.candidates.map(renderCandidate)}
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-slate-500">
+                          {extendIds.length} to extend to {formatTermDate(preview.toTerm.endDate)}, {recallIds.length} to recall
+                        </span>
+                        <Button
+                          onClick={handleApply}
+                          disabled={isApplying || extendIds.length + recallIds.length === 0}
+                        >
+                          {isApplying ? "Applying..." : "Apply Rollover"}
+                        </Button>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-center py-6 text-gray-500">
+                      No active borrowings left in {preview.fromTerm.name}.
+                    </p>
+                  )
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
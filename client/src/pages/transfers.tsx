@@ -0,0 +1,416 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ColumnDef } from "@tanstack/react-table";
+import { format } from "date-fns";
+import {
+  CampusWithStats,
+  TabletTransferWithDetails,
+  TabletWithBorrowInfo,
+  TransferStatus,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { DataTable } from "@/components/ui/data-table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { Campuses } from "@/components/transfers/campuses";
+import { ArrowRight, ArrowLeftRight, Building2, Send } from "lucide-react";
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof Error) {
+    const body = err.message.replace(/^\d+:\s*/, "");
+    try {
+      return JSON.parse(body).message || fallback;
+    } catch {
+      return body || fallback;
+    }
+  }
+  return fallback;
+};
+
+const statusColors: Record<TransferStatus, string> = {
+  "In Transit": "bg-blue-100 text-blue-800",
+  "Received": "bg-green-100 text-green-800",
+  "Cancelled": "bg-slate-100 text-slate-600",
+};
+
+export default function Transfers() {
+  const { toast } = useToast();
+  const { user, can } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<"In Transit" | "all">("In Transit");
+  const [showDispatch, setShowDispatch] = useState(false);
+  const [showCampuses, setShowCampuses] = useState(false);
+  const [toCampusId, setToCampusId] = useState("");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [search, setSearch] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: campuses } = useQuery<CampusWithStats[]>({
+    queryKey: ["/api/campuses"],
+  });
+
+  const { data: transfers, isLoading } = useQuery<TabletTransferWithDetails[]>({
+    queryKey: ["/api/transfers", statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      const response = await fetch(`/api/transfers?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch transfers");
+      return response.json();
+    },
+  });
+
+  // In-transit transfers are needed to leave moving tablets out of the dispatch list
+  const { data: inTransit } = useQuery<TabletTransferWithDetails[]>({
+    queryKey: ["/api/transfers", "In Transit"],
+    queryFn: async () => {
+      const response = await fetch("/api/transfers?status=In%20Transit");
+      if (!response.ok) throw new Error("Failed to fetch transfers");
+      return response.json();
+    },
+    enabled: showDispatch,
+  });
+
+  const { data: tablets } = useQuery<TabletWithBorrowInfo[]>({
+    queryKey: ["/api/tablets"],
+    enabled: showDispatch,
+  });
+
+  const staffCampusId = user?.campusId ?? null;
+  const destinations = (campuses || []).filter(campus => campus.isActive && campus.id !== staffCampusId);
+  const movingIds = new Set((inTransit || []).map(transfer => transfer.tabletId));
+  const query = search.trim().toLowerCase();
+  const dispatchable = (tablets || []).filter(tablet =>
+    tablet.status !== "Lost" &&
+    !tablet.currentBorrower &&
+    !movingIds.has(tablet.id) &&
+    tablet.campusId?.toString() !== toCampusId &&
+    (!query || `${tablet.serialNumber} ${tablet.brand} ${tablet.model}`.toLowerCase().includes(query))
+  );
+
+  const campusName = (id: number | null) =>
+    campuses?.find(campus => campus.id === id)?.name ?? "Unassigned";
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/transfers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/campuses"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tablets"] });
+  };
+
+  const resetDispatch = () => {
+    setShowDispatch(false);
+    setToCampusId("");
+    setSelectedIds([]);
+    setSearch("");
+    setNotes("");
+  };
+
+  const toggleTablet = (id: number, checked: boolean) => {
+    setSelectedIds(current => checked ? [...current, id] : current.filter(selected => selected !== id));
+  };
+
+  const handleDispatch = async () => {
+    setIsSubmitting(true);
+    try {
+      await apiRequest("POST", "/api/transfers", {
+        tabletIds: selectedIds,
+        toCampusId: Number(toCampusId),
+        notes: notes || null,
+      });
+      toast({
+        title: "Tablets dispatched",
+        description: `${selectedIds.length} tablet(s) are on their way to ${campusName(Number(toCampusId))}.`,
+      });
+      resetDispatch();
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to dispatch the tablets."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAction = async (transfer: TabletTransferWithDetails, action: "receive" | "cancel") => {
+    try {
+      await apiRequest("POST", `/api/transfers/${transfer.id}/${action}`);
+      toast({
+        title: action === "receive" ? "Transfer received" : "Transfer cancelled",
+        description: action === "receive"
+          ? `${transfer.tablet.serialNumber} is now kept at ${transfer.toCampus.name}.`
+          : `${transfer.tablet.serialNumber} stays at ${transfer.fromCampus?.name ?? "its current campus"}.`,
+      });
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, `Failed to ${action} the transfer.`),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const columns: ColumnDef<TabletTransferWithDetails>[] = [
+    {
+      id: "tablet",
+      accessorFn: row => row.tablet.serialNumber,
+      header: "Tablet",
+      cell: ({ row }) => (
+        <div>
+          <div className="font-medium">{row.original.tablet.serialNumber}</div>
+          <div className="text-sm text-gray-500">{row.original.tablet.brand} {row.original.tablet.model}</div>
+        </div>
+      ),
+    },
+    {
+      id: "route",
+      header: "Route",
+      cell: ({ row }) => (
+        <div className="flex items-center text-sm">
+          {row.original.fromCampus?.name ?? "Unassigned"}
+          <ArrowRight className="mx-2 h-4 w-4 text-slate-400" />
+          <span className="font-medium">{row.original.toCampus.name}</span>
+        </div>
+      ),
+    },
+    {
+      accessorKey: "status",
+      header: "Status",
+      cell: ({ row }) => (
+        <Badge className={statusColors[row.original.status]} variant="outline">
+          {row.original.status}
+        </Badge>
+      ),
+    },
+    {
+      accessorKey: "dispatchedAt",
+      header: "Dispatched",
+      cell: ({ row }) => (
+        <div className="text-sm">
+          {format(new Date(row.original.dispatchedAt), "MMM d, yyyy h:mm a")}
+          {row.original.dispatchedByName && (
+            <div className="text-xs text-gray-500">by {row.original.dispatchedByName}</div>
+          )}
+          {row.original.notes && <div className="text-xs text-gray-500">{row.original.notes}</div>}
+        </div>
+      ),
+    },
+    {
+      accessorKey: "receivedAt",
+      header: "Closed",
+      cell: ({ row }) => row.original.receivedAt ? (
+        <div className="text-sm">
+          {format(new Date(row.original.receivedAt), "MMM d, yyyy h:mm a")}
+          {row.original.receivedByName && (
+            <div className="text-xs text-gray-500">by {row.original.receivedByName}</div>
+          )}
+        </div>
+      ) : <span className="text-slate-400">—</span>,
+    },
+    {
+      id: "actions",
+      cell: ({ row }) => {
+        const transfer = row.original;
+        if (transfer.status !== "In Transit" || !can("transfers:write")) return null;
+        // Campus staff receive at their own campus and can only call back what they sent
+        const canReceive = !staffCampusId || transfer.toCampusId === staffCampusId;
+        const canCancel = !staffCampusId || transfer.fromCampusId === staffCampusId;
+        return (
+          <div className="flex justify-end space-x-2">
+            {canCancel && (
+              <Button size="sm" variant="outline" onClick={() => handleAction(transfer, "cancel")}>
+                Cancel
+              </Button>
+            )}
+            {canReceive && (
+              <Button size="sm" onClick={() => handleAction(transfer, "receive")}>
+                Receive
+              </Button>
+            )}
+          </div>
+        );
+      },
+    },
+  ];
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-900">Transfers</h1>
+          {staffCampusId && (
+            <p className="text-sm text-slate-500">Showing transfers in and out of {campusName(staffCampusId)}</p>
+          )}
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setShowCampuses(true)}>
+            <Building2 className="mr-2 h-4 w-4" />
+            Campuses
+          </Button>
+          {can("transfers:write") && (
+            <Button onClick={() => setShowDispatch(true)} disabled={destinations.length === 0}>
+              <Send className="mr-2 h-4 w-4" />
+              Dispatch Tablets
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <div className="py-4 space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {(campuses || []).filter(campus => campus.isActive).map(campus => (
+              <Card key={campus.id} className={campus.id === staffCampusId ? "border-slate-900" : undefined}>
+                <CardContent className="pt-6">
+                  <div className="text-sm font-medium text-slate-500">{campus.code}</div>
+                  <div className="text-lg font-semibold text-slate-900">{campus.name}</div>
+                  <div className="mt-2 text-sm text-slate-600">
+                    {campus.availableCount} available of {campus.tabletCount}
+                    {campus.incomingCount > 0 && ` · ${campus.incomingCount} incoming`}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader className="pb-0 flex flex-row items-center justify-between">
+              <CardTitle className="text-lg flex items-center">
+                <ArrowLeftRight className="mr-2 h-5 w-5" />
+                Campus Transfers
+              </CardTitle>
+              <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as "In Transit" | "all")}>
+                <TabsList>
+                  <TabsTrigger value="In Transit">In Transit</TabsTrigger>
+                  <TabsTrigger value="all">All</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="py-10 flex justify-center">
+                  <LoadingSpinner size="lg" />
+                </div>
+              ) : (
+                <DataTable
+                  columns={columns}
+                  data={transfers || []}
+                  searchPlaceholder="Search by serial number..."
+                  searchColumn="tablet"
+                />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Dispatch dialog */}
+      <Dialog open={showDispatch} onOpenChange={(open) => open ? setShowDispatch(true) : resetDispatch()}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Dispatch Tablets</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label className="mb-1 block">Destination Campus</Label>
+              <Select value={toCampusId} onValueChange={(value) => {
+                setToCampusId(value);
+                setSelectedIds([]);
+              }}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a campus" />
+                </SelectTrigger>
+                <SelectContent>
+                  {destinations.map(campus => (
+                    <SelectItem key={campus.id} value={campus.id.toString()}>{campus.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {toCampusId && (
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <Label>Tablets ({selectedIds.length} selected)</Label>
+                </div>
+                <Input
+                  placeholder="Filter by serial number or model..."
+                  value={search}
+                  onChange={e => setSearch(e.target.value)}
+                  className="mb-2"
+                />
+                <div className="max-h-[35vh] overflow-y-auto rounded-md border border-slate-200 divide-y divide-slate-100">
+                  {dispatchable.length > 0 ? dispatchable.map(tablet => (
+                    <label key={tablet.id} className="flex items-center px-3 py-2 text-sm cursor-pointer hover:bg-slate-50">
+                      <Checkbox
+                        checked={selectedIds.includes(tablet.id)}
+                        onCheckedChange={(checked) => toggleTablet(tablet.id, checked === true)}
+                        className="mr-3"
+                      />
+                      <span className="font-medium mr-2">{tablet.serialNumber}</span>
+                      <span className="text-slate-500">{tablet.brand} {tablet.model}</span>
+                      <span className="ml-auto text-xs text-slate-500">
+                        {campusName(tablet.campusId)} · {tablet.status}
+                      </span>
+                    </label>
+                  )) : (
+                    <p className="py-6 text-center text-sm text-gray-500">
+                      No tablets in storage can be sent there.
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+            <div>
+              <Label className="mb-1 block">Notes</Label>
+              <Textarea rows={2} placeholder="Courier, box number, reason..." value={notes} onChange={e => setNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={resetDispatch}>
+              Cancel
+            </Button>
+            <Button onClick={handleDispatch} disabled={!toCampusId || selectedIds.length === 0 || isSubmitting}>
+              Dispatch {selectedIds.length > 0 ? selectedIds.length : ""}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Campus management dialog */}
+      <Dialog open={showCampuses} onOpenChange={setShowCampuses}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Campuses</DialogTitle>
+          </DialogHeader>
+          <Campuses />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { jsPDF } from "jspdf";
+import { format } from "date-fns";
+import * as fs from "fs";
+import * as path from "path";
+import { storage } from "./storage";
+import type { AuditContext, BorrowRecord, BorrowRecordWithDetails } from "@shared/schema";
+
+// Archived agreements live alongside the other uploads
+const agreementsDir = path.join(process.cwd(), "uploads", "agreements");
+
+// Legal size: 8.5 x 14 in = 612 x 1008 pt
+const pageWidth = 612;
+const pageHeight = 1008;
+const margin = 54;
+const contentWidth = pageWidth - margin * 2;
+const lineHeight = 14;
+
+// A fill-in value, or a blank line to complete by hand
+const blank = (value: string | number | null | undefined, width = 20) =>
+  value === null || value === undefined || value === "" ? "_".repeat(width) : String(value);
+
+// Draw one agreement starting at the top of the document's current page
+function drawUsufructAgreement(doc: jsPDF, record: BorrowRecordWithDetails) {
+  const { student, tablet } = record;
+  const signedOn = new Date(record.dateBorrowed);
+  const isMinor = typeof student.age === "number" && student.age < 18;
+
+  let yPos = margin;
+
+  // Start a new page when the next block would run off the bottom
+  const ensureSpace = (height: number) => {
+    if (yPos + height > pageHeight - margin) {
+      doc.addPage([pageWidth, pageHeight], "p");
+      yPos = margin;
+    }
+  };
+
+  // Helper for text centering
+  const centerText = (text: string, size: number, style: "normal" | "bold" = "normal") => {
+    doc.setFont("times", style);
+    doc.setFontSize(size);
+    ensureSpace(size + 4);
+    doc.text(text, pageWidth / 2, yPos, { align: "center" });
+    yPos += size + 4;
+  };
+
+  // Helper for a wrapped, justified paragraph
+  const paragraph = (text: string, options: { indent?: number; style?: "normal" | "bold"; size?: number; gap?: number } = {}) => {
+    const { indent = 0, style = "normal", size = 11, gap = 8 } = options;
+    doc.setFont("times", style);
+    doc.setFontSize(size);
+    const width = contentWidth - indent;
+    const lines: string[] = doc.splitTextToSize(text, width);
+    ensureSpace(lines.length * lineHeight);
+    doc.text(lines, margin + indent, yPos, { maxWidth: width, align: "justify" });
+    yPos += lines.length * lineHeight + gap;
+  };
+
+  // Title
+  centerText("USUFRUCT AGREEMENT", 18, "bold");
+  centerText("(Mobile Device for Students)", 12);
+  yPos += 10;
+
+  paragraph("KNOW ALL MEN BY THESE PRESENTS:", { style: "bold" });
+  paragraph('This USUFRUCT AGREEMENT, hereinafter referred to as the "Agreement", made and executed by and between:');
+  paragraph(
+    'UNIVERSITY OF SCIENCE AND TECHNOLOGY OF SOUTHERN PHILIPPINES (USTP), a State University created under and by virtue ' +
+    'of RA No. 10919, otherwise known as the "University of Science and Technology of Southern Philippines Act", with office ' +
+    'address at CM Recto Ave., Lapasan, Cagayan de Oro City, hereinafter referred to as "USTP",'
+  );
+  centerText("-AND-", 11, "bold");
+  yPos += 4;
+
+  // The usufructuary, represented by a guardian when the student is a minor
+  let party = `${student.fullName.toUpperCase()}, ${blank(student.age, 4)} years old, resident of ${blank(student.residenceAddress, 40)}`;
+  if (isMinor) {
+    party += `, herein represented by ${blank(student.guardianFullName, 30)}, resident of ${blank(student.guardianAddress, 40)}`;
+  }
+  paragraph(`${party}, hereinafter referred to as the "USUFRUCTUARY", WITNESSETH:`);
+
+  paragraph("WHEREAS, USTP owns a mobile device, which is more particularly described as follows, to wit:");
+  paragraph(
+    `Brand: ${tablet.brand}     Color: ${blank(tablet.color, 12)}     Year Model: ${tablet.model}     Serial No.: ${tablet.serialNumber}`,
+    { indent: 32, style: "bold" }
+  );
+  paragraph(
+    `WHEREAS, the USUFRUCTUARY is a duly and currently enrolled student of USTP with the course ${student.programName} ` +
+    `under the College of ${blank(student.collegeName, 30)} who needs a mobile device through which he/ she could attend ` +
+    "virtual instruction and comply other related requirements;"
+  );
+  paragraph(
+    "NOW THEREFORE, for and in consideration of the desire of USTP to help augment the expenses of the USUFRUCTUARY in " +
+    "his/her education, the former, by this Agreement, do hereby allow the latter to POSSESS and USE the above-described " +
+    "mobile device, subject to the following covenants, that:"
+  );
+
+  const covenants = [
+    "1. The USUFRUCTUARY shall:",
+    "2. While the usufruct and/ or the beneficial use of the foregoing mobile device is transferred to the USUFRUCTUARY, the ownership and title thereof remains with and continues to be in the name of USTP;",
+    "3. If the property becomes unserviceable before the expiration of the Term, the USUFRUCTUARY shall immediately inform USTP and return the same to the latter;",
+    "4. Upon the expiration of the Term, the USUFRUCTUARY shall return the property to USTP and the condition of which shall be assessed by the latter before acceptance; and",
+    "5. This Agreement shall take effect upon its execution and shall remain in full force and effect unless terminated anytime by mutual agreement of the parties, provided, that the USUFRUCTUARY shall be made to finish the semester before any termination of this agreement could take effect.",
+    "6. The Agreement is subject to regular evaluation as to the academic performance of the Usufructuary. At the end of a semester, this Agreement may be terminated on ground that the Usufructuary obtained a grade of P/INC, unless meritorious reason/s shall be established which shall be determined by the concerned department chairperson, and approved by the Vice Chancellor for Academic Affairs of USTP- Claveria.",
+  ];
+  const obligations = [
+    "a. have exclusive right and privilege to use the aforementioned devise for his/ her education purposes only, and shall not lend the same property to others;",
+    "b. be responsible for all the necessary expenses for the preservation of the said property, including the payment for the maintenance and repair for its continued use;",
+    "c. bear the burden of preserving the property, ensuring its usefulness in the future and paying any expenses for the minor improvement of the property;",
+    "d. be liable for the depreciated value of the mobile device for its loss or undue deterioration caused by fraud or negligence;",
+    "e. not be responsible for the deterioration of the property because of normal use;",
+  ];
+
+  paragraph(covenants[0], { indent: 24, gap: 2 });
+  obligations.forEach(obligation => paragraph(obligation, { indent: 48, gap: 2 }));
+  covenants.slice(1).forEach(covenant => paragraph(covenant, { indent: 24, gap: 2 }));
+  yPos += 8;
+
+  paragraph(
+    `IN WITNESS WHEREOF, the parties hereunder affix their signature this ${format(signedOn, "do")} day of ` +
+    `${format(signedOn, "MMMM yyyy")} at USTP, Cagayan de Oro City, Philippines.`
+  );
+
+  // Signature blocks
+  ensureSpace(110);
+  yPos += 16;
+  const leftX = margin + contentWidth / 4;
+  const rightX = margin + (contentWidth * 3) / 4;
+  doc.setFontSize(11);
+  doc.setFont("times", "bold");
+  doc.text("USTP", leftX, yPos, { align: "center" });
+  doc.text("USUFRUCTUARY", rightX, yPos, { align: "center" });
+  doc.setFont("times", "normal");
+  doc.text("Represented by:", leftX, yPos + lineHeight, { align: "center" });
+  doc.text("Represented by, or signing by himself/herself:", rightX, yPos + lineHeight, { align: "center" });
+  yPos += lineHeight * 4;
+  doc.line(leftX - 100, yPos - 10, leftX + 100, yPos - 10);
+  doc.line(rightX - 100, yPos - 10, rightX + 100, yPos - 10);
+  doc.setFont("times", "bold");
+  doc.text("DR. AMBROSIO B. CULTURA II", leftX, yPos, { align: "center" });
+  doc.text(student.fullName.toUpperCase(), rightX, yPos, { align: "center" });
+  doc.setFont("times", "normal");
+  doc.text("President, University System", leftX, yPos + lineHeight, { align: "center" });
+  doc.text("Student/ Mother/ Guardian", rightX, yPos + lineHeight, { align: "center" });
+  yPos += lineHeight * 3;
+
+  paragraph(`Signed in the presence of: ${"_".repeat(28)} and ${"_".repeat(28)}`);
+
+  // Notarial acknowledgement
+  yPos += 8;
+  paragraph("ACKNOWLEDGEMENT", { style: "bold", size: 10, gap: 2 });
+  paragraph("Republic of the Philippines", { size: 10, gap: 0 });
+  paragraph("City of Cagayan de Oro    ) S.S.", { size: 10, gap: 0 });
+  paragraph("x-----------------------------------x", { size: 10, gap: 4 });
+  paragraph(
+    `BEFORE ME, a Notary Public for the City of Cagayan de Oro, this ${"_".repeat(12)} ${format(signedOn, "yyyy")} personally appeared the following:`,
+    { size: 10, gap: 4 }
+  );
+
+  // Identification table
+  const columns = ["NAME", "Identification Number", "Date Issued", "Place Issued"];
+  const columnWidth = contentWidth / columns.length;
+  ensureSpace(40);
+  doc.setFontSize(10);
+  doc.setFont("times", "bold");
+  columns.forEach((column, index) => {
+    doc.text(column, margin + columnWidth * index + columnWidth / 2, yPos, { align: "center" });
+  });
+  yPos += 4;
+  columns.forEach((_, index) => {
+    doc.rect(margin + columnWidth * index, yPos, columnWidth, 18);
+  });
+  doc.setFont("times", "normal");
+  doc.text("AMBROSIO B. CULTURA II", margin + 4, yPos + 12);
+  yPos += 18 + lineHeight;
+
+  paragraph(
+    "All parties known to me to be the same persons who executed the foregoing Agreement, and acknowledge to me that the same is their free and voluntary act and deed.",
+    { size: 10, gap: 2 }
+  );
+  paragraph("WITNESS MY HAND AND SEAL.", { size: 10, gap: 2 });
+  ["Doc No.", "Page No.", "Book No."].forEach(label => paragraph(`${label} ${"_".repeat(12)}`, { size: 10, gap: 0 }));
+  paragraph(`Series of ${format(signedOn, "yyyy")}`, { size: 10 });
+
+  // Footer identifying the archived record
+  doc.setFontSize(8);
+  doc.setFont("times", "italic");
+  doc.text(
+    `Borrow record #${record.id} · Student No. ${student.studentId} · Generated ${format(new Date(), "yyyy-MM-dd HH:mm")}`,
+    margin,
+    pageHeight - margin / 2
+  );
+}
+
+const newAgreementDocument = () => new jsPDF({ orientation: "p", unit: "pt", format: [pageWidth, pageHeight] });
+
+/**
+ * Render the legal-size usufruct agreement for a borrow record
+ */
+export function renderUsufructAgreement(record: BorrowRecordWithDetails): Buffer {
+  const doc = newAgreementDocument();
+  drawUsufructAgreement(doc, record);
+  return Buffer.from(doc.output("arraybuffer"));
+}
+
+/**
+ * Render several agreements as one print job, each starting on a new sheet
+ */
+export function renderUsufructAgreements(records: BorrowRecordWithDetails[]): Buffer {
+  const doc = newAgreementDocument();
+  records.forEach((record, index) => {
+    if (index > 0) doc.addPage([pageWidth, pageHeight], "p");
+    drawUsufructAgreement(doc, record);
+  });
+  return Buffer.from(doc.output("arraybuffer"));
+}
+
+// The stored agreement of a borrow record, or null when it was never archived or the file is gone
+export function archivedUsufructAgreement(record: Pick<BorrowRecord, "usufructAgreementPath">): string | null {
+  if (record.usufructAgreementPath && fs.existsSync(path.resolve(process.cwd(), record.usufructAgreementPath))) {
+    return record.usufructAgreementPath;
+  }
+  return null;
+}
+
+/**
+ * Return the archived agreement for a borrow record, rendering and storing it the first time.
+ * Once stored, the same file is served on every reprint.
+ */
+export async function ensureUsufructAgreement(
+  borrowRecordId: number,
+  context?: AuditContext
+): Promise<string | undefined> {
+  const record = await storage.getBorrowRecord(borrowRecordId);
+  if (!record) return undefined;
+
+  const archived = archivedUsufructAgreement(record);
+  if (archived) return archived;
+
+  if (!fs.existsSync(agreementsDir)) {
+    fs.mkdirSync(agreementsDir, { recursive: true });
+  }
+
+  const fileName = `usufruct-agreement-${record.id}-${record.student.studentId.replace(/[^\w-]/g, "_")}-${Date.now()}.pdf`;
+  const filePath = path.join(agreementsDir, fileName);
+  fs.writeFileSync(filePath, renderUsufructAgreement(record));
+
+  // Stored relative to the working directory so the archive can move with the app
+  const relativePath = path.relative(process.cwd(), filePath);
+  await storage.updateBorrowRecordAgreementPath(record.id, relativePath, context);
+  return relativePath;
+}
+
+/**
+ * Archive the agreement for a new borrowing. Failures are logged so they never undo the borrowing itself;
+ * staff can generate the agreement from the borrowing afterwards.
+ */
+export async function archiveUsufructAgreement(borrowRecordId: number, context?: AuditContext): Promise<void> {
+  try {
+    await ensureUsufructAgreement(borrowRecordId, context);
+  } catch (error) {
+    console.error("Error archiving usufruct agreement:", error);
+  }
+}
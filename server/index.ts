@@ -3,6 +3,8 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import dotenv from "dotenv";
 import { storage } from "./storage";
+import { startOverdueMonitor } from "./overdue";
+import { startNotificationWorker } from "./notifications";
 
 dotenv.config();
 
@@ -48,6 +50,12 @@ app.use((req, res, next) => {
 
   const server = await registerRoutes(app);
 
+  // Classify active borrowings against their expected return dates in the background
+  startOverdueMonitor();
+
+  // Deliver queued emails and retry failed ones
+  startNotificationWorker();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -0,0 +1,115 @@
+import { jsPDF } from "jspdf";
+import bwipjs from "bwip-js/node";
+import type { Tablet } from "@shared/schema";
+
+export const labelFormats = ["qr", "code128"] as const;
+export type LabelFormat = typeof labelFormats[number];
+
+// A4 sheet of 3 x 7 labels (63.5 x 38.1 mm, the common L7160 layout)
+const pageWidth = 595;
+const pageHeight = 842;
+const columns = 3;
+const rows = 7;
+const labelWidth = 180;
+const labelHeight = 108;
+const columnPitch = 187;
+const marginLeft = (pageWidth - (columnPitch * (columns - 1) + labelWidth)) / 2;
+const marginTop = (pageHeight - labelHeight * rows) / 2;
+const padding = 8;
+
+// Draw a Code 128 symbol as vector bars so it stays sharp at any print scale
+const drawCode128 = (doc: jsPDF, text: string, x: number, y: number, maxWidth: number, height: number) => {
+  const [symbol] = bwipjs.raw("code128", text) as Array<{ sbs: number[] }>;
+  const modules = symbol.sbs.reduce((total, width) => total + width, 0);
+  const moduleWidth = Math.min(1.5, maxWidth / modules);
+  let xPos = x + (maxWidth - modules * moduleWidth) / 2;
+
+  // Widths alternate bar, space, bar, ...
+  symbol.sbs.forEach((width, index) => {
+    if (index % 2 === 0) {
+      doc.rect(xPos, y, width * moduleWidth, height, "F");
+    }
+    xPos += width * moduleWidth;
+  });
+};
+
+// Draw a QR symbol as filled modules
+const drawQrCode = (doc: jsPDF, text: string, x: number, y: number, size: number) => {
+  const [symbol] = bwipjs.raw("qrcode", text, "eclevel=M") as Array<{ pixs: number[]; pixx: number; pixy: number }>;
+  const moduleSize = size / Math.max(symbol.pixx, symbol.pixy);
+
+  // Each horizontal run of dark modules is one rectangle, which keeps large sheets small
+  for (let row = 0; row < symbol.pixy; row++) {
+    let column = 0;
+    while (column < symbol.pixx) {
+      if (!symbol.pixs[row * symbol.pixx + column]) {
+        column++;
+        continue;
+      }
+      const start = column;
+      while (column < symbol.pixx && symbol.pixs[row * symbol.pixx + column]) column++;
+      doc.rect(x + start * moduleSize, y + row * moduleSize, (column - start) * moduleSize, moduleSize, "F");
+    }
+  }
+};
+
+/**
+ * Render a sheet of asset labels, one per tablet. Each barcode encodes the serial number,
+ * which is what the scan lookup matches on.
+ */
+export function renderTabletLabels(tablets: Tablet[], labelFormat: LabelFormat): Buffer {
+  const doc = new jsPDF({ orientation: "p", unit: "pt", format: "a4" });
+  doc.setFillColor(0, 0, 0);
+
+  tablets.forEach((tablet, index) => {
+    const slot = index % (columns * rows);
+    if (index > 0 && slot === 0) {
+      doc.addPage("a4", "p");
+    }
+
+    const x = marginLeft + (slot % columns) * columnPitch;
+    const y = marginTop + Math.floor(slot / columns) * labelHeight;
+    const device = `${tablet.brand} ${tablet.model}`;
+
+    if (labelFormat === "qr") {
+      const codeSize = labelHeight - padding * 4;
+      drawQrCode(doc, tablet.serialNumber, x + padding, y + padding * 2, codeSize);
+
+      // Details beside the code
+      const textX = x + padding * 2 + codeSize;
+      const textWidth = labelWidth - codeSize - padding * 3;
+      let yPos = y + padding * 2 + 7;
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(7);
+      doc.text("USTP PROPERTY", textX, yPos);
+      yPos += 14;
+      doc.setFontSize(9);
+      const deviceLines: string[] = doc.splitTextToSize(device, textWidth);
+      doc.text(deviceLines.slice(0, 2), textX, yPos);
+      yPos += Math.min(deviceLines.length, 2) * 11 + 4;
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(7);
+      doc.text(`S/N: ${tablet.serialNumber}`, textX, yPos, { maxWidth: textWidth });
+      if (tablet.imei) {
+        doc.text(`IMEI: ${tablet.imei}`, textX, yPos + 10, { maxWidth: textWidth });
+      }
+    } else {
+      const centerX = x + labelWidth / 2;
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(7);
+      doc.text("USTP PROPERTY", centerX, y + padding + 7, { align: "center" });
+      doc.setFontSize(9);
+      doc.text(device, centerX, y + padding + 19, { align: "center", maxWidth: labelWidth - padding * 2 });
+      drawCode128(doc, tablet.serialNumber, x + padding, y + padding + 26, labelWidth - padding * 2, 44);
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(8);
+      doc.text(tablet.serialNumber, centerX, y + padding + 80, { align: "center" });
+      if (tablet.imei) {
+        doc.setFontSize(7);
+        doc.text(`IMEI: ${tablet.imei}`, centerX, y + padding + 90, { align: "center" });
+      }
+    }
+  });
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
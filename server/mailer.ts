@@ -0,0 +1,78 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import { log } from "./vite";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  reference: string; // Names the message in logs, which never show the recipient or content
+};
+
+// Anything that can deliver an email; swap implementations with setMailTransport
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Delivers through an SMTP server, e.g. the campus relay or a local stand-in such as Mailpit
+export class SmtpTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(
+    options: { host: string; port: number; secure: boolean; user?: string; password?: string },
+    private from: string
+  ) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+// Logs that an email would have gone out without delivering it; only used with MAIL_TRANSPORT=log
+export class LogTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    log(`${message.reference} not delivered (MAIL_TRANSPORT=log)`, "mailer");
+  }
+}
+
+// Null once the settings have been read and no transport is configured
+let transport: MailTransport | null | undefined;
+
+// Build the transport from SMTP_* settings, read on first use so dotenv has loaded
+function createMailTransport(): MailTransport | null {
+  if (process.env.MAIL_TRANSPORT === "log") {
+    log("MAIL_TRANSPORT=log; emails are marked sent without being delivered", "mailer");
+    return new LogTransport();
+  }
+
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+
+  return new SmtpTransport(
+    {
+      host,
+      port: parseInt(process.env.SMTP_PORT || "587"),
+      secure: process.env.SMTP_SECURE === "true",
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    },
+    process.env.MAIL_FROM || "Tablet Lending Office <no-reply@localhost>"
+  );
+}
+
+export function getMailTransport(): MailTransport | null {
+  if (transport === undefined) {
+    transport = createMailTransport();
+  }
+  return transport;
+}
+
+export function setMailTransport(mailTransport: MailTransport) {
+  transport = mailTransport;
+}
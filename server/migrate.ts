@@ -12,6 +12,26 @@ async function runMigration() {
     const migrations = [
       '001_add_accessories_to_tablet_history.sql',
       '002_add_usufruct_agreement_path_to_borrow_records.sql',
+      '003_create_admin_table.sql',
+      '004_add_roles_to_admin.sql',
+      '005_create_audit_log.sql',
+      '006_create_reservations.sql',
+      '007_add_escalation_level_to_borrow_records.sql',
+      '008_create_notifications.sql',
+      '009_add_agreement_status_to_borrow_records.sql',
+      '010_create_accessory_liabilities.sql',
+      '011_create_repair_tickets.sql',
+      '012_create_student_ledger.sql',
+      '013_create_clearance_certificates.sql',
+      '014_create_inventory_sessions.sql',
+      '015_create_device_models.sql',
+      '016_create_procurement_batches.sql',
+      '017_create_campuses_and_transfers.sql',
+      '018_create_academic_terms.sql',
+      '019_create_search_indexes.sql',
+      '020_add_student_enrollment_status.sql',
+      '021_create_student_import_mappings.sql',
+      '022_add_campus_to_inventory_sessions.sql',
     ];
     for (const migrationFile of migrations) {
       const migrationPath = path.join(__dirname, 'migrations', migrationFile);
@@ -0,0 +1,23 @@
+-- Turn the single admin row into staff user accounts with roles
+DO $$ BEGIN
+    CREATE TYPE staff_role AS ENUM ('Clerk', 'Supervisor', 'Auditor', 'Super Admin');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Accounts created before roles existed keep full access. Migrations re-run on every
+-- `npm run migrate`, so the backfill happens only in the run that adds the role column.
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'admin' AND column_name = 'role'
+    ) THEN
+        ALTER TABLE admin ADD COLUMN role staff_role NOT NULL DEFAULT 'Clerk';
+        UPDATE admin SET role = 'Super Admin';
+    END IF;
+END $$;
+
+ALTER TABLE admin
+ADD COLUMN IF NOT EXISTS full_name TEXT,
+ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE,
+ADD COLUMN IF NOT EXISTS last_login_at TIMESTAMP;
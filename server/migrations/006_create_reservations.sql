@@ -0,0 +1,28 @@
+-- Waitlist of students queued for a tablet before a borrowing is finalized
+DO $$ BEGIN
+    CREATE TYPE reservation_status AS ENUM ('Waiting', 'Assigned', 'Fulfilled', 'Cancelled', 'Expired');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS reservations (
+    id SERIAL PRIMARY KEY,
+    student_id INTEGER NOT NULL REFERENCES students(id),
+    requested_brand TEXT,
+    requested_model TEXT,
+    priority INTEGER NOT NULL DEFAULT 0,
+    status reservation_status NOT NULL DEFAULT 'Waiting',
+    tablet_id INTEGER REFERENCES tablets(id),
+    assigned_at TIMESTAMP,
+    expires_at TIMESTAMP,
+    borrow_record_id INTEGER REFERENCES borrow_records(id),
+    notes TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS reservations_status_idx ON reservations (status, priority DESC, created_at);
+CREATE INDEX IF NOT EXISTS reservations_student_idx ON reservations (student_id);
+
+-- A tablet can be held for at most one student at a time
+CREATE UNIQUE INDEX IF NOT EXISTS reservations_assigned_tablet_idx ON reservations (tablet_id) WHERE status = 'Assigned';
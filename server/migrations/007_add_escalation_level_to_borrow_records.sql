@@ -0,0 +1,8 @@
+-- Track the last overdue escalation recorded for each borrowing
+DO $$ BEGIN
+    CREATE TYPE overdue_level AS ENUM ('due_soon', 'overdue', 'seriously_overdue');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE borrow_records ADD COLUMN IF NOT EXISTS escalation_level overdue_level;
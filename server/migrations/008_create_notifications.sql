@@ -0,0 +1,39 @@
+-- Email outbox and per-student notification log
+DO $$ BEGIN
+    CREATE TYPE notification_template AS ENUM (
+        'borrow_confirmation',
+        'due_reminder',
+        'overdue_notice',
+        'return_receipt',
+        'lost_report_acknowledgement'
+    );
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE notification_status AS ENUM ('pending', 'sent', 'failed');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS notifications (
+    id SERIAL PRIMARY KEY,
+    student_id INTEGER NOT NULL REFERENCES students(id),
+    borrow_record_id INTEGER REFERENCES borrow_records(id),
+    lost_report_id INTEGER REFERENCES lost_reports(id),
+    template notification_template NOT NULL,
+    recipient TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    status notification_status NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_outbox_idx ON notifications (status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS notifications_student_idx ON notifications (student_id);
@@ -0,0 +1,17 @@
+-- Track the signed usufruct agreement for each borrowing
+DO $$ BEGIN
+    CREATE TYPE agreement_status AS ENUM ('missing', 'generated', 'signed', 'verified');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE borrow_records ADD COLUMN IF NOT EXISTS agreement_status agreement_status NOT NULL DEFAULT 'missing';
+ALTER TABLE borrow_records ADD COLUMN IF NOT EXISTS signed_agreement_path TEXT;
+ALTER TABLE borrow_records ADD COLUMN IF NOT EXISTS agreement_signed_at TIMESTAMP;
+ALTER TABLE borrow_records ADD COLUMN IF NOT EXISTS agreement_verified_at TIMESTAMP;
+ALTER TABLE borrow_records ADD COLUMN IF NOT EXISTS agreement_verified_by INTEGER REFERENCES admin(id);
+
+-- Agreements archived before statuses were tracked have at least been generated
+UPDATE borrow_records
+SET agreement_status = 'generated'
+WHERE agreement_status = 'missing' AND usufruct_agreement_path IS NOT NULL;
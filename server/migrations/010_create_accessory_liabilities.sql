@@ -0,0 +1,30 @@
+-- Record which accessories came back with each return and track the ones still owed
+DO $$ BEGIN
+    CREATE TYPE accessory AS ENUM ('charger', 'cable', 'box');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE accessory_liability_status AS ENUM ('outstanding', 'returned');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE borrow_records ADD COLUMN IF NOT EXISTS returned_accessories JSON;
+
+CREATE TABLE IF NOT EXISTS accessory_liabilities (
+    id SERIAL PRIMARY KEY,
+    student_id INTEGER NOT NULL REFERENCES students(id),
+    borrow_record_id INTEGER NOT NULL REFERENCES borrow_records(id),
+    tablet_id INTEGER NOT NULL REFERENCES tablets(id),
+    accessory accessory NOT NULL,
+    status accessory_liability_status NOT NULL DEFAULT 'outstanding',
+    returned_at TIMESTAMP,
+    notes TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS accessory_liabilities_student_idx ON accessory_liabilities (student_id);
+CREATE INDEX IF NOT EXISTS accessory_liabilities_borrow_record_idx ON accessory_liabilities (borrow_record_id);
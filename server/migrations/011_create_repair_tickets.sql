@@ -0,0 +1,27 @@
+-- Repair tickets for tablets returned damaged or found faulty
+DO $$ BEGIN
+    CREATE TYPE repair_ticket_status AS ENUM ('Open', 'In Progress', 'Closed');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS repair_tickets (
+    id SERIAL PRIMARY KEY,
+    tablet_id INTEGER NOT NULL REFERENCES tablets(id),
+    borrow_record_id INTEGER REFERENCES borrow_records(id),
+    status repair_ticket_status NOT NULL DEFAULT 'Open',
+    reported_condition tablet_condition NOT NULL,
+    resolved_condition tablet_condition,
+    description TEXT,
+    technician_notes TEXT,
+    parts JSON DEFAULT '[]',
+    cost NUMERIC(10, 2),
+    opened_by INTEGER REFERENCES admin(id),
+    closed_by INTEGER REFERENCES admin(id),
+    closed_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS repair_tickets_tablet_idx ON repair_tickets (tablet_id);
+CREATE INDEX IF NOT EXISTS repair_tickets_status_idx ON repair_tickets (status);
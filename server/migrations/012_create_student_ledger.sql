@@ -0,0 +1,39 @@
+-- Replacement values per tablet model and the per-student ledger of charges, payments and waivers
+DO $$ BEGIN
+    CREATE TYPE ledger_entry_type AS ENUM ('charge', 'payment', 'waiver');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS replacement_values (
+    id SERIAL PRIMARY KEY,
+    brand TEXT NOT NULL,
+    model TEXT NOT NULL,
+    tablet_value NUMERIC(10, 2) NOT NULL,
+    charger_value NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    cable_value NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    box_value NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS replacement_values_model_idx ON replacement_values (lower(brand), lower(model));
+
+CREATE TABLE IF NOT EXISTS student_ledger_entries (
+    id SERIAL PRIMARY KEY,
+    student_id INTEGER NOT NULL REFERENCES students(id),
+    entry_type ledger_entry_type NOT NULL,
+    amount NUMERIC(10, 2) NOT NULL,
+    description TEXT NOT NULL,
+    tablet_id INTEGER REFERENCES tablets(id),
+    borrow_record_id INTEGER REFERENCES borrow_records(id),
+    lost_report_id INTEGER REFERENCES lost_reports(id),
+    accessory_liability_id INTEGER REFERENCES accessory_liabilities(id),
+    repair_ticket_id INTEGER REFERENCES repair_tickets(id),
+    reference_no TEXT,
+    recorded_by INTEGER REFERENCES admin(id),
+    entry_date TIMESTAMP NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS student_ledger_entries_student_idx ON student_ledger_entries (student_id);
@@ -0,0 +1,11 @@
+-- Clearance certificates issued to students with no outstanding tablet obligations
+CREATE TABLE IF NOT EXISTS clearance_certificates (
+    id SERIAL PRIMARY KEY,
+    student_id INTEGER NOT NULL REFERENCES students(id),
+    verification_code TEXT NOT NULL UNIQUE,
+    academic_year TEXT,
+    issued_by INTEGER REFERENCES admin(id),
+    issued_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS clearance_certificates_student_idx ON clearance_certificates (student_id);
@@ -0,0 +1,31 @@
+-- Stock-take sessions and the tablets counted in each
+DO $$ BEGIN
+    CREATE TYPE inventory_session_status AS ENUM ('Open', 'Completed');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS inventory_sessions (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    notes TEXT,
+    status inventory_session_status NOT NULL DEFAULT 'Open',
+    reconciliation JSON,
+    started_by INTEGER REFERENCES admin(id),
+    completed_by INTEGER REFERENCES admin(id),
+    completed_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS inventory_counts (
+    id SERIAL PRIMARY KEY,
+    session_id INTEGER NOT NULL REFERENCES inventory_sessions(id),
+    tablet_id INTEGER NOT NULL REFERENCES tablets(id),
+    condition_found tablet_condition,
+    notes TEXT,
+    counted_by INTEGER REFERENCES admin(id),
+    counted_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS inventory_counts_session_tablet_idx ON inventory_counts (session_id, tablet_id);
+CREATE INDEX IF NOT EXISTS inventory_sessions_status_idx ON inventory_sessions (status);
@@ -0,0 +1,55 @@
+-- Device model catalog referenced from tablets, seeded by clustering the existing free-text brand/model values
+CREATE TABLE IF NOT EXISTS device_models (
+    id SERIAL PRIMARY KEY,
+    brand TEXT NOT NULL,
+    model TEXT NOT NULL,
+    storage TEXT,
+    release_year INTEGER,
+    replacement_cost NUMERIC(10, 2),
+    warranty_months INTEGER,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Case, spacing and punctuation are ignored, so "iPad Pro (2021)" and "Ipad pro 2021" are one model.
+-- Storage is not part of the key: one entry covers every storage size of a model.
+CREATE UNIQUE INDEX IF NOT EXISTS device_models_key_idx
+    ON device_models (lower(regexp_replace(brand || model, '[^a-zA-Z0-9]', '', 'g')));
+
+ALTER TABLE tablets ADD COLUMN IF NOT EXISTS model_id INTEGER REFERENCES device_models(id);
+CREATE INDEX IF NOT EXISTS tablets_model_idx ON tablets (model_id);
+
+-- One catalog entry per cluster, named after its most common spelling
+WITH spellings AS (
+    SELECT lower(regexp_replace(brand || model, '[^a-zA-Z0-9]', '', 'g')) AS match_key,
+           trim(brand) AS brand,
+           trim(model) AS model,
+           count(*) AS units,
+           min(created_at) AS first_seen
+    FROM tablets
+    WHERE model_id IS NULL
+    GROUP BY 1, 2, 3
+)
+INSERT INTO device_models (brand, model)
+SELECT DISTINCT ON (match_key) brand, model
+FROM spellings
+ORDER BY match_key, units DESC, first_seen ASC
+ON CONFLICT DO NOTHING;
+
+-- Carry over the tablet replacement value already configured for the model
+UPDATE device_models dm
+SET replacement_cost = rv.tablet_value
+FROM replacement_values rv
+WHERE dm.replacement_cost IS NULL
+  AND lower(regexp_replace(rv.brand || rv.model, '[^a-zA-Z0-9]', '', 'g'))
+    = lower(regexp_replace(dm.brand || dm.model, '[^a-zA-Z0-9]', '', 'g'));
+
+-- Point each tablet at its model and adopt the canonical spelling
+UPDATE tablets t
+SET model_id = dm.id,
+    brand = dm.brand,
+    model = dm.model
+FROM device_models dm
+WHERE t.model_id IS NULL
+  AND lower(regexp_replace(t.brand || t.model, '[^a-zA-Z0-9]', '', 'g'))
+    = lower(regexp_replace(dm.brand || dm.model, '[^a-zA-Z0-9]', '', 'g'));
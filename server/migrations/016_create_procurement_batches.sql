@@ -0,0 +1,16 @@
+-- Purchase orders tablets were bought under, with cost and warranty details
+CREATE TABLE IF NOT EXISTS procurement_batches (
+    id SERIAL PRIMARY KEY,
+    po_number TEXT NOT NULL UNIQUE,
+    supplier TEXT NOT NULL,
+    purchase_date DATE NOT NULL,
+    unit_cost NUMERIC(10, 2),
+    warranty_expiry DATE,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE tablets ADD COLUMN IF NOT EXISTS batch_id INTEGER REFERENCES procurement_batches(id);
+CREATE INDEX IF NOT EXISTS tablets_batch_idx ON tablets (batch_id);
+CREATE INDEX IF NOT EXISTS procurement_batches_warranty_idx ON procurement_batches (warranty_expiry);
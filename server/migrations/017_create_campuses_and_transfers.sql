@@ -0,0 +1,54 @@
+-- Campus offices with their own tablet stock, and transfers of tablets between them
+CREATE TABLE IF NOT EXISTS campuses (
+    id SERIAL PRIMARY KEY,
+    code TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    address TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Seed one campus per distinct students.campus value, coded from its letters and digits
+INSERT INTO campuses (code, name)
+SELECT DISTINCT ON (upper(regexp_replace(trim(campus), '[^a-zA-Z0-9]', '', 'g')))
+    upper(regexp_replace(trim(campus), '[^a-zA-Z0-9]', '', 'g')),
+    trim(campus)
+FROM students
+WHERE campus IS NOT NULL AND regexp_replace(campus, '[^a-zA-Z0-9]', '', 'g') <> ''
+ORDER BY upper(regexp_replace(trim(campus), '[^a-zA-Z0-9]', '', 'g')), trim(campus)
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE tablets ADD COLUMN IF NOT EXISTS campus_id INTEGER REFERENCES campuses(id);
+CREATE INDEX IF NOT EXISTS tablets_campus_idx ON tablets (campus_id);
+
+ALTER TABLE admin ADD COLUMN IF NOT EXISTS campus_id INTEGER REFERENCES campuses(id);
+
+-- With a single campus there is nowhere else the existing stock can be
+UPDATE tablets
+SET campus_id = (SELECT id FROM campuses)
+WHERE campus_id IS NULL AND (SELECT count(*) FROM campuses) = 1;
+
+DO $$ BEGIN
+    CREATE TYPE transfer_status AS ENUM ('In Transit', 'Received', 'Cancelled');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS tablet_transfers (
+    id SERIAL PRIMARY KEY,
+    tablet_id INTEGER NOT NULL REFERENCES tablets(id),
+    from_campus_id INTEGER REFERENCES campuses(id),
+    to_campus_id INTEGER NOT NULL REFERENCES campuses(id),
+    status transfer_status NOT NULL DEFAULT 'In Transit',
+    notes TEXT,
+    dispatched_by INTEGER REFERENCES admin(id),
+    dispatched_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    received_by INTEGER REFERENCES admin(id),
+    received_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS tablet_transfers_tablet_idx ON tablet_transfers (tablet_id);
+CREATE INDEX IF NOT EXISTS tablet_transfers_status_idx ON tablet_transfers (status);
+-- A tablet can only be on its way to one campus at a time
+CREATE UNIQUE INDEX IF NOT EXISTS tablet_transfers_in_transit_idx ON tablet_transfers (tablet_id) WHERE status = 'In Transit';
@@ -0,0 +1,16 @@
+-- Academic terms that borrowings are due back at the end of
+CREATE TABLE IF NOT EXISTS academic_terms (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE borrow_records ADD COLUMN IF NOT EXISTS term_id INTEGER REFERENCES academic_terms(id);
+ALTER TABLE borrow_records ADD COLUMN IF NOT EXISTS recall_requested_at TIMESTAMP;
+CREATE INDEX IF NOT EXISTS borrow_records_term_idx ON borrow_records (term_id);
+
+-- Borrowers who are not enrolled in the next term get a recall email
+ALTER TYPE notification_template ADD VALUE IF NOT EXISTS 'recall_notice';
@@ -0,0 +1,15 @@
+-- Indexes behind the global search: trigram indexes answer partial matches (ILIKE '%...%')
+-- and misspellings, the full-text index answers names typed in any word order
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS students_full_name_trgm_idx ON students USING GIN (full_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS students_guardian_full_name_trgm_idx ON students USING GIN (guardian_full_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS students_student_id_trgm_idx ON students USING GIN (student_id gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS students_email_trgm_idx ON students USING GIN (email gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS students_names_fts_idx ON students USING GIN (
+    to_tsvector('simple', coalesce(full_name, '') || ' ' || coalesce(guardian_full_name, ''))
+);
+
+CREATE INDEX IF NOT EXISTS tablets_serial_number_trgm_idx ON tablets USING GIN (serial_number gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS tablets_imei_trgm_idx ON tablets USING GIN (imei gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS tablets_model_trgm_idx ON tablets USING GIN (model gin_trgm_ops);
@@ -0,0 +1,3 @@
+-- Whether the student is in the latest registrar enrollment file; set by an enrollment sync
+ALTER TABLE students ADD COLUMN IF NOT EXISTS is_enrolled BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE students ADD COLUMN IF NOT EXISTS enrollment_synced_at TIMESTAMP;
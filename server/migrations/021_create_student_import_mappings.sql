@@ -0,0 +1,8 @@
+-- Named CSV column mappings for student imports
+CREATE TABLE IF NOT EXISTS student_import_mappings (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    mapping JSON NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
@@ -0,0 +1,2 @@
+-- The campus a stock-take counts; sessions from before campuses counted every tablet
+ALTER TABLE inventory_sessions ADD COLUMN IF NOT EXISTS campus_id INTEGER REFERENCES campuses(id);
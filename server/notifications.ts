@@ -0,0 +1,220 @@
+import { format, parseISO } from "date-fns";
+import { storage } from "./storage";
+import { getMailTransport } from "./mailer";
+import { log } from "./vite";
+import type {
+  BorrowRecord,
+  InsertNotification,
+  LostReport,
+  NotificationTemplate,
+  OverdueLevel,
+  Student,
+  Tablet,
+} from "@shared/schema";
+import { daysPastDue } from "@shared/overdue";
+
+type TemplateData = {
+  student: Student;
+  tablet: Tablet;
+  borrowRecord?: BorrowRecord;
+  lostReport?: LostReport;
+};
+
+type RenderedMessage = { subject: string; body: string };
+
+const officeName = "Tablet Lending Office";
+
+const formatDate = (date: Date | string) =>
+  format(typeof date === "string" ? parseISO(date) : date, "MMMM d, yyyy");
+
+const describeTablet = (tablet: Tablet) =>
+  `${tablet.brand} ${tablet.model} (Serial No. ${tablet.serialNumber})`;
+
+const signOff = `\n\nThank you,\n${officeName}`;
+
+// Message text for each notification template
+const templates: Record<NotificationTemplate, (data: TemplateData) => RenderedMessage> = {
+  borrow_confirmation: ({ student, tablet, borrowRecord }) => ({
+    subject: "Tablet borrowing confirmation",
+    body:
+      `Dear ${student.fullName},\n\n` +
+      `This confirms that you borrowed the ${describeTablet(tablet)} on ${formatDate(borrowRecord!.dateBorrowed)}.` +
+      (borrowRecord!.expectedReturnDate
+        ? ` Please return it on or before ${formatDate(borrowRecord!.expectedReturnDate)}.`
+        : "") +
+      `\n\nPlease keep the tablet and its accessories in good condition.` +
+      signOff,
+  }),
+  due_reminder: ({ student, tablet, borrowRecord }) => ({
+    subject: "Reminder: your borrowed tablet is due soon",
+    body:
+      `Dear ${student.fullName},\n\n` +
+      `The ${describeTablet(tablet)} you borrowed is due back on ${formatDate(borrowRecord!.expectedReturnDate!)}. ` +
+      `Please return it to the ${officeName} on or before that date.` +
+      signOff,
+  }),
+  overdue_notice: ({ student, tablet, borrowRecord }) => {
+    const days = daysPastDue(borrowRecord!.expectedReturnDate!);
+    return {
+      subject: "Overdue notice: please return your borrowed tablet",
+      body:
+        `Dear ${student.fullName},\n\n` +
+        `The ${describeTablet(tablet)} you borrowed was due back on ${formatDate(borrowRecord!.expectedReturnDate!)} ` +
+        `and is now ${days} day${days === 1 ? "" : "s"} overdue. ` +
+        `Please return it to the ${officeName} as soon as possible.` +
+        signOff,
+    };
+  },
+  return_receipt: ({ student, tablet, borrowRecord }) => ({
+    subject: "Tablet return receipt",
+    body:
+      `Dear ${student.fullName},\n\n` +
+      `We received the ${describeTablet(tablet)} on ${formatDate(borrowRecord!.returnDate!)}.` +
+      (borrowRecord!.returnCondition ? ` It was returned in ${borrowRecord!.returnCondition} condition.` : "") +
+      signOff,
+  }),
+  lost_report_acknowledgement: ({ student, tablet, lostReport }) => ({
+    subject: "Lost tablet report received",
+    body:
+      `Dear ${student.fullName},\n\n` +
+      `We received your report that the ${describeTablet(tablet)} was lost, dated ${formatDate(lostReport!.dateReported)}. ` +
+      `The ${officeName} will contact you about the next steps.` +
+      signOff,
+  }),
+  recall_notice: ({ student, tablet, borrowRecord }) => ({
+    subject: "Recall notice: please return your borrowed tablet",
+    body:
+      `Dear ${student.fullName},\n\n` +
+      `Our records show you are not enrolled for the coming term, so the ${describeTablet(tablet)} you borrowed must be returned` +
+      (borrowRecord!.expectedReturnDate ? ` on or before ${formatDate(borrowRecord!.expectedReturnDate)}.` : ".") +
+      ` If you have enrolled, please bring proof of enrollment to the ${officeName} to keep the tablet.` +
+      signOff,
+  }),
+};
+
+// The student's own address plus the guardian's, without duplicates
+function recipientsFor(student: Student): string[] {
+  const addresses = [student.email, student.guardianEmail]
+    .map(address => address?.trim())
+    .filter((address): address is string => !!address);
+  return Array.from(new Set(addresses.map(address => address.toLowerCase())));
+}
+
+// Render a template and add one outbox entry per recipient
+async function queueNotification(template: NotificationTemplate, data: TemplateData): Promise<void> {
+  const recipients = recipientsFor(data.student);
+  if (recipients.length === 0) return;
+
+  const { subject, body } = templates[template](data);
+  const entries: InsertNotification[] = recipients.map(recipient => ({
+    studentId: data.student.id,
+    borrowRecordId: data.borrowRecord?.id ?? null,
+    lostReportId: data.lostReport?.id ?? null,
+    template,
+    recipient,
+    subject,
+    body,
+  }));
+  await storage.createNotifications(entries);
+}
+
+/**
+ * Queue a borrowing-related email. Failures are logged so they never undo the borrowing itself.
+ */
+export async function notifyBorrowRecord(
+  template: Exclude<NotificationTemplate, 'lost_report_acknowledgement'>,
+  borrowRecordId: number
+): Promise<void> {
+  try {
+    const borrowRecord = await storage.getBorrowRecord(borrowRecordId);
+    if (!borrowRecord) return;
+
+    const { tablet, student, ...record } = borrowRecord;
+    await queueNotification(template, { student, tablet, borrowRecord: record });
+  } catch (error) {
+    console.error(`Error queueing ${template} notification:`, error);
+  }
+}
+
+/**
+ * Queue the acknowledgement for a lost tablet report
+ */
+export async function notifyLostReport(lostReport: LostReport): Promise<void> {
+  try {
+    const student = await storage.getStudent(lostReport.studentId);
+    const tablet = await storage.getTablet(lostReport.tabletId);
+    if (!student || !tablet) return;
+
+    await queueNotification('lost_report_acknowledgement', { student, tablet, lostReport });
+  } catch (error) {
+    console.error("Error queueing lost report notification:", error);
+  }
+}
+
+/**
+ * Queue the reminder or overdue notice matching an overdue escalation
+ */
+export async function notifyOverdueEscalation(borrowRecordId: number, level: OverdueLevel): Promise<void> {
+  await notifyBorrowRecord(level === 'due_soon' ? 'due_reminder' : 'overdue_notice', borrowRecordId);
+}
+
+// Failed sends are retried with a doubling delay until this many attempts have been made
+const maxAttempts = 5;
+const retryBaseMinutes = 2;
+
+let isProcessing = false;
+
+/**
+ * Send every outbox entry that is due, rescheduling failures
+ */
+export async function processOutbox(): Promise<void> {
+  // A slow SMTP server must not let runs pile up
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    // Without a mail server the outbox is left pending rather than reported as sent
+    const transport = getMailTransport();
+    if (!transport) return;
+
+    const due = await storage.getDueNotifications();
+    for (const notification of due) {
+      try {
+        await transport.send({
+          to: notification.recipient,
+          subject: notification.subject,
+          text: notification.body,
+          reference: `notification ${notification.id} (${notification.template})`,
+        });
+        await storage.markNotificationSent(notification.id);
+      } catch (error) {
+        const attempts = notification.attempts + 1;
+        const nextAttemptAt = attempts < maxAttempts
+          ? new Date(Date.now() + retryBaseMinutes * Math.pow(2, attempts - 1) * 60 * 1000)
+          : null;
+        const message = error instanceof Error ? error.message : String(error);
+        await storage.markNotificationFailed(notification.id, message, nextAttemptAt);
+        log(`notification ${notification.id} (${notification.template}) failed (attempt ${attempts}): ${message}`, "mailer");
+      }
+    }
+  } catch (error) {
+    console.error("Error processing notification outbox:", error);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Poll the outbox on a fixed interval; nothing is sent, and notifications stay pending, until a mail
+ * server is configured
+ */
+export function startNotificationWorker() {
+  if (!getMailTransport()) {
+    log("SMTP_HOST is not set; notifications stay pending until a mail server is configured", "mailer");
+    return;
+  }
+
+  const seconds = parseInt(process.env.NOTIFICATION_POLL_SECONDS || "") || 30;
+  processOutbox();
+  setInterval(processOutbox, seconds * 1000);
+}
@@ -0,0 +1,72 @@
+import { storage } from "./storage";
+import { notifyOverdueEscalation } from "./notifications";
+import { log } from "./vite";
+import { defaultOverdueThresholds, type OverdueThresholds } from "@shared/overdue";
+
+// Read a whole number of days (or minutes) from the environment, falling back when unset or invalid
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "");
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+let thresholds: OverdueThresholds | undefined;
+
+// Thresholds from OVERDUE_* settings, read on first use so dotenv has loaded
+export function getOverdueThresholds(): OverdueThresholds {
+  if (!thresholds) {
+    const graceDays = envNumber("OVERDUE_GRACE_DAYS", defaultOverdueThresholds.graceDays);
+    thresholds = {
+      dueSoonDays: envNumber("OVERDUE_DUE_SOON_DAYS", defaultOverdueThresholds.dueSoonDays),
+      graceDays,
+      // Seriously overdue can never come before plain overdue
+      seriousDays: Math.max(envNumber("OVERDUE_SERIOUS_DAYS", defaultOverdueThresholds.seriousDays), graceDays),
+    };
+  }
+  return thresholds;
+}
+
+/**
+ * Classify active borrowings, record any new escalations in the tablet history and notify the students
+ */
+export async function runOverdueCheck(): Promise<void> {
+  try {
+    const escalations = await storage.recordOverdueEscalations(getOverdueThresholds());
+    for (const escalation of escalations) {
+      await notifyOverdueEscalation(escalation.borrowRecordId, escalation.level);
+    }
+    if (escalations.length > 0) {
+      log(`recorded ${escalations.length} overdue escalation(s)`, "overdue");
+    }
+  } catch (error) {
+    console.error("Error running overdue check:", error);
+  }
+}
+
+/**
+ * Close reservations past their expiry date, passing any tablet they held to the next in line
+ */
+export async function runReservationExpiry(): Promise<void> {
+  try {
+    const expired = await storage.expireReservations();
+    if (expired > 0) {
+      log(`expired ${expired} reservation(s)`, "overdue");
+    }
+  } catch (error) {
+    console.error("Error expiring reservations:", error);
+  }
+}
+
+async function runScheduledChecks(): Promise<void> {
+  await runOverdueCheck();
+  await runReservationExpiry();
+}
+
+/**
+ * Run the overdue check and reservation expiry now and then on a fixed interval
+ */
+export function startOverdueMonitor() {
+  const checkIntervalMinutes = envNumber("OVERDUE_CHECK_INTERVAL_MINUTES", 60) || 60;
+  runScheduledChecks();
+  setInterval(runScheduledChecks, checkIntervalMinutes * 60 * 1000);
+  log(`overdue monitor checking every ${checkIntervalMinutes} minute(s)`, "overdue");
+}
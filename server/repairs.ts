@@ -0,0 +1,10 @@
+import { tabletConditionEnum, type TabletCondition } from "@shared/schema";
+import { defaultRepairConditionThreshold } from "@shared/repairs";
+
+// Returns in this condition or worse open a repair ticket, e.g. REPAIR_CONDITION_THRESHOLD=Fair.
+// Read on each use so dotenv has loaded.
+export function getRepairConditionThreshold(): TabletCondition {
+  const value = process.env.REPAIR_CONDITION_THRESHOLD?.trim();
+  const match = tabletConditionEnum.enumValues.find(condition => condition.toLowerCase() === value?.toLowerCase());
+  return match ?? defaultRepairConditionThreshold;
+}
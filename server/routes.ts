@@ -9,8 +9,61 @@ import {
   insertTabletSchema, 
   insertBorrowRecordSchema, 
   updateBorrowRecordForReturnSchema,
-  insertLostReportSchema
+  bulkBorrowSchema,
+  bulkReturnSchema,
+  insertLostReportSchema,
+  insertStaffUserSchema,
+  updateStaffUserSchema,
+  insertReservationSchema,
+  convertReservationSchema,
+  accessoryReturnSchema,
+  insertRepairTicketSchema,
+  updateRepairTicketSchema,
+  closeRepairTicketSchema,
+  replacementValueSchema,
+  deviceModelSchema,
+  mergeDeviceModelSchema,
+  procurementBatchSchema,
+  academicTermSchema,
+  termRolloverSchema,
+  campusSchema,
+  dispatchTransferSchema,
+  transferStatusEnum,
+  insertLedgerEntrySchema,
+  bulkClearanceSchema,
+  insertInventorySessionSchema,
+  inventoryCountSchema,
+  type StaffUser,
+  type AuditContext,
+  type AuditEntityType,
+  type OverdueLevel,
+  type TransferStatus,
+  type BorrowRecordWithDetails,
+  type BulkBorrowCsvRow,
+  type BulkReturnItemResult,
+  type InsertStudent,
+  type EnrollmentSyncReport,
+  type EnrollmentSyncInvalidRow
 } from "@shared/schema";
+import { hasPermission, rolePermissions, type Permission } from "@shared/permissions";
+import { overdueLevels } from "@shared/overdue";
+import { depreciationQuerySchema } from "@shared/depreciation";
+import { borrowRecordListQuerySchema, studentListQuerySchema, tabletListQuerySchema } from "@shared/pagination";
+import {
+  studentColumnMappingSchema,
+  studentImportMappingSchema,
+  suggestColumnMapping,
+  validateStudentRow,
+  type StudentColumnMapping,
+  type StudentImportAnalysis,
+  type StudentImportColumns,
+  type StudentImportInvalidRow
+} from "@shared/student-import";
+import { getOverdueThresholds } from "./overdue";
+import { getRepairConditionThreshold } from "./repairs";
+import { notifyBorrowRecord, notifyLostReport } from "./notifications";
+import { archiveUsufructAgreement, archivedUsufructAgreement, ensureUsufructAgreement, renderUsufructAgreements } from "./agreement";
+import { labelFormats, renderTabletLabels, type LabelFormat } from "./labels";
 import * as fs from "fs";
 import * as path from "path";
 import { parse } from "csv-parse/sync";
@@ -25,6 +78,15 @@ declare module "express-session" {
   }
 }
 
+// Attach the signed-in staff user to each authenticated request
+declare global {
+  namespace Express {
+    interface Request {
+      staffUser?: StaffUser;
+    }
+  }
+}
+
 // Setup file upload
 const uploadsDir = path.join(process.cwd(), "uploads");
 if (!fs.existsSync(uploadsDir)) {
@@ -66,6 +128,110 @@ function validateBody(schema: z.ZodSchema<any>) {
   };
 }
 
+// Sample rows sent back with a file's headers for previewing a column mapping
+const importSampleSize = 5;
+
+// Header row and records of an uploaded student CSV; the upload is removed once read
+function readStudentCsv(filePath: string): { headers: string[]; records: Record<string, string>[] } {
+  const fileContent = fs.readFileSync(filePath, "utf8");
+  fs.unlinkSync(filePath);
+  let headers: string[] = [];
+  const records = parse(fileContent, {
+    bom: true,
+    columns: (header: string[]) => (headers = header),
+    skip_empty_lines: true,
+  });
+  return { headers, records };
+}
+
+// The column mapping sent with an upload as JSON, or the suggested one for the file when none was
+// chosen; undefined when the mapping sent is not valid
+function columnMappingFor(req: Request, headers: string[]): StudentColumnMapping | undefined {
+  if (!req.body?.mapping) return suggestColumnMapping(headers);
+  try {
+    const result = studentColumnMappingSchema.safeParse(JSON.parse(req.body.mapping));
+    return result.success ? result.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Every row of a student CSV checked under the mapping, numbered as in the file (header is row 1).
+// A student number listed on more than one row is ambiguous, so none of those rows are used.
+function validateStudentRows(records: Record<string, string>[], mapping: StudentColumnMapping) {
+  const studentIdOf = (record: Record<string, string>) => mapping.studentId ? (record[mapping.studentId] ?? "").trim() : "";
+  const rowsByStudentId = new Map<string, number[]>();
+  records.forEach((record, index) => {
+    const studentId = studentIdOf(record);
+    if (studentId) rowsByStudentId.set(studentId, [...(rowsByStudentId.get(studentId) ?? []), index + 2]);
+  });
+
+  const valid: { row: number; student: InsertStudent }[] = [];
+  const invalid: StudentImportInvalidRow[] = [];
+  records.forEach((record, index) => {
+    const { student, issues } = validateStudentRow(record, mapping);
+    const studentId = studentIdOf(record);
+    const rows = rowsByStudentId.get(studentId) ?? [];
+    if (rows.length > 1) {
+      issues.push({ field: "studentId", message: `Student No. ${studentId} is listed on rows ${rows.join(", ")}` });
+    }
+
+    if (student && issues.length === 0) {
+      valid.push({ row: index + 2, student });
+    } else {
+      invalid.push({ row: index + 2, studentId, issues });
+    }
+  });
+  return { valid, invalid };
+}
+
+// Require the signed-in staff user's role to grant a permission
+function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: Function) => {
+    if (!hasPermission(req.staffUser?.role, permission)) {
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+// Identify the staff user and client behind a change for the audit trail
+function auditContext(req: Request): AuditContext {
+  return {
+    actorId: req.staffUser?.id ?? null,
+    actorUsername: req.staffUser?.username ?? null,
+    ipAddress: req.ip ?? null,
+  };
+}
+
+// Staff assigned to a campus only ever see that campus; everyone else may narrow a list with ?campusId=
+function campusScope(req: Request): number | undefined {
+  if (req.staffUser?.campusId) return req.staffUser.campusId;
+  const campusId = parseInt(req.query.campusId as string);
+  return isNaN(campusId) ? undefined : campusId;
+}
+
+// Staff assigned to a campus cannot reach tablets kept anywhere else; these answer as not found
+function isOutsideCampus(req: Request, tablet: { campusId: number | null }): boolean {
+  const campusId = req.staffUser?.campusId;
+  return !!campusId && tablet.campusId !== campusId;
+}
+
+// Borrowings, repairs, reservations and lost reports belong to the campus of their tablet
+async function isTabletOutsideCampus(req: Request, tabletId: number): Promise<boolean> {
+  if (!req.staffUser?.campusId) return false;
+  const tablet = await storage.getTablet(tabletId);
+  return !!tablet && isOutsideCampus(req, tablet);
+}
+
+// A borrow record, or undefined when it does not exist or is kept at another campus
+async function getBorrowRecordInCampus(req: Request, id: number): Promise<BorrowRecordWithDetails | undefined> {
+  const borrowRecord = await storage.getBorrowRecord(id);
+  return borrowRecord && !isOutsideCampus(req, borrowRecord.tablet) ? borrowRecord : undefined;
+}
+
+const auditEntityTypes: AuditEntityType[] = ['student', 'tablet', 'borrow_record', 'lost_report', 'reservation', 'accessory_liability', 'repair_ticket', 'ledger_entry', 'replacement_value', 'clearance_certificate', 'inventory_session', 'device_model', 'procurement_batch', 'campus', 'tablet_transfer', 'academic_term', 'student_import_mapping', 'inventory_count', 'staff_user', 'notification'];
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Add session middleware
   app.use(session({
@@ -75,22 +241,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     cookie: { httpOnly: true, secure: false }, // Set secure: true if using HTTPS
   }));
 
-  // Middleware to require admin authentication
-  function requireAdmin(req: Request, res: Response, next: Function) {
+  // Middleware to require an authenticated, active staff user
+  async function requireAuth(req: Request, res: Response, next: Function) {
     if (!req.session || !req.session.adminId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
-    next();
+    try {
+      const adminUser = await storage.getAdmin(req.session.adminId);
+      if (!adminUser || !adminUser.isActive) {
+        return req.session.destroy(() => {
+          res.status(401).json({ message: "Not authenticated" });
+        });
+      }
+      const { passwordHash, ...staffUser } = adminUser;
+      req.staffUser = staffUser;
+      next();
+    } catch (error) {
+      next(error);
+    }
   }
 
-  // Protect all API endpoints except admin login and session check
+  // Authenticate all API endpoints except admin login and certificate verification;
+  // each route then checks its own permission
   app.use((req, res, next) => {
     if (
       req.path.startsWith("/api/") &&
       !req.path.startsWith("/api/admin/login") &&
-      !req.path.startsWith("/api/admin/me")
+      !req.path.startsWith("/api/clearance/verify/")
     ) {
-      return requireAdmin(req, res, next);
+      return requireAuth(req, res, next);
     }
     next();
   });
@@ -109,22 +288,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!valid) {
       return res.status(401).json({ message: "Invalid credentials" });
     }
+    if (!adminUser.isActive) {
+      return res.status(403).json({ message: "This account has been disabled" });
+    }
     req.session.adminId = adminUser.id;
+    await storage.recordAdminLogin(adminUser.id);
     res.json({ message: "Login successful" });
   });
 
   // Admin session check endpoint
-  app.get("/api/admin/me", requireAdmin, (req, res) => {
-    res.json({ authenticated: true });
+  app.get("/api/admin/me", (req, res) => {
+    const user = req.staffUser!;
+    res.json({
+      authenticated: true,
+      user,
+      permissions: rolePermissions[user.role],
+    });
   });
 
-  // All other admin endpoints require authentication
-  app.post("/api/admin/change-password", requireAdmin, async (req, res) => {
+  app.post("/api/admin/change-password", async (req, res) => {
     const { oldPassword, newPassword } = req.body;
     if (!oldPassword || !newPassword) {
       return res.status(400).json({ message: "Old and new password are required" });
     }
-    const adminUser = await storage.getAdminByUsername("admin");
+    const adminUser = await storage.getAdmin(req.staffUser!.id);
     if (!adminUser) {
       return res.status(401).json({ message: "Admin not found" });
     }
@@ -132,19 +319,111 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!valid) {
       return res.status(401).json({ message: "Old password is incorrect" });
     }
-    await storage.updateAdminPassword(adminUser.id, newPassword);
+    await storage.updateAdminPassword(adminUser.id, newPassword, auditContext(req));
     res.json({ message: "Password changed successfully" });
   });
 
-  app.post("/api/admin/logout", requireAdmin, (req, res) => {
+  app.post("/api/admin/logout", (req, res) => {
     req.session.destroy(() => {
       res.json({ message: "Logged out" });
     });
   });
 
+  // Staff user management routes
+  app.get("/api/admin/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const users = await storage.getAdmins();
+      res.json(users);
+    } catch (error) {
+      console.error("Error fetching staff users:", error);
+      res.status(500).json({ message: "Failed to fetch staff users" });
+    }
+  });
+
+  app.post("/api/admin/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      // Validated inline rather than with validateBody, which would log the password
+      const result = insertStaffUserSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: result.error.errors,
+        });
+      }
+
+      const { username, password, fullName, role, campusId } = result.data;
+      const user = await storage.createAdmin(username, password, { role, fullName, campusId }, auditContext(req));
+      if (!user) {
+        return res.status(409).json({ message: `Username "${username}" is already taken` });
+      }
+      res.status(201).json(user);
+    } catch (error) {
+      console.error("Error creating staff user:", error);
+      res.status(500).json({ message: "Failed to create staff user" });
+    }
+  });
+
+  app.put("/api/admin/users/:id", requirePermission("users:manage"), validateBody(updateStaffUserSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      // Prevent staff from locking themselves out
+      if (id === req.staffUser!.id && (req.body.isActive === false || (req.body.role && req.body.role !== req.staffUser!.role))) {
+        return res.status(400).json({ message: "You cannot disable or change the role of your own account" });
+      }
+
+      const user = await storage.updateAdmin(id, req.body, auditContext(req));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(user);
+    } catch (error) {
+      console.error("Error updating staff user:", error);
+      res.status(500).json({ message: "Failed to update staff user" });
+    }
+  });
+
+  app.post("/api/admin/users/:id/reset-password", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      const { newPassword } = req.body;
+      if (!newPassword || newPassword.length < 8) {
+        return res.status(400).json({ message: "New password must be at least 8 characters" });
+      }
+
+      const user = await storage.getAdmin(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.updateAdminPassword(id, newPassword, auditContext(req));
+      res.json({ message: "Password reset successfully" });
+    } catch (error) {
+      console.error("Error resetting staff user password:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
   // Student routes
-  app.get("/api/students", async (req, res) => {
+  // With ?page= the list is filtered, sorted and paged on the server; without it every student is returned
+  app.get("/api/students", requirePermission("students:read"), async (req, res) => {
     try {
+      if (req.query.page !== undefined) {
+        const query = studentListQuerySchema.safeParse(req.query);
+        if (!query.success) {
+          return res.status(400).json({ message: "Invalid list query", errors: query.error.errors });
+        }
+        return res.json(await storage.getStudentsPage(query.data));
+      }
+
       const students = await storage.getStudents();
       res.json(students);
     } catch (error) {
@@ -153,7 +432,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/students/:id", async (req, res) => {
+  app.get("/api/students/:id", requirePermission("students:read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -172,9 +451,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/students", validateBody(insertStudentSchema), async (req, res) => {
+  app.post("/api/students", requirePermission("students:write"), validateBody(insertStudentSchema), async (req, res) => {
     try {
-      const student = await storage.createStudent(req.body);
+      const student = await storage.createStudent(req.body, auditContext(req));
       res.status(201).json(student);
     } catch (error) {
       console.error("Error creating student:", error);
@@ -182,14 +461,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/students/:id", async (req, res) => {
+  app.put("/api/students/:id", requirePermission("students:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid student ID" });
       }
 
-      const student = await storage.updateStudent(id, req.body);
+      const student = await storage.updateStudent(id, req.body, auditContext(req));
       if (!student) {
         return res.status(404).json({ message: "Student not found" });
       }
@@ -201,17 +480,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/students/:id", async (req, res) => {
+  app.delete("/api/students/:id", requirePermission("students:delete"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid student ID" });
       }
 
-      const success = await storage.deleteStudent(id);
+      const success = await storage.deleteStudent(id, auditContext(req));
       if (!success) {
         return res.status(400).json({ 
-          message: "Cannot delete student with active borrowing records" 
+          message: "Cannot delete a student with borrowings, reservations, lost reports, charges, clearance certificates or notifications on file" 
         });
       }
 
@@ -222,114 +501,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/students/import", upload.single("file"), async (req, res) => {
+  // The headers and first rows of a student CSV, with the mapping suggested for them
+  app.post("/api/students/import/columns", requirePermission("students:import"), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const fileContent = fs.readFileSync(req.file.path, "utf8");
-      const records = parse(fileContent, {
-        columns: true,
-        skip_empty_lines: true,
-      });
+      const { headers, records } = readStudentCsv(req.file.path);
+      if (headers.length === 0) {
+        return res.status(400).json({ message: "The file has no header row" });
+      }
 
-      // Helper function to safely parse date strings
-      const safeParseDate = (dateStr: string | null | undefined): Date | null => {
-        if (!dateStr) return null;
-        try {
-          // Check for obviously invalid date ranges first
-          if (dateStr.includes('+043990') || dateStr.includes('0000-00-00')) {
-            return null;
-          }
-          const parsed = new Date(dateStr);
-          // Check if date is valid and within reasonable range
-          if (isNaN(parsed.getTime()) || parsed.getFullYear() < 1900 || parsed.getFullYear() > 2100) {
-            return null;
-          }
-          return parsed;
-        } catch (e) {
-          console.error(`Error parsing date: ${dateStr}`, e);
-          return null;
-        }
+      const columns: StudentImportColumns = {
+        headers,
+        sampleRows: records.slice(0, importSampleSize),
+        total: records.length,
+        suggestedMapping: suggestColumnMapping(headers),
       };
+      res.json(columns);
+    } catch (error) {
+      console.error("Error reading student file columns:", error);
 
-      // Validate each record
-      const students = records.map((record: any) => ({
-        // Basic student information
-        studentId: record.studentId || record["Student No."] || "",
-        lastName: record.lastName || record["Last Name"] || "",
-        firstName: record.firstName || record["First Name"] || "",
-        middleName: record.middleName || record["Middle Name"] || null,
-        suffixName: record.suffixName || record["Suffix Name"] || null,
-        fullName: record.fullName || record["Full Name"] || `${record.firstName || record["First Name"] || ""} ${record.lastName || record["Last Name"] || ""}`,
-        
-        // Academic information
-        collegeName: record.collegeName || record["College Name"] || null,
-        programCode: record.programCode || record["Program Code"] || null,
-        programName: record.programName || record["Program Name"] || record.course || "",
-        majorName: record.majorName || record["Major Name"] || record.major || null,
-        yearLevel: parseInt(record.yearLevel || record["Year Level"] || "1") || 1,
-        
-        // Dates - with safe parsing to prevent timezone errors
-        dateRegistered: safeParseDate(record.dateRegistered || record["Registration Date"]) || new Date(),
-        dateValidated: safeParseDate(record.dateValidated || record["Validation Date"]),
-        dateAdmitted: safeParseDate(record.dateAdmitted || record["Date Admitted"]),
-        
-        // Enrollment information
-        academicYear: record.academicYear || record["Academic Year"] || null,
-        term: record.term || record["Term"] || null,
-        campus: record.campus || record["Campus"] || null,
-        studentStatus: record.studentStatus || record["Student Status"] || record.studentType || "Regular",
-        
-        // Personal information
-        dateOfBirth: safeParseDate(record.dateOfBirth || record["Date Of Birth"]),
-        age: parseInt(record.age || record["Age"] || "0") || null,
-        placeOfBirth: record.placeOfBirth || record["Place Of Birth"] || null,
-        gender: record.gender || record["Gender"] || "Undisclosed",
-        civilStatus: record.civilStatus || record["Civil Status"] || null,
-        mobileNo: record.mobileNo || record["Mobile No."] || record.phone || null,
-        email: record.email || record["Email"] || null,
-        residenceAddress: record.residenceAddress || record["Residence Address"] || null,
-        
-        // Guardian information
-        guardianLastName: record.guardianLastName || record["Guardian Last Name"] || null,
-        guardianFirstName: record.guardianFirstName || record["Guardian First Name"] || null,
-        guardianMiddleName: record.guardianMiddleName || record["Guardian Middle Name"] || null,
-        guardianFullName: record.guardianFullName || record["Guardian Full Name"] || null,
-        guardianOccupation: record.guardianOccupation || record["Guardian Occupation"] || null,
-        guardianTelNo: record.guardianTelNo || record["Guardian Tel No."] || null,
-        guardianMobileNo: record.guardianMobileNo || record["Guardian Mobile No."] || null,
-        guardianEmail: record.guardianEmail || record["Guardian Email"] || null,
-        guardianAddress: record.guardianAddress || record["Guardian Address"] || null,
-        
-        // Additional fields
-        notes: record.notes || record["Notes"] || null,
-      }));
+      if (req.file && fs.existsSync(req.file.path)) {
+        fs.unlinkSync(req.file.path);
+      }
+
+      res.status(500).json({ message: "Failed to read the file" });
+    }
+  });
+
+  // Import students from a CSV under the column mapping sent as JSON in the mapping field.
+  // Without ?confirmImport=true only the analysis is returned; once confirmed, valid rows whose
+  // student number is not on record yet are created and the rest are skipped.
+  app.post("/api/students/import", requirePermission("students:import"), upload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const { headers, records } = readStudentCsv(req.file.path);
+      const mapping = columnMappingFor(req, headers);
+      if (!mapping) {
+        return res.status(400).json({ message: "Invalid column mapping" });
+      }
+
+      const { valid, invalid } = validateStudentRows(records, mapping);
+      const students = valid.map(({ student }) => student);
 
-      // First check for duplicates without creating
       const existingStudents = await storage.checkDuplicateStudents(students);
-      
+      const existingIds = new Set(existingStudents.map(student => student.studentId));
+      const newStudents = students.filter(student => !existingIds.has(student.studentId));
+
       if (!req.query.confirmImport) {
-        // Just return the analysis
-        res.json({
-          total: students.length,
-          new: students.length - existingStudents.length,
-          duplicates: existingStudents,
-          records: students
-        });
-        return;
+        const analysis: StudentImportAnalysis = {
+          total: records.length,
+          new: newStudents.length,
+          duplicates: existingStudents.map(({ studentId, fullName }) => ({ studentId, fullName })),
+          invalid,
+        };
+        return res.json(analysis);
       }
 
-      // If confirmImport=true, proceed with import
-      const filtered = students.filter((student: any) =>
-        !existingStudents.find(e => e.studentId === student.studentId)
-      );
-      
-      const result = await storage.bulkCreateStudents(filtered);
-      
-      // Delete the temporary file
-      fs.unlinkSync(req.file.path);
+      const result = await storage.bulkCreateStudents(newStudents, auditContext(req));
 
       res.status(201).json({ 
         message: `Imported ${result.created.length} new students successfully.`,
@@ -347,7 +581,115 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/students/:id/borrow-records", async (req, res) => {
+  // Saved column mappings for student imports
+  app.get("/api/student-import-mappings", requirePermission("students:import"), async (req, res) => {
+    try {
+      const mappings = await storage.getStudentImportMappings();
+      res.json(mappings);
+    } catch (error) {
+      console.error("Error fetching import mappings:", error);
+      res.status(500).json({ message: "Failed to fetch import mappings" });
+    }
+  });
+
+  app.post("/api/student-import-mappings", requirePermission("students:import"), validateBody(studentImportMappingSchema), async (req, res) => {
+    try {
+      const mapping = await storage.createStudentImportMapping(req.body, auditContext(req));
+      res.status(201).json(mapping);
+    } catch (error) {
+      console.error("Error creating import mapping:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to save import mapping" });
+    }
+  });
+
+  app.put("/api/student-import-mappings/:id", requirePermission("students:import"), validateBody(studentImportMappingSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid mapping ID" });
+      }
+
+      const mapping = await storage.updateStudentImportMapping(id, req.body, auditContext(req));
+      if (!mapping) {
+        return res.status(404).json({ message: "Import mapping not found" });
+      }
+
+      res.json(mapping);
+    } catch (error) {
+      console.error("Error updating import mapping:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update import mapping" });
+    }
+  });
+
+  app.delete("/api/student-import-mappings/:id", requirePermission("students:import"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid mapping ID" });
+      }
+
+      const deleted = await storage.deleteStudentImportMapping(id, auditContext(req));
+      if (!deleted) {
+        return res.status(404).json({ message: "Import mapping not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting import mapping:", error);
+      res.status(500).json({ message: "Failed to delete import mapping" });
+    }
+  });
+
+  // Sync with a registrar enrollment file, read under the column mapping sent as JSON in the mapping
+  // field: add new students, update changed ones by student number and mark enrolled students
+  // missing from the file as not enrolled. Without ?confirm=true only the report of what would
+  // change is returned.
+  app.post("/api/students/sync", requirePermission("students:import"), upload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const { headers, records } = readStudentCsv(req.file.path);
+      const mapping = columnMappingFor(req, headers);
+      if (!mapping) {
+        return res.status(400).json({ message: "Invalid column mapping" });
+      }
+
+      const rows = validateStudentRows(records, mapping);
+      const valid = rows.valid.map(({ student }) => student);
+      const invalid: EnrollmentSyncInvalidRow[] = rows.invalid.map(({ row, studentId, issues }) => ({
+        row,
+        studentId,
+        message: issues.map(issue => issue.message).join("; "),
+      }));
+
+      if (valid.length === 0) {
+        return res.status(400).json({ message: "The file has no usable student rows", invalid });
+      }
+
+      const confirm = req.query.confirm === "true";
+      const report: EnrollmentSyncReport = {
+        ...await storage.syncEnrollment(valid, {
+          apply: confirm,
+          unusableStudentIds: invalid.map(row => row.studentId).filter(Boolean),
+        }, auditContext(req)),
+        total: records.length,
+        invalid,
+      };
+      res.status(confirm ? 201 : 200).json(report);
+    } catch (error) {
+      console.error("Error syncing enrollment:", error);
+
+      if (req.file && fs.existsSync(req.file.path)) {
+        fs.unlinkSync(req.file.path);
+      }
+
+      res.status(500).json({ message: "Failed to sync enrollment" });
+    }
+  });
+
+  app.get("/api/students/:id/borrow-records", requirePermission("borrowing:read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -362,115 +704,339 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Tablet routes
-  app.get("/api/tablets", async (req, res) => {
+  app.get("/api/students/:id/notifications", requirePermission("students:read"), async (req, res) => {
     try {
-      const tablets = await storage.getTablets();
-      res.json(tablets);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid student ID" });
+      }
+
+      const notifications = await storage.getNotificationsByStudent(id);
+      res.json(notifications);
     } catch (error) {
-      console.error("Error fetching tablets:", error);
-      res.status(500).json({ message: "Failed to fetch tablets" });
+      console.error("Error fetching student notifications:", error);
+      res.status(500).json({ message: "Failed to fetch student notifications" });
     }
   });
 
-  app.get("/api/tablets/available", async (req, res) => {
+  app.get("/api/students/:id/lost-reports", requirePermission("lost-reports:read"), async (req, res) => {
     try {
-      const tablets = await storage.getAvailableTablets();
-      res.json(tablets);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid student ID" });
+      }
+
+      const lostReports = await storage.getLostReportsByStudent(id);
+      res.json(lostReports);
     } catch (error) {
-      console.error("Error fetching available tablets:", error);
-      res.status(500).json({ message: "Failed to fetch available tablets" });
+      console.error("Error fetching student lost reports:", error);
+      res.status(500).json({ message: "Failed to fetch student lost reports" });
     }
   });
 
-  app.get("/api/tablets/:id", async (req, res) => {
+  app.get("/api/students/:id/accessory-liabilities", requirePermission("students:read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid tablet ID" });
-      }
-
-      const tablet = await storage.getTablet(id);
-      if (!tablet) {
-        return res.status(404).json({ message: "Tablet not found" });
+        return res.status(400).json({ message: "Invalid student ID" });
       }
 
-      res.json(tablet);
+      const liabilities = await storage.getAccessoryLiabilitiesByStudent(id);
+      res.json(liabilities);
     } catch (error) {
-      console.error("Error fetching tablet:", error);
-      res.status(500).json({ message: "Failed to fetch tablet" });
+      console.error("Error fetching student accessory liabilities:", error);
+      res.status(500).json({ message: "Failed to fetch student accessory liabilities" });
     }
   });
 
-  app.post("/api/tablets", validateBody(insertTabletSchema), async (req, res) => {
+  app.get("/api/students/:id/ledger", requirePermission("ledger:read"), async (req, res) => {
     try {
-      const tablet = await storage.createTablet(req.body);
-      res.status(201).json(tablet);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid student ID" });
+      }
+
+      const ledger = await storage.getStudentLedger(id);
+      if (!ledger) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      res.json(ledger);
     } catch (error) {
-      console.error("Error creating tablet:", error);
-      res.status(500).json({ message: "Failed to create tablet" });
+      console.error("Error fetching student ledger:", error);
+      res.status(500).json({ message: "Failed to fetch student ledger" });
     }
   });
 
-  app.put("/api/tablets/:id", async (req, res) => {
+  app.post("/api/students/:id/ledger", requirePermission("ledger:write"), validateBody(insertLedgerEntrySchema), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid tablet ID" });
+        return res.status(400).json({ message: "Invalid student ID" });
       }
 
-      const tablet = await storage.updateTablet(id, req.body);
-      if (!tablet) {
-        return res.status(404).json({ message: "Tablet not found" });
+      // Writing off a balance is a supervisor decision
+      if (req.body.entryType === "waiver" && !hasPermission(req.staffUser?.role, "ledger:waive")) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
       }
 
-      res.json(tablet);
+      const entry = await storage.createLedgerEntry(id, req.body, auditContext(req));
+      res.status(201).json(entry);
     } catch (error) {
-      console.error("Error updating tablet:", error);
-      res.status(500).json({ message: "Failed to update tablet" });
+      console.error("Error recording ledger entry:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to record ledger entry"
+      });
     }
   });
 
-  app.delete("/api/tablets/:id", async (req, res) => {
+  app.get("/api/students/:id/clearance", requirePermission("ledger:read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid tablet ID" });
+        return res.status(400).json({ message: "Invalid student ID" });
       }
 
-      const success = await storage.deleteTablet(id);
-      if (!success) {
-        return res.status(400).json({ 
-          message: "Cannot delete tablet with borrowing records" 
-        });
+      const clearance = await storage.getStudentClearance(id);
+      if (!clearance) {
+        return res.status(404).json({ message: "Student not found" });
       }
 
-      res.status(204).send();
+      res.json(clearance);
     } catch (error) {
-      console.error("Error deleting tablet:", error);
-      res.status(500).json({ message: "Failed to delete tablet" });
+      console.error("Error checking student clearance:", error);
+      res.status(500).json({ message: "Failed to check student clearance" });
     }
   });
 
-  app.get("/api/tablets/:id/history", async (req, res) => {
+  app.post("/api/students/:id/clearance/certificate", requirePermission("clearance:issue"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid tablet ID" });
+        return res.status(400).json({ message: "Invalid student ID" });
       }
 
-      const history = await storage.getTabletHistory(id);
-      res.json(history);
+      const clearance = await storage.issueClearanceCertificate(id, auditContext(req));
+      res.status(201).json(clearance);
     } catch (error) {
-      console.error("Error fetching tablet history:", error);
-      res.status(500).json({ message: "Failed to fetch tablet history" });
+      console.error("Error issuing clearance certificate:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to issue clearance certificate"
+      });
     }
   });
 
-  app.post("/api/tablets/import", upload.single("file"), async (req, res) => {
+  app.post("/api/notifications/:id/retry", requirePermission("students:write"), async (req, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No file uploaded" });
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid notification ID" });
+      }
+
+      const notification = await storage.retryNotification(id, auditContext(req));
+      if (!notification) {
+        return res.status(404).json({ message: "Failed notification not found" });
+      }
+
+      res.json(notification);
+    } catch (error) {
+      console.error("Error retrying notification:", error);
+      res.status(500).json({ message: "Failed to retry notification" });
+    }
+  });
+
+  // Tablet routes
+  app.get("/api/tablets", requirePermission("tablets:read"), async (req, res) => {
+    try {
+      if (req.query.page !== undefined) {
+        const query = tabletListQuerySchema.safeParse(req.query);
+        if (!query.success) {
+          return res.status(400).json({ message: "Invalid list query", errors: query.error.errors });
+        }
+        // Campus staff only ever see their own campus, whatever the filter says
+        const campusId = req.staffUser?.campusId ?? query.data.campusId;
+        return res.json(await storage.getTabletsPage({ ...query.data, campusId }));
+      }
+
+      const tablets = await storage.getTablets(campusScope(req));
+      res.json(tablets);
+    } catch (error) {
+      console.error("Error fetching tablets:", error);
+      res.status(500).json({ message: "Failed to fetch tablets" });
+    }
+  });
+
+  app.get("/api/tablets/available", requirePermission("tablets:read"), async (req, res) => {
+    try {
+      const tablets = await storage.getAvailableTablets(campusScope(req));
+      res.json(tablets);
+    } catch (error) {
+      console.error("Error fetching available tablets:", error);
+      res.status(500).json({ message: "Failed to fetch available tablets" });
+    }
+  });
+
+  // Printable asset label sheet for the given tablets, or the whole inventory
+  app.get("/api/tablets/labels", requirePermission("tablets:read"), async (req, res) => {
+    try {
+      const labelFormat = (req.query.format || "qr") as LabelFormat;
+      if (!labelFormats.includes(labelFormat)) {
+        return res.status(400).json({ message: `Label format must be one of: ${labelFormats.join(", ")}` });
+      }
+
+      let tablets = await storage.getTablets(campusScope(req));
+      if (req.query.ids) {
+        const ids = String(req.query.ids).split(",").map(id => parseInt(id));
+        if (ids.some(id => isNaN(id))) {
+          return res.status(400).json({ message: "Invalid tablet ID" });
+        }
+        tablets = tablets.filter(tablet => ids.includes(tablet.id));
+      }
+
+      if (tablets.length === 0) {
+        return res.status(404).json({ message: "No tablets to print labels for" });
+      }
+
+      tablets.sort((a, b) => a.serialNumber.localeCompare(b.serialNumber));
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="tablet-labels-${labelFormat}.pdf"`);
+      res.send(renderTabletLabels(tablets, labelFormat));
+    } catch (error) {
+      console.error("Error generating tablet labels:", error);
+      res.status(500).json({ message: "Failed to generate tablet labels" });
+    }
+  });
+
+  // Resolve a scanned asset label (serial number or IMEI) to its tablet
+  app.get("/api/tablets/scan/:code", requirePermission("tablets:read"), async (req, res) => {
+    try {
+      const tablet = await storage.findTabletByScan(req.params.code);
+      if (!tablet || isOutsideCampus(req, tablet)) {
+        return res.status(404).json({ message: `No tablet matches "${req.params.code}"` });
+      }
+
+      res.json(tablet);
+    } catch (error) {
+      console.error("Error looking up scanned tablet:", error);
+      res.status(500).json({ message: "Failed to look up scanned tablet" });
+    }
+  });
+
+  app.get("/api/tablets/:id", requirePermission("tablets:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid tablet ID" });
+      }
+
+      const tablet = await storage.getTablet(id);
+      if (!tablet || isOutsideCampus(req, tablet)) {
+        return res.status(404).json({ message: "Tablet not found" });
+      }
+
+      res.json(tablet);
+    } catch (error) {
+      console.error("Error fetching tablet:", error);
+      res.status(500).json({ message: "Failed to fetch tablet" });
+    }
+  });
+
+  app.post("/api/tablets", requirePermission("tablets:write"), validateBody(insertTabletSchema), async (req, res) => {
+    try {
+      // New stock lands at the campus of the staff user registering it; staff without a campus may choose one
+      const staffCampusId = req.staffUser?.campusId;
+      if (staffCampusId && req.body.campusId && req.body.campusId !== staffCampusId) {
+        return res.status(403).json({ message: "You can only register tablets at your own campus" });
+      }
+      const tablet = await storage.createTablet(
+        { ...req.body, campusId: staffCampusId ?? req.body.campusId ?? null },
+        auditContext(req)
+      );
+      res.status(201).json(tablet);
+    } catch (error) {
+      console.error("Error creating tablet:", error);
+      res.status(500).json({ message: "Failed to create tablet" });
+    }
+  });
+
+  app.put("/api/tablets/:id", requirePermission("tablets:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid tablet ID" });
+      }
+
+      const existing = await storage.getTablet(id);
+      if (!existing || isOutsideCampus(req, existing)) {
+        return res.status(404).json({ message: "Tablet not found" });
+      }
+      const staffCampusId = req.staffUser?.campusId;
+      if (staffCampusId && req.body.campusId && req.body.campusId !== staffCampusId) {
+        return res.status(403).json({ message: "You can only assign tablets to your own campus" });
+      }
+
+      const tablet = await storage.updateTablet(id, req.body, auditContext(req));
+      if (!tablet) {
+        return res.status(404).json({ message: "Tablet not found" });
+      }
+
+      res.json(tablet);
+    } catch (error) {
+      console.error("Error updating tablet:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update tablet" });
+    }
+  });
+
+  app.delete("/api/tablets/:id", requirePermission("tablets:delete"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid tablet ID" });
+      }
+
+      const existing = await storage.getTablet(id);
+      if (!existing || isOutsideCampus(req, existing)) {
+        return res.status(404).json({ message: "Tablet not found" });
+      }
+
+      const success = await storage.deleteTablet(id, auditContext(req));
+      if (!success) {
+        return res.status(400).json({ 
+          message: "Cannot delete tablet with borrowing records" 
+        });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting tablet:", error);
+      res.status(500).json({ message: "Failed to delete tablet" });
+    }
+  });
+
+  app.get("/api/tablets/:id/history", requirePermission("tablets:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid tablet ID" });
+      }
+
+      const tablet = await storage.getTablet(id);
+      if (!tablet || isOutsideCampus(req, tablet)) {
+        return res.status(404).json({ message: "Tablet not found" });
+      }
+
+      const history = await storage.getTabletHistory(id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching tablet history:", error);
+      res.status(500).json({ message: "Failed to fetch tablet history" });
+    }
+  });
+
+  app.post("/api/tablets/import", requirePermission("tablets:import"), upload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
       }
 
       const fileContent = fs.readFileSync(req.file.path, "utf8");
@@ -479,127 +1045,1306 @@ export async function registerRoutes(app: Express): Promise<Server> {
         skip_empty_lines: true,
       });
 
-      // Validate each record
-      const tablets = records.map((record: any) => ({
-        brand: record.brand,
-        model: record.model,
-        color: record.color || null,
-        serialNumber: record.serialNumber,
-        imei: record.imei || null,
-        status: record.status || 'Serviceable',
-        condition: record.condition || 'Good',
-        hasCharger: record.hasCharger === 'true' || record.hasCharger === 'yes' || record.hasCharger === '1',
-        hasCable: record.hasCable === 'true' || record.hasCable === 'yes' || record.hasCable === '1',
-        hasBox: record.hasBox === 'true' || record.hasBox === 'yes' || record.hasBox === '1',
-        notes: record.notes || null,
-      }));
+      // Purchase order columns are optional; a row that names a PO must describe it fully
+      const procurementErrors: string[] = [];
+      const procurementFor = (record: any, index: number) => {
+        if (!record.poNumber) return null;
+
+        const parsed = procurementBatchSchema.safeParse({
+          poNumber: record.poNumber,
+          supplier: record.supplier,
+          purchaseDate: record.purchaseDate,
+          unitCost: record.unitCost ? Number(record.unitCost) : null,
+          warrantyExpiry: record.warrantyExpiry || null,
+        });
+        if (!parsed.success) {
+          procurementErrors.push(`Row ${index + 2}: ${parsed.error.errors.map(e => e.message).join(", ")}`);
+          return null;
+        }
+        return parsed.data;
+      };
+
+      // Validate each record
+      const tablets = records.map((record: any, index: number) => ({
+        brand: record.brand,
+        model: record.model,
+        color: record.color || null,
+        serialNumber: record.serialNumber,
+        imei: record.imei || null,
+        status: record.status || 'Serviceable',
+        condition: record.condition || 'Good',
+        hasCharger: record.hasCharger === 'true' || record.hasCharger === 'yes' || record.hasCharger === '1',
+        hasCable: record.hasCable === 'true' || record.hasCable === 'yes' || record.hasCable === '1',
+        hasBox: record.hasBox === 'true' || record.hasBox === 'yes' || record.hasBox === '1',
+        notes: record.notes || null,
+        campusId: req.staffUser?.campusId ?? null,
+        procurement: procurementFor(record, index),
+      }));
+
+      if (procurementErrors.length > 0) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({
+          message: `Invalid purchase order details. ${procurementErrors.join("; ")}`,
+        });
+      }
+
+      const result = await storage.bulkCreateTablets(tablets, auditContext(req));
+      
+      // Delete the temporary file
+      fs.unlinkSync(req.file.path);
+
+      const message = result.created.length > 0 || result.duplicates.length > 0
+        ? `Imported ${result.created.length} tablets. ${result.duplicates.length > 0 ? `Skipped ${result.duplicates.length} duplicate serial numbers.` : ''}`
+        : 'No tablets were imported.';
+
+      res.status(201).json({ 
+        message,
+        tablets: result.created,
+        duplicates: result.duplicates
+      });
+    } catch (error) {
+      console.error("Error importing tablets:", error);
+      
+      // Ensure temp file is deleted even if there's an error
+      if (req.file && fs.existsSync(req.file.path)) {
+        fs.unlinkSync(req.file.path);
+      }
+      
+      res.status(500).json({ message: "Failed to import tablets" });
+    }
+  });
+
+  // Borrow record routes
+  app.get("/api/borrow-records", requirePermission("borrowing:read"), async (req, res) => {
+    try {
+      if (req.query.page !== undefined) {
+        const query = borrowRecordListQuerySchema.safeParse(req.query);
+        if (!query.success) {
+          return res.status(400).json({ message: "Invalid list query", errors: query.error.errors });
+        }
+        return res.json(await storage.getBorrowRecordsPage(query.data, campusScope(req)));
+      }
+
+      const includeReturned = req.query.includeReturned !== 'false';
+      const borrowRecords = await storage.getBorrowRecords(includeReturned, campusScope(req));
+      res.json(borrowRecords);
+    } catch (error) {
+      console.error("Error fetching borrow records:", error);
+      res.status(500).json({ message: "Failed to fetch borrow records" });
+    }
+  });
+
+  app.get("/api/borrow-records/overdue", requirePermission("borrowing:read"), async (req, res) => {
+    try {
+      const level = req.query.level as string | undefined;
+      if (level && !overdueLevels.includes(level as OverdueLevel)) {
+        return res.status(400).json({ message: "Invalid overdue level" });
+      }
+
+      const thresholds = getOverdueThresholds();
+      const overdueRecords = await storage.getOverdueBorrowRecords(thresholds, campusScope(req));
+      res.json({
+        thresholds,
+        records: level ? overdueRecords.filter(record => record.overdueLevel === level) : overdueRecords,
+      });
+    } catch (error) {
+      console.error("Error fetching overdue borrow records:", error);
+      res.status(500).json({ message: "Failed to fetch overdue borrow records" });
+    }
+  });
+
+  // One printable document holding the agreements of several borrowings, e.g. a distribution-day batch
+  app.get("/api/borrow-records/agreements", requirePermission("borrowing:read"), async (req, res) => {
+    try {
+      const ids = String(req.query.ids || "").split(",").filter(Boolean).map(id => parseInt(id));
+      if (ids.length === 0 || ids.some(id => isNaN(id))) {
+        return res.status(400).json({ message: "Invalid borrow record ID" });
+      }
+
+      const records: BorrowRecordWithDetails[] = [];
+      for (const id of ids) {
+        const record = await getBorrowRecordInCampus(req, id);
+        if (record) records.push(record);
+      }
+
+      if (records.length === 0) {
+        return res.status(404).json({ message: "No borrow records to print agreements for" });
+      }
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="usufruct-agreements-${ids.length}.pdf"`);
+      res.send(renderUsufructAgreements(records));
+    } catch (error) {
+      console.error("Error generating usufruct agreements:", error);
+      res.status(500).json({ message: "Failed to generate usufruct agreements" });
+    }
+  });
+
+  app.get("/api/borrow-records/:id", requirePermission("borrowing:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid borrow record ID" });
+      }
+
+      const borrowRecord = await getBorrowRecordInCampus(req, id);
+      if (!borrowRecord) {
+        return res.status(404).json({ message: "Borrow record not found" });
+      }
+
+      res.json(borrowRecord);
+    } catch (error) {
+      console.error("Error fetching borrow record:", error);
+      res.status(500).json({ message: "Failed to fetch borrow record" });
+    }
+  });
+
+  // Serve the archived usufruct agreement; reading never renders or stores one
+  app.get("/api/borrow-records/:id/agreement", requirePermission("borrowing:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid borrow record ID" });
+      }
+
+      const borrowRecord = await getBorrowRecordInCampus(req, id);
+      if (!borrowRecord) {
+        return res.status(404).json({ message: "Borrow record not found" });
+      }
+
+      const agreementPath = archivedUsufructAgreement(borrowRecord);
+      if (!agreementPath) {
+        return res.status(404).json({ message: "No agreement has been generated for this borrowing" });
+      }
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${path.basename(agreementPath)}"`);
+      res.sendFile(path.resolve(process.cwd(), agreementPath));
+    } catch (error) {
+      console.error("Error fetching usufruct agreement:", error);
+      res.status(500).json({ message: "Failed to fetch usufruct agreement" });
+    }
+  });
+
+  // Render and archive the agreement of a borrowing whose agreement could not be stored when it was created
+  app.post("/api/borrow-records/:id/agreement", requirePermission("borrowing:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid borrow record ID" });
+      }
+
+      if (!await getBorrowRecordInCampus(req, id)) {
+        return res.status(404).json({ message: "Borrow record not found" });
+      }
+
+      const agreementPath = await ensureUsufructAgreement(id, auditContext(req));
+      if (!agreementPath) {
+        return res.status(404).json({ message: "Borrow record not found" });
+      }
+
+      res.status(201).json(await storage.getBorrowRecord(id));
+    } catch (error) {
+      console.error("Error generating usufruct agreement:", error);
+      res.status(500).json({ message: "Failed to generate usufruct agreement" });
+    }
+  });
+
+  // Attach the scanned copy of the agreement signed by the student
+  app.post(
+    "/api/borrow-records/:id/signed-agreement",
+    requirePermission("borrowing:write"),
+    upload.single("file"),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          if (req.file) fs.unlinkSync(req.file.path);
+          return res.status(400).json({ message: "Invalid borrow record ID" });
+        }
+
+        if (!req.file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+
+        if (req.file.mimetype !== "application/pdf" && !req.file.mimetype.startsWith("image/")) {
+          fs.unlinkSync(req.file.path);
+          return res.status(400).json({ message: "The signed agreement must be a PDF or an image" });
+        }
+
+        if (!await getBorrowRecordInCampus(req, id)) {
+          fs.unlinkSync(req.file.path);
+          return res.status(404).json({ message: "Borrow record not found" });
+        }
+
+        const borrowRecord = await storage.attachSignedAgreement(
+          id,
+          path.relative(process.cwd(), req.file.path),
+          auditContext(req)
+        );
+        if (!borrowRecord) {
+          fs.unlinkSync(req.file.path);
+          return res.status(404).json({ message: "Borrow record not found" });
+        }
+
+        res.json(borrowRecord);
+      } catch (error) {
+        console.error("Error uploading signed agreement:", error);
+
+        // Ensure the uploaded file is deleted if there's an error
+        if (req.file && fs.existsSync(req.file.path)) {
+          fs.unlinkSync(req.file.path);
+        }
+
+        res.status(500).json({
+          message: error instanceof Error ? error.message : "Failed to upload signed agreement"
+        });
+      }
+    }
+  );
+
+  app.get("/api/borrow-records/:id/signed-agreement", requirePermission("borrowing:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid borrow record ID" });
+      }
+
+      const borrowRecord = await getBorrowRecordInCampus(req, id);
+      if (!borrowRecord) {
+        return res.status(404).json({ message: "Borrow record not found" });
+      }
+
+      const filePath = borrowRecord.signedAgreementPath && path.resolve(process.cwd(), borrowRecord.signedAgreementPath);
+      if (!filePath || !fs.existsSync(filePath)) {
+        return res.status(404).json({ message: "No signed agreement has been uploaded" });
+      }
+
+      res.sendFile(filePath);
+    } catch (error) {
+      console.error("Error fetching signed agreement:", error);
+      res.status(500).json({ message: "Failed to fetch signed agreement" });
+    }
+  });
+
+  app.post("/api/borrow-records/:id/agreement/verify", requirePermission("agreements:verify"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid borrow record ID" });
+      }
+
+      if (!await getBorrowRecordInCampus(req, id)) {
+        return res.status(404).json({ message: "Borrow record not found" });
+      }
+
+      const borrowRecord = await storage.verifyAgreement(id, auditContext(req));
+      if (!borrowRecord) {
+        return res.status(404).json({ message: "Borrow record not found" });
+      }
+
+      res.json(borrowRecord);
+    } catch (error) {
+      console.error("Error verifying signed agreement:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to verify signed agreement"
+      });
+    }
+  });
+
+  app.post("/api/borrow-records", requirePermission("borrowing:write"), validateBody(insertBorrowRecordSchema), async (req, res) => {
+    try {
+      const staffCampusId = req.staffUser?.campusId;
+      if (staffCampusId) {
+        const tablet = await storage.getTablet(req.body.tabletId);
+        if (tablet && tablet.campusId !== staffCampusId) {
+          return res.status(403).json({ message: "This tablet belongs to another campus" });
+        }
+      }
+      const borrowRecord = await storage.createBorrowRecord(req.body, auditContext(req));
+      await archiveUsufructAgreement(borrowRecord.id, auditContext(req));
+      await notifyBorrowRecord('borrow_confirmation', borrowRecord.id);
+      res.status(201).json(borrowRecord);
+    } catch (error) {
+      console.error("Error creating borrow record:", error);
+      let errorMessage = "Failed to create borrow record";
+      
+      if (error instanceof Error) {
+        console.error("Error details:", error.message);
+        console.error("Error stack:", error.stack);
+        errorMessage = error.message;
+      }
+      
+      res.status(500).json({ 
+        message: errorMessage,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Lend a distribution-day batch; nothing is saved unless every pair can be lent
+  app.post("/api/borrow-records/bulk", requirePermission("borrowing:write"), validateBody(bulkBorrowSchema), async (req, res) => {
+    try {
+      const result = await storage.createBulkBorrowRecords(req.body, req.staffUser?.campusId ?? undefined, auditContext(req));
+      if (result.issues.length > 0) {
+        return res.status(400).json({
+          message: `${result.issues.length} pair(s) cannot be lent. Nothing was saved.`,
+          issues: result.issues,
+        });
+      }
+
+      for (const borrowRecord of result.created) {
+        await archiveUsufructAgreement(borrowRecord.id, auditContext(req));
+        await notifyBorrowRecord('borrow_confirmation', borrowRecord.id);
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      console.error("Error creating bulk borrow records:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to create borrow records"
+      });
+    }
+  });
+
+  // Match an uploaded distribution list (studentId, optional serialNumber) to students and tablets without lending anything
+  app.post("/api/borrow-records/bulk/csv", requirePermission("borrowing:write"), upload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const fileContent = fs.readFileSync(req.file.path, "utf8");
+      fs.unlinkSync(req.file.path);
+      const records = parse(fileContent, {
+        columns: true,
+        skip_empty_lines: true,
+        trim: true,
+      });
+
+      const rows: BulkBorrowCsvRow[] = [];
+      for (let index = 0; index < records.length; index++) {
+        const record = records[index];
+        const row = index + 2;
+        const student = record.studentId ? await storage.getStudentByStudentId(record.studentId) : undefined;
+        const tablet = record.serialNumber ? await storage.getTabletBySerialNumber(record.serialNumber) : undefined;
+
+        let error: string | null = null;
+        if (!record.studentId) error = "Student No. is missing";
+        else if (!student) error = `No student with Student No. ${record.studentId}`;
+        else if (record.serialNumber && !tablet) error = `No tablet with serial number ${record.serialNumber}`;
+
+        rows.push({ row, student: student ?? null, tablet: tablet ?? null, error });
+      }
+
+      res.json(rows);
+    } catch (error) {
+      console.error("Error reading distribution list:", error);
+
+      if (req.file && fs.existsSync(req.file.path)) {
+        fs.unlinkSync(req.file.path);
+      }
+
+      res.status(500).json({ message: "Failed to read the distribution list" });
+    }
+  });
+
+  // Return a mass collection. Each tablet is returned on its own, so one failure does not hold up the rest
+  app.post("/api/borrow-records/bulk/return", requirePermission("returns:write"), validateBody(bulkReturnSchema), async (req, res) => {
+    try {
+      const results: BulkReturnItemResult[] = [];
+
+      for (const item of req.body.items) {
+        try {
+          if (!await getBorrowRecordInCampus(req, item.borrowRecordId)) {
+            results.push({ borrowRecordId: item.borrowRecordId, success: false, message: "Borrow record not found" });
+            continue;
+          }
+
+          const borrowRecord = await storage.processReturn(item.borrowRecordId, {
+            isReturned: true,
+            returnDate: req.body.returnDate,
+            returnCondition: item.returnCondition,
+            returnNotes: item.returnNotes,
+            returnedAccessories: item.returnedAccessories,
+          }, auditContext(req), getRepairConditionThreshold());
+
+          if (!borrowRecord) {
+            results.push({ borrowRecordId: item.borrowRecordId, success: false, message: "Borrow record not found" });
+            continue;
+          }
+
+          await notifyBorrowRecord('return_receipt', borrowRecord.id);
+          results.push({ borrowRecordId: item.borrowRecordId, success: true, message: null });
+        } catch (error) {
+          results.push({
+            borrowRecordId: item.borrowRecordId,
+            success: false,
+            message: error instanceof Error ? error.message : "Failed to process return",
+          });
+        }
+      }
+
+      res.json(results);
+    } catch (error) {
+      console.error("Error processing bulk return:", error);
+      res.status(500).json({ message: "Failed to process returns" });
+    }
+  });
+
+  app.post("/api/borrow-records/:id/return", requirePermission("returns:write"), validateBody(updateBorrowRecordForReturnSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid borrow record ID" });
+      }
+
+      if (!await getBorrowRecordInCampus(req, id)) {
+        return res.status(404).json({ message: "Borrow record not found" });
+      }
+
+      const borrowRecord = await storage.processReturn(id, req.body, auditContext(req), getRepairConditionThreshold());
+      if (!borrowRecord) {
+        return res.status(404).json({ message: "Borrow record not found" });
+      }
+
+      await notifyBorrowRecord('return_receipt', borrowRecord.id);
+
+      res.json(borrowRecord);
+    } catch (error) {
+      console.error("Error processing return:", error);
+      res.status(500).json({ 
+        message: "Failed to process return",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/api/borrow-records/:id/accessories/return", requirePermission("returns:write"), validateBody(accessoryReturnSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid borrow record ID" });
+      }
+
+      if (!await getBorrowRecordInCampus(req, id)) {
+        return res.status(404).json({ message: "Borrow record not found" });
+      }
+
+      const liabilities = await storage.returnAccessories(id, req.body, auditContext(req));
+      if (!liabilities) {
+        return res.status(404).json({ message: "Borrow record not found" });
+      }
+
+      res.json(liabilities);
+    } catch (error) {
+      console.error("Error returning accessories:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to return accessories"
+      });
+    }
+  });
+
+  // Accessory liability routes
+  app.get("/api/accessory-liabilities", requirePermission("borrowing:read"), async (req, res) => {
+    try {
+      const includeReturned = req.query.includeReturned === "true";
+      const liabilities = await storage.getAccessoryLiabilities(!includeReturned, campusScope(req));
+      res.json(liabilities);
+    } catch (error) {
+      console.error("Error fetching accessory liabilities:", error);
+      res.status(500).json({ message: "Failed to fetch accessory liabilities" });
+    }
+  });
+
+  // Student accountability routes
+  app.get("/api/accountabilities", requirePermission("ledger:read"), async (req, res) => {
+    try {
+      const includeCleared = req.query.includeCleared === "true";
+      const accountabilities = await storage.getStudentAccountabilities(!includeCleared);
+      res.json(accountabilities);
+    } catch (error) {
+      console.error("Error fetching student accountabilities:", error);
+      res.status(500).json({ message: "Failed to fetch student accountabilities" });
+    }
+  });
+
+  app.post("/api/clearance/bulk", requirePermission("clearance:issue"), validateBody(bulkClearanceSchema), async (req, res) => {
+    try {
+      const results = await storage.runBulkClearance(req.body, auditContext(req));
+      res.json(results);
+    } catch (error) {
+      console.error("Error running bulk clearance:", error);
+      res.status(500).json({ message: "Failed to run bulk clearance" });
+    }
+  });
+
+  // Public so the registrar can check a printed certificate without a staff account
+  app.get("/api/clearance/verify/:code", async (req, res) => {
+    try {
+      const certificate = await storage.getClearanceCertificateByCode(req.params.code);
+      if (!certificate) {
+        return res.status(404).json({ valid: false, message: "No certificate was issued with this code" });
+      }
+
+      res.json({
+        valid: true,
+        verificationCode: certificate.verificationCode,
+        issuedAt: certificate.issuedAt,
+        academicYearTerm: certificate.academicYearTerm,
+        student: {
+          studentId: certificate.student.studentId,
+          fullName: certificate.student.fullName,
+          programName: certificate.student.programName,
+          yearLevel: certificate.student.yearLevel,
+        },
+      });
+    } catch (error) {
+      console.error("Error verifying clearance certificate:", error);
+      res.status(500).json({ message: "Failed to verify clearance certificate" });
+    }
+  });
+
+  app.get("/api/replacement-values", requirePermission("ledger:read"), async (req, res) => {
+    try {
+      const values = await storage.getReplacementValues();
+      res.json(values);
+    } catch (error) {
+      console.error("Error fetching replacement values:", error);
+      res.status(500).json({ message: "Failed to fetch replacement values" });
+    }
+  });
+
+  // Creates the values for a model, or replaces them if the model already has some
+  app.post("/api/replacement-values", requirePermission("replacement-values:write"), validateBody(replacementValueSchema), async (req, res) => {
+    try {
+      const value = await storage.saveReplacementValue(req.body, auditContext(req));
+      res.json(value);
+    } catch (error) {
+      console.error("Error saving replacement value:", error);
+      res.status(500).json({ message: "Failed to save replacement value" });
+    }
+  });
+
+  app.delete("/api/replacement-values/:id", requirePermission("replacement-values:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid replacement value ID" });
+      }
+
+      const deleted = await storage.deleteReplacementValue(id, auditContext(req));
+      if (!deleted) {
+        return res.status(404).json({ message: "Replacement value not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting replacement value:", error);
+      res.status(500).json({ message: "Failed to delete replacement value" });
+    }
+  });
+
+  // Device model catalog routes
+  app.get("/api/device-models", requirePermission("tablets:read"), async (req, res) => {
+    try {
+      const deviceModels = await storage.getDeviceModels();
+      res.json(deviceModels);
+    } catch (error) {
+      console.error("Error fetching device models:", error);
+      res.status(500).json({ message: "Failed to fetch device models" });
+    }
+  });
+
+  app.post("/api/device-models", requirePermission("tablets:write"), validateBody(deviceModelSchema), async (req, res) => {
+    try {
+      const deviceModel = await storage.createDeviceModel(req.body, auditContext(req));
+      res.status(201).json(deviceModel);
+    } catch (error) {
+      console.error("Error creating device model:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to create device model" });
+    }
+  });
+
+  app.put("/api/device-models/:id", requirePermission("tablets:write"), validateBody(deviceModelSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid device model ID" });
+      }
+
+      const deviceModel = await storage.updateDeviceModel(id, req.body, auditContext(req));
+      if (!deviceModel) {
+        return res.status(404).json({ message: "Device model not found" });
+      }
+
+      res.json(deviceModel);
+    } catch (error) {
+      console.error("Error updating device model:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update device model" });
+    }
+  });
+
+  // Moves every tablet of a duplicate model onto the target and removes the duplicate
+  app.post("/api/device-models/:id/merge", requirePermission("tablets:write"), validateBody(mergeDeviceModelSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid device model ID" });
+      }
+
+      const deviceModel = await storage.mergeDeviceModel(id, req.body.targetId, auditContext(req));
+      if (!deviceModel) {
+        return res.status(404).json({ message: "Device model not found" });
+      }
+
+      res.json(deviceModel);
+    } catch (error) {
+      console.error("Error merging device models:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to merge device models" });
+    }
+  });
+
+  app.delete("/api/device-models/:id", requirePermission("tablets:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid device model ID" });
+      }
+
+      const deleted = await storage.deleteDeviceModel(id, auditContext(req));
+      if (!deleted) {
+        return res.status(404).json({ message: "Device model not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting device model:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to delete device model" });
+    }
+  });
+
+  // Procurement batch routes
+  app.get("/api/procurement-batches", requirePermission("tablets:read"), async (req, res) => {
+    try {
+      const batches = await storage.getProcurementBatches();
+      res.json(batches);
+    } catch (error) {
+      console.error("Error fetching procurement batches:", error);
+      res.status(500).json({ message: "Failed to fetch procurement batches" });
+    }
+  });
+
+  app.post("/api/procurement-batches", requirePermission("tablets:write"), validateBody(procurementBatchSchema), async (req, res) => {
+    try {
+      const batch = await storage.createProcurementBatch(req.body, auditContext(req));
+      res.status(201).json(batch);
+    } catch (error) {
+      console.error("Error creating procurement batch:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to create procurement batch" });
+    }
+  });
+
+  app.put("/api/procurement-batches/:id", requirePermission("tablets:write"), validateBody(procurementBatchSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid procurement batch ID" });
+      }
+
+      const batch = await storage.updateProcurementBatch(id, req.body, auditContext(req));
+      if (!batch) {
+        return res.status(404).json({ message: "Procurement batch not found" });
+      }
+
+      res.json(batch);
+    } catch (error) {
+      console.error("Error updating procurement batch:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update procurement batch" });
+    }
+  });
+
+  app.delete("/api/procurement-batches/:id", requirePermission("tablets:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid procurement batch ID" });
+      }
+
+      const deleted = await storage.deleteProcurementBatch(id, auditContext(req));
+      if (!deleted) {
+        return res.status(404).json({ message: "Procurement batch not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting procurement batch:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to delete procurement batch" });
+    }
+  });
+
+  app.get("/api/terms", requirePermission("borrowing:read"), async (req, res) => {
+    try {
+      const terms = await storage.getTerms();
+      res.json(terms);
+    } catch (error) {
+      console.error("Error fetching academic terms:", error);
+      res.status(500).json({ message: "Failed to fetch academic terms" });
+    }
+  });
+
+  app.post("/api/terms", requirePermission("terms:manage"), validateBody(academicTermSchema), async (req, res) => {
+    try {
+      const term = await storage.createTerm(req.body, auditContext(req));
+      res.status(201).json(term);
+    } catch (error) {
+      console.error("Error creating academic term:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to create academic term" });
+    }
+  });
+
+  app.put("/api/terms/:id", requirePermission("terms:manage"), validateBody(academicTermSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid term ID" });
+      }
+
+      const term = await storage.updateTerm(id, req.body, auditContext(req));
+      if (!term) {
+        return res.status(404).json({ message: "Academic term not found" });
+      }
+
+      res.json(term);
+    } catch (error) {
+      console.error("Error updating academic term:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update academic term" });
+    }
+  });
+
+  app.delete("/api/terms/:id", requirePermission("terms:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid term ID" });
+      }
+
+      const deleted = await storage.deleteTerm(id, auditContext(req));
+      if (!deleted) {
+        return res.status(404).json({ message: "Academic term not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting academic term:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to delete academic term" });
+    }
+  });
+
+  // What rolling the term's active borrowings over into ?toTermId= would do, without changing anything
+  app.get("/api/terms/:id/rollover", requirePermission("terms:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const toTermId = parseInt(req.query.toTermId as string);
+      if (isNaN(id) || isNaN(toTermId)) {
+        return res.status(400).json({ message: "Invalid term ID" });
+      }
+
+      const preview = await storage.previewTermRollover(id, toTermId);
+      if (!preview) {
+        return res.status(404).json({ message: "Academic term not found" });
+      }
+
+      res.json(preview);
+    } catch (error) {
+      console.error("Error previewing term rollover:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to preview term rollover" });
+    }
+  });
+
+  app.post("/api/terms/:id/rollover", requirePermission("terms:manage"), validateBody(termRolloverSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid term ID" });
+      }
+
+      const result = await storage.applyTermRollover(id, req.body, auditContext(req));
+      if (!result) {
+        return res.status(404).json({ message: "Academic term not found" });
+      }
+
+      for (const borrowRecordId of result.recalled) {
+        await notifyBorrowRecord('recall_notice', borrowRecordId);
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error applying term rollover:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to apply term rollover" });
+    }
+  });
+
+  app.get("/api/campuses", requirePermission("tablets:read"), async (req, res) => {
+    try {
+      const campusList = await storage.getCampuses();
+      res.json(campusList);
+    } catch (error) {
+      console.error("Error fetching campuses:", error);
+      res.status(500).json({ message: "Failed to fetch campuses" });
+    }
+  });
+
+  app.post("/api/campuses", requirePermission("campuses:manage"), validateBody(campusSchema), async (req, res) => {
+    try {
+      const campus = await storage.createCampus(req.body, auditContext(req));
+      res.status(201).json(campus);
+    } catch (error) {
+      console.error("Error creating campus:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to create campus" });
+    }
+  });
+
+  app.put("/api/campuses/:id", requirePermission("campuses:manage"), validateBody(campusSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid campus ID" });
+      }
+
+      const campus = await storage.updateCampus(id, req.body, auditContext(req));
+      if (!campus) {
+        return res.status(404).json({ message: "Campus not found" });
+      }
+
+      res.json(campus);
+    } catch (error) {
+      console.error("Error updating campus:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update campus" });
+    }
+  });
+
+  app.get("/api/transfers", requirePermission("transfers:read"), async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !transferStatusEnum.enumValues.includes(status as TransferStatus)) {
+        return res.status(400).json({ message: "Invalid transfer status" });
+      }
+
+      const transfers = await storage.getTransfers({
+        campusId: campusScope(req),
+        status: status as TransferStatus | undefined,
+      });
+      res.json(transfers);
+    } catch (error) {
+      console.error("Error fetching transfers:", error);
+      res.status(500).json({ message: "Failed to fetch transfers" });
+    }
+  });
+
+  app.post("/api/transfers", requirePermission("transfers:write"), validateBody(dispatchTransferSchema), async (req, res) => {
+    try {
+      // Campus staff can only send out their own stock
+      const transfers = await storage.dispatchTransfer(req.body, req.staffUser?.campusId ?? undefined, auditContext(req));
+      res.status(201).json(transfers);
+    } catch (error) {
+      console.error("Error dispatching transfer:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to dispatch transfer" });
+    }
+  });
 
-      const result = await storage.bulkCreateTablets(tablets);
-      
-      // Delete the temporary file
-      fs.unlinkSync(req.file.path);
+  app.post("/api/transfers/:id/receive", requirePermission("transfers:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid transfer ID" });
+      }
 
-      const message = result.created.length > 0 || result.duplicates.length > 0
-        ? `Imported ${result.created.length} tablets. ${result.duplicates.length > 0 ? `Skipped ${result.duplicates.length} duplicate serial numbers.` : ''}`
-        : 'No tablets were imported.';
+      const transfer = await storage.getTransfer(id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      const staffCampusId = req.staffUser?.campusId;
+      if (staffCampusId && transfer.toCampusId !== staffCampusId) {
+        return res.status(403).json({ message: "Only the receiving campus can receive this transfer" });
+      }
 
-      res.status(201).json({ 
-        message,
-        tablets: result.created,
-        duplicates: result.duplicates
+      const received = await storage.receiveTransfer(id, auditContext(req));
+      res.json(received);
+    } catch (error) {
+      console.error("Error receiving transfer:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to receive transfer" });
+    }
+  });
+
+  app.post("/api/transfers/:id/cancel", requirePermission("transfers:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid transfer ID" });
+      }
+
+      const transfer = await storage.getTransfer(id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      const staffCampusId = req.staffUser?.campusId;
+      if (staffCampusId && transfer.fromCampusId !== staffCampusId) {
+        return res.status(403).json({ message: "Only the sending campus can cancel this transfer" });
+      }
+
+      const cancelled = await storage.cancelTransfer(id, auditContext(req));
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error cancelling transfer:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to cancel transfer" });
+    }
+  });
+
+  // Tablets whose warranty ends within the next N days (30 by default)
+  app.get("/api/reports/warranty-expiring", requirePermission("reports:read"), async (req, res) => {
+    try {
+      const days = req.query.days ? parseInt(req.query.days as string) : 30;
+      if (isNaN(days) || days < 0) {
+        return res.status(400).json({ message: "Invalid number of days" });
+      }
+
+      const tablets = await storage.getWarrantyExpiring(days);
+      res.json(tablets);
+    } catch (error) {
+      console.error("Error fetching expiring warranties:", error);
+      res.status(500).json({ message: "Failed to fetch expiring warranties" });
+    }
+  });
+
+  // Book value of the fleet for a fiscal year; every setting has a default
+  app.get("/api/reports/depreciation", requirePermission("reports:read"), async (req, res) => {
+    try {
+      const query = depreciationQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join(", ") });
+      }
+
+      const { fiscalYear, ...settings } = query.data;
+      const report = await storage.getDepreciationReport(fiscalYear, settings);
+      res.json(report);
+    } catch (error) {
+      console.error("Error building depreciation report:", error);
+      res.status(500).json({ message: "Failed to build depreciation report" });
+    }
+  });
+
+  // Repair ticket routes
+  app.get("/api/repair-tickets", requirePermission("repairs:read"), async (req, res) => {
+    try {
+      const includeClosed = req.query.includeClosed === "true";
+      const tickets = await storage.getRepairTickets(includeClosed, campusScope(req));
+      res.json({ threshold: getRepairConditionThreshold(), tickets });
+    } catch (error) {
+      console.error("Error fetching repair tickets:", error);
+      res.status(500).json({ message: "Failed to fetch repair tickets" });
+    }
+  });
+
+  app.get("/api/repair-tickets/:id", requirePermission("repairs:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid repair ticket ID" });
+      }
+
+      const ticket = await storage.getRepairTicket(id);
+      if (!ticket || isOutsideCampus(req, ticket.tablet)) {
+        return res.status(404).json({ message: "Repair ticket not found" });
+      }
+
+      res.json(ticket);
+    } catch (error) {
+      console.error("Error fetching repair ticket:", error);
+      res.status(500).json({ message: "Failed to fetch repair ticket" });
+    }
+  });
+
+  app.post("/api/repair-tickets", requirePermission("repairs:write"), validateBody(insertRepairTicketSchema), async (req, res) => {
+    try {
+      if (await isTabletOutsideCampus(req, req.body.tabletId)) {
+        return res.status(404).json({ message: "Tablet not found" });
+      }
+
+      const ticket = await storage.createRepairTicket(req.body, auditContext(req));
+      res.status(201).json(ticket);
+    } catch (error) {
+      console.error("Error creating repair ticket:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to create repair ticket"
       });
+    }
+  });
+
+  app.put("/api/repair-tickets/:id", requirePermission("repairs:write"), validateBody(updateRepairTicketSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid repair ticket ID" });
+      }
+
+      const existing = await storage.getRepairTicket(id);
+      if (!existing || isOutsideCampus(req, existing.tablet)) {
+        return res.status(404).json({ message: "Repair ticket not found" });
+      }
+
+      const ticket = await storage.updateRepairTicket(id, req.body, auditContext(req));
+      if (!ticket) {
+        return res.status(404).json({ message: "Repair ticket not found" });
+      }
+
+      res.json(ticket);
     } catch (error) {
-      console.error("Error importing tablets:", error);
-      
-      // Ensure temp file is deleted even if there's an error
-      if (req.file && fs.existsSync(req.file.path)) {
-        fs.unlinkSync(req.file.path);
+      console.error("Error updating repair ticket:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to update repair ticket"
+      });
+    }
+  });
+
+  app.post("/api/repair-tickets/:id/close", requirePermission("repairs:write"), validateBody(closeRepairTicketSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid repair ticket ID" });
       }
-      
-      res.status(500).json({ message: "Failed to import tablets" });
+
+      const existing = await storage.getRepairTicket(id);
+      if (!existing || isOutsideCampus(req, existing.tablet)) {
+        return res.status(404).json({ message: "Repair ticket not found" });
+      }
+
+      const ticket = await storage.closeRepairTicket(id, req.body, auditContext(req));
+      if (!ticket) {
+        return res.status(404).json({ message: "Repair ticket not found" });
+      }
+
+      res.json(ticket);
+    } catch (error) {
+      console.error("Error closing repair ticket:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to close repair ticket"
+      });
     }
   });
 
-  // Borrow record routes
-  app.get("/api/borrow-records", async (req, res) => {
+  // Inventory (stock-take) routes
+  app.get("/api/inventory-sessions", requirePermission("inventory:read"), async (req, res) => {
     try {
-      const includeReturned = req.query.includeReturned !== 'false';
-      const borrowRecords = await storage.getBorrowRecords(includeReturned);
-      res.json(borrowRecords);
+      const sessions = await storage.getInventorySessions(campusScope(req));
+      res.json(sessions);
     } catch (error) {
-      console.error("Error fetching borrow records:", error);
-      res.status(500).json({ message: "Failed to fetch borrow records" });
+      console.error("Error fetching inventory sessions:", error);
+      res.status(500).json({ message: "Failed to fetch inventory sessions" });
     }
   });
 
-  app.get("/api/borrow-records/:id", async (req, res) => {
+  app.get("/api/inventory-sessions/:id", requirePermission("inventory:read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid borrow record ID" });
+        return res.status(400).json({ message: "Invalid inventory session ID" });
       }
 
-      const borrowRecord = await storage.getBorrowRecord(id);
-      if (!borrowRecord) {
-        return res.status(404).json({ message: "Borrow record not found" });
+      const session = await storage.getInventorySession(id);
+      if (!session || isOutsideCampus(req, session)) {
+        return res.status(404).json({ message: "Inventory session not found" });
       }
 
-      res.json(borrowRecord);
+      res.json(session);
     } catch (error) {
-      console.error("Error fetching borrow record:", error);
-      res.status(500).json({ message: "Failed to fetch borrow record" });
+      console.error("Error fetching inventory session:", error);
+      res.status(500).json({ message: "Failed to fetch inventory session" });
     }
   });
 
-  app.post("/api/borrow-records", validateBody(insertBorrowRecordSchema), async (req, res) => {
+  app.post("/api/inventory-sessions", requirePermission("inventory:write"), validateBody(insertInventorySessionSchema), async (req, res) => {
     try {
-      console.log("Creating borrow record with data:", JSON.stringify(req.body, null, 2));
-      const borrowRecord = await storage.createBorrowRecord(req.body);
-      console.log("Borrow record created successfully:", JSON.stringify(borrowRecord, null, 2));
-      res.status(201).json(borrowRecord);
+      // Staff tied to a campus can only count their own campus
+      const campusId = req.staffUser?.campusId ?? req.body.campusId ?? null;
+      const session = await storage.createInventorySession({ ...req.body, campusId }, auditContext(req));
+      res.status(201).json(session);
     } catch (error) {
-      console.error("Error creating borrow record:", error);
-      let errorMessage = "Failed to create borrow record";
-      
-      if (error instanceof Error) {
-        console.error("Error details:", error.message);
-        console.error("Error stack:", error.stack);
-        errorMessage = error.message;
+      console.error("Error creating inventory session:", error);
+      res.status(500).json({ message: "Failed to create inventory session" });
+    }
+  });
+
+  app.post("/api/inventory-sessions/:id/counts", requirePermission("inventory:write"), validateBody(inventoryCountSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid inventory session ID" });
       }
-      
-      res.status(500).json({ 
-        message: errorMessage,
-        error: error instanceof Error ? error.message : String(error)
+
+      const session = await storage.getInventorySession(id);
+      if (!session || isOutsideCampus(req, session)) {
+        return res.status(404).json({ message: "Inventory session not found" });
+      }
+      if (await isTabletOutsideCampus(req, req.body.tabletId)) {
+        return res.status(404).json({ message: "Tablet not found" });
+      }
+
+      const count = await storage.recordInventoryCount(id, req.body, auditContext(req));
+      if (!count) {
+        return res.status(404).json({ message: "Inventory session not found" });
+      }
+
+      res.status(201).json(count);
+    } catch (error) {
+      console.error("Error recording inventory count:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to record inventory count"
+      });
+    }
+  });
+
+  app.delete("/api/inventory-sessions/:id/counts/:tabletId", requirePermission("inventory:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const tabletId = parseInt(req.params.tabletId);
+      if (isNaN(id) || isNaN(tabletId)) {
+        return res.status(400).json({ message: "Invalid inventory session or tablet ID" });
+      }
+
+      const existing = await storage.getInventorySession(id);
+      if (!existing || isOutsideCampus(req, existing)) {
+        return res.status(404).json({ message: "Inventory session not found" });
+      }
+
+      const removed = await storage.removeInventoryCount(id, tabletId, auditContext(req));
+      if (!removed) {
+        return res.status(404).json({ message: "Inventory count not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing inventory count:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to remove inventory count"
       });
     }
   });
 
-  app.post("/api/borrow-records/:id/return", validateBody(updateBorrowRecordForReturnSchema), async (req, res) => {
+  app.post("/api/inventory-sessions/:id/complete", requirePermission("inventory:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid borrow record ID" });
+        return res.status(400).json({ message: "Invalid inventory session ID" });
       }
 
-      const borrowRecord = await storage.processReturn(id, req.body);
-      if (!borrowRecord) {
-        return res.status(404).json({ message: "Borrow record not found" });
+      const existing = await storage.getInventorySession(id);
+      if (!existing || isOutsideCampus(req, existing)) {
+        return res.status(404).json({ message: "Inventory session not found" });
       }
 
-      res.json(borrowRecord);
+      const session = await storage.completeInventorySession(id, auditContext(req));
+      if (!session) {
+        return res.status(404).json({ message: "Inventory session not found" });
+      }
+
+      res.json(session);
     } catch (error) {
-      console.error("Error processing return:", error);
-      res.status(500).json({ 
-        message: "Failed to process return",
-        error: error instanceof Error ? error.message : String(error)
+      console.error("Error completing inventory session:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to complete inventory session"
+      });
+    }
+  });
+
+  // Reservation routes
+  app.get("/api/reservations", requirePermission("reservations:read"), async (req, res) => {
+    try {
+      const includeClosed = req.query.includeClosed === 'true';
+      const reservations = await storage.getReservations(includeClosed, campusScope(req));
+      res.json(reservations);
+    } catch (error) {
+      console.error("Error fetching reservations:", error);
+      res.status(500).json({ message: "Failed to fetch reservations" });
+    }
+  });
+
+  app.post("/api/reservations", requirePermission("reservations:write"), validateBody(insertReservationSchema), async (req, res) => {
+    try {
+      const reservation = await storage.createReservation(req.body, auditContext(req));
+      res.status(201).json(reservation);
+    } catch (error) {
+      console.error("Error creating reservation:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to create reservation"
+      });
+    }
+  });
+
+  app.post("/api/reservations/:id/cancel", requirePermission("reservations:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid reservation ID" });
+      }
+
+      const existing = await storage.getReservation(id);
+      if (!existing || (existing.tabletId && await isTabletOutsideCampus(req, existing.tabletId))) {
+        return res.status(404).json({ message: "Reservation not found" });
+      }
+
+      const reservation = await storage.cancelReservation(id, auditContext(req));
+      if (!reservation) {
+        return res.status(404).json({ message: "Reservation not found" });
+      }
+
+      res.json(reservation);
+    } catch (error) {
+      console.error("Error cancelling reservation:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to cancel reservation"
       });
     }
   });
 
+  app.post(
+    "/api/reservations/:id/convert",
+    requirePermission("reservations:write"),
+    requirePermission("borrowing:write"),
+    validateBody(convertReservationSchema),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid reservation ID" });
+        }
+
+        const existing = await storage.getReservation(id);
+        if (!existing || (existing.tabletId && await isTabletOutsideCampus(req, existing.tabletId))) {
+          return res.status(404).json({ message: "Reservation not found" });
+        }
+
+        const borrowRecord = await storage.convertReservation(id, req.body, req.staffUser?.campusId ?? undefined, auditContext(req));
+        if (!borrowRecord) {
+          return res.status(404).json({ message: "Reservation not found" });
+        }
+
+        await archiveUsufructAgreement(borrowRecord.id, auditContext(req));
+        await notifyBorrowRecord('borrow_confirmation', borrowRecord.id);
+
+        res.status(201).json(borrowRecord);
+      } catch (error) {
+        console.error("Error converting reservation:", error);
+        res.status(500).json({
+          message: error instanceof Error ? error.message : "Failed to convert reservation"
+        });
+      }
+    }
+  );
+
   // Lost report routes
-  app.get("/api/lost-reports", async (req, res) => {
+  app.get("/api/lost-reports", requirePermission("lost-reports:read"), async (req, res) => {
     try {
-      const lostReports = await storage.getLostReports();
+      const lostReports = await storage.getLostReports(campusScope(req));
       res.json(lostReports);
     } catch (error) {
       console.error("Error fetching lost reports:", error);
@@ -609,6 +2354,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post(
     "/api/lost-reports", 
+    requirePermission("lost-reports:write"),
     upload.single("document"), 
     async (req, res) => {
       try {
@@ -627,7 +2373,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           documentPath
         });
 
-        const lostReport = await storage.createLostReport(lostReportData);
+        if (await isTabletOutsideCampus(req, lostReportData.tabletId)) {
+          if (req.file) fs.unlinkSync(req.file.path);
+          return res.status(404).json({ message: "Tablet not found" });
+        }
+
+        const lostReport = await storage.createLostReport(lostReportData, auditContext(req));
+        await notifyLostReport(lostReport);
         res.status(201).json(lostReport);
       } catch (error) {
         console.error("Error creating lost report:", error);
@@ -644,7 +2396,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         } else {
           res.status(500).json({ 
-            message: "Failed to create lost report",
+            message: error instanceof Error ? error.message : "Failed to create lost report",
             error: error instanceof Error ? error.message : String(error)
           });
         }
@@ -652,10 +2404,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // Global search across students, tablets and borrowings; sections the user cannot read come back empty
+  app.get("/api/search", requirePermission("students:read"), async (req, res) => {
+    try {
+      const term = typeof req.query.q === "string" ? req.query.q : "";
+      const results = await storage.search(term, req.staffUser?.campusId ?? undefined);
+      res.json({
+        students: results.students,
+        tablets: hasPermission(req.staffUser?.role, "tablets:read") ? results.tablets : [],
+        borrowRecords: hasPermission(req.staffUser?.role, "borrowing:read") ? results.borrowRecords : [],
+      });
+    } catch (error) {
+      console.error("Error searching:", error);
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+
   // Dashboard routes
-  app.get("/api/dashboard/stats", async (req, res) => {
+  app.get("/api/dashboard/stats", requirePermission("dashboard:read"), async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
+      const stats = await storage.getDashboardStats(getOverdueThresholds(), campusScope(req));
       res.json(stats);
     } catch (error) {
       console.error("Error fetching dashboard stats:", error);
@@ -663,7 +2431,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/dashboard/recent-activity", async (req, res) => {
+  app.get("/api/dashboard/recent-activity", requirePermission("dashboard:read"), async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
       const recentActivity = await storage.getRecentActivity(limit);
@@ -674,8 +2442,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Audit routes
+  app.get("/api/audit", requirePermission("audit:read"), async (req, res) => {
+    try {
+      const { actorId, entityType, entityId, from, to, limit } = req.query as Record<string, string | undefined>;
+
+      if (entityType && !auditEntityTypes.includes(entityType as AuditEntityType)) {
+        return res.status(400).json({ message: "Invalid entity type" });
+      }
+
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(to) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+      // A bare date for "to" means the whole of that day
+      if (toDate && to && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+        toDate.setUTCHours(23, 59, 59, 999);
+      }
+
+      const entries = await storage.getAuditLog({
+        actorId: actorId ? parseInt(actorId) : undefined,
+        entityType: entityType as AuditEntityType | undefined,
+        entityId: entityId ? parseInt(entityId) : undefined,
+        from: fromDate,
+        to: toDate,
+        limit: limit ? Math.min(parseInt(limit) || 500, 5000) : undefined,
+      });
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  app.get("/api/audit/actors", requirePermission("audit:read"), async (req, res) => {
+    try {
+      const actors = await storage.getAuditActors();
+      res.json(actors);
+    } catch (error) {
+      console.error("Error fetching audit actors:", error);
+      res.status(500).json({ message: "Failed to fetch audit actors" });
+    }
+  });
+
   // Templates routes
-  app.get("/api/templates/students", (req, res) => {
+  app.get("/api/templates/students", requirePermission("students:import"), (req, res) => {
     res.setHeader('Content-Type', 'text/csv');
     res.setHeader('Content-Disposition', 'attachment; filename="students_template.csv"');
     
@@ -688,7 +2500,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Dates
       "Registration Date", "Validation Date", "Date Admitted",
       // Enrollment information
-      "Academic Year", "Term", "Campus", "Student Status",
+      "Academic Year and Term", "Campus", "Student Status",
       // Personal information
       "Date Of Birth", "Age", "Place Of Birth", "Gender", "Civil Status", 
       "Mobile No.", "Email", "Residence Address",
@@ -709,7 +2521,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Dates
       "2023-01-01", "2023-01-02", "2023-01-01",
       // Enrollment information
-      "2023-2024", "First", "Main", "New",
+      "2023-2024 First", "Main", "New",
       // Personal information
       "2000-05-15", "23", "Manila", "Male", "Single",
       "555-123-4567", "john.doe@example.com", "123 Main St, Apt 4B",
@@ -729,7 +2541,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Dates
       "2023-02-01", "2023-02-02", "2022-06-01",
       // Enrollment information
-      "2023-2024", "First", "Main", "Old",
+      "2023-2024 First", "Main", "Old",
       // Personal information
       "2001-10-20", "22", "Cebu", "Female", "Single",
       "555-987-6543", "jane.smith@example.com", "456 Oak Avenue",
@@ -744,10 +2556,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.send(`${headers}\n${sampleRow1}\n${sampleRow2}`);
   });
 
-  app.get("/api/templates/tablets", (req, res) => {
+  app.get("/api/templates/tablets", requirePermission("tablets:import"), (req, res) => {
     res.setHeader('Content-Type', 'text/csv');
     res.setHeader('Content-Disposition', 'attachment; filename="tablets_template.csv"');
-    res.send('brand,model,color,serialNumber,imei,status,condition,hasCharger,hasCable,hasBox,notes\nApple,iPad Pro (2021),Space Gray,DMQV32AABD3F,354856090324578,Serviceable,Good,true,true,false,"New tablet"\nSamsung,Galaxy Tab S7,Mystic Bronze,R9XN20BE456P,354912078906753,Serviceable,Good,true,false,true,"With stylus"');
+    res.send('brand,model,color,serialNumber,imei,status,condition,hasCharger,hasCable,hasBox,notes,poNumber,supplier,purchaseDate,unitCost,warrantyExpiry\nApple,iPad Pro (2021),Space Gray,DMQV32AABD3F,354856090324578,Serviceable,Good,true,true,false,"New tablet",PO-2024-0117,Digital Edge Trading,2024-06-14,45990.00,2025-06-14\nSamsung,Galaxy Tab S7,Mystic Bronze,R9XN20BE456P,354912078906753,Serviceable,Good,true,false,true,"With stylus",PO-2024-0117,Digital Edge Trading,2024-06-14,32990.00,');
+  });
+
+  app.get("/api/templates/bulk-borrowing", requirePermission("borrowing:write"), (req, res) => {
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', 'attachment; filename="bulk_borrowing_template.csv"');
+    res.send('studentId,serialNumber\n2024-00123,DMQV32AABD3F\n2024-00124,');
   });
 
   const httpServer = createServer(app);
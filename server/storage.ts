@@ -10,71 +10,1348 @@ import {
   type InsertTablet,
   type BorrowRecord,
   type InsertBorrowRecord,
+  type BulkBorrow,
+  type BulkBorrowIssue,
+  type BulkBorrowResult,
   type UpdateBorrowRecordForReturn,
   type LostReport,
   type InsertLostReport,
   type TabletHistory,
   type TabletWithBorrowInfo,
+  type TabletScanResult,
+  type InventorySession,
+  type InventorySessionSummary,
+  type InventorySessionWithDetails,
+  type InsertInventorySession,
+  type InventoryCount,
+  type InsertInventoryCount,
+  type InventoryDiscrepancy,
+  type InventoryReconciliation,
   type BorrowRecordWithDetails,
+  type GlobalSearchResults,
+  type EnrollmentSyncReport,
+  type StudentFieldChange,
   type StudentWithBorrowInfo,
-  admin
+  type Admin,
+  type StaffRole,
+  type StaffUser,
+  type UpdateStaffUser,
+  type AuditLogEntry,
+  type AuditAction,
+  type AuditEntityType,
+  type AuditChanges,
+  type AuditContext,
+  type Reservation,
+  type InsertReservation,
+  type ReservationStatus,
+  type ReservationWithDetails,
+  type ConvertReservation,
+  type OverdueLevel,
+  type OverdueBorrowRecord,
+  type DashboardStats,
+  type Notification,
+  type InsertNotification,
+  type Accessories,
+  type Accessory,
+  type AccessoryLiability,
+  type AccessoryLiabilityWithDetails,
+  type AccessoryReturn,
+  type TabletCondition,
+  type TabletStatus,
+  type RepairTicket,
+  type RepairTicketWithDetails,
+  type InsertRepairTicket,
+  type UpdateRepairTicket,
+  type CloseRepairTicket,
+  type ReplacementValue,
+  type InsertReplacementValue,
+  type DeviceModel,
+  type DeviceModelWithStats,
+  type InsertDeviceModel,
+  type ProcurementBatch,
+  type ProcurementBatchWithStats,
+  type InsertProcurementBatch,
+  type ImportTablet,
+  type StudentImportMapping,
+  type AcademicTerm,
+  type AcademicTermWithStats,
+  type InsertAcademicTerm,
+  type TermRollover,
+  type TermRolloverCandidate,
+  type TermRolloverPreview,
+  type TermRolloverResult,
+  type Campus,
+  type CampusWithStats,
+  type InsertCampus,
+  type TabletTransfer,
+  type TabletTransferWithDetails,
+  type TransferStatus,
+  type DispatchTransfer,
+  type WarrantyExpiringTablet,
+  type LedgerEntry,
+  type InsertLedgerEntry,
+  type StudentAccountability,
+  type StudentLedger,
+  type StudentClearance,
+  type ClearanceIssue,
+  type ClearanceCertificateWithStudent,
+  type BulkClearance,
+  accessoriesSchema,
+  accessoryEnum,
+  admin,
+  auditLog,
+  reservations,
+  notifications,
+  accessoryLiabilities,
+  repairTickets,
+  replacementValues,
+  deviceModels,
+  procurementBatches,
+  academicTerms,
+  studentImportMappings,
+  campuses,
+  tabletTransfers,
+  studentLedgerEntries,
+  clearanceCertificates,
+  inventorySessions,
+  inventoryCounts
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, isNull, desc, sql, inArray, not, asc } from "drizzle-orm";
+import { eq, and, or, isNull, desc, sql, inArray, not, asc, gt, gte, lt, lte, ne, ilike, type AnyColumn, type SQL } from "drizzle-orm";
 import bcrypt from "bcrypt";
+import { randomBytes } from "crypto";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import {
+  classifyOverdue,
+  daysPastDue,
+  defaultOverdueThresholds,
+  overdueLevelLabels,
+  overdueLevels,
+  type OverdueThresholds
+} from "@shared/overdue";
+import { defaultRepairConditionThreshold, needsRepair } from "@shared/repairs";
+import { warrantyExpiryFor } from "@shared/warranty";
+import { isEnrolledIn, termForDate } from "@shared/terms";
+import type { InsertStudentImportMapping } from "@shared/student-import";
+import {
+  depreciateTablet,
+  type DepreciableTablet,
+  type DepreciationLine,
+  type DepreciationReport,
+  type DepreciationSettings
+} from "@shared/depreciation";
+import type {
+  BorrowRecordListQuery,
+  Page,
+  SortOrder,
+  StudentListQuery,
+  TabletListQuery
+} from "@shared/pagination";
 
 export interface IStorage {
   // Student operations
   getStudents(): Promise<StudentWithBorrowInfo[]>;
+  getStudentsPage(query: StudentListQuery): Promise<Page<StudentWithBorrowInfo>>;
   getStudent(id: number): Promise<Student | undefined>;
   getStudentByStudentId(studentId: string): Promise<Student | undefined>;
   checkDuplicateStudents(students: InsertStudent[]): Promise<Student[]>;
-  createStudent(student: InsertStudent): Promise<Student>;
-  updateStudent(id: number, student: Partial<InsertStudent>): Promise<Student | undefined>;
-  deleteStudent(id: number): Promise<boolean>;
-  bulkCreateStudents(studentsList: InsertStudent[]): Promise<{ created: Student[]; duplicates: string[] }>;
+  createStudent(student: InsertStudent, context?: AuditContext): Promise<Student>;
+  updateStudent(id: number, student: Partial<InsertStudent>, context?: AuditContext): Promise<Student | undefined>;
+  deleteStudent(id: number, context?: AuditContext): Promise<boolean>;
+  bulkCreateStudents(studentsList: InsertStudent[], context?: AuditContext): Promise<{ created: Student[]; duplicates: string[] }>;
+  syncEnrollment(studentsList: InsertStudent[], options: EnrollmentSyncOptions, context?: AuditContext): Promise<Omit<EnrollmentSyncReport, 'invalid'>>;
+
+  // Student import mapping operations
+  getStudentImportMappings(): Promise<StudentImportMapping[]>;
+  createStudentImportMapping(mapping: InsertStudentImportMapping, context?: AuditContext): Promise<StudentImportMapping>;
+  updateStudentImportMapping(id: number, mapping: InsertStudentImportMapping, context?: AuditContext): Promise<StudentImportMapping | undefined>;
+  deleteStudentImportMapping(id: number, context?: AuditContext): Promise<boolean>;
 
   // Tablet operations
-  getTablets(): Promise<TabletWithBorrowInfo[]>;
+  getTablets(campusId?: number): Promise<TabletWithBorrowInfo[]>;
+  getTabletsPage(query: TabletListQuery): Promise<Page<TabletWithBorrowInfo>>;
   getTablet(id: number): Promise<Tablet | undefined>;
   getTabletBySerialNumber(serialNumber: string): Promise<Tablet | undefined>;
-  getAvailableTablets(): Promise<Tablet[]>;
-  createTablet(tablet: InsertTablet): Promise<Tablet>;
-  updateTablet(id: number, tablet: Partial<InsertTablet>): Promise<Tablet | undefined>;
-  deleteTablet(id: number): Promise<boolean>;
-  bulkCreateTablets(tabletsList: InsertTablet[]): Promise<{ created: Tablet[]; duplicates: string[] }>;
+  getAvailableTablets(campusId?: number): Promise<Tablet[]>;
+  findTabletByScan(code: string): Promise<TabletScanResult | undefined>;
+  createTablet(tablet: InsertTablet, context?: AuditContext): Promise<Tablet>;
+  updateTablet(id: number, tablet: Partial<InsertTablet>, context?: AuditContext): Promise<Tablet | undefined>;
+  deleteTablet(id: number, context?: AuditContext): Promise<boolean>;
+  bulkCreateTablets(tabletsList: ImportTablet[], context?: AuditContext): Promise<{ created: Tablet[]; duplicates: string[] }>;
 
   // Borrowing operations
-  getBorrowRecords(includeReturned?: boolean): Promise<BorrowRecordWithDetails[]>;
+  getBorrowRecords(includeReturned?: boolean, campusId?: number): Promise<BorrowRecordWithDetails[]>;
+  getBorrowRecordsPage(query: BorrowRecordListQuery, campusId?: number): Promise<Page<BorrowRecordWithDetails>>;
   getBorrowRecordsByStudent(studentId: number): Promise<BorrowRecordWithDetails[]>;
   getBorrowRecordsByTablet(tabletId: number): Promise<BorrowRecordWithDetails[]>;
   getBorrowRecord(id: number): Promise<BorrowRecordWithDetails | undefined>;
-  createBorrowRecord(borrowRecord: InsertBorrowRecord): Promise<BorrowRecord>;
-  processReturn(id: number, returnData: UpdateBorrowRecordForReturn): Promise<BorrowRecord | undefined>;
+  createBorrowRecord(borrowRecord: InsertBorrowRecord, context?: AuditContext): Promise<BorrowRecord>;
+  createBulkBorrowRecords(batch: BulkBorrow, campusId?: number, context?: AuditContext): Promise<BulkBorrowResult>;
+  processReturn(id: number, returnData: UpdateBorrowRecordForReturn, context?: AuditContext, repairThreshold?: TabletCondition): Promise<BorrowRecord | undefined>;
+  returnAccessories(id: number, accessoryReturn: AccessoryReturn, context?: AuditContext): Promise<AccessoryLiability[] | undefined>;
+  updateBorrowRecordAgreementPath(id: number, usufructAgreementPath: string, context?: AuditContext): Promise<BorrowRecord | undefined>;
+  attachSignedAgreement(id: number, signedAgreementPath: string, context?: AuditContext): Promise<BorrowRecord | undefined>;
+  verifyAgreement(id: number, context?: AuditContext): Promise<BorrowRecord | undefined>;
+  getOverdueBorrowRecords(thresholds?: OverdueThresholds, campusId?: number): Promise<OverdueBorrowRecord[]>;
+  recordOverdueEscalations(thresholds?: OverdueThresholds): Promise<OverdueEscalation[]>;
+
+  // Reservation operations
+  getReservations(includeClosed?: boolean, campusId?: number): Promise<ReservationWithDetails[]>;
+  getReservation(id: number): Promise<Reservation | undefined>;
+  createReservation(reservation: InsertReservation, context?: AuditContext): Promise<Reservation>;
+  cancelReservation(id: number, context?: AuditContext): Promise<Reservation | undefined>;
+  convertReservation(id: number, details: ConvertReservation, campusId?: number, context?: AuditContext): Promise<BorrowRecord | undefined>;
+  expireReservations(context?: AuditContext): Promise<number>;
 
   // Lost tablet operations
-  getLostReports(): Promise<LostReport[]>;
+  getLostReports(campusId?: number): Promise<LostReport[]>;
   getLostReport(id: number): Promise<LostReport | undefined>;
-  createLostReport(lostReport: InsertLostReport): Promise<LostReport>;
+  getLostReportsByStudent(studentId: number): Promise<LostReport[]>;
+  createLostReport(lostReport: InsertLostReport, context?: AuditContext): Promise<LostReport>;
+
+  // Repair ticket operations
+  getRepairTickets(includeClosed?: boolean, campusId?: number): Promise<RepairTicketWithDetails[]>;
+  getRepairTicket(id: number): Promise<RepairTicketWithDetails | undefined>;
+  createRepairTicket(ticket: InsertRepairTicket, context?: AuditContext): Promise<RepairTicket>;
+  updateRepairTicket(id: number, changes: UpdateRepairTicket, context?: AuditContext): Promise<RepairTicket | undefined>;
+  closeRepairTicket(id: number, resolution: CloseRepairTicket, context?: AuditContext): Promise<RepairTicket | undefined>;
+
+  // Device model catalog operations
+  getDeviceModels(): Promise<DeviceModelWithStats[]>;
+  createDeviceModel(deviceModel: InsertDeviceModel, context?: AuditContext): Promise<DeviceModel>;
+  updateDeviceModel(id: number, deviceModel: InsertDeviceModel, context?: AuditContext): Promise<DeviceModel | undefined>;
+  mergeDeviceModel(id: number, targetId: number, context?: AuditContext): Promise<DeviceModel | undefined>;
+  deleteDeviceModel(id: number, context?: AuditContext): Promise<boolean>;
+
+  // Procurement operations
+  getProcurementBatches(): Promise<ProcurementBatchWithStats[]>;
+  createProcurementBatch(batch: InsertProcurementBatch, context?: AuditContext): Promise<ProcurementBatch>;
+  updateProcurementBatch(id: number, batch: InsertProcurementBatch, context?: AuditContext): Promise<ProcurementBatch | undefined>;
+  deleteProcurementBatch(id: number, context?: AuditContext): Promise<boolean>;
+  getWarrantyExpiring(days: number): Promise<WarrantyExpiringTablet[]>;
+  getDepreciationReport(fiscalYear: number, settings: DepreciationSettings): Promise<DepreciationReport>;
+
+  // Accessory liability operations
+  // Academic term operations
+  getTerms(): Promise<AcademicTermWithStats[]>;
+  createTerm(term: InsertAcademicTerm, context?: AuditContext): Promise<AcademicTerm>;
+  updateTerm(id: number, term: InsertAcademicTerm, context?: AuditContext): Promise<AcademicTerm | undefined>;
+  deleteTerm(id: number, context?: AuditContext): Promise<boolean>;
+  previewTermRollover(fromTermId: number, toTermId: number): Promise<TermRolloverPreview | undefined>;
+  applyTermRollover(fromTermId: number, rollover: TermRollover, context?: AuditContext): Promise<TermRolloverResult | undefined>;
+
+  // Campus operations
+  getCampuses(): Promise<CampusWithStats[]>;
+  getCampus(id: number): Promise<Campus | undefined>;
+  createCampus(campus: InsertCampus, context?: AuditContext): Promise<Campus>;
+  updateCampus(id: number, campus: InsertCampus, context?: AuditContext): Promise<Campus | undefined>;
+  getTransfers(filters?: TransferFilters): Promise<TabletTransferWithDetails[]>;
+  getTransfer(id: number): Promise<TabletTransferWithDetails | undefined>;
+  dispatchTransfer(transfer: DispatchTransfer, fromCampusId?: number, context?: AuditContext): Promise<TabletTransfer[]>;
+  receiveTransfer(id: number, context?: AuditContext): Promise<TabletTransfer | undefined>;
+  cancelTransfer(id: number, context?: AuditContext): Promise<TabletTransfer | undefined>;
+
+  getAccessoryLiabilities(outstandingOnly?: boolean, campusId?: number): Promise<AccessoryLiabilityWithDetails[]>;
+  getAccessoryLiabilitiesByStudent(studentId: number): Promise<AccessoryLiabilityWithDetails[]>;
+
+  // Student ledger operations
+  getReplacementValues(): Promise<ReplacementValue[]>;
+  saveReplacementValue(value: InsertReplacementValue, context?: AuditContext): Promise<ReplacementValue>;
+  deleteReplacementValue(id: number, context?: AuditContext): Promise<boolean>;
+  getStudentLedger(studentId: number): Promise<StudentLedger | undefined>;
+  createLedgerEntry(studentId: number, entry: InsertLedgerEntry, context?: AuditContext): Promise<LedgerEntry>;
+  getStudentAccountabilities(outstandingOnly?: boolean): Promise<StudentAccountability[]>;
+
+  // Clearance operations
+  getStudentClearance(studentId: number): Promise<StudentClearance | undefined>;
+  issueClearanceCertificate(studentId: number, context?: AuditContext): Promise<StudentClearance>;
+  runBulkClearance(filter: BulkClearance, context?: AuditContext): Promise<StudentClearance[]>;
+  getClearanceCertificateByCode(verificationCode: string): Promise<ClearanceCertificateWithStudent | undefined>;
+
+  // Inventory (stock-take) operations
+  getInventorySessions(campusId?: number): Promise<InventorySessionSummary[]>;
+  getInventorySession(id: number): Promise<InventorySessionWithDetails | undefined>;
+  createInventorySession(session: InsertInventorySession, context?: AuditContext): Promise<InventorySession>;
+  recordInventoryCount(sessionId: number, count: InsertInventoryCount, context?: AuditContext): Promise<InventoryCount | undefined>;
+  removeInventoryCount(sessionId: number, tabletId: number, context?: AuditContext): Promise<boolean>;
+  completeInventorySession(id: number, context?: AuditContext): Promise<InventorySessionWithDetails | undefined>;
+
+  // Notification operations
+  createNotifications(notificationsList: InsertNotification[]): Promise<Notification[]>;
+  getNotificationsByStudent(studentId: number): Promise<Notification[]>;
+  getDueNotifications(limit?: number): Promise<Notification[]>;
+  markNotificationSent(id: number): Promise<void>;
+  markNotificationFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<void>;
+  retryNotification(id: number, context?: AuditContext): Promise<Notification | undefined>;
 
   // History operations
   getTabletHistory(tabletId: number): Promise<TabletHistory[]>;
   
+  // Search operations
+  search(term: string, campusId?: number): Promise<GlobalSearchResults>;
+
   // Dashboard data
-  getDashboardStats(): Promise<{
-    totalTablets: number;
-    totalStudents: number;
-    borrowedTablets: number;
-    lostTablets: number;
-  }>;
+  getDashboardStats(thresholds?: OverdueThresholds, campusId?: number): Promise<DashboardStats>;
   getRecentActivity(limit?: number): Promise<any[]>;
 
-  // Admin operations
-  getAdminByUsername(username: string): Promise<{ id: number; username: string; passwordHash: string } | undefined>;
-  createAdmin(username: string, password: string): Promise<void>;
-  updateAdminPassword(id: number, newPassword: string): Promise<void>;
+  // Admin (staff user) operations
+  getAdmins(): Promise<StaffUser[]>;
+  getAdmin(id: number): Promise<Admin | undefined>;
+  getAdminByUsername(username: string): Promise<Admin | undefined>;
+  createAdmin(username: string, password: string, options?: { role?: StaffRole; fullName?: string | null; campusId?: number | null }, context?: AuditContext): Promise<StaffUser | undefined>;
+  updateAdmin(id: number, data: UpdateStaffUser, context?: AuditContext): Promise<StaffUser | undefined>;
+  updateAdminPassword(id: number, newPassword: string, context?: AuditContext): Promise<void>;
+  recordAdminLogin(id: number): Promise<void>;
+
+  // Audit operations
+  getAuditLog(filters?: AuditLogFilters): Promise<AuditLogEntry[]>;
+  getAuditActors(): Promise<{ actorId: number | null; actorUsername: string | null }[]>;
+}
+
+export type OverdueEscalation = {
+  borrowRecordId: number;
+  level: OverdueLevel;
+};
+
+export type AuditLogFilters = {
+  actorId?: number;
+  entityType?: AuditEntityType;
+  entityId?: number;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+};
+
+export type TransferFilters = {
+  campusId?: number; // Transfers leaving or arriving at the campus
+  status?: TransferStatus;
+};
+
+export type EnrollmentSyncOptions = {
+  apply: boolean; // Otherwise only report what would change
+  unusableStudentIds?: string[]; // In the file but on rows that failed validation; never departures
+};
+
+// Either the shared connection or an open transaction
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Bookkeeping fields that change on every write and add nothing to the audit trail
+const auditIgnoredFields = new Set(["createdAt", "updatedAt"]);
+
+// Field-by-field differences between two versions of a row
+function diffFields(before: Record<string, any> | null, after: Record<string, any> | null): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = Array.from(new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]));
+  keys.forEach(key => {
+    if (auditIgnoredFields.has(key)) return;
+    const from = before?.[key] ?? null;
+    const to = after?.[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  });
+  return changes;
+}
+
+// Append an entry to the audit trail; updates that changed nothing are skipped
+async function recordAudit(
+  executor: DbExecutor,
+  context: AuditContext | undefined,
+  action: AuditAction,
+  entityType: AuditEntityType,
+  entityId: number,
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+): Promise<void> {
+  const changes = diffFields(before, after);
+  if (action === 'update' && Object.keys(changes).length === 0) return;
+
+  await executor.insert(auditLog).values({
+    actorId: context?.actorId ?? null,
+    actorUsername: context?.actorUsername ?? null,
+    action,
+    entityType,
+    entityId,
+    changes,
+    ipAddress: context?.ipAddress ?? null,
+  });
+}
+
+// Reservations still waiting for, or holding, a tablet
+const openReservationStatuses: ReservationStatus[] = ['Waiting', 'Assigned'];
+
+// Whether a tablet satisfies the brand and model a reservation asked for
+function matchesReservation(reservation: Reservation, tablet: Tablet): boolean {
+  const brandMatches = !reservation.requestedBrand ||
+    reservation.requestedBrand.toLowerCase() === tablet.brand.toLowerCase();
+  const modelMatches = !reservation.requestedModel ||
+    reservation.requestedModel.toLowerCase() === tablet.model.toLowerCase();
+  return brandMatches && modelMatches;
+}
+
+// Hold a tablet that has just become free for the next matching reservation in the queue
+async function assignNextReservation(
+  executor: DbExecutor,
+  tablet: Tablet,
+  context?: AuditContext
+): Promise<Reservation | undefined> {
+  if (tablet.status !== 'Serviceable') return undefined;
+
+  const [held] = await executor
+    .select({ id: reservations.id })
+    .from(reservations)
+    .where(and(eq(reservations.tabletId, tablet.id), eq(reservations.status, 'Assigned')));
+
+  const [borrowed] = await executor
+    .select({ id: borrowRecords.id })
+    .from(borrowRecords)
+    .where(and(eq(borrowRecords.tabletId, tablet.id), eq(borrowRecords.isReturned, false)));
+
+  if (held || borrowed) return undefined;
+
+  const now = new Date();
+  const [next] = await executor
+    .select()
+    .from(reservations)
+    .where(
+      and(
+        eq(reservations.status, 'Waiting'),
+        or(isNull(reservations.requestedBrand), sql`lower(${reservations.requestedBrand}) = lower(${tablet.brand})`),
+        or(isNull(reservations.requestedModel), sql`lower(${reservations.requestedModel}) = lower(${tablet.model})`),
+        or(isNull(reservations.expiresAt), gt(reservations.expiresAt, now))
+      )
+    )
+    .orderBy(desc(reservations.priority), asc(reservations.createdAt), asc(reservations.id))
+    .limit(1);
+
+  if (!next) return undefined;
+
+  const [assigned] = await executor
+    .update(reservations)
+    .set({
+      status: 'Assigned',
+      tabletId: tablet.id,
+      assignedAt: now,
+      updatedAt: now
+    })
+    .where(eq(reservations.id, next.id))
+    .returning();
+
+  await recordAudit(executor, context, 'update', 'reservation', next.id, next, assigned);
+
+  const [student] = await executor
+    .select()
+    .from(students)
+    .where(eq(students.id, next.studentId));
+
+  await executor.insert(tabletHistory).values({
+    tabletId: tablet.id,
+    studentId: next.studentId,
+    eventType: 'reserved',
+    date: now,
+    notes: `Held for ${student?.fullName ?? 'student'} (${student?.studentId ?? next.studentId}) from the reservation waitlist`,
+    actorId: context?.actorId
+  });
+
+  return assigned;
+}
+
+// Pass the tablet held by a reservation that has just closed on to the next in line
+async function releaseReservationTablet(
+  executor: DbExecutor,
+  reservation: Reservation,
+  context?: AuditContext
+): Promise<void> {
+  if (reservation.status !== 'Assigned' || !reservation.tabletId) return;
+
+  const [tablet] = await executor
+    .select()
+    .from(tablets)
+    .where(eq(tablets.id, reservation.tabletId));
+
+  if (tablet) {
+    await assignNextReservation(executor, tablet, context);
+  }
+}
+
+// Send a reservation whose held tablet can no longer be lent back to the queue, keeping its place,
+// and hold another free matching tablet for the queue if there is one
+async function requeueReservation(
+  executor: DbExecutor,
+  reservation: Reservation,
+  context?: AuditContext
+): Promise<void> {
+  const [requeued] = await executor
+    .update(reservations)
+    .set({ status: 'Waiting', tabletId: null, assignedAt: null, updatedAt: new Date() })
+    .where(eq(reservations.id, reservation.id))
+    .returning();
+
+  await recordAudit(executor, context, 'update', 'reservation', reservation.id, reservation, requeued);
+
+  const candidates = await executor
+    .select()
+    .from(tablets)
+    .where(
+      and(
+        eq(tablets.status, 'Serviceable'),
+        reservation.requestedBrand ? sql`lower(${tablets.brand}) = lower(${reservation.requestedBrand})` : undefined,
+        reservation.requestedModel ? sql`lower(${tablets.model}) = lower(${reservation.requestedModel})` : undefined
+      )
+    )
+    .orderBy(asc(tablets.id));
+
+  for (const tablet of candidates) {
+    const assigned = await assignNextReservation(executor, tablet, context);
+    if (assigned?.id === reservation.id) break;
+  }
+}
+
+// Tablet columns recording whether each accessory is on hand
+const tabletAccessoryFields: Record<Accessory, 'hasCharger' | 'hasCable' | 'hasBox'> = {
+  charger: 'hasCharger',
+  cable: 'hasCable',
+  box: 'hasBox',
+};
+
+const accessoryLabels: Record<Accessory, string> = {
+  charger: 'Charger',
+  cable: 'Cable',
+  box: 'Box',
+};
+
+// Borrow records keep accessories as JSON, which older rows may have stored as a string
+function parseAccessories(value: unknown): Accessories {
+  try {
+    const result = accessoriesSchema.safeParse(typeof value === 'string' ? JSON.parse(value) : value ?? {});
+    return result.success ? result.data : { charger: false, cable: false, box: false };
+  } catch {
+    return { charger: false, cable: false, box: false };
+  }
+}
+
+// Columns the paged lists can be sorted by, keyed by the sort parameter
+const studentSortColumns: Record<StudentListQuery['sort'], AnyColumn> = {
+  studentId: students.studentId,
+  fullName: students.fullName,
+  programCode: students.programCode,
+  yearLevel: students.yearLevel,
+  dateRegistered: students.dateRegistered,
+};
+
+const tabletSortColumns: Record<TabletListQuery['sort'], AnyColumn> = {
+  brand: tablets.brand,
+  serialNumber: tablets.serialNumber,
+  status: tablets.status,
+  condition: tablets.condition,
+  createdAt: tablets.createdAt,
+};
+
+const borrowRecordSortColumns: Record<BorrowRecordListQuery['sort'], AnyColumn> = {
+  dateBorrowed: borrowRecords.dateBorrowed,
+  expectedReturnDate: borrowRecords.expectedReturnDate,
+  returnDate: borrowRecords.returnDate,
+  student: students.fullName,
+  tablet: tablets.serialNumber,
+};
+
+const sortBy = (column: AnyColumn, order: SortOrder) => order === 'asc' ? asc(column) : desc(column);
+
+// Case-insensitive substring match of the search text against any of the columns
+const searchColumns = (search: string, ...columns: AnyColumn[]) =>
+  or(...columns.map(column => ilike(column, `%${search.replace(/[\\%_]/g, '\\$&')}%`)));
+
+// Left alone by an enrollment sync: when the student was first registered, staff notes and the
+// sync's own bookkeeping
+const enrollmentSyncIgnoredFields: (keyof InsertStudent)[] = ['dateRegistered', 'notes', 'isEnrolled', 'enrollmentSyncedAt'];
+
+// Dates compare by day; blank text counts as no value
+const comparableStudentValue = (value: unknown) => {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (value === undefined || value === '') return null;
+  return value;
+};
+
+// Fields of an existing student the enrollment file changes. Blank cells never clear what is on
+// record, and a student who reappears in the file is enrolled again.
+function diffEnrolledStudent(current: Student, incoming: InsertStudent): StudentFieldChange[] {
+  const changes: StudentFieldChange[] = [];
+  (Object.keys(incoming) as (keyof InsertStudent)[]).forEach(field => {
+    if (enrollmentSyncIgnoredFields.includes(field) || !(field in current)) return;
+    const to = comparableStudentValue(incoming[field]);
+    if (to === null || to === comparableStudentValue(current[field])) return;
+    changes.push({ field, from: current[field], to: incoming[field] });
+  });
+  if (!current.isEnrolled) changes.push({ field: 'isEnrolled', from: false, to: true });
+  return changes;
+}
+
+// Rows per insert when adding students in bulk; a student row binds about 35 parameters and
+// Postgres allows 65535 in one statement
+const studentInsertChunkSize = 500;
+
+// Most matches returned per section of the global search
+const searchResultLimit = 8;
+
+// Ids of students and tablets with a borrowing still out
+const activeBorrowerIds = () =>
+  db.select({ id: borrowRecords.studentId }).from(borrowRecords).where(eq(borrowRecords.isReturned, false));
+const borrowedTabletIds = () =>
+  db.select({ id: borrowRecords.tabletId }).from(borrowRecords).where(eq(borrowRecords.isReturned, false));
+
+// Ids of the tablets kept at a campus
+const campusTabletIds = (campusId: number) =>
+  db.select({ id: tablets.id }).from(tablets).where(eq(tablets.campusId, campusId));
+
+// Lend a tablet to a student, enforcing every borrowing rule: the tablet must exist, be serviceable,
+// not on loan, not in transit and not held for someone else. Fulfils the student's open reservation.
+async function borrowTablet(executor: DbExecutor, borrowRecord: InsertBorrowRecord, context?: AuditContext): Promise<BorrowRecord> {
+  // Validate student ID 
+  const [student] = await executor
+    .select()
+    .from(students)
+    .where(eq(students.id, borrowRecord.studentId));
+  
+  if (!student) {
+    throw new Error(`Student with ID ${borrowRecord.studentId} not found`);
+  }
+
+  // Format accessories if it's a string
+  let accessories = borrowRecord.accessories;
+  if (typeof accessories === 'string') {
+    try {
+      accessories = JSON.parse(accessories);
+    } catch (e) {
+      console.error("Failed to parse accessories JSON:", e);
+      throw new Error("Invalid accessories format");
+    }
+  }
+  
+  // Check if tablet is available (not currently borrowed)
+  const [activeRecord] = await executor
+    .select()
+    .from(borrowRecords)
+    .where(
+      and(
+        eq(borrowRecords.tabletId, borrowRecord.tabletId),
+        eq(borrowRecords.isReturned, false)
+      )
+    );
+  
+  if (activeRecord) {
+    throw new Error('Tablet is already borrowed');
+  }
+  
+  // Check if tablet exists and is serviceable
+  const [tablet] = await executor
+    .select()
+    .from(tablets)
+    .where(eq(tablets.id, borrowRecord.tabletId));
+  
+  if (!tablet) {
+    throw new Error('Tablet not found');
+  }
+  
+  if (tablet.status !== 'Serviceable') {
+    throw new Error(`Tablet is not serviceable: ${tablet.status}`);
+  }
+  
+  // A tablet held for a reservation can only go to that student
+  const [hold] = await executor
+    .select()
+    .from(reservations)
+    .where(
+      and(
+        eq(reservations.tabletId, tablet.id),
+        eq(reservations.status, 'Assigned')
+      )
+    );
+  
+  if (hold && hold.studentId !== borrowRecord.studentId) {
+    throw new Error('Tablet is reserved for another student');
+  }
+  
+  const [transfer] = await executor
+    .select({ id: tabletTransfers.id })
+    .from(tabletTransfers)
+    .where(and(eq(tabletTransfers.tabletId, tablet.id), eq(tabletTransfers.status, 'In Transit')));
+  
+  if (transfer) {
+    throw new Error('Tablet is in transit to another campus');
+  }
+  
+  // Without a term chosen, the borrowing belongs to the term it was made in and is due at its end
+  const terms = await executor.select().from(academicTerms);
+  const term = borrowRecord.termId
+    ? terms.find(t => t.id === borrowRecord.termId)
+    : termForDate(terms, format(borrowRecord.dateBorrowed ?? new Date(), 'yyyy-MM-dd'));
+  if (borrowRecord.termId && !term) {
+    throw new Error('Academic term not found');
+  }
+  
+  // Prepare the data for insertion
+  const borrowData = {
+    ...borrowRecord,
+    accessories: accessories,
+    termId: term?.id ?? null,
+    expectedReturnDate: borrowRecord.expectedReturnDate instanceof Date
+      ? borrowRecord.expectedReturnDate.toISOString().slice(0, 10)
+      : borrowRecord.expectedReturnDate ?? term?.endDate ?? null
+  };
+  
+  // Create borrow record
+  const [newBorrowRecord] = await executor
+    .insert(borrowRecords)
+    .values(borrowData)
+    .returning();
+  
+  // Add to tablet history with detailed information
+  await executor.insert(tabletHistory).values({
+    tabletId: borrowRecord.tabletId,
+    studentId: borrowRecord.studentId,
+    borrowRecordId: newBorrowRecord.id,
+    eventType: 'borrowed',
+    date: newBorrowRecord.dateBorrowed,
+    condition: borrowRecord.condition,
+    accessories: accessories,
+    notes: `Borrowed by ${student.fullName || `${student.firstName} ${student.lastName}`} (${student.studentId}). Accessories: ${JSON.stringify(accessories)}`,
+    actorId: context?.actorId
+  });
+  
+  await recordAudit(executor, context, 'create', 'borrow_record', newBorrowRecord.id, null, newBorrowRecord);
+  
+  // The borrowing fulfils the student's open reservation
+  const [openReservation] = await executor
+    .select()
+    .from(reservations)
+    .where(
+      and(
+        eq(reservations.studentId, borrowRecord.studentId),
+        inArray(reservations.status, openReservationStatuses)
+      )
+    );
+  
+  if (openReservation) {
+    const [fulfilledReservation] = await executor
+      .update(reservations)
+      .set({
+        status: 'Fulfilled',
+        tabletId: borrowRecord.tabletId,
+        borrowRecordId: newBorrowRecord.id,
+        updatedAt: new Date()
+      })
+      .where(eq(reservations.id, openReservation.id))
+      .returning();
+    
+    await recordAudit(executor, context, 'update', 'reservation', openReservation.id, openReservation, fulfilledReservation);
+    
+    // A different tablet held for the student goes back to the queue
+    if (openReservation.tabletId !== borrowRecord.tabletId) {
+      await releaseReservationTablet(executor, openReservation, context);
+    }
+  }
+  
+  return newBorrowRecord;
+}
+
+const describeAccessories = (list: Accessory[]) =>
+  list.length > 0 ? list.map(accessory => accessoryLabels[accessory]).join(', ') : 'none';
+
+// Numeric columns take strings; keep undefined and null as they are
+const toMoney = (value: number | null | undefined) =>
+  value === undefined || value === null ? value : value.toFixed(2);
+
+// Open a repair ticket and take the tablet out of circulation until it is closed
+async function openRepairTicket(
+  executor: DbExecutor,
+  tablet: Tablet,
+  details: { borrowRecordId?: number | null; reportedCondition: TabletCondition; description?: string | null },
+  context?: AuditContext
+): Promise<{ ticket: RepairTicket; tablet: Tablet }> {
+  const [ticket] = await executor
+    .insert(repairTickets)
+    .values({
+      tabletId: tablet.id,
+      borrowRecordId: details.borrowRecordId ?? null,
+      reportedCondition: details.reportedCondition,
+      description: details.description ?? null,
+      openedBy: context?.actorId ?? null,
+    })
+    .returning();
+
+  await recordAudit(executor, context, 'create', 'repair_ticket', ticket.id, null, ticket);
+
+  const [updatedTablet] = await executor
+    .update(tablets)
+    .set({ status: 'Unserviceable', condition: details.reportedCondition, updatedAt: new Date() })
+    .where(eq(tablets.id, tablet.id))
+    .returning();
+
+  await recordAudit(executor, context, 'update', 'tablet', tablet.id, tablet, updatedTablet);
+
+  // A tablet going in for repair can no longer be held for a reservation
+  const heldFor = await executor
+    .select()
+    .from(reservations)
+    .where(and(eq(reservations.tabletId, tablet.id), eq(reservations.status, 'Assigned')));
+
+  for (const reservation of heldFor) {
+    const [requeued] = await executor
+      .update(reservations)
+      .set({ status: 'Waiting', tabletId: null, assignedAt: null, updatedAt: new Date() })
+      .where(eq(reservations.id, reservation.id))
+      .returning();
+
+    await recordAudit(executor, context, 'update', 'reservation', reservation.id, reservation, requeued);
+  }
+
+  await executor.insert(tabletHistory).values({
+    tabletId: tablet.id,
+    borrowRecordId: details.borrowRecordId ?? null,
+    eventType: 'repair_opened',
+    date: new Date(),
+    condition: details.reportedCondition,
+    notes: `Repair ticket #${ticket.id} opened for a tablet in ${details.reportedCondition} condition. ` +
+      `Status changed from ${tablet.status} to Unserviceable.` +
+      (details.description ? ` ${details.description}` : ''),
+    actorId: context?.actorId
+  });
+
+  return { ticket, tablet: updatedTablet };
 }
 
+// Attach the tablet to each repair ticket
+async function withRepairTicketDetails(tickets: RepairTicket[]): Promise<RepairTicketWithDetails[]> {
+  if (tickets.length === 0) return [];
+
+  const tabletIds = Array.from(new Set(tickets.map(t => t.tabletId)));
+  const tabletDetails = await db.select().from(tablets).where(inArray(tablets.id, tabletIds));
+  const tabletsMap = new Map(tabletDetails.map(t => [t.id, t]));
+
+  return tickets.map(ticket => ({
+    ...ticket,
+    tablet: tabletsMap.get(ticket.tabletId)!,
+  }));
+}
+
+// Attach the student and tablet to each accessory liability
+async function withLiabilityDetails(liabilities: AccessoryLiability[]): Promise<AccessoryLiabilityWithDetails[]> {
+  if (liabilities.length === 0) return [];
+
+  const studentIds = Array.from(new Set(liabilities.map(l => l.studentId)));
+  const tabletIds = Array.from(new Set(liabilities.map(l => l.tabletId)));
+
+  const studentDetails = await db.select().from(students).where(inArray(students.id, studentIds));
+  const tabletDetails = await db.select().from(tablets).where(inArray(tablets.id, tabletIds));
+
+  const studentsMap = new Map(studentDetails.map(s => [s.id, s]));
+  const tabletsMap = new Map(tabletDetails.map(t => [t.id, t]));
+
+  return liabilities.map(liability => ({
+    ...liability,
+    student: studentsMap.get(liability.studentId)!,
+    tablet: tabletsMap.get(liability.tabletId)!,
+  }));
+}
+
+// Another term whose dates overlap the given ones; terms may touch but not overlap
+async function findOverlappingTerm(executor: DbExecutor, term: InsertAcademicTerm, excludeId?: number): Promise<AcademicTerm | undefined> {
+  const conditions: SQL[] = [lte(academicTerms.startDate, term.endDate), gte(academicTerms.endDate, term.startDate)];
+  if (excludeId !== undefined) conditions.push(ne(academicTerms.id, excludeId));
+  const [overlapping] = await executor.select().from(academicTerms).where(and(...conditions));
+  return overlapping;
+}
+
+// Active borrowings a rollover of the term applies to. Borrowings made before terms were set up
+// have no term, so those due by the term's end (or with no due date) are included as well.
+async function rolloverCandidates(executor: DbExecutor, fromTerm: AcademicTerm, toTerm: AcademicTerm): Promise<TermRolloverCandidate[]> {
+  const rows = await executor
+    .select({ record: borrowRecords, tablet: tablets, student: students })
+    .from(borrowRecords)
+    .innerJoin(tablets, eq(borrowRecords.tabletId, tablets.id))
+    .innerJoin(students, eq(borrowRecords.studentId, students.id))
+    .where(and(
+      eq(borrowRecords.isReturned, false),
+      or(
+        eq(borrowRecords.termId, fromTerm.id),
+        and(
+          isNull(borrowRecords.termId),
+          or(isNull(borrowRecords.expectedReturnDate), lte(borrowRecords.expectedReturnDate, fromTerm.endDate))
+        )
+      )
+    ))
+    .orderBy(asc(students.fullName));
+
+  return rows.map(({ record, tablet, student }) => {
+    const enrolled = isEnrolledIn(student, toTerm);
+    return {
+      borrowRecord: { ...record, tablet, student },
+      action: enrolled ? 'extend' : 'recall',
+      reason: enrolled
+        ? `Enrolled for ${toTerm.name}`
+        : student.academicYearTerm
+          ? `Last enrolled for ${student.academicYearTerm}`
+          : 'No enrollment on record',
+    };
+  });
+}
+
+async function withTransferDetails(transfers: TabletTransfer[]): Promise<TabletTransferWithDetails[]> {
+  if (transfers.length === 0) return [];
+
+  const tabletIds = Array.from(new Set(transfers.map(t => t.tabletId)));
+  const staffIds = Array.from(new Set(
+    transfers.flatMap(t => [t.dispatchedBy, t.receivedBy]).filter((id): id is number => id !== null)
+  ));
+
+  const tabletDetails = await db.select().from(tablets).where(inArray(tablets.id, tabletIds));
+  const campusDetails = await db.select().from(campuses);
+  const staffDetails = staffIds.length > 0
+    ? await db.select({ id: admin.id, username: admin.username, fullName: admin.fullName }).from(admin).where(inArray(admin.id, staffIds))
+    : [];
+
+  const tabletsMap = new Map(tabletDetails.map(t => [t.id, t]));
+  const campusesMap = new Map(campusDetails.map(c => [c.id, c]));
+  const staffNames = new Map(staffDetails.map(s => [s.id, s.fullName || s.username]));
+
+  return transfers.map(transfer => ({
+    ...transfer,
+    tablet: tabletsMap.get(transfer.tabletId)!,
+    fromCampus: transfer.fromCampusId !== null ? campusesMap.get(transfer.fromCampusId) ?? null : null,
+    toCampus: campusesMap.get(transfer.toCampusId)!,
+    dispatchedByName: transfer.dispatchedBy !== null ? staffNames.get(transfer.dispatchedBy) ?? null : null,
+    receivedByName: transfer.receivedBy !== null ? staffNames.get(transfer.receivedBy) ?? null : null,
+  }));
+}
+
+// Replacement value columns holding the price of each accessory
+const accessoryValueFields: Record<Accessory, 'chargerValue' | 'cableValue' | 'boxValue'> = {
+  charger: 'chargerValue',
+  cable: 'cableValue',
+  box: 'boxValue',
+};
+
+// Catalog match key: case, spacing and punctuation are ignored, as in device_models_key_idx.
+// Storage is left out, so a model bought in several storage sizes has a single entry.
+const deviceModelKey = (brand: string, model: string) =>
+  `${brand}${model}`.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const matchesDeviceModelKey = (brand: AnyColumn, model: AnyColumn, key: string) =>
+  sql`lower(regexp_replace(${brand} || ${model}, '[^a-zA-Z0-9]', '', 'g')) = ${key}`;
+
+// Catalog entry for a tablet, picked by id or matched by name; a model seen for the first time is added to the catalog
+async function resolveDeviceModel(
+  executor: DbExecutor,
+  tablet: { brand: string; model: string; modelId?: number | null },
+  context?: AuditContext
+): Promise<DeviceModel> {
+  if (tablet.modelId) {
+    const [selected] = await executor.select().from(deviceModels).where(eq(deviceModels.id, tablet.modelId));
+    if (!selected) throw new Error('Device model not found');
+    return selected;
+  }
+
+  const [existing] = await executor
+    .select()
+    .from(deviceModels)
+    .where(matchesDeviceModelKey(deviceModels.brand, deviceModels.model, deviceModelKey(tablet.brand, tablet.model)));
+  if (existing) return existing;
+
+  const [created] = await executor
+    .insert(deviceModels)
+    .values({ brand: tablet.brand.trim(), model: tablet.model.trim() })
+    .returning();
+  await recordAudit(executor, context, 'create', 'device_model', created.id, null, created);
+  return created;
+}
+
+// Point a model's tablets at a catalog entry, keeping their brand and model text in step with it
+async function syncTabletsToDeviceModel(executor: DbExecutor, fromModelId: number, target: DeviceModel, context?: AuditContext) {
+  const affected = await executor.select().from(tablets).where(eq(tablets.modelId, fromModelId));
+  for (const tablet of affected) {
+    if (tablet.modelId === target.id && tablet.brand === target.brand && tablet.model === target.model) continue;
+
+    const [updated] = await executor
+      .update(tablets)
+      .set({ modelId: target.id, brand: target.brand, model: target.model, updatedAt: new Date() })
+      .where(eq(tablets.id, tablet.id))
+      .returning();
+    await recordAudit(executor, context, 'update', 'tablet', tablet.id, tablet, updated);
+  }
+}
+
+// The batch with this PO number, created from the given details if it does not exist yet
+async function resolveProcurementBatch(
+  executor: DbExecutor,
+  details: InsertProcurementBatch,
+  context?: AuditContext
+): Promise<ProcurementBatch> {
+  const [existing] = await executor
+    .select()
+    .from(procurementBatches)
+    .where(sql`lower(${procurementBatches.poNumber}) = lower(${details.poNumber})`);
+  if (existing) return existing;
+
+  const [created] = await executor
+    .insert(procurementBatches)
+    .values({ ...details, unitCost: toMoney(details.unitCost) })
+    .returning();
+  await recordAudit(executor, context, 'create', 'procurement_batch', created.id, null, created);
+  return created;
+}
+
+type ReplacementAmounts = Pick<ReplacementValue, 'tabletValue' | 'chargerValue' | 'cableValue' | 'boxValue'>;
+
+// Replacement values configured for the tablet's model, falling back to the catalog's replacement cost for the unit itself
+async function findReplacementValue(executor: DbExecutor, tablet: Tablet): Promise<ReplacementAmounts | undefined> {
+  const [value] = await executor
+    .select()
+    .from(replacementValues)
+    .where(matchesDeviceModelKey(replacementValues.brand, replacementValues.model, deviceModelKey(tablet.brand, tablet.model)));
+  if (value) return value;
+
+  if (!tablet.modelId) return undefined;
+  const [deviceModel] = await executor.select().from(deviceModels).where(eq(deviceModels.id, tablet.modelId));
+  if (!deviceModel?.replacementCost) return undefined;
+
+  return { tabletValue: deviceModel.replacementCost, chargerValue: '0', cableValue: '0', boxValue: '0' };
+}
+
+// Add a charge, payment or waiver to a student's ledger
+async function postLedgerEntry(
+  executor: DbExecutor,
+  entry: typeof studentLedgerEntries.$inferInsert,
+  context?: AuditContext
+): Promise<LedgerEntry> {
+  const [posted] = await executor.insert(studentLedgerEntries).values(entry).returning();
+  await recordAudit(executor, context, 'create', 'ledger_entry', posted.id, null, posted);
+  return posted;
+}
+
+// Charges less payments and waivers on a student's ledger, optionally for one accessory liability only
+async function ledgerBalance(executor: DbExecutor, studentId: number, accessoryLiabilityId?: number): Promise<number> {
+  const [result] = await executor
+    .select({
+      balance: sql<string>`coalesce(sum(case when ${studentLedgerEntries.entryType} = 'charge' then ${studentLedgerEntries.amount} else -${studentLedgerEntries.amount} end), 0)`,
+    })
+    .from(studentLedgerEntries)
+    .where(
+      and(
+        eq(studentLedgerEntries.studentId, studentId),
+        accessoryLiabilityId ? eq(studentLedgerEntries.accessoryLiabilityId, accessoryLiabilityId) : undefined
+      )
+    );
+  return Number(result?.balance ?? 0);
+}
+
+// What is still owed on each charge, in centavos. Credits tied to the same lost report or accessory
+// settle that charge first; the rest of each student's credit goes to their oldest charges.
+function unpaidCharges(entries: LedgerEntry[]): Map<number, number> {
+  const cents = (amount: string) => Math.round(Number(amount) * 100);
+  const sorted = [...entries].sort((a, b) =>
+    new Date(a.entryDate).getTime() - new Date(b.entryDate).getTime() || a.id - b.id
+  );
+  const charges = sorted.filter(entry => entry.entryType === 'charge');
+  const unpaid = new Map(charges.map(charge => [charge.id, cents(charge.amount)]));
+  const unallocated = new Map<number, number>();
+
+  const apply = (chargeId: number, available: number) => {
+    const applied = Math.min(available, unpaid.get(chargeId)!);
+    unpaid.set(chargeId, unpaid.get(chargeId)! - applied);
+    return available - applied;
+  };
+
+  sorted.filter(entry => entry.entryType !== 'charge').forEach(credit => {
+    let remaining = cents(credit.amount);
+    charges
+      .filter(charge =>
+        charge.studentId === credit.studentId &&
+        ((credit.lostReportId && charge.lostReportId === credit.lostReportId) ||
+          (credit.accessoryLiabilityId && charge.accessoryLiabilityId === credit.accessoryLiabilityId))
+      )
+      .forEach(charge => { remaining = apply(charge.id, remaining); });
+    unallocated.set(credit.studentId, (unallocated.get(credit.studentId) ?? 0) + remaining);
+  });
+
+  charges.forEach(charge => {
+    unallocated.set(charge.studentId, apply(charge.id, unallocated.get(charge.studentId) ?? 0));
+  });
+
+  return unpaid;
+}
+
+// Lost reports that were never billed, or whose charges are not yet settled
+async function findUnresolvedLostReports(studentIds?: number[]): Promise<LostReport[]> {
+  if (studentIds && studentIds.length === 0) return [];
+
+  const reports = await db
+    .select()
+    .from(lostReports)
+    .where(studentIds ? inArray(lostReports.studentId, studentIds) : undefined)
+    .orderBy(asc(lostReports.dateReported));
+  if (reports.length === 0) return [];
+
+  const entries = await db
+    .select()
+    .from(studentLedgerEntries)
+    .where(inArray(studentLedgerEntries.studentId, Array.from(new Set(reports.map(r => r.studentId)))));
+  const unpaid = unpaidCharges(entries);
+
+  return reports.filter(report => {
+    const charges = entries.filter(entry => entry.entryType === 'charge' && entry.lostReportId === report.id);
+    return charges.length === 0 || charges.some(charge => (unpaid.get(charge.id) ?? 0) > 0);
+  });
+}
+
+// Balances and outstanding items per student; without ids, every student who owes or owed anything
+async function buildAccountabilities(studentIds?: number[]): Promise<StudentAccountability[]> {
+  if (studentIds && studentIds.length === 0) return [];
+
+  const ledgerTotals = await db
+    .select({
+      studentId: studentLedgerEntries.studentId,
+      charges: sql<string>`coalesce(sum(${studentLedgerEntries.amount}) filter (where ${studentLedgerEntries.entryType} = 'charge'), 0)`,
+      payments: sql<string>`coalesce(sum(${studentLedgerEntries.amount}) filter (where ${studentLedgerEntries.entryType} = 'payment'), 0)`,
+      waivers: sql<string>`coalesce(sum(${studentLedgerEntries.amount}) filter (where ${studentLedgerEntries.entryType} = 'waiver'), 0)`,
+    })
+    .from(studentLedgerEntries)
+    .where(studentIds ? inArray(studentLedgerEntries.studentId, studentIds) : undefined)
+    .groupBy(studentLedgerEntries.studentId);
+
+  const borrowingCounts = await db
+    .select({ studentId: borrowRecords.studentId, count: sql<number>`count(*)::int` })
+    .from(borrowRecords)
+    .where(
+      and(
+        eq(borrowRecords.isReturned, false),
+        studentIds ? inArray(borrowRecords.studentId, studentIds) : undefined
+      )
+    )
+    .groupBy(borrowRecords.studentId);
+
+  const accessoryCounts = await db
+    .select({ studentId: accessoryLiabilities.studentId, count: sql<number>`count(*)::int` })
+    .from(accessoryLiabilities)
+    .where(
+      and(
+        eq(accessoryLiabilities.status, 'outstanding'),
+        studentIds ? inArray(accessoryLiabilities.studentId, studentIds) : undefined
+      )
+    )
+    .groupBy(accessoryLiabilities.studentId);
+
+  const unresolvedReports = await findUnresolvedLostReports(studentIds);
+
+  const ids = studentIds ?? Array.from(new Set([
+    ...ledgerTotals.map(t => t.studentId),
+    ...borrowingCounts.map(c => c.studentId),
+    ...accessoryCounts.map(c => c.studentId),
+    ...unresolvedReports.map(r => r.studentId),
+  ]));
+  if (ids.length === 0) return [];
+
+  const studentDetails = await db
+    .select()
+    .from(students)
+    .where(inArray(students.id, ids))
+    .orderBy(asc(students.lastName), asc(students.firstName));
+
+  const totalsMap = new Map(ledgerTotals.map(t => [t.studentId, t]));
+  const borrowingMap = new Map(borrowingCounts.map(c => [c.studentId, c.count]));
+  const accessoryMap = new Map(accessoryCounts.map(c => [c.studentId, c.count]));
+
+  return studentDetails.map(student => {
+    const totals = totalsMap.get(student.id);
+    const totalCharges = Number(totals?.charges ?? 0);
+    const totalPayments = Number(totals?.payments ?? 0);
+    const totalWaivers = Number(totals?.waivers ?? 0);
+    const balance = Math.round((totalCharges - totalPayments - totalWaivers) * 100) / 100;
+    const activeBorrowings = borrowingMap.get(student.id) ?? 0;
+    const outstandingAccessories = accessoryMap.get(student.id) ?? 0;
+    const unresolvedLostReports = unresolvedReports.filter(report => report.studentId === student.id).length;
+    const isCleared = balance <= 0 && activeBorrowings === 0 && outstandingAccessories === 0 && unresolvedLostReports === 0;
+
+    return {
+      student,
+      totalCharges,
+      totalPayments,
+      totalWaivers,
+      balance,
+      activeBorrowings,
+      outstandingAccessories,
+      unresolvedLostReports,
+      clearanceStatus: isCleared ? 'Cleared' : 'Not Cleared',
+    };
+  });
+}
+
+const describeTablet = (tablet: Tablet | undefined) =>
+  tablet ? `${tablet.brand} ${tablet.model} (SN: ${tablet.serialNumber})` : 'Tablet';
+
+// Check each student's clearance and list whatever is keeping them from being cleared
+async function evaluateClearances(studentIds: number[]): Promise<StudentClearance[]> {
+  const accountabilities = await buildAccountabilities(studentIds);
+  if (accountabilities.length === 0) return [];
+
+  const activeBorrowings = await db
+    .select()
+    .from(borrowRecords)
+    .where(and(eq(borrowRecords.isReturned, false), inArray(borrowRecords.studentId, studentIds)));
+
+  const missingAccessories = await db
+    .select()
+    .from(accessoryLiabilities)
+    .where(and(eq(accessoryLiabilities.status, 'outstanding'), inArray(accessoryLiabilities.studentId, studentIds)));
+
+  const unresolvedReports = await findUnresolvedLostReports(studentIds);
+
+  const tabletIds = Array.from(new Set([
+    ...activeBorrowings.map(r => r.tabletId),
+    ...missingAccessories.map(l => l.tabletId),
+    ...unresolvedReports.map(r => r.tabletId),
+  ]));
+  const tabletDetails = tabletIds.length > 0
+    ? await db.select().from(tablets).where(inArray(tablets.id, tabletIds))
+    : [];
+  const tabletsMap = new Map(tabletDetails.map(t => [t.id, t]));
+
+  return accountabilities.map(accountability => {
+    const studentId = accountability.student.id;
+    const issues: ClearanceIssue[] = [];
+
+    activeBorrowings.filter(r => r.studentId === studentId).forEach(record => issues.push({
+      type: 'active_borrowing',
+      description: `${describeTablet(tabletsMap.get(record.tabletId))} borrowed on ${format(new Date(record.dateBorrowed), 'MMM d, yyyy')} has not been returned`,
+    }));
+    unresolvedReports.filter(r => r.studentId === studentId).forEach(report => issues.push({
+      type: 'unresolved_lost_report',
+      description: `${describeTablet(tabletsMap.get(report.tabletId))} reported lost on ${format(new Date(report.dateReported), 'MMM d, yyyy')} has not been settled`,
+    }));
+    missingAccessories.filter(l => l.studentId === studentId).forEach(liability => issues.push({
+      type: 'missing_accessory',
+      description: `${accessoryLabels[liability.accessory]} for ${describeTablet(tabletsMap.get(liability.tabletId))} has not been returned`,
+    }));
+    if (accountability.balance > 0) {
+      issues.push({ type: 'unpaid_balance', description: `Unpaid balance of ${accountability.balance.toFixed(2)}` });
+    }
+
+    return { ...accountability, issues, certificate: null };
+  });
+}
+
+// Short code printed on a certificate, e.g. 9F3A1-C07BE
+const newVerificationCode = () => {
+  const code = randomBytes(5).toString('hex').toUpperCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+// Record a certificate for a student who has just been found cleared
+async function issueCertificate(executor: DbExecutor, clearance: StudentClearance, context?: AuditContext): Promise<StudentClearance> {
+  const [certificate] = await executor
+    .insert(clearanceCertificates)
+    .values({
+      studentId: clearance.student.id,
+      verificationCode: newVerificationCode(),
+      academicYearTerm: clearance.student.academicYearTerm,
+      issuedBy: context?.actorId ?? null,
+    })
+    .returning();
+
+  await recordAudit(executor, context, 'create', 'clearance_certificate', certificate.id, null, certificate);
+  return { ...clearance, certificate };
+}
+
+const discrepancyOrder: InventoryDiscrepancy['type'][] = ['missing', 'found_borrowed', 'found_lost', 'condition_mismatch'];
+
+// Compare the tablets counted in a stock-take with what the records say should be on the shelf.
+// Only tablets kept at the session's campus are expected, and none that are in transit.
+async function reconcileInventory(
+  executor: DbExecutor,
+  session: Pick<InventorySession, 'campusId'>,
+  counts: InventoryCount[]
+): Promise<InventoryReconciliation> {
+  const allTablets = await executor.select().from(tablets);
+  const inTransit = await executor
+    .select({ tabletId: tabletTransfers.tabletId })
+    .from(tabletTransfers)
+    .where(eq(tabletTransfers.status, 'In Transit'));
+  const inTransitIds = new Set(inTransit.map(transfer => transfer.tabletId));
+  const activeBorrowings = await executor
+    .select({ tabletId: borrowRecords.tabletId, studentName: students.fullName })
+    .from(borrowRecords)
+    .innerJoin(students, eq(borrowRecords.studentId, students.id))
+    .where(eq(borrowRecords.isReturned, false));
+
+  const borrowerMap = new Map(activeBorrowings.map(item => [item.tabletId, item.studentName]));
+  const countMap = new Map(counts.map(count => [count.tabletId, count]));
+  const discrepancies: InventoryDiscrepancy[] = [];
+  let expectedOnHand = 0;
+  let foundExpected = 0;
+
+  for (const tablet of allTablets) {
+    const count = countMap.get(tablet.id);
+    const borrowerName = borrowerMap.get(tablet.id) ?? null;
+    const isExpected = tablet.status !== 'Lost' && !borrowerName && !inTransitIds.has(tablet.id) &&
+      (session.campusId === null || tablet.campusId === session.campusId);
+    const discrepancy = (type: InventoryDiscrepancy['type']) => discrepancies.push({
+      type,
+      tabletId: tablet.id,
+      brand: tablet.brand,
+      model: tablet.model,
+      serialNumber: tablet.serialNumber,
+      recordedStatus: tablet.status,
+      recordedCondition: tablet.condition,
+      conditionFound: count?.conditionFound ?? null,
+      borrowerName,
+    });
+
+    if (isExpected) {
+      expectedOnHand++;
+      if (count) {
+        foundExpected++;
+      } else {
+        discrepancy('missing');
+      }
+    }
+    if (!count) continue;
+
+    if (borrowerName) discrepancy('found_borrowed');
+    if (tablet.status === 'Lost') discrepancy('found_lost');
+    if (count.conditionFound && count.conditionFound !== tablet.condition) discrepancy('condition_mismatch');
+  }
+
+  discrepancies.sort((a, b) =>
+    discrepancyOrder.indexOf(a.type) - discrepancyOrder.indexOf(b.type) || a.serialNumber.localeCompare(b.serialNumber)
+  );
+
+  return { expectedOnHand, found: counts.length, foundExpected, discrepancies };
+}
+
+// Staff user columns that are safe to send to the client
+const staffUserColumns = {
+  id: admin.id,
+  username: admin.username,
+  fullName: admin.fullName,
+  role: admin.role,
+  campusId: admin.campusId,
+  isActive: admin.isActive,
+  lastLoginAt: admin.lastLoginAt,
+  createdAt: admin.createdAt,
+  updatedAt: admin.updatedAt,
+};
+
+// Every record that points at a student; a student with any of them on file cannot be deleted
+const studentReferences = [
+  borrowRecords.studentId,
+  reservations.studentId,
+  lostReports.studentId,
+  accessoryLiabilities.studentId,
+  studentLedgerEntries.studentId,
+  clearanceCertificates.studentId,
+  notifications.studentId,
+  tabletHistory.studentId,
+];
+
 export class DatabaseStorage implements IStorage {
   // Student operations
   async getStudents(): Promise<StudentWithBorrowInfo[]> {
@@ -100,6 +1377,45 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async getStudentsPage(query: StudentListQuery): Promise<Page<StudentWithBorrowInfo>> {
+    const conditions: SQL[] = [];
+    if (query.search) {
+      conditions.push(searchColumns(query.search, students.fullName, students.studentId, students.email, students.programCode)!);
+    }
+    if (query.program) conditions.push(eq(students.programCode, query.program));
+    if (query.yearLevel !== undefined) conditions.push(eq(students.yearLevel, query.yearLevel));
+    if (query.campus) conditions.push(eq(students.campus, query.campus));
+    if (query.borrowing === 'with') conditions.push(inArray(students.id, activeBorrowerIds()));
+    if (query.borrowing === 'without') conditions.push(not(inArray(students.id, activeBorrowerIds())));
+    if (query.enrolled) conditions.push(eq(students.isEnrolled, query.enrolled === 'yes'));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` }).from(students).where(where);
+    const pageStudents = await db
+      .select()
+      .from(students)
+      .where(where)
+      .orderBy(sortBy(studentSortColumns[query.sort], query.order), asc(students.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    const activeBorrowings = pageStudents.length > 0
+      ? await db
+        .select({ studentId: borrowRecords.studentId, count: sql<number>`count(*)::int` })
+        .from(borrowRecords)
+        .where(and(inArray(borrowRecords.studentId, pageStudents.map(student => student.id)), eq(borrowRecords.isReturned, false)))
+        .groupBy(borrowRecords.studentId)
+      : [];
+    const borrowingMap = new Map(activeBorrowings.map(item => [item.studentId, item.count]));
+
+    return {
+      items: pageStudents.map(student => ({ ...student, activeBorrowings: borrowingMap.get(student.id) || 0 })),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
   async getStudent(id: number): Promise<Student | undefined> {
     const [student] = await db.select().from(students).where(eq(students.id, id));
     return student;
@@ -125,36 +1441,123 @@ export class DatabaseStorage implements IStorage {
     return existingStudents;
   }
 
-  async createStudent(student: InsertStudent): Promise<Student> {
-    const [newStudent] = await db.insert(students).values(student).returning();
-    return newStudent;
+  async createStudent(student: InsertStudent, context?: AuditContext): Promise<Student> {
+    return await db.transaction(async (tx) => {
+      const [newStudent] = await tx.insert(students).values(student).returning();
+      await recordAudit(tx, context, 'create', 'student', newStudent.id, null, newStudent);
+      return newStudent;
+    });
   }
 
-  async updateStudent(id: number, student: Partial<InsertStudent>): Promise<Student | undefined> {
-    const [updatedStudent] = await db
-      .update(students)
-      .set({ ...student, updatedAt: new Date() })
-      .where(eq(students.id, id))
-      .returning();
-    return updatedStudent;
+  async updateStudent(id: number, student: Partial<InsertStudent>, context?: AuditContext): Promise<Student | undefined> {
+    return await db.transaction(async (tx) => {
+      const [oldStudent] = await tx.select().from(students).where(eq(students.id, id));
+      if (!oldStudent) return undefined;
+
+      const [updatedStudent] = await tx
+        .update(students)
+        .set({ ...student, updatedAt: new Date() })
+        .where(eq(students.id, id))
+        .returning();
+
+      await recordAudit(tx, context, 'update', 'student', id, oldStudent, updatedStudent);
+      return updatedStudent;
+    });
   }
 
-  async deleteStudent(id: number): Promise<boolean> {
-    // Check if student has any borrowing records
-    const [hasBorrowings] = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(borrowRecords)
-      .where(eq(borrowRecords.studentId, id));
-    
-    if (hasBorrowings.count > 0) {
-      return false; // Cannot delete student with borrowing records
+  async deleteStudent(id: number, context?: AuditContext): Promise<boolean> {
+    // Check if anything still refers to the student, e.g. borrowings, reservations or ledger entries
+    for (const reference of studentReferences) {
+      const [references] = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(reference.table)
+        .where(eq(reference, id));
+
+      if (references.count > 0) {
+        return false; // Cannot delete a student who is referred to elsewhere
+      }
     }
-    
-    await db.delete(students).where(eq(students.id, id));
+
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(students).where(eq(students.id, id)).returning();
+      if (deleted) {
+        await recordAudit(tx, context, 'delete', 'student', id, deleted, null);
+      }
+    });
     return true;
   }
 
-  async bulkCreateStudents(studentsList: InsertStudent[]): Promise<{ created: Student[]; duplicates: string[] }> {
+  async syncEnrollment(
+    studentsList: InsertStudent[],
+    options: EnrollmentSyncOptions,
+    context?: AuditContext
+  ): Promise<Omit<EnrollmentSyncReport, 'invalid'>> {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select().from(students);
+      const byStudentId = new Map(existing.map(student => [student.studentId, student]));
+      // Rows repeating a student number were already set aside as invalid
+      const incoming = new Map(studentsList.map(student => [student.studentId, student]));
+
+      const additions: InsertStudent[] = [];
+      const changes: EnrollmentSyncReport['changes'] = [];
+      let unchanged = 0;
+      incoming.forEach(student => {
+        const current = byStudentId.get(student.studentId);
+        if (!current) {
+          additions.push(student);
+          return;
+        }
+        const fieldChanges = diffEnrolledStudent(current, student);
+        if (fieldChanges.length > 0) {
+          changes.push({ student: current, changes: fieldChanges });
+        } else {
+          unchanged++;
+        }
+      });
+      const listed = new Set(options.unusableStudentIds ?? []);
+      const departures = existing.filter(student =>
+        student.isEnrolled && !incoming.has(student.studentId) && !listed.has(student.studentId)
+      );
+
+      const report = { total: studentsList.length, additions, changes, departures, unchanged };
+      if (!options.apply) return report;
+
+      const syncedAt = new Date();
+      for (let start = 0; start < additions.length; start += studentInsertChunkSize) {
+        const chunk = additions.slice(start, start + studentInsertChunkSize);
+        const created = await tx.insert(students).values(chunk.map(student => ({ ...student, isEnrolled: true }))).returning();
+        for (const student of created) {
+          await recordAudit(tx, context, 'create', 'student', student.id, null, student);
+        }
+      }
+      for (const change of changes) {
+        const [updated] = await tx
+          .update(students)
+          .set({ ...Object.fromEntries(change.changes.map(c => [c.field, c.to])), updatedAt: syncedAt })
+          .where(eq(students.id, change.student.id))
+          .returning();
+        await recordAudit(tx, context, 'update', 'student', updated.id, change.student, updated);
+      }
+      for (const student of departures) {
+        const [updated] = await tx
+          .update(students)
+          .set({ isEnrolled: false, updatedAt: syncedAt })
+          .where(eq(students.id, student.id))
+          .returning();
+        await recordAudit(tx, context, 'update', 'student', updated.id, student, updated);
+      }
+      if (incoming.size > 0) {
+        await tx
+          .update(students)
+          .set({ enrollmentSyncedAt: syncedAt })
+          .where(inArray(students.studentId, Array.from(incoming.keys())));
+      }
+
+      return report;
+    });
+  }
+
+  async bulkCreateStudents(studentsList: InsertStudent[], context?: AuditContext): Promise<{ created: Student[]; duplicates: string[] }> {
     if (studentsList.length === 0) return { created: [], duplicates: [] };
 
     // Get all existing student IDs
@@ -179,10 +1582,18 @@ export class DatabaseStorage implements IStorage {
       }
     });
 
-    // Insert only new students
-    const created = newStudents.length > 0 
-      ? await db.insert(students).values(newStudents).returning()
-      : [];
+    // Insert only new students, auditing each in the same transaction
+    const created = await db.transaction(async (tx) => {
+      const inserted: Student[] = [];
+      for (let i = 0; i < newStudents.length; i += studentInsertChunkSize) {
+        inserted.push(...await tx.insert(students).values(newStudents.slice(i, i + studentInsertChunkSize)).returning());
+      }
+
+      for (const student of inserted) {
+        await recordAudit(tx, context, 'create', 'student', student.id, null, student);
+      }
+      return inserted;
+    });
 
     return {
       created,
@@ -190,9 +1601,67 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Student import mapping operations
+  async getStudentImportMappings(): Promise<StudentImportMapping[]> {
+    return await db.select().from(studentImportMappings).orderBy(asc(studentImportMappings.name));
+  }
+
+  async createStudentImportMapping(mapping: InsertStudentImportMapping, context?: AuditContext): Promise<StudentImportMapping> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(studentImportMappings)
+        .where(sql`lower(${studentImportMappings.name}) = lower(${mapping.name})`);
+      if (existing) {
+        throw new Error(`A mapping named ${existing.name} already exists`);
+      }
+
+      const [created] = await tx.insert(studentImportMappings).values(mapping).returning();
+      await recordAudit(tx, context, 'create', 'student_import_mapping', created.id, null, created);
+      return created;
+    });
+  }
+
+  async updateStudentImportMapping(id: number, mapping: InsertStudentImportMapping, context?: AuditContext): Promise<StudentImportMapping | undefined> {
+    return await db.transaction(async (tx) => {
+      const [oldMapping] = await tx.select().from(studentImportMappings).where(eq(studentImportMappings.id, id));
+      if (!oldMapping) return undefined;
+
+      const [clash] = await tx
+        .select()
+        .from(studentImportMappings)
+        .where(and(ne(studentImportMappings.id, id), sql`lower(${studentImportMappings.name}) = lower(${mapping.name})`));
+      if (clash) {
+        throw new Error(`A mapping named ${clash.name} already exists`);
+      }
+
+      const [updated] = await tx
+        .update(studentImportMappings)
+        .set({ ...mapping, updatedAt: new Date() })
+        .where(eq(studentImportMappings.id, id))
+        .returning();
+      await recordAudit(tx, context, 'update', 'student_import_mapping', id, oldMapping, updated);
+      return updated;
+    });
+  }
+
+  async deleteStudentImportMapping(id: number, context?: AuditContext): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(studentImportMappings).where(eq(studentImportMappings.id, id)).returning();
+      if (!deleted) return false;
+
+      await recordAudit(tx, context, 'delete', 'student_import_mapping', id, deleted, null);
+      return true;
+    });
+  }
+
   // Tablet operations
-  async getTablets(): Promise<TabletWithBorrowInfo[]> {
-    const allTablets = await db.select().from(tablets).orderBy(desc(tablets.createdAt));
+  async getTablets(campusId?: number): Promise<TabletWithBorrowInfo[]> {
+    const allTablets = await db
+      .select()
+      .from(tablets)
+      .where(campusId !== undefined ? eq(tablets.campusId, campusId) : undefined)
+      .orderBy(desc(tablets.createdAt));
     
     // Get current borrower info for each tablet
     const activeBorrowings = await db
@@ -218,6 +1687,50 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async getTabletsPage(query: TabletListQuery): Promise<Page<TabletWithBorrowInfo>> {
+    const conditions: SQL[] = [];
+    if (query.search) {
+      conditions.push(searchColumns(query.search, tablets.serialNumber, tablets.imei, tablets.brand, tablets.model, tablets.color)!);
+    }
+    if (query.status) conditions.push(eq(tablets.status, query.status));
+    if (query.condition) conditions.push(eq(tablets.condition, query.condition));
+    if (query.campusId === 'none') conditions.push(isNull(tablets.campusId));
+    else if (query.campusId !== undefined) conditions.push(eq(tablets.campusId, query.campusId));
+    if (query.borrowed === 'yes') conditions.push(inArray(tablets.id, borrowedTabletIds()));
+    if (query.borrowed === 'no') conditions.push(not(inArray(tablets.id, borrowedTabletIds())));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` }).from(tablets).where(where);
+    const pageTablets = await db
+      .select()
+      .from(tablets)
+      .where(where)
+      .orderBy(sortBy(tabletSortColumns[query.sort], query.order), asc(tablets.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    const activeBorrowings = pageTablets.length > 0
+      ? await db
+        .select({
+          tabletId: borrowRecords.tabletId,
+          studentId: borrowRecords.studentId,
+          studentName: students.fullName,
+          dateBorrowed: borrowRecords.dateBorrowed
+        })
+        .from(borrowRecords)
+        .innerJoin(students, eq(borrowRecords.studentId, students.id))
+        .where(and(inArray(borrowRecords.tabletId, pageTablets.map(tablet => tablet.id)), eq(borrowRecords.isReturned, false)))
+      : [];
+    const borrowingMap = new Map(activeBorrowings.map(({ tabletId, ...borrower }) => [tabletId, borrower]));
+
+    return {
+      items: pageTablets.map(tablet => ({ ...tablet, currentBorrower: borrowingMap.get(tablet.id) })),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
   async getTablet(id: number): Promise<Tablet | undefined> {
     const [tablet] = await db.select().from(tablets).where(eq(tablets.id, id));
     return tablet;
@@ -228,78 +1741,175 @@ export class DatabaseStorage implements IStorage {
     return tablet;
   }
 
-  async getAvailableTablets(): Promise<Tablet[]> {
+  async getAvailableTablets(campusId?: number): Promise<Tablet[]> {
     // Get IDs of tablets that are currently borrowed
     const borrowedTabletIds = await db
       .select({ id: borrowRecords.tabletId })
       .from(borrowRecords)
       .where(eq(borrowRecords.isReturned, false));
     
-    const borrowedIds = borrowedTabletIds.map(record => record.id);
+    // Tablets held for a reservation are kept back for that student
+    const heldTabletIds = await db
+      .select({ id: reservations.tabletId })
+      .from(reservations)
+      .where(eq(reservations.status, 'Assigned'));
+    
+    // Tablets on their way to another campus are not on anyone's shelf
+    const inTransitTabletIds = await db
+      .select({ id: tabletTransfers.tabletId })
+      .from(tabletTransfers)
+      .where(eq(tabletTransfers.status, 'In Transit'));
     
-    // Get tablets that are serviceable and not currently borrowed
-    let condition: any = undefined;
+    const borrowedIds = [
+      ...borrowedTabletIds.map(record => record.id),
+      ...heldTabletIds.filter(record => record.id !== null).map(record => record.id!),
+      ...inTransitTabletIds.map(record => record.id)
+    ];
+    
+    // Get tablets that are serviceable, not currently borrowed, held or in transit
+    const conditions: SQL[] = [eq(tablets.status, 'Serviceable')];
     if (borrowedIds.length > 0) {
-      condition = and(eq(tablets.status, 'Serviceable'), not(inArray(tablets.id, borrowedIds)));
-    } else {
-      condition = eq(tablets.status, 'Serviceable');
+      conditions.push(not(inArray(tablets.id, borrowedIds)));
     }
-    return condition
-      ? db.select().from(tablets).where(condition)
-      : db.select().from(tablets);
+    if (campusId !== undefined) {
+      conditions.push(eq(tablets.campusId, campusId));
+    }
+    return db.select().from(tablets).where(and(...conditions));
   }
 
-  async createTablet(tablet: InsertTablet): Promise<Tablet> {
-    const [newTablet] = await db.insert(tablets).values(tablet).returning();
-    
-    // Add to tablet history
-    await db.insert(tabletHistory).values({
-      tabletId: newTablet.id,
-      eventType: 'created',
-      date: new Date(),
-      condition: newTablet.condition,
-      notes: 'Tablet added to inventory'
+  // Labels encode the serial number, but a scanned IMEI barcode from the box works as well
+  async findTabletByScan(code: string): Promise<TabletScanResult | undefined> {
+    const value = code.trim().toLowerCase();
+    if (!value) return undefined;
+
+    const [tablet] = await db
+      .select()
+      .from(tablets)
+      .where(or(
+        sql`lower(${tablets.serialNumber}) = ${value}`,
+        sql`lower(${tablets.imei}) = ${value}`
+      ));
+    if (!tablet) return undefined;
+
+    const [activeRecord] = await db
+      .select({ id: borrowRecords.id })
+      .from(borrowRecords)
+      .where(and(eq(borrowRecords.tabletId, tablet.id), eq(borrowRecords.isReturned, false)));
+    const activeBorrowRecord = activeRecord ? await this.getBorrowRecord(activeRecord.id) : undefined;
+
+    const [hold] = await db
+      .select({ id: reservations.id })
+      .from(reservations)
+      .where(and(eq(reservations.tabletId, tablet.id), eq(reservations.status, 'Assigned')));
+
+    const [transfer] = await db
+      .select({ id: tabletTransfers.id })
+      .from(tabletTransfers)
+      .where(and(eq(tabletTransfers.tabletId, tablet.id), eq(tabletTransfers.status, 'In Transit')));
+
+    return {
+      ...tablet,
+      currentBorrower: activeBorrowRecord && {
+        studentId: activeBorrowRecord.studentId,
+        studentName: activeBorrowRecord.student.fullName,
+        dateBorrowed: activeBorrowRecord.dateBorrowed
+      },
+      activeBorrowRecord: activeBorrowRecord ?? null,
+      isAvailable: tablet.status === 'Serviceable' && !activeBorrowRecord && !hold && !transfer
+    };
+  }
+
+  async createTablet(tablet: InsertTablet, context?: AuditContext): Promise<Tablet> {
+    return await db.transaction(async (tx) => {
+      const deviceModel = await resolveDeviceModel(tx, tablet, context);
+      const [newTablet] = await tx
+        .insert(tablets)
+        .values({ ...tablet, modelId: deviceModel.id, brand: deviceModel.brand, model: deviceModel.model })
+        .returning();
+      
+      // Add to tablet history
+      await tx.insert(tabletHistory).values({
+        tabletId: newTablet.id,
+        eventType: 'created',
+        date: new Date(),
+        condition: newTablet.condition,
+        notes: 'Tablet added to inventory',
+        actorId: context?.actorId
+      });
+
+      await recordAudit(tx, context, 'create', 'tablet', newTablet.id, null, newTablet);
+      
+      return newTablet;
     });
-    
-    return newTablet;
   }
 
-  async updateTablet(id: number, tablet: Partial<InsertTablet>): Promise<Tablet | undefined> {
+  async updateTablet(id: number, tablet: Partial<InsertTablet>, context?: AuditContext): Promise<Tablet | undefined> {
     const [oldTablet] = await db.select().from(tablets).where(eq(tablets.id, id));
     
     if (!oldTablet) return undefined;
-    
-    const [updatedTablet] = await db
-      .update(tablets)
-      .set({ ...tablet, updatedAt: new Date() })
-      .where(eq(tablets.id, id))
-      .returning();
-    
-    // Add to history if status or condition changed
-    if (tablet.status && tablet.status !== oldTablet.status) {
-      await db.insert(tabletHistory).values({
-        tabletId: id,
-        eventType: 'status_change',
-        date: new Date(),
-        condition: updatedTablet.condition,
-        notes: `Status changed from ${oldTablet.status} to ${updatedTablet.status}`
-      });
+
+    if (oldTablet.campusId !== null && tablet.campusId !== undefined && tablet.campusId !== oldTablet.campusId) {
+      throw new Error('Use a transfer to move a tablet to another campus');
     }
-    
-    if (tablet.condition && tablet.condition !== oldTablet.condition) {
-      await db.insert(tabletHistory).values({
-        tabletId: id,
-        eventType: 'condition_change',
-        date: new Date(),
-        condition: updatedTablet.condition,
-        notes: `Condition changed from ${oldTablet.condition} to ${updatedTablet.condition}`
-      });
+
+    // A tablet under repair only changes status through its repair ticket
+    if (tablet.status !== undefined && tablet.status !== oldTablet.status) {
+      const [openTicket] = await db
+        .select({ id: repairTickets.id })
+        .from(repairTickets)
+        .where(and(eq(repairTickets.tabletId, id), not(eq(repairTickets.status, 'Closed'))));
+      if (openTicket) {
+        throw new Error(`Repair ticket #${openTicket.id} is still open; close the ticket to change this tablet's status`);
+      }
     }
-    
-    return updatedTablet;
+
+    return await db.transaction(async (tx) => {
+      const changes = { ...tablet };
+      if (tablet.modelId !== undefined || tablet.brand !== undefined || tablet.model !== undefined) {
+        const deviceModel = await resolveDeviceModel(tx, {
+          brand: tablet.brand ?? oldTablet.brand,
+          model: tablet.model ?? oldTablet.model,
+          modelId: tablet.modelId,
+        }, context);
+        Object.assign(changes, { modelId: deviceModel.id, brand: deviceModel.brand, model: deviceModel.model });
+      }
+
+      const [updatedTablet] = await tx
+        .update(tablets)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(tablets.id, id))
+        .returning();
+      
+      // Add to history if status or condition changed
+      if (tablet.status && tablet.status !== oldTablet.status) {
+        await tx.insert(tabletHistory).values({
+          tabletId: id,
+          eventType: 'status_change',
+          date: new Date(),
+          condition: updatedTablet.condition,
+          notes: `Status changed from ${oldTablet.status} to ${updatedTablet.status}`,
+          actorId: context?.actorId
+        });
+      }
+      
+      if (tablet.condition && tablet.condition !== oldTablet.condition) {
+        await tx.insert(tabletHistory).values({
+          tabletId: id,
+          eventType: 'condition_change',
+          date: new Date(),
+          condition: updatedTablet.condition,
+          notes: `Condition changed from ${oldTablet.condition} to ${updatedTablet.condition}`,
+          actorId: context?.actorId
+        });
+      }
+
+      await recordAudit(tx, context, 'update', 'tablet', id, oldTablet, updatedTablet);
+      
+      return updatedTablet;
+    });
   }
 
-  async deleteTablet(id: number): Promise<boolean> {
+  async deleteTablet(id: number, context?: AuditContext): Promise<boolean> {
     // Check if tablet has any borrowing records
     const [hasBorrowings] = await db
       .select({ count: sql<number>`count(*)` })
@@ -310,11 +1920,16 @@ export class DatabaseStorage implements IStorage {
       return false; // Cannot delete tablet with borrowing records
     }
     
-    await db.delete(tablets).where(eq(tablets.id, id));
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(tablets).where(eq(tablets.id, id)).returning();
+      if (deleted) {
+        await recordAudit(tx, context, 'delete', 'tablet', id, deleted, null);
+      }
+    });
     return true;
   }
 
-  async bulkCreateTablets(tabletsList: InsertTablet[]): Promise<{ created: Tablet[]; duplicates: string[] }> {
+  async bulkCreateTablets(tabletsList: ImportTablet[], context?: AuditContext): Promise<{ created: Tablet[]; duplicates: string[] }> {
     if (tabletsList.length === 0) return { created: [], duplicates: [] };
 
     // Get all existing serial numbers
@@ -328,7 +1943,7 @@ export class DatabaseStorage implements IStorage {
 
     const existingSerials = new Set(existingTablets.map(t => t.serialNumber));
     const duplicateSerials: string[] = [];
-    const newTablets: InsertTablet[] = [];
+    const newTablets: ImportTablet[] = [];
 
     // Filter out duplicates
     tabletsList.forEach(tablet => {
@@ -339,23 +1954,61 @@ export class DatabaseStorage implements IStorage {
       }
     });
 
-    // Insert only new tablets
-    const created = newTablets.length > 0 
-      ? await db.insert(tablets).values(newTablets).returning()
-      : [];
+    // Catalog entries, purchase orders, tablets and their audit rows are saved together
+    const created = await db.transaction(async (tx) => {
+      // Link each new tablet to the catalog, resolving every distinct model once
+      const resolvedModels = new Map<string, DeviceModel>();
+      for (const tablet of newTablets) {
+        const cacheKey = tablet.modelId ? `id:${tablet.modelId}` : deviceModelKey(tablet.brand, tablet.model);
+        let deviceModel = resolvedModels.get(cacheKey);
+        if (!deviceModel) {
+          deviceModel = await resolveDeviceModel(tx, tablet, context);
+          resolvedModels.set(cacheKey, deviceModel);
+        }
+        Object.assign(tablet, { modelId: deviceModel.id, brand: deviceModel.brand, model: deviceModel.model });
+      }
 
-    // Add history entries for new tablets
-    if (created.length > 0) {
-      const historyEntries = created.map(tablet => ({
-        tabletId: tablet.id,
-        eventType: 'created',
-        date: new Date(),
-        condition: tablet.condition,
-        notes: 'Tablet added to inventory in bulk import'
-      }));
+      // Rows naming a purchase order join that batch, which is created from the first row that mentions it
+      const resolvedBatches = new Map<string, ProcurementBatch>();
+      const tabletValues: InsertTablet[] = [];
+      for (const { procurement, ...tablet } of newTablets) {
+        if (procurement) {
+          const cacheKey = procurement.poNumber.toLowerCase();
+          let batch = resolvedBatches.get(cacheKey);
+          if (!batch) {
+            batch = await resolveProcurementBatch(tx, procurement, context);
+            resolvedBatches.set(cacheKey, batch);
+          }
+          tablet.batchId = batch.id;
+        }
+        tabletValues.push(tablet);
+      }
+
+      // Insert only new tablets
+      const inserted = tabletValues.length > 0
+        ? await tx.insert(tablets).values(tabletValues).returning()
+        : [];
+
+      // Add history entries for new tablets
+      if (inserted.length > 0) {
+        const historyEntries = inserted.map(tablet => ({
+          tabletId: tablet.id,
+          eventType: 'created',
+          date: new Date(),
+          condition: tablet.condition,
+          notes: 'Tablet added to inventory in bulk import',
+          actorId: context?.actorId
+        }));
       
-      await db.insert(tabletHistory).values(historyEntries);
-    }
+        await tx.insert(tabletHistory).values(historyEntries);
+
+        for (const tablet of inserted) {
+          await recordAudit(tx, context, 'create', 'tablet', tablet.id, null, tablet);
+        }
+      }
+
+      return inserted;
+    });
 
     return {
       created,
@@ -364,15 +2017,23 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Borrowing operations
-  async getBorrowRecords(includeReturned: boolean = true): Promise<BorrowRecordWithDetails[]> {
-    let condition = undefined;
+  async getBorrowRecords(includeReturned: boolean = true, campusId?: number): Promise<BorrowRecordWithDetails[]> {
+    const conditions: SQL[] = [];
     if (!includeReturned) {
-      condition = eq(borrowRecords.isReturned, false);
+      conditions.push(eq(borrowRecords.isReturned, false));
+    }
+    // A borrowing belongs to the campus that holds the tablet
+    if (campusId !== undefined) {
+      conditions.push(inArray(
+        borrowRecords.tabletId,
+        db.select({ id: tablets.id }).from(tablets).where(eq(tablets.campusId, campusId))
+      ));
     }
-    const query = condition
-      ? db.select().from(borrowRecords).where(condition).orderBy(desc(borrowRecords.dateBorrowed))
-      : db.select().from(borrowRecords).orderBy(desc(borrowRecords.dateBorrowed));
-    const records = await query;
+    const records = await db
+      .select()
+      .from(borrowRecords)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(borrowRecords.dateBorrowed));
     
     // Get tablet and student details
     const tabletIds = Array.from(new Set(records.map(r => r.tabletId)));
@@ -398,6 +2059,48 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async getBorrowRecordsPage(query: BorrowRecordListQuery, campusId?: number): Promise<Page<BorrowRecordWithDetails>> {
+    const conditions: SQL[] = [];
+    if (query.search) {
+      conditions.push(searchColumns(
+        query.search, students.fullName, students.studentId, tablets.serialNumber, tablets.brand, tablets.model
+      )!);
+    }
+    if (query.status) conditions.push(eq(borrowRecords.isReturned, query.status === 'returned'));
+    if (query.condition) conditions.push(eq(borrowRecords.condition, query.condition));
+    if (query.agreementStatus) conditions.push(eq(borrowRecords.agreementStatus, query.agreementStatus));
+    if (query.termId !== undefined) conditions.push(eq(borrowRecords.termId, query.termId));
+    if (query.borrowedFrom) conditions.push(gte(borrowRecords.dateBorrowed, parseISO(query.borrowedFrom)));
+    if (query.borrowedTo) conditions.push(lt(borrowRecords.dateBorrowed, addDays(parseISO(query.borrowedTo), 1)));
+    if (query.dueFrom) conditions.push(gte(borrowRecords.expectedReturnDate, query.dueFrom));
+    if (query.dueTo) conditions.push(lte(borrowRecords.expectedReturnDate, query.dueTo));
+    if (campusId !== undefined) conditions.push(eq(tablets.campusId, campusId));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(borrowRecords)
+      .innerJoin(tablets, eq(borrowRecords.tabletId, tablets.id))
+      .innerJoin(students, eq(borrowRecords.studentId, students.id))
+      .where(where);
+    const rows = await db
+      .select({ record: borrowRecords, tablet: tablets, student: students })
+      .from(borrowRecords)
+      .innerJoin(tablets, eq(borrowRecords.tabletId, tablets.id))
+      .innerJoin(students, eq(borrowRecords.studentId, students.id))
+      .where(where)
+      .orderBy(sortBy(borrowRecordSortColumns[query.sort], query.order), desc(borrowRecords.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return {
+      items: rows.map(row => ({ ...row.record, tablet: row.tablet, student: row.student })),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
   async getBorrowRecordsByStudent(studentId: number): Promise<BorrowRecordWithDetails[]> {
     const records = await db
       .select()
@@ -458,257 +2161,2181 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async getBorrowRecord(id: number): Promise<BorrowRecordWithDetails | undefined> {
-    const [record] = await db
+  async getBorrowRecord(id: number): Promise<BorrowRecordWithDetails | undefined> {
+    const [record] = await db
+      .select()
+      .from(borrowRecords)
+      .where(eq(borrowRecords.id, id));
+    
+    if (!record) return undefined;
+    
+    const [tablet] = await db
+      .select()
+      .from(tablets)
+      .where(eq(tablets.id, record.tabletId));
+    
+    const [student] = await db
+      .select()
+      .from(students)
+      .where(eq(students.id, record.studentId));
+    
+    return {
+      ...record,
+      tablet,
+      student
+    };
+  }
+
+  async createBorrowRecord(borrowRecord: InsertBorrowRecord, context?: AuditContext): Promise<BorrowRecord> {
+    return await db.transaction(async (tx) => borrowTablet(tx, borrowRecord, context));
+  }
+
+  /**
+   * Lend a whole batch in one transaction. Every pair is checked against the same rules as a single
+   * borrowing, and a student may only receive one tablet; if any pair fails, nothing is saved and
+   * every failing pair is reported.
+   */
+  async createBulkBorrowRecords(batch: BulkBorrow, campusId?: number, context?: AuditContext): Promise<BulkBorrowResult> {
+    const issues: BulkBorrowIssue[] = [];
+    const rollback = new Error('Bulk borrowing rolled back');
+
+    try {
+      return await db.transaction(async (tx) => {
+        const studentIds = batch.pairs.map(pair => pair.studentId);
+        const batchTablets = await tx
+          .select()
+          .from(tablets)
+          .where(inArray(tablets.id, batch.pairs.map(pair => pair.tabletId)));
+        const tabletsById = new Map(batchTablets.map(tablet => [tablet.id, tablet]));
+
+        const activeBorrowers = await tx
+          .select({ studentId: borrowRecords.studentId })
+          .from(borrowRecords)
+          .where(and(inArray(borrowRecords.studentId, studentIds), eq(borrowRecords.isReturned, false)));
+        const borrowing = new Set(activeBorrowers.map(record => record.studentId));
+
+        const seen = new Set<number>();
+        const created: BorrowRecord[] = [];
+
+        for (let index = 0; index < batch.pairs.length; index++) {
+          const pair = batch.pairs[index];
+          const fail = (message: string) => issues.push({ index, ...pair, message });
+          const tablet = tabletsById.get(pair.tabletId);
+
+          if (seen.has(pair.studentId)) {
+            fail('Student appears more than once in the batch');
+            continue;
+          }
+          seen.add(pair.studentId);
+
+          if (borrowing.has(pair.studentId)) {
+            fail('Student already has a tablet on loan');
+            continue;
+          }
+          if (campusId && tablet && tablet.campusId !== campusId) {
+            fail('This tablet belongs to another campus');
+            continue;
+          }
+
+          try {
+            created.push(await borrowTablet(tx, {
+              studentId: pair.studentId,
+              tabletId: pair.tabletId,
+              dateBorrowed: batch.dateBorrowed,
+              expectedReturnDate: batch.expectedReturnDate ? new Date(batch.expectedReturnDate) : undefined,
+              termId: batch.termId ?? null,
+              condition: batch.condition ?? tablet?.condition ?? 'Good',
+              accessories: batch.accessories,
+              notes: batch.notes ?? null,
+            }, context));
+          } catch (error) {
+            fail(error instanceof Error ? error.message : String(error));
+          }
+        }
+
+        if (issues.length > 0) throw rollback;
+        return { created, issues };
+      });
+    } catch (error) {
+      if (error === rollback) return { created: [], issues };
+      throw error;
+    }
+  }
+
+  async processReturn(
+    id: number,
+    returnData: UpdateBorrowRecordForReturn,
+    context?: AuditContext,
+    repairThreshold: TabletCondition = defaultRepairConditionThreshold
+  ): Promise<BorrowRecord | undefined> {
+    // Start transaction
+    return await db.transaction(async (tx) => {
+      // Get the borrow record with student details
+      const [borrowRecord] = await tx
+        .select()
+        .from(borrowRecords)
+        .where(eq(borrowRecords.id, id));
+      
+      if (!borrowRecord) {
+        throw new Error('Borrow record not found');
+      }
+      
+      if (borrowRecord.isReturned) {
+        throw new Error('Tablet has already been returned');
+      }
+
+      // Get student details
+      const [student] = await tx
+        .select()
+        .from(students)
+        .where(eq(students.id, borrowRecord.studentId));
+
+      if (!student) {
+        throw new Error('Student not found');
+      }
+      
+      // Only accessories that went out can come back; anything else borrowed is now owed
+      const borrowed = parseAccessories(borrowRecord.accessories);
+      const handedBack = returnData.returnedAccessories ?? borrowed;
+      const returned: Accessories = {
+        charger: borrowed.charger && handedBack.charger,
+        cable: borrowed.cable && handedBack.cable,
+        box: borrowed.box && handedBack.box,
+      };
+      const missing = accessoryEnum.enumValues.filter(accessory => borrowed[accessory] && !returned[accessory]);
+      
+      // Update the borrow record
+      const [updatedRecord] = await tx
+        .update(borrowRecords)
+        .set({
+          isReturned: returnData.isReturned,
+          returnDate: returnData.returnDate instanceof Date ? returnData.returnDate : new Date(returnData.returnDate),
+          returnCondition: returnData.returnCondition,
+          returnNotes: returnData.returnNotes,
+          returnedAccessories: returned,
+          updatedAt: new Date()
+        })
+        .where(eq(borrowRecords.id, id))
+        .returning();
+      
+      await recordAudit(tx, context, 'update', 'borrow_record', id, borrowRecord, updatedRecord);
+      
+      // Update tablet condition if different from current
+      const [oldTablet] = await tx
+        .select()
+        .from(tablets)
+        .where(eq(tablets.id, borrowRecord.tabletId));
+
+      // Accessories that were never lent out stay as they were
+      const accessoryFlags: Partial<Record<'hasCharger' | 'hasCable' | 'hasBox', boolean>> = {};
+      for (const accessory of accessoryEnum.enumValues) {
+        if (borrowed[accessory]) {
+          accessoryFlags[tabletAccessoryFields[accessory]] = returned[accessory];
+        }
+      }
+
+      const [updatedTablet] = await tx
+        .update(tablets)
+        .set({
+          condition: returnData.returnCondition,
+          ...accessoryFlags,
+          updatedAt: new Date()
+        })
+        .where(eq(tablets.id, borrowRecord.tabletId))
+        .returning();
+
+      await recordAudit(tx, context, 'update', 'tablet', borrowRecord.tabletId, oldTablet, updatedTablet);
+
+      // The student owes whatever did not come back
+      if (missing.length > 0) {
+        const liabilities = await tx
+          .insert(accessoryLiabilities)
+          .values(missing.map(accessory => ({
+            studentId: borrowRecord.studentId,
+            borrowRecordId: id,
+            tabletId: borrowRecord.tabletId,
+            accessory,
+          })))
+          .returning();
+
+        for (const liability of liabilities) {
+          await recordAudit(tx, context, 'create', 'accessory_liability', liability.id, null, liability);
+        }
+
+        // Bill the student for each missing accessory at the model's replacement value
+        const replacementValue = await findReplacementValue(tx, updatedTablet);
+        for (const liability of liabilities) {
+          const amount = Number(replacementValue?.[accessoryValueFields[liability.accessory]] ?? 0);
+          if (amount <= 0) continue;
+
+          await postLedgerEntry(tx, {
+            studentId: borrowRecord.studentId,
+            entryType: 'charge',
+            amount: amount.toFixed(2),
+            description: `Missing ${accessoryLabels[liability.accessory].toLowerCase()} for ${updatedTablet.brand} ${updatedTablet.model} (SN: ${updatedTablet.serialNumber})`,
+            tabletId: borrowRecord.tabletId,
+            borrowRecordId: id,
+            accessoryLiabilityId: liability.id,
+            entryDate: updatedRecord.returnDate!,
+          }, context);
+        }
+      }
+      
+      // Add to tablet history with detailed return information
+      await tx.insert(tabletHistory).values({
+        tabletId: borrowRecord.tabletId,
+        studentId: borrowRecord.studentId,
+        borrowRecordId: id,
+        eventType: 'returned',
+        date: updatedRecord.returnDate!,
+        condition: returnData.returnCondition,
+        accessories: returned, // Only the accessories actually handed back
+        notes: `Returned by ${student.fullName || `${student.firstName} ${student.lastName}`} (${student.studentId}). Return condition: ${returnData.returnCondition}. Accessories returned: ${describeAccessories(accessoryEnum.enumValues.filter(accessory => returned[accessory]))}.` +
+          (missing.length > 0 ? ` Missing accessories: ${describeAccessories(missing)}.` : ''),
+        actorId: context?.actorId
+      });
+      
+      // Damaged tablets go for repair instead of back into circulation
+      let returnedTablet = updatedTablet;
+      if (needsRepair(returnData.returnCondition, repairThreshold)) {
+        const repair = await openRepairTicket(tx, updatedTablet, {
+          borrowRecordId: id,
+          reportedCondition: returnData.returnCondition,
+          description: returnData.returnNotes || `Returned in ${returnData.returnCondition} condition`,
+        }, context);
+        returnedTablet = repair.tablet;
+      }
+      
+      // Hold the returned tablet for the next student on the waitlist
+      await assignNextReservation(tx, returnedTablet, context);
+      
+      return updatedRecord;
+    });
+  }
+
+  async returnAccessories(id: number, accessoryReturn: AccessoryReturn, context?: AuditContext): Promise<AccessoryLiability[] | undefined> {
+    return await db.transaction(async (tx) => {
+      const [borrowRecord] = await tx
+        .select()
+        .from(borrowRecords)
+        .where(eq(borrowRecords.id, id));
+
+      if (!borrowRecord) return undefined;
+
+      const outstanding = await tx
+        .select()
+        .from(accessoryLiabilities)
+        .where(
+          and(
+            eq(accessoryLiabilities.borrowRecordId, id),
+            eq(accessoryLiabilities.status, 'outstanding'),
+            inArray(accessoryLiabilities.accessory, accessoryReturn.accessories)
+          )
+        );
+
+      if (outstanding.length === 0) {
+        throw new Error('None of these accessories are outstanding for this borrowing');
+      }
+
+      const returnedAt = accessoryReturn.returnDate ?? new Date();
+      const cleared: AccessoryLiability[] = [];
+      for (const liability of outstanding) {
+        const [updatedLiability] = await tx
+          .update(accessoryLiabilities)
+          .set({
+            status: 'returned',
+            returnedAt,
+            notes: accessoryReturn.notes ?? liability.notes,
+            updatedAt: new Date()
+          })
+          .where(eq(accessoryLiabilities.id, liability.id))
+          .returning();
+
+        await recordAudit(tx, context, 'update', 'accessory_liability', liability.id, liability, updatedLiability);
+        cleared.push(updatedLiability);
+      }
+
+      const clearedAccessories = cleared.map(liability => liability.accessory);
+
+      // Record the accessories as handed back on the borrowing itself
+      const returned = parseAccessories(borrowRecord.returnedAccessories);
+      clearedAccessories.forEach(accessory => { returned[accessory] = true; });
+
+      const [updatedRecord] = await tx
+        .update(borrowRecords)
+        .set({ returnedAccessories: returned, updatedAt: new Date() })
+        .where(eq(borrowRecords.id, id))
+        .returning();
+
+      await recordAudit(tx, context, 'update', 'borrow_record', id, borrowRecord, updatedRecord);
+
+      // The tablet has its accessories back
+      const [oldTablet] = await tx
+        .select()
+        .from(tablets)
+        .where(eq(tablets.id, borrowRecord.tabletId));
+
+      const accessoryFlags: Partial<Record<'hasCharger' | 'hasCable' | 'hasBox', boolean>> = {};
+      clearedAccessories.forEach(accessory => { accessoryFlags[tabletAccessoryFields[accessory]] = true; });
+
+      const [updatedTablet] = await tx
+        .update(tablets)
+        .set({ ...accessoryFlags, updatedAt: new Date() })
+        .where(eq(tablets.id, borrowRecord.tabletId))
+        .returning();
+
+      await recordAudit(tx, context, 'update', 'tablet', borrowRecord.tabletId, oldTablet, updatedTablet);
+
+      await tx.insert(tabletHistory).values({
+        tabletId: borrowRecord.tabletId,
+        studentId: borrowRecord.studentId,
+        borrowRecordId: id,
+        eventType: 'accessories_returned',
+        date: returnedAt,
+        accessories: Object.fromEntries(clearedAccessories.map(accessory => [accessory, true])),
+        notes: `Missing accessories returned: ${describeAccessories(clearedAccessories)}.` +
+          (accessoryReturn.notes ? ` ${accessoryReturn.notes}` : ''),
+        actorId: context?.actorId
+      });
+
+      // Whatever is still unpaid for a returned accessory no longer needs to be paid
+      for (const liability of cleared) {
+        const unpaid = Math.min(
+          await ledgerBalance(tx, borrowRecord.studentId, liability.id),
+          await ledgerBalance(tx, borrowRecord.studentId)
+        );
+        if (unpaid <= 0) continue;
+
+        await postLedgerEntry(tx, {
+          studentId: borrowRecord.studentId,
+          entryType: 'waiver',
+          amount: unpaid.toFixed(2),
+          description: `${accessoryLabels[liability.accessory]} returned`,
+          tabletId: borrowRecord.tabletId,
+          borrowRecordId: id,
+          accessoryLiabilityId: liability.id,
+          recordedBy: context?.actorId ?? null,
+          entryDate: returnedAt,
+        }, context);
+      }
+
+      return cleared;
+    });
+  }
+
+  async updateBorrowRecordAgreementPath(id: number, usufructAgreementPath: string, context?: AuditContext): Promise<BorrowRecord | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(borrowRecords).where(eq(borrowRecords.id, id));
+      if (!before) return undefined;
+
+      const [updatedRecord] = await tx
+        .update(borrowRecords)
+        .set({
+          usufructAgreementPath,
+          // Regenerating a lost file must not undo a signature or verification
+          agreementStatus: before.agreementStatus === 'missing' ? 'generated' : before.agreementStatus,
+          updatedAt: new Date()
+        })
+        .where(eq(borrowRecords.id, id))
+        .returning();
+
+      await recordAudit(tx, context, 'update', 'borrow_record', id, before, updatedRecord);
+      return updatedRecord;
+    });
+  }
+
+  async attachSignedAgreement(id: number, signedAgreementPath: string, context?: AuditContext): Promise<BorrowRecord | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(borrowRecords).where(eq(borrowRecords.id, id));
+      if (!before) return undefined;
+
+      if (before.agreementStatus === 'verified') {
+        throw new Error('The signed agreement has already been verified');
+      }
+
+      // A new scan replaces the previous one and needs to be verified again
+      const [updatedRecord] = await tx
+        .update(borrowRecords)
+        .set({
+          signedAgreementPath,
+          agreementStatus: 'signed',
+          agreementSignedAt: new Date(),
+          agreementVerifiedAt: null,
+          agreementVerifiedBy: null,
+          updatedAt: new Date()
+        })
+        .where(eq(borrowRecords.id, id))
+        .returning();
+
+      await recordAudit(tx, context, 'update', 'borrow_record', id, before, updatedRecord);
+      return updatedRecord;
+    });
+  }
+
+  async verifyAgreement(id: number, context?: AuditContext): Promise<BorrowRecord | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(borrowRecords).where(eq(borrowRecords.id, id));
+      if (!before) return undefined;
+
+      if (before.agreementStatus !== 'signed' || !before.signedAgreementPath) {
+        throw new Error('Only an uploaded signed agreement can be verified');
+      }
+
+      const [updatedRecord] = await tx
+        .update(borrowRecords)
+        .set({
+          agreementStatus: 'verified',
+          agreementVerifiedAt: new Date(),
+          agreementVerifiedBy: context?.actorId ?? null,
+          updatedAt: new Date()
+        })
+        .where(eq(borrowRecords.id, id))
+        .returning();
+
+      await recordAudit(tx, context, 'update', 'borrow_record', id, before, updatedRecord);
+      return updatedRecord;
+    });
+  }
+
+  async getOverdueBorrowRecords(thresholds: OverdueThresholds = defaultOverdueThresholds, campusId?: number): Promise<OverdueBorrowRecord[]> {
+    const now = new Date();
+    
+    // Only borrowings due within the due-soon window can need attention
+    const horizon = format(addDays(now, thresholds.dueSoonDays), 'yyyy-MM-dd');
+    const records = await db
+      .select()
+      .from(borrowRecords)
+      .where(
+        and(
+          eq(borrowRecords.isReturned, false),
+          lte(borrowRecords.expectedReturnDate, horizon),
+          campusId !== undefined ? inArray(borrowRecords.tabletId, campusTabletIds(campusId)) : undefined
+        )
+      );
+    
+    if (records.length === 0) return [];
+    
+    // Get tablet and student details
+    const tabletIds = Array.from(new Set(records.map(r => r.tabletId)));
+    const studentIds = Array.from(new Set(records.map(r => r.studentId)));
+    
+    const tabletDetails = await db
+      .select()
+      .from(tablets)
+      .where(inArray(tablets.id, tabletIds));
+    
+    const studentDetails = await db
+      .select()
+      .from(students)
+      .where(inArray(students.id, studentIds));
+    
+    const tabletsMap = new Map(tabletDetails.map(t => [t.id, t]));
+    const studentsMap = new Map(studentDetails.map(s => [s.id, s]));
+    
+    const overdueRecords: OverdueBorrowRecord[] = [];
+    for (const record of records) {
+      const overdueLevel = classifyOverdue(record.expectedReturnDate, thresholds, now);
+      if (!overdueLevel) continue;
+      
+      overdueRecords.push({
+        ...record,
+        tablet: tabletsMap.get(record.tabletId)!,
+        student: studentsMap.get(record.studentId)!,
+        overdueLevel,
+        daysPastDue: daysPastDue(record.expectedReturnDate!, now)
+      });
+    }
+    
+    // Longest overdue first
+    return overdueRecords.sort((a, b) => b.daysPastDue - a.daysPastDue);
+  }
+
+  async recordOverdueEscalations(thresholds: OverdueThresholds = defaultOverdueThresholds): Promise<OverdueEscalation[]> {
+    const now = new Date();
+    const activeRecords = await db
+      .select()
+      .from(borrowRecords)
+      .where(eq(borrowRecords.isReturned, false));
+    
+    const escalations: OverdueEscalation[] = [];
+    for (const record of activeRecords) {
+      const level = classifyOverdue(record.expectedReturnDate, thresholds, now);
+      if (level === record.escalationLevel) continue;
+      
+      // Levels only drop when the return date moves, which is not an escalation
+      const isEscalation = level !== null &&
+        overdueLevels.indexOf(level) > (record.escalationLevel ? overdueLevels.indexOf(record.escalationLevel) : -1);
+      
+      await db.transaction(async (tx) => {
+        const [updatedRecord] = await tx
+          .update(borrowRecords)
+          .set({
+            escalationLevel: level,
+            updatedAt: new Date()
+          })
+          .where(eq(borrowRecords.id, record.id))
+          .returning();
+        
+        await recordAudit(tx, undefined, 'update', 'borrow_record', record.id, record, updatedRecord);
+        
+        if (!isEscalation) return;
+        
+        const [student] = await tx
+          .select()
+          .from(students)
+          .where(eq(students.id, record.studentId));
+        
+        const days = daysPastDue(record.expectedReturnDate!, now);
+        const dueText = days < 0
+          ? `due in ${-days} day(s)`
+          : days === 0 ? 'due today' : `${days} day(s) past due`;
+        
+        await tx.insert(tabletHistory).values({
+          tabletId: record.tabletId,
+          studentId: record.studentId,
+          borrowRecordId: record.id,
+          eventType: level as OverdueLevel,
+          date: now,
+          notes: `${overdueLevelLabels[level as OverdueLevel]}: borrowed by ${student?.fullName ?? 'student'} (${student?.studentId ?? record.studentId}), expected back ${record.expectedReturnDate}, ${dueText}`
+        });
+      });
+      
+      if (isEscalation) {
+        escalations.push({ borrowRecordId: record.id, level: level as OverdueLevel });
+      }
+    }
+    
+    return escalations;
+  }
+
+  // Reservation operations
+  // With a campus, waiting reservations are listed alongside those holding a tablet kept there
+  async getReservations(includeClosed: boolean = false, campusId?: number): Promise<ReservationWithDetails[]> {
+    const condition = includeClosed ? undefined : inArray(reservations.status, openReservationStatuses);
+    const records = await db
+      .select()
+      .from(reservations)
+      .where(condition)
+      .orderBy(desc(reservations.priority), asc(reservations.createdAt), asc(reservations.id));
+    
+    if (records.length === 0) return [];
+    
+    // Get student and tablet details
+    const studentIds = Array.from(new Set(records.map(r => r.studentId)));
+    const tabletIds = Array.from(new Set(records.filter(r => r.tabletId).map(r => r.tabletId!)));
+    
+    const studentDetails = await db
+      .select()
+      .from(students)
+      .where(inArray(students.id, studentIds));
+    
+    const tabletDetails = tabletIds.length > 0
+      ? await db.select().from(tablets).where(inArray(tablets.id, tabletIds))
+      : [];
+    
+    const studentsMap = new Map(studentDetails.map(s => [s.id, s]));
+    const tabletsMap = new Map(tabletDetails.map(t => [t.id, t]));
+    
+    // Records are already in queue order, so waiting ones are numbered as they come
+    let position = 0;
+    const withDetails = records.map(record => ({
+      ...record,
+      student: studentsMap.get(record.studentId)!,
+      tablet: record.tabletId ? tabletsMap.get(record.tabletId) ?? null : null,
+      queuePosition: record.status === 'Waiting' ? ++position : null
+    }));
+    return campusId === undefined
+      ? withDetails
+      : withDetails.filter(reservation => !reservation.tablet || reservation.tablet.campusId === campusId);
+  }
+
+  async getReservation(id: number): Promise<Reservation | undefined> {
+    const [reservation] = await db
+      .select()
+      .from(reservations)
+      .where(eq(reservations.id, id));
+    
+    return reservation;
+  }
+
+  async createReservation(reservation: InsertReservation, context?: AuditContext): Promise<Reservation> {
+    return await db.transaction(async (tx) => {
+      const [student] = await tx
+        .select()
+        .from(students)
+        .where(eq(students.id, reservation.studentId));
+      
+      if (!student) {
+        throw new Error(`Student with ID ${reservation.studentId} not found`);
+      }
+      
+      const [openReservation] = await tx
+        .select()
+        .from(reservations)
+        .where(
+          and(
+            eq(reservations.studentId, reservation.studentId),
+            inArray(reservations.status, openReservationStatuses)
+          )
+        );
+      
+      if (openReservation) {
+        throw new Error('Student already has an open reservation');
+      }
+      
+      const [newReservation] = await tx
+        .insert(reservations)
+        .values({
+          ...reservation,
+          requestedBrand: reservation.requestedBrand || null,
+          requestedModel: reservation.requestedModel || null
+        })
+        .returning();
+      
+      await recordAudit(tx, context, 'create', 'reservation', newReservation.id, null, newReservation);
+      
+      return newReservation;
+    });
+  }
+
+  async cancelReservation(id: number, context?: AuditContext): Promise<Reservation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [reservation] = await tx
+        .select()
+        .from(reservations)
+        .where(eq(reservations.id, id));
+      
+      if (!reservation) return undefined;
+      
+      if (!openReservationStatuses.includes(reservation.status)) {
+        throw new Error(`Reservation is already ${reservation.status.toLowerCase()}`);
+      }
+      
+      const [cancelledReservation] = await tx
+        .update(reservations)
+        .set({
+          status: 'Cancelled',
+          updatedAt: new Date()
+        })
+        .where(eq(reservations.id, id))
+        .returning();
+      
+      await recordAudit(tx, context, 'update', 'reservation', id, reservation, cancelledReservation);
+      await releaseReservationTablet(tx, reservation, context);
+      
+      return cancelledReservation;
+    });
+  }
+
+  async convertReservation(id: number, details: ConvertReservation, campusId?: number, context?: AuditContext): Promise<BorrowRecord | undefined> {
+    const reservation = await this.getReservation(id);
+    if (!reservation) return undefined;
+    
+    if (!openReservationStatuses.includes(reservation.status)) {
+      throw new Error(`Reservation is already ${reservation.status.toLowerCase()}`);
+    }
+
+    // Lapsed reservations are closed by the scheduled check; until then they cannot be converted
+    if (reservation.expiresAt && reservation.expiresAt <= new Date()) {
+      throw new Error('Reservation has expired');
+    }
+    
+    // Use the tablet held for the student, or the first matching one on the shelf of the given campus
+    let tablet: Tablet | undefined;
+    if (reservation.status === 'Assigned' && reservation.tabletId) {
+      tablet = await this.getTablet(reservation.tabletId);
+      if (tablet && campusId !== undefined && tablet.campusId !== campusId) {
+        throw new Error('The tablet held for this reservation is kept at another campus');
+      }
+    } else {
+      const availableTablets = await this.getAvailableTablets(campusId);
+      tablet = availableTablets.find(t => matchesReservation(reservation, t));
+    }
+    
+    if (!tablet) {
+      throw new Error('No matching tablet is available for this reservation yet');
+    }
+    
+    // createBorrowRecord marks the reservation fulfilled
+    return this.createBorrowRecord({
+      tabletId: tablet.id,
+      studentId: reservation.studentId,
+      dateBorrowed: new Date(),
+      expectedReturnDate: details.expectedReturnDate,
+      condition: tablet.condition,
+      accessories: {
+        charger: !!tablet.hasCharger,
+        cable: !!tablet.hasCable,
+        box: !!tablet.hasBox
+      },
+      notes: details.notes || reservation.notes
+    }, context);
+  }
+
+  async expireReservations(context?: AuditContext): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const expiredReservations = await tx
+        .select()
+        .from(reservations)
+        .where(
+          and(
+            inArray(reservations.status, openReservationStatuses),
+            lte(reservations.expiresAt, new Date())
+          )
+        );
+      
+      for (const reservation of expiredReservations) {
+        const [expiredReservation] = await tx
+          .update(reservations)
+          .set({
+            status: 'Expired',
+            updatedAt: new Date()
+          })
+          .where(eq(reservations.id, reservation.id))
+          .returning();
+        
+        await recordAudit(tx, context, 'update', 'reservation', reservation.id, reservation, expiredReservation);
+        await releaseReservationTablet(tx, reservation, context);
+      }
+      
+      return expiredReservations.length;
+    });
+  }
+
+  // Lost tablet operations
+  async getLostReports(campusId?: number): Promise<LostReport[]> {
+    return db
+      .select()
+      .from(lostReports)
+      .where(campusId !== undefined ? inArray(lostReports.tabletId, campusTabletIds(campusId)) : undefined)
+      .orderBy(desc(lostReports.dateReported));
+  }
+
+  async getLostReport(id: number): Promise<LostReport | undefined> {
+    const [report] = await db
+      .select()
+      .from(lostReports)
+      .where(eq(lostReports.id, id));
+    
+    return report;
+  }
+
+  async getLostReportsByStudent(studentId: number): Promise<LostReport[]> {
+    return db
+      .select()
+      .from(lostReports)
+      .where(eq(lostReports.studentId, studentId))
+      .orderBy(desc(lostReports.dateReported));
+  }
+
+  async createLostReport(lostReport: InsertLostReport, context?: AuditContext): Promise<LostReport> {
+    // Start transaction
+    return await db.transaction(async (tx) => {
+      // Update tablet status to Lost
+      const [oldTablet] = await tx
+        .select()
+        .from(tablets)
+        .where(eq(tablets.id, lostReport.tabletId));
+      if (!oldTablet) {
+        throw new Error('Tablet not found');
+      }
+
+      // Every loss is billed, so the student can be cleared once the charge is paid or waived
+      const replacementValue = await findReplacementValue(tx, oldTablet);
+      if (!replacementValue || Number(replacementValue.tabletValue) <= 0) {
+        throw new Error(`Set a replacement value for the ${oldTablet.brand} ${oldTablet.model} before reporting it lost`);
+      }
+
+      const [lostTablet] = await tx
+        .update(tablets)
+        .set({
+          status: 'Lost',
+          updatedAt: new Date()
+        })
+        .where(eq(tablets.id, lostReport.tabletId))
+        .returning();
+
+      await recordAudit(tx, context, 'update', 'tablet', oldTablet.id, oldTablet, lostTablet);
+
+      // A lost tablet can no longer be lent, so a reservation holding it goes back to the queue
+      const [heldReservation] = await tx
+        .select()
+        .from(reservations)
+        .where(and(eq(reservations.tabletId, lostReport.tabletId), eq(reservations.status, 'Assigned')));
+      if (heldReservation) {
+        await requeueReservation(tx, heldReservation, context);
+      }
+      
+      // If there's an active borrowing, mark it as returned
+      let lostAccessories: Accessory[] = [];
+      if (lostReport.borrowRecordId) {
+        const [borrowRecord] = await tx
+          .select()
+          .from(borrowRecords)
+          .where(eq(borrowRecords.id, lostReport.borrowRecordId));
+        
+        if (borrowRecord && !borrowRecord.isReturned) {
+          // Accessories still out with the tablet are lost along with it
+          const borrowed = parseAccessories(borrowRecord.accessories);
+          lostAccessories = accessoryEnum.enumValues.filter(accessory => borrowed[accessory]);
+
+          const [closedRecord] = await tx
+            .update(borrowRecords)
+            .set({
+              isReturned: true,
+              returnDate: lostReport.dateReported,
+              returnNotes: 'Tablet reported as lost',
+              updatedAt: new Date()
+            })
+            .where(eq(borrowRecords.id, lostReport.borrowRecordId))
+            .returning();
+
+          await recordAudit(tx, context, 'update', 'borrow_record', borrowRecord.id, borrowRecord, closedRecord);
+        }
+      }
+      
+      // Create lost report
+      const [newLostReport] = await tx
+        .insert(lostReports)
+        .values(lostReport)
+        .returning();
+
+      await recordAudit(tx, context, 'create', 'lost_report', newLostReport.id, null, newLostReport);
+      
+      // Add to tablet history
+      await tx.insert(tabletHistory).values({
+        tabletId: lostReport.tabletId,
+        studentId: lostReport.studentId,
+        borrowRecordId: lostReport.borrowRecordId,
+        eventType: 'lost',
+        date: lostReport.dateReported,
+        notes: lostReport.details || 'Tablet reported as lost',
+        actorId: context?.actorId
+      });
+
+      // Bill the student for the tablet and anything lost with it
+      const amount = Number(replacementValue.tabletValue) +
+        lostAccessories.reduce((sum, accessory) => sum + Number(replacementValue[accessoryValueFields[accessory]]), 0);
+
+      await postLedgerEntry(tx, {
+        studentId: lostReport.studentId,
+        entryType: 'charge',
+        amount: amount.toFixed(2),
+        description: `Replacement of lost ${oldTablet.brand} ${oldTablet.model} (SN: ${oldTablet.serialNumber})` +
+          (lostAccessories.length > 0 ? ` with ${describeAccessories(lostAccessories).toLowerCase()}` : ''),
+        tabletId: oldTablet.id,
+        borrowRecordId: lostReport.borrowRecordId ?? null,
+        lostReportId: newLostReport.id,
+        entryDate: lostReport.dateReported,
+      }, context);
+      
+      return newLostReport;
+    });
+  }
+
+  // Repair ticket operations
+  async getRepairTickets(includeClosed: boolean = false, campusId?: number): Promise<RepairTicketWithDetails[]> {
+    const conditions: SQL[] = [];
+    if (!includeClosed) conditions.push(not(eq(repairTickets.status, 'Closed')));
+    if (campusId !== undefined) conditions.push(inArray(repairTickets.tabletId, campusTabletIds(campusId)));
+
+    const tickets = await db
+      .select()
+      .from(repairTickets)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(repairTickets.createdAt), desc(repairTickets.id));
+
+    return withRepairTicketDetails(tickets);
+  }
+
+  async getRepairTicket(id: number): Promise<RepairTicketWithDetails | undefined> {
+    const [ticket] = await db.select().from(repairTickets).where(eq(repairTickets.id, id));
+    if (!ticket) return undefined;
+
+    const [withDetails] = await withRepairTicketDetails([ticket]);
+    return withDetails;
+  }
+
+  async createRepairTicket(ticket: InsertRepairTicket, context?: AuditContext): Promise<RepairTicket> {
+    return await db.transaction(async (tx) => {
+      const [tablet] = await tx.select().from(tablets).where(eq(tablets.id, ticket.tabletId));
+      if (!tablet) {
+        throw new Error('Tablet not found');
+      }
+
+      if (tablet.status === 'Lost') {
+        throw new Error('Lost tablets cannot be sent for repair');
+      }
+
+      const [activeBorrowing] = await tx
+        .select()
+        .from(borrowRecords)
+        .where(and(eq(borrowRecords.tabletId, tablet.id), eq(borrowRecords.isReturned, false)));
+
+      if (activeBorrowing) {
+        throw new Error('Tablet is currently borrowed; process its return first');
+      }
+
+      const [openTicket] = await tx
+        .select()
+        .from(repairTickets)
+        .where(and(eq(repairTickets.tabletId, tablet.id), not(eq(repairTickets.status, 'Closed'))));
+
+      if (openTicket) {
+        throw new Error(`Tablet already has an open repair ticket (#${openTicket.id})`);
+      }
+
+      const { ticket: newTicket } = await openRepairTicket(tx, tablet, ticket, context);
+      return newTicket;
+    });
+  }
+
+  async updateRepairTicket(id: number, changes: UpdateRepairTicket, context?: AuditContext): Promise<RepairTicket | undefined> {
+    return await db.transaction(async (tx) => {
+      const [ticket] = await tx.select().from(repairTickets).where(eq(repairTickets.id, id));
+      if (!ticket) return undefined;
+
+      if (ticket.status === 'Closed') {
+        throw new Error('Closed repair tickets cannot be changed');
+      }
+
+      const [updatedTicket] = await tx
+        .update(repairTickets)
+        .set({
+          status: changes.status,
+          technicianNotes: changes.technicianNotes,
+          parts: changes.parts,
+          cost: toMoney(changes.cost),
+          updatedAt: new Date()
+        })
+        .where(eq(repairTickets.id, id))
+        .returning();
+
+      await recordAudit(tx, context, 'update', 'repair_ticket', id, ticket, updatedTicket);
+
+      if (changes.status && changes.status !== ticket.status) {
+        await tx.insert(tabletHistory).values({
+          tabletId: ticket.tabletId,
+          borrowRecordId: ticket.borrowRecordId,
+          eventType: 'repair_status_change',
+          date: new Date(),
+          notes: `Repair ticket #${id} moved from ${ticket.status} to ${changes.status}.`,
+          actorId: context?.actorId
+        });
+      }
+
+      return updatedTicket;
+    });
+  }
+
+  async closeRepairTicket(id: number, resolution: CloseRepairTicket, context?: AuditContext): Promise<RepairTicket | undefined> {
+    return await db.transaction(async (tx) => {
+      const [ticket] = await tx.select().from(repairTickets).where(eq(repairTickets.id, id));
+      if (!ticket) return undefined;
+
+      if (ticket.status === 'Closed') {
+        throw new Error('Repair ticket is already closed');
+      }
+
+      const [closedTicket] = await tx
+        .update(repairTickets)
+        .set({
+          status: 'Closed',
+          resolvedCondition: resolution.resolvedCondition,
+          technicianNotes: resolution.technicianNotes,
+          parts: resolution.parts,
+          cost: toMoney(resolution.cost),
+          closedBy: context?.actorId ?? null,
+          closedAt: new Date(),
+          updatedAt: new Date()
+        })
+        .where(eq(repairTickets.id, id))
+        .returning();
+
+      await recordAudit(tx, context, 'update', 'repair_ticket', id, ticket, closedTicket);
+
+      // The repaired tablet goes back into circulation, unless it could not be fixed and is still defective
+      const status: TabletStatus = resolution.resolvedCondition === 'Defective' ? 'Unserviceable' : 'Serviceable';
+      const [oldTablet] = await tx.select().from(tablets).where(eq(tablets.id, ticket.tabletId));
+      const [updatedTablet] = await tx
+        .update(tablets)
+        .set({ status, condition: resolution.resolvedCondition, updatedAt: new Date() })
+        .where(eq(tablets.id, ticket.tabletId))
+        .returning();
+
+      await recordAudit(tx, context, 'update', 'tablet', ticket.tabletId, oldTablet, updatedTablet);
+
+      await tx.insert(tabletHistory).values({
+        tabletId: ticket.tabletId,
+        borrowRecordId: ticket.borrowRecordId,
+        eventType: 'repair_closed',
+        date: closedTicket.closedAt!,
+        condition: resolution.resolvedCondition,
+        notes: (status === 'Serviceable'
+          ? `Repair ticket #${id} closed; tablet repaired to ${resolution.resolvedCondition} condition. `
+          : `Repair ticket #${id} closed; tablet could not be repaired. `) +
+          `Status changed from ${oldTablet.status} to ${status}.` +
+          (closedTicket.cost ? ` Repair cost: ${closedTicket.cost}.` : ''),
+        actorId: context?.actorId
+      });
+
+      await assignNextReservation(tx, updatedTablet, context);
+
+      return closedTicket;
+    });
+  }
+
+  // Device model catalog operations
+  async getDeviceModels(): Promise<DeviceModelWithStats[]> {
+    const models = await db
+      .select()
+      .from(deviceModels)
+      .orderBy(asc(deviceModels.brand), asc(deviceModels.model));
+
+    const statusCounts = await db
+      .select({ modelId: tablets.modelId, status: tablets.status, count: sql<number>`count(*)::int` })
+      .from(tablets)
+      .groupBy(tablets.modelId, tablets.status);
+
+    const borrowedCounts = await db
+      .select({ modelId: tablets.modelId, count: sql<number>`count(*)::int` })
+      .from(borrowRecords)
+      .innerJoin(tablets, eq(borrowRecords.tabletId, tablets.id))
+      .where(eq(borrowRecords.isReturned, false))
+      .groupBy(tablets.modelId);
+    const borrowedMap = new Map(borrowedCounts.map(row => [row.modelId, row.count]));
+
+    return models.map(deviceModel => {
+      const counts = statusCounts.filter(row => row.modelId === deviceModel.id);
+      const countFor = (status: Tablet['status']) => counts.find(row => row.status === status)?.count ?? 0;
+      return {
+        ...deviceModel,
+        totalUnits: counts.reduce((sum, row) => sum + row.count, 0),
+        serviceableUnits: countFor('Serviceable'),
+        unserviceableUnits: countFor('Unserviceable'),
+        lostUnits: countFor('Lost'),
+        borrowedUnits: borrowedMap.get(deviceModel.id) ?? 0,
+      };
+    });
+  }
+
+  async createDeviceModel(deviceModel: InsertDeviceModel, context?: AuditContext): Promise<DeviceModel> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(deviceModels)
+        .where(matchesDeviceModelKey(deviceModels.brand, deviceModels.model, deviceModelKey(deviceModel.brand, deviceModel.model)));
+      if (existing) {
+        throw new Error(`${existing.brand} ${existing.model} is already in the catalog`);
+      }
+
+      const [created] = await tx
+        .insert(deviceModels)
+        .values({ ...deviceModel, replacementCost: toMoney(deviceModel.replacementCost) })
+        .returning();
+      await recordAudit(tx, context, 'create', 'device_model', created.id, null, created);
+      return created;
+    });
+  }
+
+  async updateDeviceModel(id: number, deviceModel: InsertDeviceModel, context?: AuditContext): Promise<DeviceModel | undefined> {
+    return await db.transaction(async (tx) => {
+      const [oldModel] = await tx.select().from(deviceModels).where(eq(deviceModels.id, id));
+      if (!oldModel) return undefined;
+
+      const [clash] = await tx
+        .select()
+        .from(deviceModels)
+        .where(and(
+          ne(deviceModels.id, id),
+          matchesDeviceModelKey(deviceModels.brand, deviceModels.model, deviceModelKey(deviceModel.brand, deviceModel.model))
+        ));
+      if (clash) {
+        throw new Error(`${clash.brand} ${clash.model} is already in the catalog; merge the two models instead`);
+      }
+
+      const [updated] = await tx
+        .update(deviceModels)
+        .set({ ...deviceModel, replacementCost: toMoney(deviceModel.replacementCost), updatedAt: new Date() })
+        .where(eq(deviceModels.id, id))
+        .returning();
+      await recordAudit(tx, context, 'update', 'device_model', id, oldModel, updated);
+
+      // A corrected spelling carries over to every unit of the model
+      await syncTabletsToDeviceModel(tx, id, updated, context);
+      return updated;
+    });
+  }
+
+  async mergeDeviceModel(id: number, targetId: number, context?: AuditContext): Promise<DeviceModel | undefined> {
+    if (id === targetId) {
+      throw new Error('A device model cannot be merged into itself');
+    }
+
+    return await db.transaction(async (tx) => {
+      const [source] = await tx.select().from(deviceModels).where(eq(deviceModels.id, id));
+      const [target] = await tx.select().from(deviceModels).where(eq(deviceModels.id, targetId));
+      if (!source || !target) return undefined;
+
+      await syncTabletsToDeviceModel(tx, id, target, context);
+      await tx.delete(deviceModels).where(eq(deviceModels.id, id));
+      await recordAudit(tx, context, 'delete', 'device_model', id, source, null);
+      return target;
+    });
+  }
+
+  async deleteDeviceModel(id: number, context?: AuditContext): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [inUse] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(tablets)
+        .where(eq(tablets.modelId, id));
+      if (inUse.count > 0) {
+        throw new Error(`This model is used by ${inUse.count} tablet(s); merge it into another model instead`);
+      }
+
+      const [deleted] = await tx.delete(deviceModels).where(eq(deviceModels.id, id)).returning();
+      if (!deleted) return false;
+
+      await recordAudit(tx, context, 'delete', 'device_model', id, deleted, null);
+      return true;
+    });
+  }
+
+  // Procurement operations
+  async getProcurementBatches(): Promise<ProcurementBatchWithStats[]> {
+    const batches = await db
+      .select()
+      .from(procurementBatches)
+      .orderBy(desc(procurementBatches.purchaseDate), asc(procurementBatches.poNumber));
+
+    const counts = await db
+      .select({ batchId: tablets.batchId, count: sql<number>`count(*)::int` })
+      .from(tablets)
+      .groupBy(tablets.batchId);
+    const countMap = new Map(counts.map(row => [row.batchId, row.count]));
+
+    return batches.map(batch => ({ ...batch, tabletCount: countMap.get(batch.id) ?? 0 }));
+  }
+
+  async createProcurementBatch(batch: InsertProcurementBatch, context?: AuditContext): Promise<ProcurementBatch> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(procurementBatches)
+        .where(sql`lower(${procurementBatches.poNumber}) = lower(${batch.poNumber})`);
+      if (existing) {
+        throw new Error(`Purchase order ${existing.poNumber} already exists`);
+      }
+
+      const [created] = await tx
+        .insert(procurementBatches)
+        .values({ ...batch, unitCost: toMoney(batch.unitCost) })
+        .returning();
+      await recordAudit(tx, context, 'create', 'procurement_batch', created.id, null, created);
+      return created;
+    });
+  }
+
+  async updateProcurementBatch(id: number, batch: InsertProcurementBatch, context?: AuditContext): Promise<ProcurementBatch | undefined> {
+    return await db.transaction(async (tx) => {
+      const [oldBatch] = await tx.select().from(procurementBatches).where(eq(procurementBatches.id, id));
+      if (!oldBatch) return undefined;
+
+      const [clash] = await tx
+        .select()
+        .from(procurementBatches)
+        .where(and(
+          ne(procurementBatches.id, id),
+          sql`lower(${procurementBatches.poNumber}) = lower(${batch.poNumber})`
+        ));
+      if (clash) {
+        throw new Error(`Purchase order ${clash.poNumber} already exists`);
+      }
+
+      const [updated] = await tx
+        .update(procurementBatches)
+        .set({ ...batch, unitCost: toMoney(batch.unitCost), updatedAt: new Date() })
+        .where(eq(procurementBatches.id, id))
+        .returning();
+      await recordAudit(tx, context, 'update', 'procurement_batch', id, oldBatch, updated);
+      return updated;
+    });
+  }
+
+  async deleteProcurementBatch(id: number, context?: AuditContext): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [inUse] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(tablets)
+        .where(eq(tablets.batchId, id));
+      if (inUse.count > 0) {
+        throw new Error(`This batch still has ${inUse.count} tablet(s); move them to another batch first`);
+      }
+
+      const [deleted] = await tx.delete(procurementBatches).where(eq(procurementBatches.id, id)).returning();
+      if (!deleted) return false;
+
+      await recordAudit(tx, context, 'delete', 'procurement_batch', id, deleted, null);
+      return true;
+    });
+  }
+
+  async getWarrantyExpiring(days: number): Promise<WarrantyExpiringTablet[]> {
+    // Lost tablets cannot be sent in under warranty, so they are left out
+    const rows = await db
+      .select({ tablet: tablets, batch: procurementBatches, deviceModel: deviceModels })
+      .from(tablets)
+      .innerJoin(procurementBatches, eq(tablets.batchId, procurementBatches.id))
+      .leftJoin(deviceModels, eq(tablets.modelId, deviceModels.id))
+      .where(not(eq(tablets.status, 'Lost')));
+
+    const today = new Date();
+    const expiring: WarrantyExpiringTablet[] = [];
+    for (const row of rows) {
+      const warrantyExpiry = warrantyExpiryFor(row.batch, row.deviceModel);
+      if (!warrantyExpiry) continue;
+
+      const daysRemaining = differenceInCalendarDays(parseISO(warrantyExpiry), today);
+      if (daysRemaining >= 0 && daysRemaining <= days) {
+        expiring.push({ ...row, warrantyExpiry, daysRemaining });
+      }
+    }
+
+    return expiring.sort((a, b) => a.daysRemaining - b.daysRemaining || a.tablet.serialNumber.localeCompare(b.tablet.serialNumber));
+  }
+
+  async getDepreciationReport(fiscalYear: number, settings: DepreciationSettings): Promise<DepreciationReport> {
+    const rows = await db
+      .select({ tablet: tablets, batch: procurementBatches, deviceModel: deviceModels, campus: campuses })
+      .from(tablets)
+      .leftJoin(procurementBatches, eq(tablets.batchId, procurementBatches.id))
+      .leftJoin(deviceModels, eq(tablets.modelId, deviceModels.id))
+      .leftJoin(campuses, eq(tablets.campusId, campuses.id));
+
+    // Latest event that could have taken each tablet out of service
+    const statusEvents = await db
+      .select({
+        tabletId: tabletHistory.tabletId,
+        eventType: tabletHistory.eventType,
+        date: sql<Date>`max(${tabletHistory.date})`.mapWith((value: string) => new Date(value)),
+      })
+      .from(tabletHistory)
+      .where(inArray(tabletHistory.eventType, ['lost', 'status_change', 'repair_closed']))
+      .groupBy(tabletHistory.tabletId, tabletHistory.eventType);
+
+    // Tablets out of service only while a repair ticket is open are not impaired
+    const underRepair = new Set((await db
+      .select({ tabletId: repairTickets.tabletId })
+      .from(repairTickets)
+      .where(not(eq(repairTickets.status, 'Closed')))).map(row => row.tabletId));
+
+    const impairedOnFor = (tablet: Tablet): Date | null => {
+      if (tablet.status === 'Serviceable') return null;
+      if (tablet.status === 'Unserviceable' && underRepair.has(tablet.id)) return null;
+      // A repair closed with the tablet still defective leaves it Unserviceable from that day
+      const eventTypes = tablet.status === 'Lost' ? ['lost', 'status_change'] : ['status_change', 'repair_closed'];
+      const dates = statusEvents
+        .filter(event => event.tabletId === tablet.id && eventTypes.includes(event.eventType))
+        .map(event => event.date.getTime());
+      if (dates.length > 0) return new Date(Math.max(...dates));
+      return tablet.updatedAt ?? new Date();
+    };
+
+    let unvaluedTablets = 0;
+    const lines: DepreciationLine[] = [];
+    for (const { tablet, batch, deviceModel, campus } of rows) {
+      // The price actually paid wins over the catalog's replacement cost
+      const cost = batch?.unitCost ?? deviceModel?.replacementCost;
+      if (!cost) {
+        unvaluedTablets++;
+        continue;
+      }
+
+      const asset: DepreciableTablet = {
+        tabletId: tablet.id,
+        serialNumber: tablet.serialNumber,
+        brand: tablet.brand,
+        model: tablet.model,
+        status: tablet.status,
+        campus: campus?.name ?? 'Unassigned',
+        cost: Number(cost),
+        acquiredOn: batch ? parseISO(batch.purchaseDate) : tablet.createdAt ?? new Date(),
+        impairedOn: impairedOnFor(tablet),
+      };
+
+      const line = depreciateTablet(asset, fiscalYear, settings);
+      if (line) lines.push(line);
+    }
+
+    lines.sort((a, b) => a.brand.localeCompare(b.brand) || a.model.localeCompare(b.model) || a.serialNumber.localeCompare(b.serialNumber));
+    return { fiscalYear, settings, lines, unvaluedTablets };
+  }
+
+  // Academic term operations
+  async getTerms(): Promise<AcademicTermWithStats[]> {
+    const terms = await db.select().from(academicTerms).orderBy(desc(academicTerms.startDate));
+
+    const counts = await db
+      .select({
+        termId: borrowRecords.termId,
+        total: sql<number>`count(*)::int`,
+        active: sql<number>`count(*) filter (where ${borrowRecords.isReturned} = false)::int`,
+      })
+      .from(borrowRecords)
+      .groupBy(borrowRecords.termId);
+    const countMap = new Map(counts.map(row => [row.termId, row]));
+
+    return terms.map(term => ({
+      ...term,
+      activeBorrowings: countMap.get(term.id)?.active ?? 0,
+      totalBorrowings: countMap.get(term.id)?.total ?? 0,
+    }));
+  }
+
+  async createTerm(term: InsertAcademicTerm, context?: AuditContext): Promise<AcademicTerm> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(academicTerms)
+        .where(sql`lower(${academicTerms.name}) = lower(${term.name})`);
+      if (existing) {
+        throw new Error(`Term ${existing.name} already exists`);
+      }
+      const overlapping = await findOverlappingTerm(tx, term);
+      if (overlapping) {
+        throw new Error(`The dates overlap ${overlapping.name}`);
+      }
+
+      const [created] = await tx.insert(academicTerms).values(term).returning();
+      await recordAudit(tx, context, 'create', 'academic_term', created.id, null, created);
+      return created;
+    });
+  }
+
+  async updateTerm(id: number, term: InsertAcademicTerm, context?: AuditContext): Promise<AcademicTerm | undefined> {
+    return await db.transaction(async (tx) => {
+      const [oldTerm] = await tx.select().from(academicTerms).where(eq(academicTerms.id, id));
+      if (!oldTerm) return undefined;
+
+      const [clash] = await tx
+        .select()
+        .from(academicTerms)
+        .where(and(ne(academicTerms.id, id), sql`lower(${academicTerms.name}) = lower(${term.name})`));
+      if (clash) {
+        throw new Error(`Term ${clash.name} already exists`);
+      }
+      const overlapping = await findOverlappingTerm(tx, term, id);
+      if (overlapping) {
+        throw new Error(`The dates overlap ${overlapping.name}`);
+      }
+
+      const [updated] = await tx
+        .update(academicTerms)
+        .set({ ...term, updatedAt: new Date() })
+        .where(eq(academicTerms.id, id))
+        .returning();
+      await recordAudit(tx, context, 'update', 'academic_term', id, oldTerm, updated);
+      return updated;
+    });
+  }
+
+  async deleteTerm(id: number, context?: AuditContext): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [inUse] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(borrowRecords)
+        .where(eq(borrowRecords.termId, id));
+      if (inUse.count > 0) {
+        throw new Error(`${inUse.count} borrowing(s) belong to this term`);
+      }
+
+      const [deleted] = await tx.delete(academicTerms).where(eq(academicTerms.id, id)).returning();
+      if (!deleted) return false;
+
+      await recordAudit(tx, context, 'delete', 'academic_term', id, deleted, null);
+      return true;
+    });
+  }
+
+  async previewTermRollover(fromTermId: number, toTermId: number): Promise<TermRolloverPreview | undefined> {
+    const [fromTerm] = await db.select().from(academicTerms).where(eq(academicTerms.id, fromTermId));
+    const [toTerm] = await db.select().from(academicTerms).where(eq(academicTerms.id, toTermId));
+    if (!fromTerm || !toTerm) return undefined;
+    if (toTerm.startDate <= fromTerm.startDate) {
+      throw new Error(`${toTerm.name} does not come after ${fromTerm.name}`);
+    }
+
+    return { fromTerm, toTerm, candidates: await rolloverCandidates(db, fromTerm, toTerm) };
+  }
+
+  /**
+   * Extend the chosen borrowings into the next term and flag the others chosen for recall.
+   * Only borrowings the preview would list are touched, so a stale selection cannot reach
+   * borrowings of another term or ones already returned.
+   */
+  async applyTermRollover(fromTermId: number, rollover: TermRollover, context?: AuditContext): Promise<TermRolloverResult | undefined> {
+    return await db.transaction(async (tx) => {
+      const [fromTerm] = await tx.select().from(academicTerms).where(eq(academicTerms.id, fromTermId));
+      const [toTerm] = await tx.select().from(academicTerms).where(eq(academicTerms.id, rollover.toTermId));
+      if (!fromTerm || !toTerm) return undefined;
+      if (toTerm.startDate <= fromTerm.startDate) {
+        throw new Error(`${toTerm.name} does not come after ${fromTerm.name}`);
+      }
+
+      const candidates = new Map(
+        (await rolloverCandidates(tx, fromTerm, toTerm)).map(candidate => [candidate.borrowRecord.id, candidate.borrowRecord])
+      );
+      const result: TermRolloverResult = { extended: [], recalled: [] };
+
+      for (const id of rollover.extendIds) {
+        const candidate = candidates.get(id);
+        if (!candidate) continue;
+        const { tablet, student, ...oldRecord } = candidate;
+
+        // The new due date starts the overdue monitor over
+        const [updated] = await tx
+          .update(borrowRecords)
+          .set({
+            termId: toTerm.id,
+            expectedReturnDate: toTerm.endDate,
+            escalationLevel: null,
+            recallRequestedAt: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(borrowRecords.id, id))
+          .returning();
+        await recordAudit(tx, context, 'update', 'borrow_record', id, oldRecord, updated);
+        result.extended.push(id);
+      }
+
+      for (const id of rollover.recallIds) {
+        const candidate = candidates.get(id);
+        if (!candidate || result.extended.includes(id)) continue;
+        const { tablet, student, ...oldRecord } = candidate;
+
+        const [updated] = await tx
+          .update(borrowRecords)
+          .set({
+            termId: fromTerm.id,
+            expectedReturnDate: oldRecord.expectedReturnDate ?? fromTerm.endDate,
+            recallRequestedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(borrowRecords.id, id))
+          .returning();
+        await recordAudit(tx, context, 'update', 'borrow_record', id, oldRecord, updated);
+        result.recalled.push(id);
+      }
+
+      return result;
+    });
+  }
+
+  // Campus operations
+  async getCampuses(): Promise<CampusWithStats[]> {
+    const allCampuses = await db.select().from(campuses).orderBy(asc(campuses.name));
+    const available = await this.getAvailableTablets();
+    const availableCounts = new Map<number | null, number>();
+    for (const tablet of available) {
+      availableCounts.set(tablet.campusId, (availableCounts.get(tablet.campusId) ?? 0) + 1);
+    }
+
+    const tabletCounts = await db
+      .select({ campusId: tablets.campusId, count: sql<number>`count(*)::int` })
+      .from(tablets)
+      .groupBy(tablets.campusId);
+    const incomingCounts = await db
+      .select({ campusId: tabletTransfers.toCampusId, count: sql<number>`count(*)::int` })
+      .from(tabletTransfers)
+      .where(eq(tabletTransfers.status, 'In Transit'))
+      .groupBy(tabletTransfers.toCampusId);
+    const staffCounts = await db
+      .select({ campusId: admin.campusId, count: sql<number>`count(*)::int` })
+      .from(admin)
+      .where(eq(admin.isActive, true))
+      .groupBy(admin.campusId);
+
+    const tabletMap = new Map(tabletCounts.map(row => [row.campusId, row.count]));
+    const incomingMap = new Map(incomingCounts.map(row => [row.campusId, row.count]));
+    const staffMap = new Map(staffCounts.map(row => [row.campusId, row.count]));
+
+    return allCampuses.map(campus => ({
+      ...campus,
+      tabletCount: tabletMap.get(campus.id) ?? 0,
+      availableCount: availableCounts.get(campus.id) ?? 0,
+      incomingCount: incomingMap.get(campus.id) ?? 0,
+      staffCount: staffMap.get(campus.id) ?? 0,
+    }));
+  }
+
+  async getCampus(id: number): Promise<Campus | undefined> {
+    const [campus] = await db.select().from(campuses).where(eq(campuses.id, id));
+    return campus;
+  }
+
+  async createCampus(campus: InsertCampus, context?: AuditContext): Promise<Campus> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(campuses).where(eq(campuses.code, campus.code));
+      if (existing) {
+        throw new Error(`Campus code ${existing.code} is already used by ${existing.name}`);
+      }
+
+      const [created] = await tx.insert(campuses).values(campus).returning();
+      await recordAudit(tx, context, 'create', 'campus', created.id, null, created);
+      return created;
+    });
+  }
+
+  async updateCampus(id: number, campus: InsertCampus, context?: AuditContext): Promise<Campus | undefined> {
+    return await db.transaction(async (tx) => {
+      const [oldCampus] = await tx.select().from(campuses).where(eq(campuses.id, id));
+      if (!oldCampus) return undefined;
+
+      const [clash] = await tx
+        .select()
+        .from(campuses)
+        .where(and(ne(campuses.id, id), eq(campuses.code, campus.code)));
+      if (clash) {
+        throw new Error(`Campus code ${clash.code} is already used by ${clash.name}`);
+      }
+
+      const [updated] = await tx
+        .update(campuses)
+        .set({ ...campus, updatedAt: new Date() })
+        .where(eq(campuses.id, id))
+        .returning();
+      await recordAudit(tx, context, 'update', 'campus', id, oldCampus, updated);
+      return updated;
+    });
+  }
+
+  async getTransfers(filters: TransferFilters = {}): Promise<TabletTransferWithDetails[]> {
+    const conditions: SQL[] = [];
+    if (filters.campusId !== undefined) {
+      conditions.push(or(
+        eq(tabletTransfers.fromCampusId, filters.campusId),
+        eq(tabletTransfers.toCampusId, filters.campusId)
+      )!);
+    }
+    if (filters.status) conditions.push(eq(tabletTransfers.status, filters.status));
+
+    const transfers = await db
+      .select()
+      .from(tabletTransfers)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(tabletTransfers.dispatchedAt), desc(tabletTransfers.id));
+
+    return withTransferDetails(transfers);
+  }
+
+  async getTransfer(id: number): Promise<TabletTransferWithDetails | undefined> {
+    const [transfer] = await db.select().from(tabletTransfers).where(eq(tabletTransfers.id, id));
+    if (!transfer) return undefined;
+    const [withDetails] = await withTransferDetails([transfer]);
+    return withDetails;
+  }
+
+  // Every tablet is checked before any is dispatched, so a bad one stops the whole shipment
+  async dispatchTransfer(transfer: DispatchTransfer, fromCampusId?: number, context?: AuditContext): Promise<TabletTransfer[]> {
+    return await db.transaction(async (tx) => {
+      const [destination] = await tx.select().from(campuses).where(eq(campuses.id, transfer.toCampusId));
+      if (!destination) {
+        throw new Error('Destination campus not found');
+      }
+      if (!destination.isActive) {
+        throw new Error(`${destination.name} is no longer active`);
+      }
+
+      const tabletIds = Array.from(new Set(transfer.tabletIds));
+      const selected = await tx.select().from(tablets).where(inArray(tablets.id, tabletIds));
+      if (selected.length !== tabletIds.length) {
+        throw new Error('One or more tablets were not found');
+      }
+
+      const borrowed = await tx
+        .select({ tabletId: borrowRecords.tabletId })
+        .from(borrowRecords)
+        .where(and(inArray(borrowRecords.tabletId, tabletIds), eq(borrowRecords.isReturned, false)));
+      const held = await tx
+        .select({ tabletId: reservations.tabletId })
+        .from(reservations)
+        .where(and(inArray(reservations.tabletId, tabletIds), eq(reservations.status, 'Assigned')));
+      const moving = await tx
+        .select({ tabletId: tabletTransfers.tabletId })
+        .from(tabletTransfers)
+        .where(and(inArray(tabletTransfers.tabletId, tabletIds), eq(tabletTransfers.status, 'In Transit')));
+      const borrowedIds = new Set(borrowed.map(row => row.tabletId));
+      const heldIds = new Set(held.map(row => row.tabletId));
+      const movingIds = new Set(moving.map(row => row.tabletId));
+
+      const campusNames = new Map((await tx.select().from(campuses)).map(c => [c.id, c.name]));
+
+      for (const tablet of selected) {
+        if (fromCampusId !== undefined && tablet.campusId !== fromCampusId) {
+          throw new Error(`Tablet ${tablet.serialNumber} is not kept at your campus`);
+        }
+        if (tablet.campusId === destination.id) {
+          throw new Error(`Tablet ${tablet.serialNumber} is already at ${destination.name}`);
+        }
+        if (tablet.status === 'Lost') {
+          throw new Error(`Tablet ${tablet.serialNumber} is lost`);
+        }
+        if (borrowedIds.has(tablet.id)) {
+          throw new Error(`Tablet ${tablet.serialNumber} is borrowed; it must be returned first`);
+        }
+        if (heldIds.has(tablet.id)) {
+          throw new Error(`Tablet ${tablet.serialNumber} is held for a reservation`);
+        }
+        if (movingIds.has(tablet.id)) {
+          throw new Error(`Tablet ${tablet.serialNumber} is already in transit`);
+        }
+      }
+
+      const dispatched: TabletTransfer[] = [];
+      for (const tablet of selected) {
+        const [created] = await tx
+          .insert(tabletTransfers)
+          .values({
+            tabletId: tablet.id,
+            fromCampusId: tablet.campusId,
+            toCampusId: destination.id,
+            notes: transfer.notes ?? null,
+            dispatchedBy: context?.actorId ?? null,
+          })
+          .returning();
+
+        const origin = tablet.campusId !== null ? campusNames.get(tablet.campusId) : undefined;
+        await tx.insert(tabletHistory).values({
+          tabletId: tablet.id,
+          eventType: 'transferred',
+          date: created.dispatchedAt,
+          condition: tablet.condition,
+          notes: `Dispatched ${origin ? `from ${origin} ` : ''}to ${destination.name}`,
+          actorId: context?.actorId
+        });
+
+        await recordAudit(tx, context, 'create', 'tablet_transfer', created.id, null, created);
+        dispatched.push(created);
+      }
+
+      return dispatched;
+    });
+  }
+
+  async receiveTransfer(id: number, context?: AuditContext): Promise<TabletTransfer | undefined> {
+    return await db.transaction(async (tx) => {
+      const [transfer] = await tx.select().from(tabletTransfers).where(eq(tabletTransfers.id, id));
+      if (!transfer) return undefined;
+      if (transfer.status !== 'In Transit') {
+        throw new Error(`Transfer is already ${transfer.status.toLowerCase()}`);
+      }
+
+      const [received] = await tx
+        .update(tabletTransfers)
+        .set({ status: 'Received', receivedBy: context?.actorId ?? null, receivedAt: new Date() })
+        .where(eq(tabletTransfers.id, id))
+        .returning();
+
+      const [oldTablet] = await tx.select().from(tablets).where(eq(tablets.id, transfer.tabletId));
+      const [updatedTablet] = await tx
+        .update(tablets)
+        .set({ campusId: transfer.toCampusId, updatedAt: new Date() })
+        .where(eq(tablets.id, transfer.tabletId))
+        .returning();
+
+      const [destination] = await tx.select().from(campuses).where(eq(campuses.id, transfer.toCampusId));
+      await tx.insert(tabletHistory).values({
+        tabletId: transfer.tabletId,
+        eventType: 'transferred',
+        date: received.receivedAt!,
+        condition: updatedTablet.condition,
+        notes: `Received at ${destination.name}`,
+        actorId: context?.actorId
+      });
+
+      await recordAudit(tx, context, 'update', 'tablet_transfer', id, transfer, received);
+      await recordAudit(tx, context, 'update', 'tablet', transfer.tabletId, oldTablet, updatedTablet);
+      return received;
+    });
+  }
+
+  // The tablet never left, so it stays at the campus it was dispatched from
+  async cancelTransfer(id: number, context?: AuditContext): Promise<TabletTransfer | undefined> {
+    return await db.transaction(async (tx) => {
+      const [transfer] = await tx.select().from(tabletTransfers).where(eq(tabletTransfers.id, id));
+      if (!transfer) return undefined;
+      if (transfer.status !== 'In Transit') {
+        throw new Error(`Transfer is already ${transfer.status.toLowerCase()}`);
+      }
+
+      const [cancelled] = await tx
+        .update(tabletTransfers)
+        .set({ status: 'Cancelled', receivedBy: context?.actorId ?? null, receivedAt: new Date() })
+        .where(eq(tabletTransfers.id, id))
+        .returning();
+
+      const [tablet] = await tx.select().from(tablets).where(eq(tablets.id, transfer.tabletId));
+      const [destination] = await tx.select().from(campuses).where(eq(campuses.id, transfer.toCampusId));
+      await tx.insert(tabletHistory).values({
+        tabletId: transfer.tabletId,
+        eventType: 'transferred',
+        date: cancelled.receivedAt!,
+        condition: tablet.condition,
+        notes: `Transfer to ${destination.name} cancelled`,
+        actorId: context?.actorId
+      });
+
+      await recordAudit(tx, context, 'update', 'tablet_transfer', id, transfer, cancelled);
+      return cancelled;
+    });
+  }
+
+  // Accessory liability operations
+  async getAccessoryLiabilities(outstandingOnly: boolean = true, campusId?: number): Promise<AccessoryLiabilityWithDetails[]> {
+    const conditions: SQL[] = [];
+    if (outstandingOnly) conditions.push(eq(accessoryLiabilities.status, 'outstanding'));
+    if (campusId !== undefined) conditions.push(inArray(accessoryLiabilities.tabletId, campusTabletIds(campusId)));
+
+    const liabilities = await db
+      .select()
+      .from(accessoryLiabilities)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(accessoryLiabilities.createdAt), asc(accessoryLiabilities.id));
+
+    return withLiabilityDetails(liabilities);
+  }
+
+  async getAccessoryLiabilitiesByStudent(studentId: number): Promise<AccessoryLiabilityWithDetails[]> {
+    const liabilities = await db
+      .select()
+      .from(accessoryLiabilities)
+      .where(eq(accessoryLiabilities.studentId, studentId))
+      .orderBy(desc(accessoryLiabilities.createdAt), asc(accessoryLiabilities.id));
+
+    return withLiabilityDetails(liabilities);
+  }
+
+  // Student ledger operations
+  async getReplacementValues(): Promise<ReplacementValue[]> {
+    return db
+      .select()
+      .from(replacementValues)
+      .orderBy(asc(replacementValues.brand), asc(replacementValues.model));
+  }
+
+  async saveReplacementValue(value: InsertReplacementValue, context?: AuditContext): Promise<ReplacementValue> {
+    return await db.transaction(async (tx) => {
+      const values = {
+        brand: value.brand,
+        model: value.model,
+        tabletValue: value.tabletValue.toFixed(2),
+        chargerValue: value.chargerValue.toFixed(2),
+        cableValue: value.cableValue.toFixed(2),
+        boxValue: value.boxValue.toFixed(2),
+      };
+
+      // One set of values per model, matched the same way tablets are
+      const [existing] = await tx
+        .select()
+        .from(replacementValues)
+        .where(
+          and(
+            sql`lower(${replacementValues.brand}) = lower(${value.brand})`,
+            sql`lower(${replacementValues.model}) = lower(${value.model})`
+          )
+        );
+
+      if (existing) {
+        const [updated] = await tx
+          .update(replacementValues)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(replacementValues.id, existing.id))
+          .returning();
+
+        await recordAudit(tx, context, 'update', 'replacement_value', existing.id, existing, updated);
+        return updated;
+      }
+
+      const [created] = await tx.insert(replacementValues).values(values).returning();
+      await recordAudit(tx, context, 'create', 'replacement_value', created.id, null, created);
+      return created;
+    });
+  }
+
+  async deleteReplacementValue(id: number, context?: AuditContext): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(replacementValues)
+        .where(eq(replacementValues.id, id))
+        .returning();
+
+      if (!deleted) return false;
+
+      await recordAudit(tx, context, 'delete', 'replacement_value', id, deleted, null);
+      return true;
+    });
+  }
+
+  async getStudentLedger(studentId: number): Promise<StudentLedger | undefined> {
+    const [accountability] = await buildAccountabilities([studentId]);
+    if (!accountability) return undefined;
+
+    const entries = await db
+      .select()
+      .from(studentLedgerEntries)
+      .where(eq(studentLedgerEntries.studentId, studentId))
+      .orderBy(desc(studentLedgerEntries.entryDate), desc(studentLedgerEntries.id));
+
+    return { ...accountability, entries };
+  }
+
+  async createLedgerEntry(studentId: number, entry: InsertLedgerEntry, context?: AuditContext): Promise<LedgerEntry> {
+    return await db.transaction(async (tx) => {
+      const [student] = await tx.select().from(students).where(eq(students.id, studentId));
+      if (!student) {
+        throw new Error('Student not found');
+      }
+
+      // Payments and waivers settle charges; they cannot put the student in credit
+      if (entry.entryType !== 'charge') {
+        const balance = await ledgerBalance(tx, studentId);
+        if (entry.amount > balance) {
+          throw new Error(`Amount exceeds the outstanding balance of ${balance.toFixed(2)}`);
+        }
+      }
+
+      let tabletId: number | null = null;
+
+      if (entry.borrowRecordId) {
+        const [borrowRecord] = await tx.select().from(borrowRecords).where(eq(borrowRecords.id, entry.borrowRecordId));
+        if (!borrowRecord || borrowRecord.studentId !== studentId) {
+          throw new Error('Borrow record not found for this student');
+        }
+        tabletId = borrowRecord.tabletId;
+      }
+
+      if (entry.lostReportId) {
+        const [report] = await tx.select().from(lostReports).where(eq(lostReports.id, entry.lostReportId));
+        if (!report || report.studentId !== studentId) {
+          throw new Error('Lost report not found for this student');
+        }
+        tabletId = report.tabletId;
+      }
+
+      if (entry.repairTicketId) {
+        const [ticket] = await tx.select().from(repairTickets).where(eq(repairTickets.id, entry.repairTicketId));
+        if (!ticket) {
+          throw new Error('Repair ticket not found');
+        }
+        tabletId = ticket.tabletId;
+      }
+
+      return postLedgerEntry(tx, {
+        studentId,
+        entryType: entry.entryType,
+        amount: entry.amount.toFixed(2),
+        description: entry.description,
+        referenceNo: entry.referenceNo || null,
+        tabletId,
+        borrowRecordId: entry.borrowRecordId ?? null,
+        lostReportId: entry.lostReportId ?? null,
+        repairTicketId: entry.repairTicketId ?? null,
+        recordedBy: context?.actorId ?? null,
+        entryDate: entry.entryDate ?? new Date(),
+      }, context);
+    });
+  }
+
+  async getStudentAccountabilities(outstandingOnly: boolean = true): Promise<StudentAccountability[]> {
+    const accountabilities = await buildAccountabilities();
+    return outstandingOnly
+      ? accountabilities.filter(accountability => accountability.clearanceStatus !== 'Cleared')
+      : accountabilities;
+  }
+
+  // Clearance operations
+  async getStudentClearance(studentId: number): Promise<StudentClearance | undefined> {
+    const [clearance] = await evaluateClearances([studentId]);
+    if (!clearance || clearance.clearanceStatus !== 'Cleared') return clearance;
+
+    // A certificate only stands while the student is still cleared
+    const [certificate] = await db
+      .select()
+      .from(clearanceCertificates)
+      .where(eq(clearanceCertificates.studentId, studentId))
+      .orderBy(desc(clearanceCertificates.issuedAt), desc(clearanceCertificates.id))
+      .limit(1);
+
+    return { ...clearance, certificate: certificate ?? null };
+  }
+
+  async issueClearanceCertificate(studentId: number, context?: AuditContext): Promise<StudentClearance> {
+    const [clearance] = await evaluateClearances([studentId]);
+    if (!clearance) {
+      throw new Error('Student not found');
+    }
+
+    if (clearance.clearanceStatus !== 'Cleared') {
+      throw new Error(`Student is not cleared: ${clearance.issues.map(issue => issue.description).join('; ')}`);
+    }
+
+    return await db.transaction(async (tx) => issueCertificate(tx, clearance, context));
+  }
+
+  async runBulkClearance(filter: BulkClearance, context?: AuditContext): Promise<StudentClearance[]> {
+    const matching = await db
+      .select({ id: students.id })
+      .from(students)
+      .where(
+        and(
+          filter.programName ? sql`lower(${students.programName}) = lower(${filter.programName})` : undefined,
+          filter.yearLevel ? eq(students.yearLevel, filter.yearLevel) : undefined
+        )
+      );
+
+    const clearances = await evaluateClearances(matching.map(s => s.id));
+
+    // Certify everyone who is cleared in one go, so a failed run issues nothing
+    return await db.transaction(async (tx) => {
+      const results: StudentClearance[] = [];
+      for (const clearance of clearances) {
+        results.push(clearance.clearanceStatus === 'Cleared' ? await issueCertificate(tx, clearance, context) : clearance);
+      }
+      return results;
+    });
+  }
+
+  async getClearanceCertificateByCode(verificationCode: string): Promise<ClearanceCertificateWithStudent | undefined> {
+    const [certificate] = await db
       .select()
-      .from(borrowRecords)
-      .where(eq(borrowRecords.id, id));
-    
-    if (!record) return undefined;
-    
-    const [tablet] = await db
+      .from(clearanceCertificates)
+      .where(eq(clearanceCertificates.verificationCode, verificationCode.trim().toUpperCase()));
+    if (!certificate) return undefined;
+
+    const [student] = await db.select().from(students).where(eq(students.id, certificate.studentId));
+    return { ...certificate, student };
+  }
+
+  // Inventory (stock-take) operations
+  async getInventorySessions(campusId?: number): Promise<InventorySessionSummary[]> {
+    const sessions = await db
       .select()
-      .from(tablets)
-      .where(eq(tablets.id, record.tabletId));
-    
-    const [student] = await db
+      .from(inventorySessions)
+      .where(campusId !== undefined ? eq(inventorySessions.campusId, campusId) : undefined)
+      .orderBy(desc(inventorySessions.createdAt));
+    const countTotals = await db
+      .select({ sessionId: inventoryCounts.sessionId, count: sql<number>`count(*)::int` })
+      .from(inventoryCounts)
+      .groupBy(inventoryCounts.sessionId);
+
+    const countMap = new Map(countTotals.map(item => [item.sessionId, item.count]));
+    return sessions.map(session => ({ ...session, countedTablets: countMap.get(session.id) || 0 }));
+  }
+
+  async getInventorySession(id: number): Promise<InventorySessionWithDetails | undefined> {
+    const [session] = await db.select().from(inventorySessions).where(eq(inventorySessions.id, id));
+    if (!session) return undefined;
+
+    const counts = await db
       .select()
-      .from(students)
-      .where(eq(students.id, record.studentId));
-    
+      .from(inventoryCounts)
+      .where(eq(inventoryCounts.sessionId, id))
+      .orderBy(desc(inventoryCounts.countedAt));
+
+    const tabletIds = counts.map(count => count.tabletId);
+    const countedTablets = tabletIds.length > 0
+      ? await db.select().from(tablets).where(inArray(tablets.id, tabletIds))
+      : [];
+    const tabletsMap = new Map(countedTablets.map(tablet => [tablet.id, tablet]));
+
+    // Completed sessions keep the reconciliation as it stood when the count was closed
+    const reconciliation = session.status === 'Completed' && session.reconciliation
+      ? session.reconciliation as InventoryReconciliation
+      : await reconcileInventory(db, session, counts);
+
     return {
-      ...record,
-      tablet,
-      student
+      ...session,
+      countedTablets: counts.length,
+      counts: counts.map(count => ({ ...count, tablet: tabletsMap.get(count.tabletId)! })),
+      reconciliation
     };
   }
 
-  async createBorrowRecord(borrowRecord: InsertBorrowRecord): Promise<BorrowRecord> {
-    console.log("Creating borrow record with data:", JSON.stringify(borrowRecord, null, 2));
-    
-    // Validate student ID 
-    const [student] = await db
-      .select()
-      .from(students)
-      .where(eq(students.id, borrowRecord.studentId));
-    
-    if (!student) {
-      throw new Error(`Student with ID ${borrowRecord.studentId} not found`);
-    }
-    console.log("Student found:", student.id, student.fullName || `${student.firstName} ${student.lastName}`);
-    
-    // Format accessories if it's a string
-    let accessories = borrowRecord.accessories;
-    if (typeof accessories === 'string') {
-      try {
-        accessories = JSON.parse(accessories);
-      } catch (e) {
-        console.error("Failed to parse accessories JSON:", e);
-        throw new Error("Invalid accessories format");
-      }
-    }
-    
-    // Start transaction
-    return await db.transaction(async (tx) => {
-      // Check if tablet is available (not currently borrowed)
-      const [activeRecord] = await tx
-        .select()
-        .from(borrowRecords)
-        .where(
-          and(
-            eq(borrowRecords.tabletId, borrowRecord.tabletId),
-            eq(borrowRecords.isReturned, false)
-          )
-        );
-      
-      if (activeRecord) {
-        throw new Error('Tablet is already borrowed');
+  async createInventorySession(session: InsertInventorySession, context?: AuditContext): Promise<InventorySession> {
+    const [newSession] = await db
+      .insert(inventorySessions)
+      .values({ name: session.name, notes: session.notes, campusId: session.campusId ?? null, startedBy: context?.actorId ?? null })
+      .returning();
+
+    await recordAudit(db, context, 'create', 'inventory_session', newSession.id, null, newSession);
+    return newSession;
+  }
+
+  // Counting a tablet again replaces the earlier count for the session
+  async recordInventoryCount(sessionId: number, count: InsertInventoryCount, context?: AuditContext): Promise<InventoryCount | undefined> {
+    return db.transaction(async (tx) => {
+      const [session] = await tx.select().from(inventorySessions).where(eq(inventorySessions.id, sessionId));
+      if (!session) return undefined;
+
+      if (session.status === 'Completed') {
+        throw new Error('This stock-take has been completed and can no longer be changed');
       }
-      
-      // Check if tablet exists and is serviceable
-      const [tablet] = await tx
-        .select()
-        .from(tablets)
-        .where(eq(tablets.id, borrowRecord.tabletId));
-      
+
+      const [tablet] = await tx.select().from(tablets).where(eq(tablets.id, count.tabletId));
       if (!tablet) {
         throw new Error('Tablet not found');
       }
-      
-      if (tablet.status !== 'Serviceable') {
-        throw new Error(`Tablet is not serviceable: ${tablet.status}`);
-      }
-      
-      console.log("Tablet found and is available:", tablet.id, `${tablet.brand} ${tablet.model}`);
-      
-      // Prepare the data for insertion
-      const borrowData = {
-        ...borrowRecord,
-        accessories: accessories,
-        expectedReturnDate: borrowRecord.expectedReturnDate instanceof Date
-          ? borrowRecord.expectedReturnDate.toISOString().slice(0, 10)
-          : borrowRecord.expectedReturnDate ?? null
+
+      const [existing] = await tx
+        .select()
+        .from(inventoryCounts)
+        .where(and(eq(inventoryCounts.sessionId, sessionId), eq(inventoryCounts.tabletId, tablet.id)));
+
+      const values = {
+        conditionFound: count.conditionFound ?? null,
+        notes: count.notes ?? null,
+        countedBy: context?.actorId ?? null,
+        countedAt: new Date()
       };
-      
-      console.log("Inserting borrow record:", JSON.stringify(borrowData, null, 2));
-      
-      // Create borrow record
-      const [newBorrowRecord] = await tx
-        .insert(borrowRecords)
-        .values(borrowData)
+
+      const [saved] = await tx
+        .insert(inventoryCounts)
+        .values({ sessionId, tabletId: tablet.id, ...values })
+        .onConflictDoUpdate({ target: [inventoryCounts.sessionId, inventoryCounts.tabletId], set: values })
         .returning();
-      
-      console.log("Borrow record created:", newBorrowRecord.id);
-      
-      // Add to tablet history with detailed information
-      await tx.insert(tabletHistory).values({
-        tabletId: borrowRecord.tabletId,
-        studentId: borrowRecord.studentId,
-        borrowRecordId: newBorrowRecord.id,
-        eventType: 'borrowed',
-        date: newBorrowRecord.dateBorrowed,
-        condition: borrowRecord.condition,
-        accessories: accessories,
-        notes: `Borrowed by ${student.fullName || `${student.firstName} ${student.lastName}`} (${student.studentId}). Accessories: ${JSON.stringify(accessories)}`
-      });
-      
-      console.log("Tablet history updated");
-      
-      return newBorrowRecord;
+
+      await recordAudit(tx, context, existing ? 'update' : 'create', 'inventory_count', saved.id, existing ?? null, saved);
+      return saved;
     });
   }
 
-  async processReturn(id: number, returnData: UpdateBorrowRecordForReturn): Promise<BorrowRecord | undefined> {
-    // Start transaction
-    return await db.transaction(async (tx) => {
-      // Get the borrow record with student details
-      const [borrowRecord] = await tx
-        .select()
-        .from(borrowRecords)
-        .where(eq(borrowRecords.id, id));
-      
-      if (!borrowRecord) {
-        throw new Error('Borrow record not found');
-      }
-      
-      if (borrowRecord.isReturned) {
-        throw new Error('Tablet has already been returned');
+  async removeInventoryCount(sessionId: number, tabletId: number, context?: AuditContext): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [session] = await tx.select().from(inventorySessions).where(eq(inventorySessions.id, sessionId));
+      if (!session) return false;
+
+      if (session.status === 'Completed') {
+        throw new Error('This stock-take has been completed and can no longer be changed');
       }
 
-      // Get student details
-      const [student] = await tx
-        .select()
-        .from(students)
-        .where(eq(students.id, borrowRecord.studentId));
+      const [removed] = await tx
+        .delete(inventoryCounts)
+        .where(and(eq(inventoryCounts.sessionId, sessionId), eq(inventoryCounts.tabletId, tabletId)))
+        .returning();
+      if (!removed) return false;
 
-      if (!student) {
-        throw new Error('Student not found');
+      await recordAudit(tx, context, 'delete', 'inventory_count', removed.id, removed, null);
+      return true;
+    });
+  }
+
+  async completeInventorySession(id: number, context?: AuditContext): Promise<InventorySessionWithDetails | undefined> {
+    const completed = await db.transaction(async (tx) => {
+      const [session] = await tx.select().from(inventorySessions).where(eq(inventorySessions.id, id));
+      if (!session) return undefined;
+
+      if (session.status === 'Completed') {
+        throw new Error('This stock-take has already been completed');
       }
-      
-      // Update the borrow record
-      const [updatedRecord] = await tx
-        .update(borrowRecords)
+
+      const counts = await tx.select().from(inventoryCounts).where(eq(inventoryCounts.sessionId, id));
+      const reconciliation = await reconcileInventory(tx, session, counts);
+
+      const [updatedSession] = await tx
+        .update(inventorySessions)
         .set({
-          isReturned: returnData.isReturned,
-          returnDate: returnData.returnDate instanceof Date ? returnData.returnDate : new Date(returnData.returnDate),
-          returnCondition: returnData.returnCondition,
-          returnNotes: returnData.returnNotes,
-          updatedAt: new Date()
+          status: 'Completed',
+          reconciliation,
+          completedBy: context?.actorId ?? null,
+          completedAt: new Date()
         })
-        .where(eq(borrowRecords.id, id))
+        .where(eq(inventorySessions.id, id))
         .returning();
-      
-      // Update tablet condition if different from current
-      await tx
-        .update(tablets)
-        .set({
-          condition: returnData.returnCondition,
-          updatedAt: new Date()
-        })
-        .where(eq(tablets.id, borrowRecord.tabletId));
-      
-      // Add to tablet history with detailed return information
-      await tx.insert(tabletHistory).values({
-        tabletId: borrowRecord.tabletId,
-        studentId: borrowRecord.studentId,
-        borrowRecordId: id,
-        eventType: 'returned',
-        date: updatedRecord.returnDate!,
-        condition: returnData.returnCondition,
-        accessories: borrowRecord.accessories, // Include the accessories that were returned
-        notes: `Returned by ${student.fullName || `${student.firstName} ${student.lastName}`} (${student.studentId}). Return condition: ${returnData.returnCondition}. Accessories returned: ${JSON.stringify(borrowRecord.accessories)}`
-      });
-      
-      return updatedRecord;
+
+      await recordAudit(tx, context, 'update', 'inventory_session', id, session, updatedSession);
+      return updatedSession;
     });
+
+    return completed ? this.getInventorySession(id) : undefined;
   }
 
-  // Lost tablet operations
-  async getLostReports(): Promise<LostReport[]> {
+  // Notification operations
+  async createNotifications(notificationsList: InsertNotification[]): Promise<Notification[]> {
+    if (notificationsList.length === 0) return [];
+    return db.insert(notifications).values(notificationsList).returning();
+  }
+
+  async getNotificationsByStudent(studentId: number): Promise<Notification[]> {
     return db
       .select()
-      .from(lostReports)
-      .orderBy(desc(lostReports.dateReported));
+      .from(notifications)
+      .where(eq(notifications.studentId, studentId))
+      .orderBy(desc(notifications.createdAt));
   }
 
-  async getLostReport(id: number): Promise<LostReport | undefined> {
-    const [report] = await db
+  async getDueNotifications(limit: number = 20): Promise<Notification[]> {
+    return db
       .select()
-      .from(lostReports)
-      .where(eq(lostReports.id, id));
-    
-    return report;
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.status, 'pending'),
+          lte(notifications.nextAttemptAt, new Date())
+        )
+      )
+      .orderBy(asc(notifications.nextAttemptAt))
+      .limit(limit);
   }
 
-  async createLostReport(lostReport: InsertLostReport): Promise<LostReport> {
-    // Start transaction
-    return await db.transaction(async (tx) => {
-      // Update tablet status to Lost
-      await tx
-        .update(tablets)
+  async markNotificationSent(id: number): Promise<void> {
+    await db
+      .update(notifications)
+      .set({
+        status: 'sent',
+        attempts: sql`${notifications.attempts} + 1`,
+        lastError: null,
+        sentAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(notifications.id, id));
+  }
+
+  async markNotificationFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    // Without a next attempt the notification has used up its retries
+    await db
+      .update(notifications)
+      .set({
+        status: nextAttemptAt ? 'pending' : 'failed',
+        attempts: sql`${notifications.attempts} + 1`,
+        lastError: error,
+        ...(nextAttemptAt ? { nextAttemptAt } : {}),
+        updatedAt: new Date()
+      })
+      .where(eq(notifications.id, id));
+  }
+
+  async retryNotification(id: number, context?: AuditContext): Promise<Notification | undefined> {
+    return db.transaction(async (tx) => {
+      const [failed] = await tx
+        .select()
+        .from(notifications)
+        .where(and(eq(notifications.id, id), eq(notifications.status, 'failed')));
+      if (!failed) return undefined;
+
+      const [notification] = await tx
+        .update(notifications)
         .set({
-          status: 'Lost',
+          status: 'pending',
+          nextAttemptAt: new Date(),
           updatedAt: new Date()
         })
-        .where(eq(tablets.id, lostReport.tabletId));
-      
-      // If there's an active borrowing, mark it as returned
-      if (lostReport.borrowRecordId) {
-        const [borrowRecord] = await tx
-          .select()
-          .from(borrowRecords)
-          .where(eq(borrowRecords.id, lostReport.borrowRecordId));
-        
-        if (borrowRecord && !borrowRecord.isReturned) {
-          await tx
-            .update(borrowRecords)
-            .set({
-              isReturned: true,
-              returnDate: lostReport.dateReported,
-              returnNotes: 'Tablet reported as lost',
-              updatedAt: new Date()
-            })
-            .where(eq(borrowRecords.id, lostReport.borrowRecordId));
-        }
-      }
-      
-      // Create lost report
-      const [newLostReport] = await tx
-        .insert(lostReports)
-        .values(lostReport)
+        .where(and(eq(notifications.id, id), eq(notifications.status, 'failed')))
         .returning();
-      
-      // Add to tablet history
-      await tx.insert(tabletHistory).values({
-        tabletId: lostReport.tabletId,
-        studentId: lostReport.studentId,
-        borrowRecordId: lostReport.borrowRecordId,
-        eventType: 'lost',
-        date: lostReport.dateReported,
-        notes: lostReport.details || 'Tablet reported as lost'
-      });
-      
-      return newLostReport;
+      if (!notification) return undefined;
+
+      await recordAudit(tx, context, 'update', 'notification', id, failed, notification);
+      return notification;
     });
   }
 
@@ -725,7 +4352,10 @@ export class DatabaseStorage implements IStorage {
         condition: tabletHistory.condition,
         accessories: tabletHistory.accessories,
         notes: tabletHistory.notes,
+        actorId: tabletHistory.actorId,
         createdAt: tabletHistory.createdAt,
+        // Include acting staff user
+        actorUsername: admin.username,
         // Include student details
         student: {
           id: students.id,
@@ -737,6 +4367,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(tabletHistory)
       .leftJoin(students, eq(tabletHistory.studentId, students.id))
+      .leftJoin(admin, eq(tabletHistory.actorId, admin.id))
       .where(eq(tabletHistory.tabletId, tabletId))
       .orderBy(desc(tabletHistory.date));
 
@@ -750,21 +4381,75 @@ export class DatabaseStorage implements IStorage {
       condition: record.condition,
       accessories: record.accessories as { charger: boolean; cable: boolean; box: boolean } | null,
       notes: record.notes,
+      actorId: record.actorId,
+      actorUsername: record.actorUsername,
       createdAt: record.createdAt,
       student: record.student || undefined
     })) as unknown as TabletHistory[];
   }
   
+  // Search operations
+  // Partial and misspelled names are found through the trigram indexes, names typed in another
+  // word order through the full-text index (see migration 019)
+  async search(term: string, campusId?: number): Promise<GlobalSearchResults> {
+    const value = term.trim();
+    if (value.length < 2) return { students: [], tablets: [], borrowRecords: [] };
+
+    const matchingStudents = await db
+      .select()
+      .from(students)
+      .where(or(
+        searchColumns(value, students.fullName, students.guardianFullName, students.studentId, students.email),
+        sql`${value} <% ${students.fullName}`,
+        sql`to_tsvector('simple', coalesce(${students.fullName}, '') || ' ' || coalesce(${students.guardianFullName}, '')) @@ websearch_to_tsquery('simple', ${value})`
+      ))
+      .orderBy(sql`greatest(
+        word_similarity(${value}, ${students.fullName}),
+        word_similarity(${value}, coalesce(${students.guardianFullName}, '')),
+        similarity(${value}, ${students.studentId})
+      ) desc`, asc(students.fullName))
+      .limit(searchResultLimit);
+
+    const tabletConditions: SQL[] = [searchColumns(value, tablets.serialNumber, tablets.imei, tablets.brand, tablets.model)!];
+    if (campusId !== undefined) tabletConditions.push(eq(tablets.campusId, campusId));
+    const matchingTablets = await db
+      .select()
+      .from(tablets)
+      .where(and(...tabletConditions))
+      .orderBy(sql`greatest(
+        similarity(${value}, ${tablets.serialNumber}),
+        similarity(${value}, coalesce(${tablets.imei}, '')),
+        word_similarity(${value}, ${tablets.model})
+      ) desc`, asc(tablets.serialNumber))
+      .limit(searchResultLimit);
+
+    // Borrowings of the matched students and tablets, ones still out first
+    const recordConditions: SQL[] = [searchColumns(value, students.fullName, students.studentId, tablets.serialNumber, tablets.imei)!];
+    if (campusId !== undefined) recordConditions.push(eq(tablets.campusId, campusId));
+    const rows = await db
+      .select({ record: borrowRecords, tablet: tablets, student: students })
+      .from(borrowRecords)
+      .innerJoin(tablets, eq(borrowRecords.tabletId, tablets.id))
+      .innerJoin(students, eq(borrowRecords.studentId, students.id))
+      .where(and(...recordConditions))
+      .orderBy(asc(borrowRecords.isReturned), desc(borrowRecords.dateBorrowed))
+      .limit(searchResultLimit);
+
+    return {
+      students: matchingStudents,
+      tablets: matchingTablets,
+      borrowRecords: rows.map(row => ({ ...row.record, tablet: row.tablet, student: row.student })),
+    };
+  }
+
   // Dashboard operations
-  async getDashboardStats(): Promise<{
-    totalTablets: number;
-    totalStudents: number;
-    borrowedTablets: number;
-    lostTablets: number;
-  }> {
+  async getDashboardStats(thresholds: OverdueThresholds = defaultOverdueThresholds, campusId?: number): Promise<DashboardStats> {
+    // Tablet figures cover only the given campus; students are not tied to one
+    const atCampus = campusId !== undefined ? eq(tablets.campusId, campusId) : undefined;
     const [tabletsCount] = await db
       .select({ count: sql<number>`count(*)` })
-      .from(tablets);
+      .from(tablets)
+      .where(atCampus);
     
     const [studentsCount] = await db
       .select({ count: sql<number>`count(*)` })
@@ -773,18 +4458,28 @@ export class DatabaseStorage implements IStorage {
     const [borrowedCount] = await db
       .select({ count: sql<number>`count(*)` })
       .from(borrowRecords)
-      .where(eq(borrowRecords.isReturned, false));
+      .where(and(
+        eq(borrowRecords.isReturned, false),
+        campusId !== undefined ? inArray(borrowRecords.tabletId, campusTabletIds(campusId)) : undefined
+      ));
     
     const [lostCount] = await db
       .select({ count: sql<number>`count(*)` })
       .from(tablets)
-      .where(eq(tablets.status, 'Lost'));
+      .where(and(eq(tablets.status, 'Lost'), atCampus));
+    
+    const overdueRecords = await this.getOverdueBorrowRecords(thresholds, campusId);
+    const countLevel = (level: OverdueLevel) =>
+      overdueRecords.filter(record => record.overdueLevel === level).length;
     
     return {
       totalTablets: tabletsCount.count,
       totalStudents: studentsCount.count,
       borrowedTablets: borrowedCount.count,
-      lostTablets: lostCount.count
+      lostTablets: lostCount.count,
+      dueSoonBorrowings: countLevel('due_soon'),
+      overdueBorrowings: countLevel('overdue'),
+      seriouslyOverdueBorrowings: countLevel('seriously_overdue')
     };
   }
   
@@ -838,20 +4533,99 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  // Admin operations
-  async getAdminByUsername(username: string) {
+  // Admin (staff user) operations
+  async getAdmins(): Promise<StaffUser[]> {
+    return db.select(staffUserColumns).from(admin).orderBy(asc(admin.username));
+  }
+
+  async getAdmin(id: number): Promise<Admin | undefined> {
+    const [adminUser] = await db.select().from(admin).where(eq(admin.id, id));
+    return adminUser;
+  }
+
+  async getAdminByUsername(username: string): Promise<Admin | undefined> {
     const [adminUser] = await db.select().from(admin).where(eq(admin.username, username));
     return adminUser;
   }
 
-  async createAdmin(username: string, password: string) {
+  async createAdmin(
+    username: string,
+    password: string,
+    options: { role?: StaffRole; fullName?: string | null; campusId?: number | null } = {},
+    context?: AuditContext
+  ): Promise<StaffUser | undefined> {
     const passwordHash = await bcrypt.hash(password, 10);
-    await db.insert(admin).values({ username, passwordHash }).onConflictDoNothing();
+    return db.transaction(async (tx) => {
+      // Accounts seeded from the environment have no role given and get full access
+      const [created] = await tx
+        .insert(admin)
+        .values({
+          username,
+          passwordHash,
+          role: options.role ?? 'Super Admin',
+          fullName: options.fullName ?? null,
+          campusId: options.campusId ?? null,
+        })
+        .onConflictDoNothing()
+        .returning(staffUserColumns);
+      if (!created) return undefined;
+
+      await recordAudit(tx, context, 'create', 'staff_user', created.id, null, created);
+      return created;
+    });
   }
 
-  async updateAdminPassword(id: number, newPassword: string) {
+  async updateAdmin(id: number, data: UpdateStaffUser, context?: AuditContext): Promise<StaffUser | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select(staffUserColumns).from(admin).where(eq(admin.id, id));
+      if (!existing) return undefined;
+
+      const [updated] = await tx
+        .update(admin)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(admin.id, id))
+        .returning(staffUserColumns);
+
+      await recordAudit(tx, context, 'update', 'staff_user', id, existing, updated);
+      return updated;
+    });
+  }
+
+  async updateAdminPassword(id: number, newPassword: string, context?: AuditContext) {
     const passwordHash = await bcrypt.hash(newPassword, 10);
-    await db.update(admin).set({ passwordHash, updatedAt: new Date() }).where(eq(admin.id, id));
+    await db.transaction(async (tx) => {
+      await tx.update(admin).set({ passwordHash, updatedAt: new Date() }).where(eq(admin.id, id));
+      // Only the fact of the change is recorded, never the hash
+      await recordAudit(tx, context, 'update', 'staff_user', id, { password: null }, { password: 'changed' });
+    });
+  }
+
+  async recordAdminLogin(id: number) {
+    await db.update(admin).set({ lastLoginAt: new Date() }).where(eq(admin.id, id));
+  }
+
+  // Audit operations
+  async getAuditLog(filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> {
+    const conditions: SQL[] = [];
+    if (filters.actorId !== undefined) conditions.push(eq(auditLog.actorId, filters.actorId));
+    if (filters.entityType) conditions.push(eq(auditLog.entityType, filters.entityType));
+    if (filters.entityId !== undefined) conditions.push(eq(auditLog.entityId, filters.entityId));
+    if (filters.from) conditions.push(gte(auditLog.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditLog.createdAt, filters.to));
+
+    return db
+      .select()
+      .from(auditLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(filters.limit ?? 500);
+  }
+
+  async getAuditActors(): Promise<{ actorId: number | null; actorUsername: string | null }[]> {
+    return db
+      .selectDistinct({ actorId: auditLog.actorId, actorUsername: auditLog.actorUsername })
+      .from(auditLog)
+      .orderBy(asc(auditLog.actorUsername));
   }
 }
 
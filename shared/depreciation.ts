@@ -0,0 +1,170 @@
+import { differenceInMonths, format } from "date-fns";
+import { z } from "zod";
+import type { TabletStatus } from "./schema";
+
+export const depreciationMethods = ['straight_line', 'declining_balance'] as const;
+export type DepreciationMethod = typeof depreciationMethods[number];
+
+export const depreciationMethodLabels: Record<DepreciationMethod, string> = {
+  straight_line: "Straight-Line",
+  declining_balance: "Declining Balance",
+};
+
+// How book value is worked out; the fiscal year follows the calendar year
+export type DepreciationSettings = {
+  method: DepreciationMethod;
+  usefulLifeYears: number;
+  salvageRate: number; // Share of cost left at the end of the useful life, 0 to 1
+};
+
+export const defaultDepreciationSettings: DepreciationSettings = {
+  method: 'straight_line',
+  usefulLifeYears: 3,
+  salvageRate: 0.1,
+};
+
+export const depreciationQuerySchema = z.object({
+  fiscalYear: z.coerce.number().int().min(2000).max(2100).default(() => new Date().getFullYear()),
+  method: z.enum(depreciationMethods).default(defaultDepreciationSettings.method),
+  usefulLifeYears: z.coerce.number().int().min(1).max(20).default(defaultDepreciationSettings.usefulLifeYears),
+  salvageRate: z.coerce.number().min(0).max(1).default(defaultDepreciationSettings.salvageRate),
+});
+
+// What the calculation needs to know about one tablet
+export type DepreciableTablet = {
+  tabletId: number;
+  serialNumber: string;
+  brand: string;
+  model: string;
+  status: TabletStatus;
+  campus: string;
+  cost: number;
+  acquiredOn: Date;
+  impairedOn: Date | null; // When the tablet became Lost or Unserviceable; null while it is only away for repair
+};
+
+export type DepreciationLine = Omit<DepreciableTablet, 'acquiredOn' | 'impairedOn'> & {
+  acquiredOn: string;
+  openingValue: number;
+  additions: number;
+  depreciation: number;
+  writeOff: number;
+  closingValue: number;
+};
+
+export type DepreciationSummary = {
+  label: string;
+  units: number;
+  cost: number;
+  openingValue: number;
+  additions: number;
+  depreciation: number;
+  writeOff: number;
+  closingValue: number;
+};
+
+export type DepreciationReport = {
+  fiscalYear: number;
+  settings: DepreciationSettings;
+  lines: DepreciationLine[];
+  unvaluedTablets: number; // Tablets with neither a batch unit cost nor a catalog replacement cost
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Book value of an asset on a date. Depreciation accrues per full month in service and
+ * never takes the value below the salvage value.
+ */
+export function bookValueAt(cost: number, acquiredOn: Date, date: Date, settings: DepreciationSettings): number {
+  const years = Math.max(0, differenceInMonths(date, acquiredOn)) / 12;
+  const salvage = cost * settings.salvageRate;
+
+  if (settings.method === 'straight_line') {
+    const depreciable = cost - salvage;
+    return cost - Math.min(depreciable, (depreciable * years) / settings.usefulLifeYears);
+  }
+
+  // Double declining balance
+  const rate = Math.min(1, 2 / settings.usefulLifeYears);
+  return Math.max(salvage, cost * Math.pow(1 - rate, years));
+}
+
+/**
+ * One tablet's movement in book value over a fiscal year, or null when it is not an asset that year.
+ * Lost tablets are written off to nothing and Unserviceable ones down to salvage value, in the
+ * year they changed status. Tablets with an open repair ticket carry no impairment date and keep depreciating.
+ */
+export function depreciateTablet(
+  tablet: DepreciableTablet,
+  fiscalYear: number,
+  settings: DepreciationSettings
+): DepreciationLine | null {
+  const yearStart = new Date(fiscalYear, 0, 1);
+  const yearEnd = new Date(fiscalYear + 1, 0, 1);
+  if (tablet.acquiredOn >= yearEnd) return null;
+
+  const impaired = tablet.status !== 'Serviceable' && tablet.impairedOn !== null && tablet.impairedOn < yearEnd;
+  const impairedBefore = impaired && tablet.impairedOn! < yearStart;
+  if (impairedBefore && tablet.status === 'Lost') return null;
+
+  const floor = tablet.status === 'Lost' ? 0 : tablet.cost * settings.salvageRate;
+  let openingValue = tablet.acquiredOn < yearStart ? bookValueAt(tablet.cost, tablet.acquiredOn, yearStart, settings) : 0;
+  if (impairedBefore) openingValue = Math.min(openingValue, floor);
+  const additions = tablet.acquiredOn >= yearStart ? tablet.cost : 0;
+
+  // An impaired tablet is carried at its written-down value and no longer depreciates
+  let closingValue = impairedBefore ? openingValue : bookValueAt(tablet.cost, tablet.acquiredOn, yearEnd, settings);
+  const depreciation = openingValue + additions - closingValue;
+
+  let writeOff = 0;
+  if (impaired && !impairedBefore) {
+    writeOff = Math.max(0, closingValue - floor);
+    closingValue -= writeOff;
+  }
+
+  const { acquiredOn, impairedOn, ...details } = tablet;
+  return {
+    ...details,
+    acquiredOn: format(acquiredOn, "yyyy-MM-dd"),
+    openingValue: roundMoney(openingValue),
+    additions: roundMoney(additions),
+    depreciation: roundMoney(depreciation),
+    writeOff: roundMoney(writeOff),
+    closingValue: roundMoney(closingValue),
+  };
+}
+
+/**
+ * Totals of the lines grouped by a label such as model, status or campus, largest book value first
+ */
+export function summarizeDepreciation(lines: DepreciationLine[], groupBy: (line: DepreciationLine) => string): DepreciationSummary[] {
+  const groups = new Map<string, DepreciationSummary>();
+
+  for (const line of lines) {
+    const label = groupBy(line);
+    const summary = groups.get(label) ?? {
+      label, units: 0, cost: 0, openingValue: 0, additions: 0, depreciation: 0, writeOff: 0, closingValue: 0,
+    };
+    summary.units += 1;
+    summary.cost += line.cost;
+    summary.openingValue += line.openingValue;
+    summary.additions += line.additions;
+    summary.depreciation += line.depreciation;
+    summary.writeOff += line.writeOff;
+    summary.closingValue += line.closingValue;
+    groups.set(label, summary);
+  }
+
+  return Array.from(groups.values())
+    .map(summary => ({
+      ...summary,
+      cost: roundMoney(summary.cost),
+      openingValue: roundMoney(summary.openingValue),
+      additions: roundMoney(summary.additions),
+      depreciation: roundMoney(summary.depreciation),
+      writeOff: roundMoney(summary.writeOff),
+      closingValue: roundMoney(summary.closingValue),
+    }))
+    .sort((a, b) => b.closingValue - a.closingValue || a.label.localeCompare(b.label));
+}
@@ -0,0 +1,48 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import type { OverdueLevel } from "./schema";
+
+// Day counts that decide when an active borrowing is due soon, overdue and seriously overdue
+export type OverdueThresholds = {
+  dueSoonDays: number; // Days before the expected return date that count as due soon
+  graceDays: number; // Days after the expected return date before a borrowing is overdue
+  seriousDays: number; // Days after the expected return date before it is seriously overdue
+};
+
+export const defaultOverdueThresholds: OverdueThresholds = {
+  dueSoonDays: 3,
+  graceDays: 0,
+  seriousDays: 14,
+};
+
+// Escalation order, lowest first
+export const overdueLevels: readonly OverdueLevel[] = ['due_soon', 'overdue', 'seriously_overdue'];
+
+export const overdueLevelLabels: Record<OverdueLevel, string> = {
+  due_soon: "Due Soon",
+  overdue: "Overdue",
+  seriously_overdue: "Seriously Overdue",
+};
+
+/**
+ * Days since the expected return date; negative while the borrowing is not yet due
+ */
+export function daysPastDue(expectedReturnDate: string, now: Date = new Date()): number {
+  return differenceInCalendarDays(now, parseISO(expectedReturnDate));
+}
+
+/**
+ * Classify a borrowing by its expected return date, or null when it needs no attention
+ */
+export function classifyOverdue(
+  expectedReturnDate: string | null,
+  thresholds: OverdueThresholds,
+  now: Date = new Date()
+): OverdueLevel | null {
+  if (!expectedReturnDate) return null;
+
+  const days = daysPastDue(expectedReturnDate, now);
+  if (days > thresholds.seriousDays) return 'seriously_overdue';
+  if (days > thresholds.graceDays) return 'overdue';
+  if (days >= -thresholds.dueSoonDays) return 'due_soon';
+  return null;
+}
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { agreementStatusEnum, tabletConditionEnum, tabletStatusEnum } from "./schema";
+
+// One page of a list the server has already filtered and sorted
+export type Page<T> = {
+  items: T[];
+  total: number; // Rows matching the filters across every page
+  page: number;
+  pageSize: number;
+};
+
+export const sortOrders = ['asc', 'desc'] as const;
+export type SortOrder = typeof sortOrders[number];
+
+// Query string parameters every paged list accepts
+const pageParams = {
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+  search: z.string().trim().optional(),
+};
+
+// An empty query string parameter means the filter is not set
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => value === "" ? undefined : value, schema.optional());
+
+export const studentSortKeys = ['studentId', 'fullName', 'programCode', 'yearLevel', 'dateRegistered'] as const;
+
+export const studentListQuerySchema = z.object({
+  ...pageParams,
+  sort: z.enum(studentSortKeys).default('fullName'),
+  order: z.enum(sortOrders).default('asc'),
+  program: optional(z.string()), // Program code
+  yearLevel: optional(z.coerce.number().int()),
+  campus: optional(z.string()),
+  borrowing: optional(z.enum(['with', 'without'])), // Whether the student has a tablet on loan
+  enrolled: optional(z.enum(['yes', 'no'])), // Whether the student is in the latest enrollment file
+});
+
+export const tabletSortKeys = ['brand', 'serialNumber', 'status', 'condition', 'createdAt'] as const;
+
+export const tabletListQuerySchema = z.object({
+  ...pageParams,
+  sort: z.enum(tabletSortKeys).default('createdAt'),
+  order: z.enum(sortOrders).default('desc'),
+  status: optional(z.enum(tabletStatusEnum.enumValues)),
+  condition: optional(z.enum(tabletConditionEnum.enumValues)),
+  campusId: optional(z.union([z.literal('none'), z.coerce.number().int()])), // 'none' for tablets not kept at a campus
+  borrowed: optional(z.enum(['yes', 'no'])),
+});
+
+export const borrowRecordSortKeys = ['dateBorrowed', 'expectedReturnDate', 'returnDate', 'student', 'tablet'] as const;
+
+export const borrowRecordListQuerySchema = z.object({
+  ...pageParams,
+  sort: z.enum(borrowRecordSortKeys).default('dateBorrowed'),
+  order: z.enum(sortOrders).default('desc'),
+  status: optional(z.enum(['active', 'returned'])),
+  condition: optional(z.enum(tabletConditionEnum.enumValues)),
+  agreementStatus: optional(z.enum(agreementStatusEnum.enumValues)),
+  termId: optional(z.coerce.number().int()),
+  borrowedFrom: optional(z.string().date()),
+  borrowedTo: optional(z.string().date()),
+  dueFrom: optional(z.string().date()),
+  dueTo: optional(z.string().date()),
+});
+
+export type StudentListQuery = z.infer<typeof studentListQuerySchema>;
+export type TabletListQuery = z.infer<typeof tabletListQuerySchema>;
+export type BorrowRecordListQuery = z.infer<typeof borrowRecordListQuerySchema>;
@@ -0,0 +1,104 @@
+import type { StaffRole } from "./schema";
+
+// Every action a staff user can be granted. API routes and the client
+// navigation both check against these names.
+export const permissions = [
+  "dashboard:read",
+  "students:read",
+  "students:write",
+  "students:delete",
+  "students:import",
+  "tablets:read",
+  "tablets:write",
+  "tablets:delete",
+  "tablets:import",
+  "borrowing:read",
+  "borrowing:write",
+  "returns:write",
+  "agreements:verify",
+  "reservations:read",
+  "reservations:write",
+  "repairs:read",
+  "repairs:write",
+  "ledger:read",
+  "ledger:write",
+  "ledger:waive",
+  "replacement-values:write",
+  "clearance:issue",
+  "inventory:read",
+  "inventory:write",
+  "lost-reports:read",
+  "lost-reports:write",
+  "transfers:read",
+  "transfers:write",
+  "campuses:manage",
+  "terms:manage",
+  "reports:read",
+  "audit:read",
+  "users:manage",
+] as const;
+
+export type Permission = typeof permissions[number];
+
+const readOnly: Permission[] = [
+  "dashboard:read",
+  "students:read",
+  "tablets:read",
+  "borrowing:read",
+  "reservations:read",
+  "repairs:read",
+  "ledger:read",
+  "inventory:read",
+  "lost-reports:read",
+  "transfers:read",
+  "reports:read",
+];
+
+const auditor: Permission[] = [
+  ...readOnly,
+  "audit:read",
+];
+
+const clerk: Permission[] = [
+  ...readOnly,
+  "students:write",
+  "students:import",
+  "borrowing:write",
+  "returns:write",
+  "reservations:write",
+  "repairs:write",
+  "ledger:write",
+  "clearance:issue",
+  "inventory:write",
+  "lost-reports:write",
+  "transfers:write",
+];
+
+const supervisor: Permission[] = [
+  ...clerk,
+  "audit:read",
+  "agreements:verify",
+  "ledger:waive",
+  "replacement-values:write",
+  "students:delete",
+  "tablets:write",
+  "tablets:delete",
+  "tablets:import",
+  "campuses:manage",
+  "terms:manage",
+];
+
+export const rolePermissions: Record<StaffRole, readonly Permission[]> = {
+  "Clerk": clerk,
+  "Supervisor": supervisor,
+  "Auditor": auditor,
+  "Super Admin": permissions,
+};
+
+/**
+ * Check whether a staff role has been granted a permission
+ */
+export function hasPermission(role: StaffRole | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return rolePermissions[role].includes(permission);
+}
@@ -0,0 +1,14 @@
+import type { TabletCondition } from "./schema";
+
+// Conditions from best to worst
+export const conditionOrder: readonly TabletCondition[] = ['New / Excellent', 'Good', 'Fair', 'Poor', 'Defective'];
+
+// Returns in this condition or worse need a repair before the tablet is lent out again
+export const defaultRepairConditionThreshold: TabletCondition = 'Poor';
+
+/**
+ * Whether a tablet returned in this condition should be sent for repair
+ */
+export function needsRepair(condition: TabletCondition, threshold: TabletCondition = defaultRepairConditionThreshold): boolean {
+  return conditionOrder.indexOf(condition) >= conditionOrder.indexOf(threshold);
+}
@@ -8,7 +8,8 @@ import {
   varchar,
   date,
   pgEnum,
-  json
+  json,
+  numeric
 } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -17,6 +18,26 @@ import { relations } from "drizzle-orm";
 // Define enums
 export const tabletStatusEnum = pgEnum('tablet_status', ['Serviceable', 'Unserviceable', 'Lost']);
 export const tabletConditionEnum = pgEnum('tablet_condition', ['New / Excellent', 'Good', 'Fair', 'Poor', 'Defective']);
+export const staffRoleEnum = pgEnum('staff_role', ['Clerk', 'Supervisor', 'Auditor', 'Super Admin']);
+export const auditActionEnum = pgEnum('audit_action', ['create', 'update', 'delete']);
+export const overdueLevelEnum = pgEnum('overdue_level', ['due_soon', 'overdue', 'seriously_overdue']);
+export const notificationTemplateEnum = pgEnum('notification_template', [
+  'borrow_confirmation',
+  'due_reminder',
+  'overdue_notice',
+  'return_receipt',
+  'lost_report_acknowledgement',
+  'recall_notice'
+]);
+export const notificationStatusEnum = pgEnum('notification_status', ['pending', 'sent', 'failed']);
+export const reservationStatusEnum = pgEnum('reservation_status', ['Waiting', 'Assigned', 'Fulfilled', 'Cancelled', 'Expired']);
+export const agreementStatusEnum = pgEnum('agreement_status', ['missing', 'generated', 'signed', 'verified']);
+export const accessoryEnum = pgEnum('accessory', ['charger', 'cable', 'box']);
+export const accessoryLiabilityStatusEnum = pgEnum('accessory_liability_status', ['outstanding', 'returned']);
+export const repairTicketStatusEnum = pgEnum('repair_ticket_status', ['Open', 'In Progress', 'Closed']);
+export const inventorySessionStatusEnum = pgEnum('inventory_session_status', ['Open', 'Completed']);
+export const ledgerEntryTypeEnum = pgEnum('ledger_entry_type', ['charge', 'payment', 'waiver']);
+export const transferStatusEnum = pgEnum('transfer_status', ['In Transit', 'Received', 'Cancelled']);
 
 // Student table
 export const students = pgTable("students", {
@@ -42,6 +63,8 @@ export const students = pgTable("students", {
   academicYearTerm: text("academic_year"),
   campus: text("campus"),
   studentStatus: text("student_status").notNull(), // Previously studentType
+  isEnrolled: boolean("is_enrolled").notNull().default(true), // False once missing from the latest enrollment file
+  enrollmentSyncedAt: timestamp("enrollment_synced_at"),
   // Personal information
   dateOfBirth: timestamp("date_of_birth"),
   age: integer("age"),
@@ -67,11 +90,70 @@ export const students = pgTable("students", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Named CSV column mappings for student imports, saved so each registrar layout is mapped once
+export const studentImportMappings = pgTable("student_import_mappings", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  mapping: json("mapping").$type<Record<string, string>>().notNull(), // Student field -> CSV header
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Academic terms; a borrowing is due back at the end of the term it was made in
+export const academicTerms = pgTable("academic_terms", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(), // e.g. "2023-2024 First", as in students.academicYearTerm
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Campus offices that hold their own tablet stock
+export const campuses = pgTable("campuses", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  name: text("name").notNull(),
+  address: text("address"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Device model catalog; tablets point at one entry and mirror its brand and model names
+export const deviceModels = pgTable("device_models", {
+  id: serial("id").primaryKey(),
+  brand: text("brand").notNull(),
+  model: text("model").notNull(),
+  storage: text("storage"), // e.g. "128 GB"; informational, one entry covers every storage size of the model
+  releaseYear: integer("release_year"),
+  replacementCost: numeric("replacement_cost", { precision: 10, scale: 2 }),
+  warrantyMonths: integer("warranty_months"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Purchase orders tablets were bought under; warranty is tracked per batch
+export const procurementBatches = pgTable("procurement_batches", {
+  id: serial("id").primaryKey(),
+  poNumber: text("po_number").notNull().unique(),
+  supplier: text("supplier").notNull(),
+  purchaseDate: date("purchase_date").notNull(),
+  unitCost: numeric("unit_cost", { precision: 10, scale: 2 }),
+  warrantyExpiry: date("warranty_expiry"), // When empty, the model's warranty period from the purchase date applies
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Tablets table
 export const tablets = pgTable("tablets", {
   id: serial("id").primaryKey(),
   brand: text("brand").notNull(),
   model: text("model").notNull(),
+  modelId: integer("model_id").references(() => deviceModels.id),
+  batchId: integer("batch_id").references(() => procurementBatches.id),
+  campusId: integer("campus_id").references(() => campuses.id), // Where the tablet is kept; changes only through a transfer once set
   color: text("color"),
   serialNumber: text("serial_number").notNull().unique(),
   imei: text("imei").unique(),
@@ -92,6 +174,8 @@ export const borrowRecords = pgTable("borrow_records", {
   studentId: integer("student_id").notNull().references(() => students.id),
   dateBorrowed: timestamp("date_borrowed").notNull().defaultNow(),
   expectedReturnDate: date("expected_return_date"),
+  termId: integer("term_id").references(() => academicTerms.id),
+  recallRequestedAt: timestamp("recall_requested_at"), // Set by a term rollover when the borrower is not enrolled in the next term
   accessories: json("accessories").default({}),
   condition: tabletConditionEnum("condition").notNull(),
   notes: text("notes"),
@@ -99,7 +183,14 @@ export const borrowRecords = pgTable("borrow_records", {
   returnDate: timestamp("return_date"),
   returnCondition: tabletConditionEnum("return_condition"),
   returnNotes: text("return_notes"),
+  returnedAccessories: json("returned_accessories"), // Accessories actually handed back, including later accessory-only returns
   usufructAgreementPath: text("usufruct_agreement_path"),
+  agreementStatus: agreementStatusEnum("agreement_status").notNull().default('missing'),
+  signedAgreementPath: text("signed_agreement_path"), // Scanned copy of the agreement signed by the student
+  agreementSignedAt: timestamp("agreement_signed_at"),
+  agreementVerifiedAt: timestamp("agreement_verified_at"),
+  agreementVerifiedBy: integer("agreement_verified_by").references(() => admin.id),
+  escalationLevel: overdueLevelEnum("escalation_level"), // Last overdue level recorded by the overdue monitor
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -117,6 +208,155 @@ export const lostReports = pgTable("lost_reports", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Reservations queue students for a tablet before a borrowing is finalized
+export const reservations = pgTable("reservations", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull().references(() => students.id),
+  requestedBrand: text("requested_brand"), // Null means any brand
+  requestedModel: text("requested_model"), // Null means any model
+  priority: integer("priority").notNull().default(0), // Higher priority is served first
+  status: reservationStatusEnum("status").notNull().default('Waiting'),
+  tabletId: integer("tablet_id").references(() => tablets.id), // Tablet held for the student once assigned
+  assignedAt: timestamp("assigned_at"),
+  expiresAt: timestamp("expires_at"),
+  borrowRecordId: integer("borrow_record_id").references(() => borrowRecords.id), // Set when converted to a borrowing
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Outbox of emails to students and guardians; doubles as the per-student notification log
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull().references(() => students.id),
+  borrowRecordId: integer("borrow_record_id").references(() => borrowRecords.id),
+  lostReportId: integer("lost_report_id").references(() => lostReports.id),
+  template: notificationTemplateEnum("template").notNull(),
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  status: notificationStatusEnum("status").notNull().default('pending'),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Accessories a student did not hand back with the tablet
+export const accessoryLiabilities = pgTable("accessory_liabilities", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull().references(() => students.id),
+  borrowRecordId: integer("borrow_record_id").notNull().references(() => borrowRecords.id),
+  tabletId: integer("tablet_id").notNull().references(() => tablets.id),
+  accessory: accessoryEnum("accessory").notNull(),
+  status: accessoryLiabilityStatusEnum("status").notNull().default('outstanding'),
+  returnedAt: timestamp("returned_at"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Repair tickets for damaged tablets; the tablet is Unserviceable while a ticket is open
+export const repairTickets = pgTable("repair_tickets", {
+  id: serial("id").primaryKey(),
+  tabletId: integer("tablet_id").notNull().references(() => tablets.id),
+  borrowRecordId: integer("borrow_record_id").references(() => borrowRecords.id), // The return that raised the ticket, if any
+  status: repairTicketStatusEnum("status").notNull().default('Open'),
+  reportedCondition: tabletConditionEnum("reported_condition").notNull(),
+  resolvedCondition: tabletConditionEnum("resolved_condition"),
+  description: text("description"),
+  technicianNotes: text("technician_notes"),
+  parts: json("parts").default([]), // [{ name, quantity, unitCost }]
+  cost: numeric("cost", { precision: 10, scale: 2 }),
+  openedBy: integer("opened_by").references(() => admin.id),
+  closedBy: integer("closed_by").references(() => admin.id),
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Amounts charged to a student for a lost tablet or unreturned accessories, per tablet model
+export const replacementValues = pgTable("replacement_values", {
+  id: serial("id").primaryKey(),
+  brand: text("brand").notNull(),
+  model: text("model").notNull(),
+  tabletValue: numeric("tablet_value", { precision: 10, scale: 2 }).notNull(),
+  chargerValue: numeric("charger_value", { precision: 10, scale: 2 }).notNull().default('0'),
+  cableValue: numeric("cable_value", { precision: 10, scale: 2 }).notNull().default('0'),
+  boxValue: numeric("box_value", { precision: 10, scale: 2 }).notNull().default('0'),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Append-only student ledger; charges raise the balance, payments and waivers settle it
+export const studentLedgerEntries = pgTable("student_ledger_entries", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull().references(() => students.id),
+  entryType: ledgerEntryTypeEnum("entry_type").notNull(),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(), // Always positive; the entry type gives the sign
+  description: text("description").notNull(),
+  tabletId: integer("tablet_id").references(() => tablets.id),
+  borrowRecordId: integer("borrow_record_id").references(() => borrowRecords.id),
+  lostReportId: integer("lost_report_id").references(() => lostReports.id),
+  accessoryLiabilityId: integer("accessory_liability_id").references(() => accessoryLiabilities.id),
+  repairTicketId: integer("repair_ticket_id").references(() => repairTickets.id),
+  referenceNo: text("reference_no"), // Official receipt number for payments
+  recordedBy: integer("recorded_by").references(() => admin.id), // Null for charges raised automatically
+  entryDate: timestamp("entry_date").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Clearance certificates issued to students with no outstanding tablet obligations
+export const clearanceCertificates = pgTable("clearance_certificates", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull().references(() => students.id),
+  verificationCode: text("verification_code").notNull().unique(), // Printed on the certificate for the registrar to check
+  academicYearTerm: text("academic_year"), // The student's term when the certificate was issued
+  issuedBy: integer("issued_by").references(() => admin.id),
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+});
+
+// Stock-take sessions; the reconciliation is saved when the session is completed
+export const inventorySessions = pgTable("inventory_sessions", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  notes: text("notes"),
+  status: inventorySessionStatusEnum("status").notNull().default('Open'),
+  reconciliation: json("reconciliation"), // InventoryReconciliation, frozen on completion
+  campusId: integer("campus_id").references(() => campuses.id), // Campus being counted; null counts every campus
+  startedBy: integer("started_by").references(() => admin.id),
+  completedBy: integer("completed_by").references(() => admin.id),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Tablets found on the shelf during a stock-take, at most once per session
+export const inventoryCounts = pgTable("inventory_counts", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => inventorySessions.id),
+  tabletId: integer("tablet_id").notNull().references(() => tablets.id),
+  conditionFound: tabletConditionEnum("condition_found"), // Null when the counter did not assess the condition
+  notes: text("notes"),
+  countedBy: integer("counted_by").references(() => admin.id),
+  countedAt: timestamp("counted_at").notNull().defaultNow(),
+});
+
+// Tablets moving between campuses; a tablet has at most one transfer in transit
+export const tabletTransfers = pgTable("tablet_transfers", {
+  id: serial("id").primaryKey(),
+  tabletId: integer("tablet_id").notNull().references(() => tablets.id),
+  fromCampusId: integer("from_campus_id").references(() => campuses.id), // Null when the tablet had no campus yet
+  toCampusId: integer("to_campus_id").notNull().references(() => campuses.id),
+  status: transferStatusEnum("status").notNull().default('In Transit'),
+  notes: text("notes"),
+  dispatchedBy: integer("dispatched_by").references(() => admin.id),
+  dispatchedAt: timestamp("dispatched_at").notNull().defaultNow(),
+  receivedBy: integer("received_by").references(() => admin.id), // Also set when the transfer is cancelled
+  receivedAt: timestamp("received_at"),
+});
+
 // Tablet history table for tracking changes
 export const tabletHistory = pgTable("tablet_history", {
   id: serial("id").primaryKey(),
@@ -128,31 +368,92 @@ export const tabletHistory = pgTable("tablet_history", {
   condition: tabletConditionEnum("condition"),
   accessories: json("accessories").default({}), // Track accessories for borrow/return events
   notes: text("notes"),
+  actorId: integer("actor_id").references(() => admin.id), // Staff user who performed the action
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Admin table for single admin authentication
+// Admin table holding staff user accounts and their roles
 export const admin = pgTable("admin", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   passwordHash: text("password_hash").notNull(),
+  fullName: text("full_name"),
+  role: staffRoleEnum("role").notNull().default('Clerk'),
+  campusId: integer("campus_id").references(() => campuses.id), // Null for staff who work across every campus
+  isActive: boolean("is_active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Append-only audit trail of every change made through the storage layer
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => admin.id), // Null for system actions
+  actorUsername: text("actor_username"), // Kept so entries stay readable if the user is renamed
+  action: auditActionEnum("action").notNull(),
+  entityType: text("entity_type").notNull(), // 'student', 'tablet', 'borrow_record', 'lost_report', 'reservation'
+  entityId: integer("entity_id").notNull(),
+  changes: json("changes").default({}), // { field: { from, to } }
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Define relations
 export const studentsRelations = relations(students, ({ many }) => ({
   borrowRecords: many(borrowRecords),
   lostReports: many(lostReports),
+  reservations: many(reservations),
+  notifications: many(notifications),
+  accessoryLiabilities: many(accessoryLiabilities),
+  ledgerEntries: many(studentLedgerEntries),
+  clearanceCertificates: many(clearanceCertificates),
   tabletHistory: many(tabletHistory),
 }));
 
-export const tabletsRelations = relations(tablets, ({ many }) => ({
+export const academicTermsRelations = relations(academicTerms, ({ many }) => ({
+  borrowRecords: many(borrowRecords),
+}));
+
+export const campusesRelations = relations(campuses, ({ many }) => ({
+  tablets: many(tablets),
+}));
+
+export const deviceModelsRelations = relations(deviceModels, ({ many }) => ({
+  tablets: many(tablets),
+}));
+
+export const procurementBatchesRelations = relations(procurementBatches, ({ many }) => ({
+  tablets: many(tablets),
+}));
+
+export const tabletsRelations = relations(tablets, ({ one, many }) => ({
+  deviceModel: one(deviceModels, {
+    fields: [tablets.modelId],
+    references: [deviceModels.id],
+  }),
+  procurementBatch: one(procurementBatches, {
+    fields: [tablets.batchId],
+    references: [procurementBatches.id],
+  }),
+  campus: one(campuses, {
+    fields: [tablets.campusId],
+    references: [campuses.id],
+  }),
   borrowRecords: many(borrowRecords),
   lostReports: many(lostReports),
+  repairTickets: many(repairTickets),
+  transfers: many(tabletTransfers),
   tabletHistory: many(tabletHistory),
 }));
 
+export const tabletTransfersRelations = relations(tabletTransfers, ({ one }) => ({
+  tablet: one(tablets, {
+    fields: [tabletTransfers.tabletId],
+    references: [tablets.id],
+  }),
+}));
+
 export const borrowRecordsRelations = relations(borrowRecords, ({ one, many }) => ({
   tablet: one(tablets, {
     fields: [borrowRecords.tabletId],
@@ -162,7 +463,12 @@ export const borrowRecordsRelations = relations(borrowRecords, ({ one, many }) =
     fields: [borrowRecords.studentId],
     references: [students.id],
   }),
+  term: one(academicTerms, {
+    fields: [borrowRecords.termId],
+    references: [academicTerms.id],
+  }),
   lostReports: many(lostReports),
+  accessoryLiabilities: many(accessoryLiabilities),
   tabletHistory: many(tabletHistory),
 }));
 
@@ -181,6 +487,111 @@ export const lostReportsRelations = relations(lostReports, ({ one }) => ({
   }),
 }));
 
+export const reservationsRelations = relations(reservations, ({ one }) => ({
+  student: one(students, {
+    fields: [reservations.studentId],
+    references: [students.id],
+  }),
+  tablet: one(tablets, {
+    fields: [reservations.tabletId],
+    references: [tablets.id],
+  }),
+  borrowRecord: one(borrowRecords, {
+    fields: [reservations.borrowRecordId],
+    references: [borrowRecords.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  student: one(students, {
+    fields: [notifications.studentId],
+    references: [students.id],
+  }),
+  borrowRecord: one(borrowRecords, {
+    fields: [notifications.borrowRecordId],
+    references: [borrowRecords.id],
+  }),
+  lostReport: one(lostReports, {
+    fields: [notifications.lostReportId],
+    references: [lostReports.id],
+  }),
+}));
+
+export const accessoryLiabilitiesRelations = relations(accessoryLiabilities, ({ one }) => ({
+  student: one(students, {
+    fields: [accessoryLiabilities.studentId],
+    references: [students.id],
+  }),
+  borrowRecord: one(borrowRecords, {
+    fields: [accessoryLiabilities.borrowRecordId],
+    references: [borrowRecords.id],
+  }),
+  tablet: one(tablets, {
+    fields: [accessoryLiabilities.tabletId],
+    references: [tablets.id],
+  }),
+}));
+
+export const repairTicketsRelations = relations(repairTickets, ({ one }) => ({
+  tablet: one(tablets, {
+    fields: [repairTickets.tabletId],
+    references: [tablets.id],
+  }),
+  borrowRecord: one(borrowRecords, {
+    fields: [repairTickets.borrowRecordId],
+    references: [borrowRecords.id],
+  }),
+}));
+
+export const studentLedgerEntriesRelations = relations(studentLedgerEntries, ({ one }) => ({
+  student: one(students, {
+    fields: [studentLedgerEntries.studentId],
+    references: [students.id],
+  }),
+  tablet: one(tablets, {
+    fields: [studentLedgerEntries.tabletId],
+    references: [tablets.id],
+  }),
+  borrowRecord: one(borrowRecords, {
+    fields: [studentLedgerEntries.borrowRecordId],
+    references: [borrowRecords.id],
+  }),
+  lostReport: one(lostReports, {
+    fields: [studentLedgerEntries.lostReportId],
+    references: [lostReports.id],
+  }),
+  accessoryLiability: one(accessoryLiabilities, {
+    fields: [studentLedgerEntries.accessoryLiabilityId],
+    references: [accessoryLiabilities.id],
+  }),
+  repairTicket: one(repairTickets, {
+    fields: [studentLedgerEntries.repairTicketId],
+    references: [repairTickets.id],
+  }),
+}));
+
+export const clearanceCertificatesRelations = relations(clearanceCertificates, ({ one }) => ({
+  student: one(students, {
+    fields: [clearanceCertificates.studentId],
+    references: [students.id],
+  }),
+}));
+
+export const inventorySessionsRelations = relations(inventorySessions, ({ many }) => ({
+  counts: many(inventoryCounts),
+}));
+
+export const inventoryCountsRelations = relations(inventoryCounts, ({ one }) => ({
+  session: one(inventorySessions, {
+    fields: [inventoryCounts.sessionId],
+    references: [inventorySessions.id],
+  }),
+  tablet: one(tablets, {
+    fields: [inventoryCounts.tabletId],
+    references: [tablets.id],
+  }),
+}));
+
 export const tabletHistoryRelations = relations(tabletHistory, ({ one }) => ({
   tablet: one(tablets, {
     fields: [tabletHistory.tabletId],
@@ -212,7 +623,15 @@ const baseInsertBorrowRecordSchema = createInsertSchema(borrowRecords)
     isReturned: true, 
     returnDate: true, 
     returnCondition: true, 
-    returnNotes: true 
+    returnNotes: true,
+    returnedAccessories: true,
+    escalationLevel: true,
+    recallRequestedAt: true,
+    agreementStatus: true,
+    signedAgreementPath: true,
+    agreementSignedAt: true,
+    agreementVerifiedAt: true,
+    agreementVerifiedBy: true
   });
 
 export const insertBorrowRecordSchema = baseInsertBorrowRecordSchema.extend({
@@ -254,6 +673,13 @@ export const selectBorrowRecordSchema = createSelectSchema(borrowRecords);
 export const insertLostReportSchema = createInsertSchema(lostReports).omit({ id: true, createdAt: true, updatedAt: true });
 export const selectLostReportSchema = createSelectSchema(lostReports);
 
+// Which accessories go out with, or come back with, a tablet
+export const accessoriesSchema = z.object({
+  charger: z.boolean().default(false),
+  cable: z.boolean().default(false),
+  box: z.boolean().default(false),
+});
+
 export const updateBorrowRecordForReturnSchema = z.object({
   isReturned: z.boolean(),
   returnDate: z.preprocess((arg) => {
@@ -262,24 +688,321 @@ export const updateBorrowRecordForReturnSchema = z.object({
   }, z.date()), // Allow string or date, then convert to Date
   returnCondition: z.enum(tabletConditionEnum.enumValues),
   returnNotes: z.string().optional(),
+  // Omitted by older clients, in which case everything borrowed is treated as returned
+  returnedAccessories: accessoriesSchema.optional(),
 });
 
+// A mass collection: every tablet comes back on the same date, each with its own condition and accessories
+export const bulkReturnSchema = z.object({
+  returnDate: z.preprocess((arg) => {
+    if (typeof arg === "string" || arg instanceof Date) return new Date(arg);
+    return arg;
+  }, z.date()),
+  items: z.array(z.object({
+    borrowRecordId: z.number().int(),
+    returnCondition: z.enum(tabletConditionEnum.enumValues),
+    returnNotes: z.string().optional(),
+    returnedAccessories: accessoriesSchema.optional(),
+  })).min(1, "Scan at least one tablet").max(500),
+});
+
+// A distribution-day batch: the details every borrowing shares plus the student/tablet pairs
+export const bulkBorrowSchema = z.object({
+  pairs: z.array(z.object({
+    studentId: z.number().int(),
+    tabletId: z.number().int(),
+  })).min(1, "Add at least one student and tablet pair").max(500),
+  dateBorrowed: z.coerce.date(),
+  expectedReturnDate: z.string().date().nullable().optional(),
+  termId: z.number().int().nullable().optional(),
+  condition: z.enum(tabletConditionEnum.enumValues).optional(), // Each tablet's recorded condition when omitted
+  accessories: accessoriesSchema,
+  notes: z.string().nullable().optional(),
+});
+
+export const repairPartSchema = z.object({
+  name: z.string().trim().min(1, "Part name is required"),
+  quantity: z.number().int().min(1),
+  unitCost: z.number().min(0),
+});
+
+export const insertRepairTicketSchema = z.object({
+  tabletId: z.number().int(),
+  reportedCondition: z.enum(tabletConditionEnum.enumValues),
+  description: z.string().optional(),
+});
+
+export const updateRepairTicketSchema = z.object({
+  status: z.enum(['Open', 'In Progress']).optional(),
+  technicianNotes: z.string().optional().nullable(),
+  parts: z.array(repairPartSchema).optional(),
+  cost: z.number().min(0).optional().nullable(),
+});
+
+export const closeRepairTicketSchema = updateRepairTicketSchema.omit({ status: true }).extend({
+  resolvedCondition: z.enum(tabletConditionEnum.enumValues),
+});
+
+export const replacementValueSchema = z.object({
+  brand: z.string().trim().min(1, "Brand is required"),
+  model: z.string().trim().min(1, "Model is required"),
+  tabletValue: z.number().min(0),
+  chargerValue: z.number().min(0).default(0),
+  cableValue: z.number().min(0).default(0),
+  boxValue: z.number().min(0).default(0),
+});
+
+export const deviceModelSchema = z.object({
+  brand: z.string().trim().min(1, "Brand is required"),
+  model: z.string().trim().min(1, "Model is required"),
+  storage: z.string().trim().optional().nullable(),
+  releaseYear: z.number().int().min(2000).max(2100).optional().nullable(),
+  replacementCost: z.number().min(0).optional().nullable(),
+  warrantyMonths: z.number().int().min(0).optional().nullable(),
+});
+
+export const mergeDeviceModelSchema = z.object({
+  targetId: z.number().int(),
+});
+
+// Dates stay as yyyy-MM-dd strings, matching the date columns
+export const procurementBatchSchema = z.object({
+  poNumber: z.string().trim().min(1, "PO number is required"),
+  supplier: z.string().trim().min(1, "Supplier is required"),
+  purchaseDate: z.string().date("Purchase date must be a valid date (YYYY-MM-DD)"),
+  unitCost: z.number().min(0).optional().nullable(),
+  warrantyExpiry: z.preprocess(
+    (arg) => (arg === "" ? null : arg),
+    z.string().date("Warranty expiry must be a valid date (YYYY-MM-DD)").optional().nullable()
+  ),
+  notes: z.string().optional().nullable(),
+});
+
+// Dates stay as yyyy-MM-dd strings, matching the date columns
+export const academicTermSchema = z.object({
+  name: z.string().trim().min(1, "Term name is required"),
+  startDate: z.string().date("Start date must be a valid date (YYYY-MM-DD)"),
+  endDate: z.string().date("End date must be a valid date (YYYY-MM-DD)"),
+}).refine(term => term.endDate > term.startDate, {
+  message: "The term must end after it starts",
+  path: ["endDate"],
+});
+
+// Borrowings picked from a rollover preview; anything left out is not touched
+export const termRolloverSchema = z.object({
+  toTermId: z.number().int(),
+  extendIds: z.array(z.number().int()).default([]),
+  recallIds: z.array(z.number().int()).default([]),
+});
+
+export const campusSchema = z.object({
+  code: z.string().trim().min(1, "Campus code is required").transform(code => code.toUpperCase()),
+  name: z.string().trim().min(1, "Campus name is required"),
+  address: z.string().trim().optional().nullable(),
+  isActive: z.boolean().optional(),
+});
+
+// Send one or more tablets to another campus; they stay unavailable until received there
+export const dispatchTransferSchema = z.object({
+  tabletIds: z.array(z.number().int()).min(1, "Choose at least one tablet"),
+  toCampusId: z.number().int(),
+  notes: z.string().optional().nullable(),
+});
+
+// A charge, payment or waiver entered by staff on a student's ledger
+export const insertLedgerEntrySchema = z.object({
+  entryType: z.enum(ledgerEntryTypeEnum.enumValues),
+  amount: z.number().positive("Amount must be greater than zero"),
+  description: z.string().trim().min(1, "Description is required"),
+  referenceNo: z.string().trim().optional().nullable(),
+  borrowRecordId: z.number().int().optional().nullable(),
+  lostReportId: z.number().int().optional().nullable(),
+  repairTicketId: z.number().int().optional().nullable(),
+  entryDate: z.preprocess((arg) => {
+    if (typeof arg === "string" && arg !== "") return new Date(arg);
+    if (arg === "") return undefined;
+    return arg;
+  }, z.date().optional()),
+});
+
+// Evaluate, and certify where cleared, every student in a program and/or year level
+export const bulkClearanceSchema = z.object({
+  programName: z.string().trim().min(1).optional(),
+  yearLevel: z.number().int().min(1).optional(),
+}).refine(data => data.programName || data.yearLevel, {
+  message: "Choose a program or a year level",
+});
+
+export const insertInventorySessionSchema = z.object({
+  name: z.string().trim().min(1, "Session name is required"),
+  notes: z.string().optional().nullable(),
+  campusId: z.number().int().optional().nullable(),
+});
+
+// A tablet ticked or scanned as found during a stock-take
+export const inventoryCountSchema = z.object({
+  tabletId: z.number().int(),
+  conditionFound: z.enum(tabletConditionEnum.enumValues).optional().nullable(),
+  notes: z.string().optional().nullable(),
+});
+
+// Hand back accessories that were missing when the tablet itself was returned
+export const accessoryReturnSchema = z.object({
+  accessories: z.array(z.enum(accessoryEnum.enumValues)).min(1, "Select at least one accessory"),
+  returnDate: z.preprocess((arg) => {
+    if (typeof arg === "string" || arg instanceof Date) return new Date(arg);
+    return arg;
+  }, z.date()).optional(),
+  notes: z.string().optional(),
+});
+
+export const insertReservationSchema = createInsertSchema(reservations)
+  .omit({
+    id: true,
+    status: true,
+    tabletId: true,
+    assignedAt: true,
+    borrowRecordId: true,
+    createdAt: true,
+    updatedAt: true
+  })
+  .extend({
+    priority: z.number().int().min(0).default(0),
+    expiresAt: z.preprocess((arg) => {
+      if (typeof arg === "string" && arg !== "") return new Date(arg);
+      if (arg === "") return null;
+      return arg;
+    }, z.date().nullable().optional()),
+  });
+
+// Optional details supplied when a reservation is turned into a borrowing
+export const convertReservationSchema = z.object({
+  expectedReturnDate: z.preprocess((arg) => {
+    if (typeof arg === "string" && arg !== "") return new Date(arg);
+    if (arg === "") return undefined;
+    return arg;
+  }, z.date().optional()),
+  notes: z.string().optional(),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  nextAttemptAt: true,
+  sentAt: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const insertStaffUserSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  fullName: z.string().trim().optional().nullable(),
+  role: z.enum(staffRoleEnum.enumValues),
+  campusId: z.number().int().optional().nullable(),
+});
+
+export const updateStaffUserSchema = z.object({
+  fullName: z.string().trim().nullable(),
+  role: z.enum(staffRoleEnum.enumValues),
+  campusId: z.number().int().nullable(),
+  isActive: z.boolean(),
+}).partial();
+
 // Define types
 export type Student = typeof students.$inferSelect;
 export type InsertStudent = z.infer<typeof insertStudentSchema>;
 
 export type Tablet = typeof tablets.$inferSelect;
+export type TabletStatus = typeof tabletStatusEnum.enumValues[number];
+export type TabletCondition = typeof tabletConditionEnum.enumValues[number];
 export type InsertTablet = z.infer<typeof insertTabletSchema>;
 
 export type BorrowRecord = typeof borrowRecords.$inferSelect;
 export type InsertBorrowRecord = z.infer<typeof insertBorrowRecordSchema>;
 export type UpdateBorrowRecordForReturn = z.infer<typeof updateBorrowRecordForReturnSchema>;
+export type BulkBorrow = z.infer<typeof bulkBorrowSchema>;
+export type BulkReturn = z.infer<typeof bulkReturnSchema>;
+export type OverdueLevel = typeof overdueLevelEnum.enumValues[number];
+export type AgreementStatus = typeof agreementStatusEnum.enumValues[number];
+export type Accessories = z.infer<typeof accessoriesSchema>;
+export type Accessory = typeof accessoryEnum.enumValues[number];
+export type AccessoryLiability = typeof accessoryLiabilities.$inferSelect;
+export type AccessoryReturn = z.infer<typeof accessoryReturnSchema>;
+export type RepairTicket = typeof repairTickets.$inferSelect;
+export type RepairTicketStatus = typeof repairTicketStatusEnum.enumValues[number];
+export type RepairPart = z.infer<typeof repairPartSchema>;
+export type InsertRepairTicket = z.infer<typeof insertRepairTicketSchema>;
+export type UpdateRepairTicket = z.infer<typeof updateRepairTicketSchema>;
+export type CloseRepairTicket = z.infer<typeof closeRepairTicketSchema>;
+
+export type StudentImportMapping = typeof studentImportMappings.$inferSelect;
+
+export type AcademicTerm = typeof academicTerms.$inferSelect;
+export type InsertAcademicTerm = z.infer<typeof academicTermSchema>;
+export type TermRollover = z.infer<typeof termRolloverSchema>;
+
+export type Campus = typeof campuses.$inferSelect;
+export type InsertCampus = z.infer<typeof campusSchema>;
+export type TabletTransfer = typeof tabletTransfers.$inferSelect;
+export type TransferStatus = typeof transferStatusEnum.enumValues[number];
+export type DispatchTransfer = z.infer<typeof dispatchTransferSchema>;
+
+export type ReplacementValue = typeof replacementValues.$inferSelect;
+export type InsertReplacementValue = z.infer<typeof replacementValueSchema>;
+export type DeviceModel = typeof deviceModels.$inferSelect;
+export type InsertDeviceModel = z.infer<typeof deviceModelSchema>;
+export type ProcurementBatch = typeof procurementBatches.$inferSelect;
+export type InsertProcurementBatch = z.infer<typeof procurementBatchSchema>;
+// An imported tablet row, optionally carrying the purchase order it arrived under
+export type ImportTablet = InsertTablet & { procurement?: InsertProcurementBatch | null };
+export type LedgerEntry = typeof studentLedgerEntries.$inferSelect;
+export type LedgerEntryType = typeof ledgerEntryTypeEnum.enumValues[number];
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+
+export type ClearanceCertificate = typeof clearanceCertificates.$inferSelect;
+export type BulkClearance = z.infer<typeof bulkClearanceSchema>;
+
+export type InventorySession = typeof inventorySessions.$inferSelect;
+export type InventorySessionStatus = typeof inventorySessionStatusEnum.enumValues[number];
+export type InsertInventorySession = z.infer<typeof insertInventorySessionSchema>;
+export type InventoryCount = typeof inventoryCounts.$inferSelect;
+export type InsertInventoryCount = z.infer<typeof inventoryCountSchema>;
 
 export type LostReport = typeof lostReports.$inferSelect;
 export type InsertLostReport = z.infer<typeof insertLostReportSchema>;
 
 export type TabletHistory = typeof tabletHistory.$inferSelect;
 
+export type Reservation = typeof reservations.$inferSelect;
+export type InsertReservation = z.infer<typeof insertReservationSchema>;
+export type ReservationStatus = typeof reservationStatusEnum.enumValues[number];
+export type ConvertReservation = z.infer<typeof convertReservationSchema>;
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationTemplate = typeof notificationTemplateEnum.enumValues[number];
+
+export type Admin = typeof admin.$inferSelect;
+export type StaffRole = typeof staffRoleEnum.enumValues[number];
+export type StaffUser = Omit<Admin, "passwordHash">;
+export type InsertStaffUser = z.infer<typeof insertStaffUserSchema>;
+export type UpdateStaffUser = z.infer<typeof updateStaffUserSchema>;
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type AuditAction = typeof auditActionEnum.enumValues[number];
+export type AuditEntityType = 'student' | 'tablet' | 'borrow_record' | 'lost_report' | 'reservation' | 'accessory_liability' | 'repair_ticket' | 'ledger_entry' | 'replacement_value' | 'clearance_certificate' | 'inventory_session' | 'device_model' | 'procurement_batch' | 'campus' | 'tablet_transfer' | 'academic_term' | 'student_import_mapping' | 'inventory_count' | 'staff_user' | 'notification';
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Who is making a change, passed from the route down to the storage layer
+export type AuditContext = {
+  actorId: number | null;
+  actorUsername: string | null;
+  ipAddress: string | null;
+};
+
 // Extended types for frontend use
 export type TabletWithBorrowInfo = Tablet & {
   currentBorrower?: {
@@ -289,11 +1012,237 @@ export type TabletWithBorrowInfo = Tablet & {
   };
 };
 
+// Catalog entry with a per-status breakdown of the tablets that use it
+export type DeviceModelWithStats = DeviceModel & {
+  totalUnits: number;
+  serviceableUnits: number;
+  unserviceableUnits: number;
+  lostUnits: number;
+  borrowedUnits: number;
+};
+
+export type AcademicTermWithStats = AcademicTerm & {
+  activeBorrowings: number;
+  totalBorrowings: number;
+};
+
+// What a rollover would do to one active borrowing of the term being closed
+export type TermRolloverCandidate = {
+  borrowRecord: BorrowRecordWithDetails;
+  action: 'extend' | 'recall';
+  reason: string;
+};
+
+export type TermRolloverPreview = {
+  fromTerm: AcademicTerm;
+  toTerm: AcademicTerm;
+  candidates: TermRolloverCandidate[];
+};
+
+// Ids of the borrow records the rollover changed
+export type TermRolloverResult = {
+  extended: number[];
+  recalled: number[];
+};
+
+export type CampusWithStats = Campus & {
+  tabletCount: number;
+  availableCount: number;
+  incomingCount: number; // Tablets in transit to this campus
+  staffCount: number;
+};
+
+export type TabletTransferWithDetails = TabletTransfer & {
+  tablet: Tablet;
+  fromCampus: Campus | null;
+  toCampus: Campus;
+  dispatchedByName: string | null;
+  receivedByName: string | null;
+};
+
+export type ProcurementBatchWithStats = ProcurementBatch & {
+  tabletCount: number;
+};
+
+// A tablet whose warranty runs out within the report window
+export type WarrantyExpiringTablet = {
+  tablet: Tablet;
+  batch: ProcurementBatch;
+  deviceModel: DeviceModel | null;
+  warrantyExpiry: string;
+  daysRemaining: number;
+};
+
 export type BorrowRecordWithDetails = BorrowRecord & {
   tablet: Tablet;
   student: Student;
 };
 
+// A tablet found by scanning its asset label
+export type TabletScanResult = TabletWithBorrowInfo & {
+  activeBorrowRecord: BorrowRecordWithDetails | null;
+  isAvailable: boolean;
+};
+
+// A field of an existing student that the enrollment file changes
+export type StudentFieldChange = {
+  field: keyof InsertStudent;
+  from: unknown;
+  to: unknown;
+};
+
+// A row of the enrollment file that cannot be used, numbered as in the file (header is row 1)
+export type EnrollmentSyncInvalidRow = {
+  row: number;
+  studentId: string;
+  message: string;
+};
+
+// What syncing an enrollment file does to the student records; previewed before it is applied
+export type EnrollmentSyncReport = {
+  total: number; // Rows in the file
+  additions: InsertStudent[];
+  changes: { student: Student; changes: StudentFieldChange[] }[];
+  departures: Student[]; // Enrolled students missing from the file, marked not enrolled
+  unchanged: number;
+  invalid: EnrollmentSyncInvalidRow[];
+};
+
+// Matches from the global search, best match first in each section
+export type GlobalSearchResults = {
+  students: Student[];
+  tablets: Tablet[];
+  borrowRecords: BorrowRecordWithDetails[];
+};
+
+// Why one pair of a bulk borrowing cannot be lent; index is its position in the batch
+export type BulkBorrowIssue = {
+  index: number;
+  studentId: number;
+  tabletId: number;
+  message: string;
+};
+
+// Either every pair was lent or nothing was, and issues says why
+export type BulkBorrowResult = {
+  created: BorrowRecord[];
+  issues: BulkBorrowIssue[];
+};
+
+// Outcome of one return in a mass collection; each is processed on its own, so some may fail
+export type BulkReturnItemResult = {
+  borrowRecordId: number;
+  success: boolean;
+  message: string | null;
+};
+
+// One row of an uploaded distribution list, matched to its student and, if given, its tablet
+export type BulkBorrowCsvRow = {
+  row: number;
+  student: Student | null;
+  tablet: Tablet | null;
+  error: string | null;
+};
+
+export type OverdueBorrowRecord = BorrowRecordWithDetails & {
+  overdueLevel: OverdueLevel;
+  daysPastDue: number; // Negative while the borrowing is only due soon
+};
+
+export type DashboardStats = {
+  totalTablets: number;
+  totalStudents: number;
+  borrowedTablets: number;
+  lostTablets: number;
+  dueSoonBorrowings: number;
+  overdueBorrowings: number;
+  seriouslyOverdueBorrowings: number;
+};
+
 export type StudentWithBorrowInfo = Student & {
   activeBorrowings: number;
 };
+
+export type ReservationWithDetails = Reservation & {
+  student: Student;
+  tablet: Tablet | null;
+  queuePosition: number | null; // Place in the waitlist while the reservation is waiting
+};
+
+export type RepairTicketWithDetails = RepairTicket & {
+  tablet: Tablet;
+};
+
+export type AccessoryLiabilityWithDetails = AccessoryLiability & {
+  student: Student;
+  tablet: Tablet;
+};
+
+export type ClearanceStatus = 'Cleared' | 'Not Cleared';
+
+// What a student still owes the lending office, in money and in items
+export type StudentAccountability = {
+  student: Student;
+  totalCharges: number;
+  totalPayments: number;
+  totalWaivers: number;
+  balance: number; // Charges less payments and waivers
+  activeBorrowings: number;
+  outstandingAccessories: number;
+  unresolvedLostReports: number; // Lost tablets not yet billed, or billed but not settled
+  clearanceStatus: ClearanceStatus;
+};
+
+export type StudentLedger = StudentAccountability & {
+  entries: LedgerEntry[];
+};
+
+export type ClearanceIssue = {
+  type: 'active_borrowing' | 'unresolved_lost_report' | 'missing_accessory' | 'unpaid_balance';
+  description: string;
+};
+
+// The outcome of a clearance check, with the certificate issued if the student was cleared
+export type StudentClearance = StudentAccountability & {
+  issues: ClearanceIssue[];
+  certificate: ClearanceCertificate | null;
+};
+
+export type ClearanceCertificateWithStudent = ClearanceCertificate & {
+  student: Student;
+};
+
+export type InventoryDiscrepancyType = 'missing' | 'found_borrowed' | 'found_lost' | 'condition_mismatch';
+
+export type InventoryDiscrepancy = {
+  type: InventoryDiscrepancyType;
+  tabletId: number;
+  brand: string;
+  model: string;
+  serialNumber: string;
+  recordedStatus: string;
+  recordedCondition: TabletCondition;
+  conditionFound: TabletCondition | null;
+  borrowerName: string | null; // Who the records say has the tablet
+};
+
+// Shelf count against the records
+export type InventoryReconciliation = {
+  expectedOnHand: number; // Tablets the records say should be in storage
+  found: number;
+  foundExpected: number;
+  discrepancies: InventoryDiscrepancy[];
+};
+
+export type InventorySessionSummary = InventorySession & {
+  countedTablets: number;
+};
+
+export type InventoryCountWithTablet = InventoryCount & {
+  tablet: Tablet;
+};
+
+export type InventorySessionWithDetails = InventorySessionSummary & {
+  counts: InventoryCountWithTablet[];
+  reconciliation: InventoryReconciliation; // Live while the session is open
+};
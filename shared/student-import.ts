@@ -0,0 +1,251 @@
+import { z } from "zod";
+import { insertStudentSchema, type InsertStudent } from "./schema";
+
+// Student fields a CSV column can be mapped to, in the order the mapping step lists them
+export const studentImportFieldKeys = [
+  'studentId', 'lastName', 'firstName', 'middleName', 'suffixName', 'fullName',
+  'collegeName', 'programCode', 'programName', 'majorName', 'yearLevel',
+  'dateRegistered', 'dateValidated', 'dateAdmitted', 'academicYearTerm', 'campus', 'studentStatus',
+  'dateOfBirth', 'age', 'placeOfBirth', 'gender', 'civilStatus', 'mobileNo', 'email', 'residenceAddress',
+  'guardianLastName', 'guardianFirstName', 'guardianMiddleName', 'guardianFullName', 'guardianOccupation',
+  'guardianTelNo', 'guardianMobileNo', 'guardianEmail', 'guardianAddress',
+  'notes',
+] as const;
+export type StudentImportFieldKey = typeof studentImportFieldKeys[number];
+
+export type StudentImportFieldType = 'text' | 'integer' | 'date';
+
+type StudentImportField = {
+  label: string;
+  type: StudentImportFieldType;
+  required?: boolean;
+  aliases: string[]; // Headers matched without a saved mapping, besides the field name itself
+  fallback?: {
+    label: string; // Shown in the mapping step
+    value: (student: Partial<InsertStudent>) => unknown;
+  };
+};
+
+export const studentImportFields: Record<StudentImportFieldKey, StudentImportField> = {
+  studentId: { label: "Student No.", type: 'text', required: true, aliases: ["Student No.", "Student Number", "ID Number"] },
+  lastName: { label: "Last Name", type: 'text', required: true, aliases: ["Last Name", "Surname"] },
+  firstName: { label: "First Name", type: 'text', required: true, aliases: ["First Name", "Given Name"] },
+  middleName: { label: "Middle Name", type: 'text', aliases: ["Middle Name"] },
+  suffixName: { label: "Suffix Name", type: 'text', aliases: ["Suffix Name", "Suffix"] },
+  fullName: {
+    label: "Full Name",
+    type: 'text',
+    required: true,
+    aliases: ["Full Name", "name"],
+    fallback: {
+      label: "First, middle and last name",
+      value: student => [student.firstName, student.middleName, student.lastName].filter(Boolean).join(" ") || null,
+    },
+  },
+  collegeName: { label: "College Name", type: 'text', aliases: ["College Name", "College"] },
+  programCode: { label: "Program Code", type: 'text', aliases: ["Program Code"] },
+  programName: { label: "Program Name", type: 'text', required: true, aliases: ["Program Name", "Program", "course"] },
+  majorName: { label: "Major Name", type: 'text', aliases: ["Major Name", "major"] },
+  yearLevel: { label: "Year Level", type: 'integer', required: true, aliases: ["Year Level", "Year"] },
+  dateRegistered: {
+    label: "Registration Date",
+    type: 'date',
+    required: true,
+    aliases: ["Registration Date", "Date Registered"],
+    fallback: { label: "Today", value: () => new Date() },
+  },
+  dateValidated: { label: "Validation Date", type: 'date', aliases: ["Validation Date", "Date Validated"] },
+  dateAdmitted: { label: "Date Admitted", type: 'date', aliases: ["Date Admitted"] },
+  academicYearTerm: {
+    label: "Academic Year and Term",
+    type: 'text',
+    aliases: ["Academic Year and Term", "Academic Year & Term", "Academic Year Term"],
+  },
+  campus: { label: "Campus", type: 'text', aliases: ["Campus"] },
+  studentStatus: {
+    label: "Student Status",
+    type: 'text',
+    required: true,
+    aliases: ["Student Status", "studentType", "Student Type"],
+    fallback: { label: "Regular", value: () => "Regular" },
+  },
+  dateOfBirth: { label: "Date Of Birth", type: 'date', aliases: ["Date Of Birth", "Birth Date", "Birthday"] },
+  age: { label: "Age", type: 'integer', aliases: ["Age"] },
+  placeOfBirth: { label: "Place Of Birth", type: 'text', aliases: ["Place Of Birth", "Birthplace"] },
+  gender: {
+    label: "Gender",
+    type: 'text',
+    required: true,
+    aliases: ["Gender", "Sex"],
+    fallback: { label: "Undisclosed", value: () => "Undisclosed" },
+  },
+  civilStatus: { label: "Civil Status", type: 'text', aliases: ["Civil Status"] },
+  mobileNo: { label: "Mobile No.", type: 'text', aliases: ["Mobile No.", "Mobile Number", "phone"] },
+  email: { label: "Email", type: 'text', aliases: ["Email", "Email Address"] },
+  residenceAddress: { label: "Residence Address", type: 'text', aliases: ["Residence Address", "Address"] },
+  guardianLastName: { label: "Guardian Last Name", type: 'text', aliases: ["Guardian Last Name"] },
+  guardianFirstName: { label: "Guardian First Name", type: 'text', aliases: ["Guardian First Name"] },
+  guardianMiddleName: { label: "Guardian Middle Name", type: 'text', aliases: ["Guardian Middle Name"] },
+  guardianFullName: { label: "Guardian Full Name", type: 'text', aliases: ["Guardian Full Name", "Guardian Name", "Guardian"] },
+  guardianOccupation: { label: "Guardian Occupation", type: 'text', aliases: ["Guardian Occupation"] },
+  guardianTelNo: { label: "Guardian Tel No.", type: 'text', aliases: ["Guardian Tel No."] },
+  guardianMobileNo: { label: "Guardian Mobile No.", type: 'text', aliases: ["Guardian Mobile No."] },
+  guardianEmail: { label: "Guardian Email", type: 'text', aliases: ["Guardian Email"] },
+  guardianAddress: { label: "Guardian Address", type: 'text', aliases: ["Guardian Address"] },
+  notes: { label: "Notes", type: 'text', aliases: ["Notes", "Remarks"] },
+};
+
+// Which CSV header each student field is read from; fields left out are not imported
+export const studentColumnMappingSchema = z.record(z.enum(studentImportFieldKeys), z.string().min(1));
+export type StudentColumnMapping = z.infer<typeof studentColumnMappingSchema>;
+
+// A named column mapping saved for reuse, e.g. one per registrar export layout
+export const studentImportMappingSchema = z.object({
+  name: z.string().trim().min(1, "Mapping name is required"),
+  mapping: studentColumnMappingSchema,
+});
+export type InsertStudentImportMapping = z.infer<typeof studentImportMappingSchema>;
+
+// A problem with one value of a row, or with the row as a whole when field is null
+export type StudentImportIssue = {
+  field: StudentImportFieldKey | null;
+  message: string;
+};
+
+// A row that cannot be imported, numbered as in the file (header is row 1)
+export type StudentImportInvalidRow = {
+  row: number;
+  studentId: string;
+  issues: StudentImportIssue[];
+};
+
+// What importing a file under a column mapping would do; nothing is saved until confirmed
+export type StudentImportAnalysis = {
+  total: number; // Rows in the file
+  new: number; // Valid rows whose student number is not on record yet
+  duplicates: { studentId: string; fullName: string }[];
+  invalid: StudentImportInvalidRow[];
+};
+
+// The headers of an uploaded file with its first rows, for building a column mapping
+export type StudentImportColumns = {
+  headers: string[];
+  sampleRows: Record<string, string>[];
+  total: number;
+  suggestedMapping: StudentColumnMapping;
+};
+
+// Headers are compared ignoring case, spacing and punctuation, e.g. "Student No." and "studentno"
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * The mapping used when staff have not chosen one: each field reads the first header matching its
+ * name or one of its aliases
+ */
+export function suggestColumnMapping(headers: string[]): StudentColumnMapping {
+  const mapping: StudentColumnMapping = {};
+  const used = new Set<string>();
+  studentImportFieldKeys.forEach(field => {
+    const candidates = [field, ...studentImportFields[field].aliases].map(normalizeHeader);
+    const header = headers.find(h => !used.has(h) && candidates.includes(normalizeHeader(h)));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  });
+  return mapping;
+}
+
+// Days between Excel's day zero and 1970-01-01, for spreadsheet serial dates such as 43990
+const excelEpochOffset = 25569;
+
+/**
+ * A date from a registrar export: ISO dates, m/d/yy or m/d/yyyy, or a spreadsheet serial number.
+ * Placeholders such as 0000-00-00 count as no date; anything else unreadable or outside
+ * 1900-2100 is undefined.
+ */
+export function parseImportDate(value: string): Date | null | undefined {
+  if (value === '' || /^0000-00-00/.test(value) || value.includes('+043990')) return null;
+
+  let parsed: Date;
+  const slashed = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (/^\d{5}(\.\d+)?$/.test(value)) {
+    parsed = new Date(Math.round((parseFloat(value) - excelEpochOffset) * 86400000));
+  } else if (slashed) {
+    const [, month, day, year] = slashed.map(Number);
+    if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+    const fullYear = slashed[3].length === 2 ? (year < 50 ? 2000 + year : 1900 + year) : year;
+    parsed = new Date(Date.UTC(fullYear, month - 1, day));
+  } else {
+    parsed = new Date(value);
+  }
+
+  if (isNaN(parsed.getTime()) || parsed.getFullYear() < 1900 || parsed.getFullYear() > 2100) return undefined;
+  return parsed;
+}
+
+/**
+ * A CSV row converted to student values under the mapping. Numbers are read from the start of
+ * the cell ("2nd Year - Baccalaureate" is 2), blank cells become null and unmapped fields with a
+ * fallback take it. Cells that cannot be converted are reported instead of being dropped.
+ */
+export function coerceStudentRow(record: Record<string, string>, mapping: StudentColumnMapping) {
+  const student: Record<string, unknown> = {};
+  const issues: StudentImportIssue[] = [];
+
+  studentImportFieldKeys.forEach(field => {
+    const { label, type } = studentImportFields[field];
+    const header = mapping[field];
+    const raw = header ? (record[header] ?? '').trim() : '';
+    if (raw === '') {
+      student[field] = null;
+    } else if (type === 'integer') {
+      const match = raw.match(/-?\d+/);
+      student[field] = match ? parseInt(match[0]) : null;
+      if (!match) issues.push({ field, message: `${label} "${raw}" is not a number` });
+    } else if (type === 'date') {
+      const date = parseImportDate(raw);
+      student[field] = date ?? null;
+      if (date === undefined) issues.push({ field, message: `${label} "${raw}" is not a date` });
+    } else {
+      student[field] = raw;
+    }
+  });
+
+  studentImportFieldKeys.forEach(field => {
+    const { fallback } = studentImportFields[field];
+    if (fallback && student[field] === null) student[field] = fallback.value(student as Partial<InsertStudent>);
+  });
+
+  return { student: student as Partial<InsertStudent>, issues };
+}
+
+/**
+ * A CSV row as a student ready to insert, or every reason it cannot be: cells that could not be
+ * converted, required fields left blank and anything else insertStudentSchema rejects
+ */
+export function validateStudentRow(
+  record: Record<string, string>,
+  mapping: StudentColumnMapping,
+): { student?: InsertStudent; issues: StudentImportIssue[] } {
+  const { student, issues } = coerceStudentRow(record, mapping);
+
+  studentImportFieldKeys.forEach(field => {
+    const { label, required } = studentImportFields[field];
+    if (required && student[field] === null && !issues.some(issue => issue.field === field)) {
+      issues.push({ field, message: mapping[field] ? `${label} is blank` : `${label} is not mapped to a column` });
+    }
+  });
+  if (issues.length > 0) return { issues };
+
+  const result = insertStudentSchema.safeParse(student);
+  if (!result.success) {
+    return {
+      issues: result.error.errors.map(issue => {
+        const field = studentImportFieldKeys.find(key => key === issue.path[0]) ?? null;
+        return { field, message: `${field ? studentImportFields[field].label : issue.path.join(".")}: ${issue.message}` };
+      }),
+    };
+  }
+  return { student: result.data, issues: [] };
+}
@@ -0,0 +1,20 @@
+import type { AcademicTerm, Student } from "./schema";
+
+// Term names are compared ignoring case and spacing, since the registrar's exports are not consistent
+export const normalizeTermName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * The term a date (yyyy-MM-dd) falls in, or the next one to start when it falls between terms
+ */
+export function termForDate<T extends Pick<AcademicTerm, 'startDate' | 'endDate'>>(terms: T[], date: string): T | undefined {
+  const sorted = [...terms].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  return sorted.find(term => term.startDate <= date && date <= term.endDate)
+    ?? sorted.find(term => term.startDate > date);
+}
+
+/**
+ * Whether the student's enrollment on record is for the given term
+ */
+export function isEnrolledIn(student: Pick<Student, 'academicYearTerm'>, term: Pick<AcademicTerm, 'name'>): boolean {
+  return !!student.academicYearTerm && normalizeTermName(student.academicYearTerm) === normalizeTermName(term.name);
+}
@@ -0,0 +1,16 @@
+import { addMonths, format, parseISO } from "date-fns";
+import type { DeviceModel, ProcurementBatch } from "./schema";
+
+/**
+ * The date a tablet's warranty ends, as yyyy-MM-dd. A date set on the batch wins; otherwise
+ * the model's warranty period runs from the purchase date. Null when neither is known.
+ */
+export function warrantyExpiryFor(
+  batch: Pick<ProcurementBatch, 'purchaseDate' | 'warrantyExpiry'> | null | undefined,
+  deviceModel: Pick<DeviceModel, 'warrantyMonths'> | null | undefined
+): string | null {
+  if (!batch) return null;
+  if (batch.warrantyExpiry) return batch.warrantyExpiry;
+  if (deviceModel?.warrantyMonths == null) return null;
+  return format(addMonths(parseISO(batch.purchaseDate), deviceModel.warrantyMonths), 'yyyy-MM-dd');
+}